@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { KeywordClassifier, sortKeywordRules, type KeywordRule } from '@/lib/keywordClassification';
+
+vi.mock('@/lib/supabaseClient', () => ({ supabase: {} }));
+
+let nextId = 0;
+const makeRule = (overrides: Partial<KeywordRule>): KeywordRule => ({
+  id: `rule-${++nextId}`,
+  projectId: 'project-1',
+  classification: 'branded',
+  matchType: 'contains',
+  value: 'acme',
+  isExclusion: false,
+  priority: 0,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+describe('KeywordClassifier', () => {
+  it('lets a higher-priority exclusion block a lower-priority include', () => {
+    const classifier = new KeywordClassifier([
+      makeRule({ value: 'acme', priority: 1 }),
+      makeRule({ value: 'acme careers', isExclusion: true, priority: 10 })
+    ]);
+
+    expect(classifier.classifyType('Acme careers')).toBe('non-branded');
+    expect(classifier.classifyType('acme shoes')).toBe('branded');
+  });
+
+  it('ignores an exclusion ranked below the include that matched', () => {
+    const include = makeRule({ value: 'acme', priority: 10 });
+    const classifier = new KeywordClassifier([
+      include,
+      makeRule({ value: 'acme careers', isExclusion: true, priority: 1 })
+    ]);
+
+    expect(classifier.classifyType('acme careers')).toBe('branded');
+    expect(classifier.findDecidingRule('acme careers', 'branded')).toBe(include);
+  });
+
+  it('checks exclusions before includes of the same priority', () => {
+    const classifier = new KeywordClassifier([
+      makeRule({ classification: 'bofu', value: 'price' }),
+      makeRule({ classification: 'bofu', value: 'free', isExclusion: true })
+    ]);
+
+    expect(classifier.classifyIntentByRules('price free plan')).toBeNull();
+    expect(classifier.classifyIntentByRules('price per seat')).toBe('bofu');
+  });
+
+  it('resolves equal priority by stage before age', () => {
+    const bofu = makeRule({ classification: 'bofu', value: 'buy', createdAt: '2024-01-01T00:00:00Z' });
+    const tofu = makeRule({ classification: 'tofu', value: 'how', createdAt: '2025-01-01T00:00:00Z' });
+    const classifier = new KeywordClassifier([bofu, tofu]);
+
+    expect(classifier.classifyIntent('how to buy shoes')).toBe('tofu');
+    expect(sortKeywordRules([bofu, tofu])).toEqual([tofu, bofu]);
+  });
+
+  it('only excludes the classification the exclusion names', () => {
+    const classifier = new KeywordClassifier([
+      makeRule({ classification: 'tofu', value: 'guide', isExclusion: true, priority: 10 }),
+      makeRule({ classification: 'tofu', value: 'shoes' }),
+      makeRule({ classification: 'mofu', value: 'best' })
+    ]);
+
+    expect(classifier.classifyIntent('best shoes guide')).toBe('mofu');
+  });
+
+  it('falls back to accepted intent labels when no funnel rule matches', () => {
+    const classifier = new KeywordClassifier(
+      [makeRule({ classification: 'bofu', value: 'buy' })],
+      new Map([['running shoes', 'mofu']])
+    );
+
+    expect(classifier.classifyIntent(' Running Shoes ')).toBe('mofu');
+    expect(classifier.classifyIntent('buy running shoes')).toBe('bofu');
+    expect(classifier.classifyIntent('shoe sizes')).toBe('unknown');
+  });
+});
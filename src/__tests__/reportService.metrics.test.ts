@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getLossCause, getVolatilityMetrics } from '@/lib/reportService';
+
+vi.mock('@/lib/supabaseClient', () => ({ supabase: {} }));
+vi.mock('@/lib/gscService', () => ({ gscService: {} }));
+
+const makeDays = (positions: number[]) => positions.map((position, index) => ({
+  query: 'running shoes',
+  date: `2025-01-${String(index + 1).padStart(2, '0')}`,
+  clicks: 10,
+  impressions: 100,
+  ctr: 0.1,
+  position
+}));
+
+describe('getVolatilityMetrics', () => {
+  it('does not count a noisy flip below the move threshold as a direction change', () => {
+    const metrics = getVolatilityMetrics(makeDays([5, 5.3, 5.1, 5.4, 5.2]));
+
+    expect(metrics.directionChanges).toBe(0);
+    expect(metrics.volatilityScore).toBeCloseTo(metrics.stdDev);
+  });
+
+  it('keeps the last real direction across a noisy step', () => {
+    const metrics = getVolatilityMetrics(makeDays([5, 6, 5.8, 7]));
+
+    expect(metrics.directionChanges).toBe(0);
+    expect(metrics.positionChange).toBe(2);
+  });
+
+  it('counts real reversals and scales the score by them', () => {
+    const metrics = getVolatilityMetrics(makeDays([5, 7, 5, 7, 5]));
+
+    expect(metrics.directionChanges).toBe(3);
+    expect(metrics.maxSwing).toBe(2);
+    expect(metrics.daysTracked).toBe(5);
+    expect(metrics.volatilityScore).toBeCloseTo(metrics.stdDev * (1 + 3 / 4));
+  });
+
+  it('weights the spread by impressions', () => {
+    const days = makeDays([4, 10]);
+    days[0].impressions = 900;
+
+    const metrics = getVolatilityMetrics(days);
+
+    expect(metrics.stdDev).toBeCloseTo(Math.sqrt(0.9 * 0.6 ** 2 + 0.1 * 5.4 ** 2));
+  });
+});
+
+describe('getLossCause', () => {
+  const previous = { clicks: 100, impressions: 1000, ctr: 0.1, position: 4 };
+
+  it('blames rankings when the page dropped out of the results', () => {
+    expect(getLossCause({ clicks: 0, impressions: 0, ctr: 0, position: 0 }, previous)).toBe('ranking_loss');
+  });
+
+  it('blames rankings when the page slipped at least a position', () => {
+    expect(getLossCause({ clicks: 60, impressions: 900, ctr: 0.067, position: 5 }, previous)).toBe('ranking_loss');
+  });
+
+  it('blames demand when impressions fell at a steady CTR', () => {
+    expect(getLossCause({ clicks: 50, impressions: 500, ctr: 0.1, position: 4.2 }, previous)).toBe('demand_drop');
+  });
+
+  it('blames CTR when impressions held but fewer searchers clicked', () => {
+    expect(getLossCause({ clicks: 50, impressions: 1000, ctr: 0.05, position: 3.8 }, previous)).toBe('ctr_loss');
+  });
+});
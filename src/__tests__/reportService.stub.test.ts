@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReportService } from '@/lib/reportService';
+import { OpenAIService } from '@/lib/openAIService';
+import { StubLLMProvider } from '@/lib/llmProvider';
+import { gscService } from '@/lib/gscService';
+
+const insertedReports: Record<string, unknown>[] = [];
+
+// Mock the supabase client: the plan check passes and inserted reports are echoed back
+vi.mock('@/lib/supabaseClient', () => ({
+  supabase: {
+    rpc: vi.fn(() => Promise.resolve({ data: true, error: null })),
+    from: vi.fn(() => ({
+      insert: vi.fn((row: Record<string, unknown>) => {
+        insertedReports.push(row);
+        return {
+          select: vi.fn(() => ({
+            single: vi.fn(() => Promise.resolve({
+              data: { ...row, id: `report-${insertedReports.length}`, created_at: '2025-01-31T00:00:00Z' },
+              error: null
+            }))
+          }))
+        };
+      })
+    }))
+  }
+}));
+
+vi.mock('@/lib/gscService', () => ({
+  gscService: {
+    fetchSearchAnalyticsData: vi.fn()
+  }
+}));
+
+const dateRange = { startDate: '2025-01-01', endDate: '2025-01-28' };
+
+const makeRows = (count: number) => Array.from({ length: count }, (_, index) => ({
+  page: `https://example.com/page-${index}`,
+  query: '',
+  clicks: 5 + index,
+  impressions: 1000 + index * 10,
+  ctr: 0.005,
+  position: 12 + (index % 20)
+}));
+
+describe('ReportService with the stub LLM provider', () => {
+  beforeEach(() => {
+    insertedReports.length = 0;
+    vi.mocked(gscService.fetchSearchAnalyticsData).mockReset();
+  });
+
+  it('generates and saves a report offline', async () => {
+    vi.mocked(gscService.fetchSearchAnalyticsData).mockResolvedValue(makeRows(20) as never);
+    const provider = new StubLLMProvider();
+    const service = new ReportService('user123', 'Pro Plan', new OpenAIService(provider));
+
+    const report = await service.generateReport('underperforming_pages', dateRange, 'https://example.com/');
+
+    expect(report.id).toBe('report-1');
+    expect(report.reportType).toBe('underperforming_pages');
+    expect(report.aiSummary).toMatch(/^Stub response /);
+    expect(insertedReports).toHaveLength(1);
+
+    // Every call of the report is made on the one key reserved for it
+    expect(provider.requests.length).toBeGreaterThan(0);
+    expect(new Set(provider.requests.map(request => request.usageKey))).toEqual(new Set(['stub-usage-1']));
+  }, 20000);
+
+  it('chunks prompts that do not fit the provider context window', async () => {
+    vi.mocked(gscService.fetchSearchAnalyticsData).mockResolvedValue(makeRows(40) as never);
+    const provider = new StubLLMProvider({ contextWindow: 2000 });
+    const service = new ReportService('user123', 'Pro Plan', new OpenAIService(provider));
+
+    await service.generateReport('underperforming_pages', dateRange, 'https://example.com/');
+
+    // The gateway accepts up to (context window - output tokens) * 4 characters per call
+    const capabilities = await provider.describe();
+    const maxPromptChars = (capabilities.contextWindow - capabilities.maxOutputTokens) * 4;
+    expect(provider.requests.length).toBeGreaterThan(2);
+    provider.requests.forEach(request => {
+      expect(request.systemPrompt.length + request.prompt.length).toBeLessThanOrEqual(maxPromptChars);
+    });
+  }, 30000);
+});
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { LLMCapabilities, LLMProviderId, createLLMProvider, saveWorkspaceLLMProvider } from '@/lib/llmProvider';
+import { openAIService } from '@/lib/openAIService';
+
+export function AIProviderSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [capabilities, setCapabilities] = useState<LLMCapabilities | null>(null);
+  const [selectedProvider, setSelectedProvider] = useState<LLMProviderId | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadCapabilities = useCallback(async () => {
+    const result = await createLLMProvider().describe();
+    setCapabilities(result);
+    setSelectedProvider(result.provider);
+  }, []);
+
+  useEffect(() => {
+    loadCapabilities()
+      .catch(error => {
+        console.error('Error loading AI provider:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the AI provider for this workspace.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [loadCapabilities, toast]);
+
+  const handleSave = async () => {
+    if (!user?.id || !selectedProvider || selectedProvider === 'stub') return;
+
+    try {
+      setSaving(true);
+      await saveWorkspaceLLMProvider(user.id, selectedProvider);
+      openAIService.resetCapabilities();
+      await loadCapabilities();
+      toast({
+        title: "Success",
+        description: "AI provider updated. New reports will use it.",
+      });
+    } catch (error) {
+      console.error('Error saving AI provider:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save AI provider.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">AI Provider</CardTitle>
+        <CardDescription className="text-gray-400">
+          Choose which model provider generates AI reports and insights for this workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading provider...
+          </div>
+        ) : capabilities ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="ai-provider" className="text-gray-300">Provider</Label>
+              <Select value={selectedProvider} onValueChange={value => setSelectedProvider(value as LLMProviderId)}>
+                <SelectTrigger id="ai-provider" className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue placeholder="Select a provider" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                  {capabilities.availableProviders.map(option => (
+                    <SelectItem key={option.id} value={option.id} className="text-white focus:bg-gray-600 focus:text-white">
+                      {option.label} ({option.model})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-400">Model</p>
+                <p className="text-white">{capabilities.model}</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Context window</p>
+                <p className="text-white">{capabilities.contextWindow.toLocaleString()} tokens</p>
+              </div>
+              <div>
+                <p className="text-gray-400">JSON mode</p>
+                <p className="text-white">{capabilities.supportsJsonMode ? 'Supported' : 'Not supported'}</p>
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="py-4 text-sm text-gray-400">AI features are not available right now.</p>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="ml-auto bg-blue-600 hover:bg-blue-700"
+          onClick={handleSave}
+          disabled={loading || saving || !capabilities || selectedProvider === capabilities.provider}
+        >
+          {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save Provider
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
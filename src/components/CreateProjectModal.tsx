@@ -21,7 +21,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2, AlertCircle, ExternalLink, Settings } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { GoogleAuthService } from '@/lib/googleAuthService';
+import { GoogleAuthService, hasGSCConnection } from '@/lib/googleAuthService';
 
 interface CreateProjectModalProps {
   open: boolean;
@@ -46,8 +46,7 @@ export function CreateProjectModal({ open, onOpenChange }: CreateProjectModalPro
   // Check GSC connection status
   useEffect(() => {
     const checkGSCConnection = () => {
-      const token = localStorage.getItem('gsc_token');
-      setIsConnectedToGSC(!!token);
+      setIsConnectedToGSC(hasGSCConnection());
     };
 
     checkGSCConnection();
@@ -0,0 +1,238 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  LineChart,
+  Line,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { Sparkles, Filter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CustomQueryMetric, CustomReport, CustomReportMetrics } from '@/types/aiReports';
+
+interface CustomReportViewProps {
+  report: CustomReport;
+}
+
+const METRIC_LABELS: Record<CustomQueryMetric, string> = {
+  clicks: 'Clicks',
+  impressions: 'Impressions',
+  ctr: 'CTR',
+  position: 'Avg Position'
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  contains: 'contains',
+  notContains: 'does not contain',
+  includingRegex: 'matches',
+  excludingRegex: 'does not match'
+};
+
+const formatMetric = (metric: CustomQueryMetric, value: number) => {
+  if (metric === 'ctr') return `${(value * 100).toFixed(2)}%`;
+  if (metric === 'position') return value.toFixed(1);
+  return Math.round(value).toLocaleString();
+};
+
+// Position goes down as rankings improve, so its change is coloured the other way round
+const changeClass = (metric: CustomQueryMetric, change: number) => {
+  if (change === 0) return 'text-gray-400';
+  const improved = metric === 'position' ? change < 0 : change > 0;
+  return improved ? 'text-green-400' : 'text-red-400';
+};
+
+const formatChange = (metric: CustomQueryMetric, change: number) => {
+  const sign = change > 0 ? '+' : '';
+  if (metric === 'ctr') return `${sign}${(change * 100).toFixed(2)}pp`;
+  if (metric === 'position') return `${sign}${change.toFixed(1)}`;
+  return `${sign}${Math.round(change).toLocaleString()}`;
+};
+
+export function CustomReportView({ report }: CustomReportViewProps) {
+  const { question, plan, rows, totalRows, isTruncated, totals, chart } = report.data;
+  const hasComparison = !!plan.comparisonDateRange;
+  const metrics: CustomQueryMetric[] = ['clicks', 'impressions', 'ctr', 'position'];
+
+  const renderMetricCell = (metric: CustomQueryMetric, current: CustomReportMetrics, previous?: CustomReportMetrics) => (
+    <TableCell key={metric} className="text-right text-gray-300">
+      {formatMetric(metric, current[metric])}
+      {hasComparison && previous && (
+        <div className={cn('text-xs', changeClass(metric, current[metric] - previous[metric]))}>
+          {formatChange(metric, current[metric] - previous[metric])}
+        </div>
+      )}
+    </TableCell>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Question and the query it was turned into */}
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-4 space-y-3">
+          <p className="text-white font-medium">“{question}”</p>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="outline" className="border-gray-500 text-gray-300">
+              {plan.dateRange.startDate} to {plan.dateRange.endDate}
+            </Badge>
+            {plan.comparisonDateRange && (
+              <Badge variant="outline" className="border-gray-500 text-gray-300">
+                vs {plan.comparisonDateRange.startDate} to {plan.comparisonDateRange.endDate}
+              </Badge>
+            )}
+            <Badge variant="outline" className="border-gray-500 text-gray-300">
+              By {plan.dimensions.join(', ')}
+            </Badge>
+            {plan.filters.map((filter, index) => (
+              <Badge key={index} variant="outline" className="border-purple-600 text-purple-300 bg-purple-900/20">
+                <Filter className="h-3 w-3 mr-1" />
+                {filter.dimension} {OPERATOR_LABELS[filter.operator] || filter.operator} "{filter.expression}"
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Narrative answer */}
+      {report.aiSummary && (
+        <Card className="bg-gray-700 border-gray-600">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-white text-base flex items-center gap-2">
+              <Sparkles className="h-4 w-4 text-purple-400" />
+              AI Answer
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-gray-300 text-sm leading-relaxed whitespace-pre-line">{report.aiSummary}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(metric => (
+          <Card key={metric} className="bg-gray-700 border-gray-600">
+            <CardContent className="p-4 text-center">
+              <div className="text-2xl font-bold text-white">{formatMetric(metric, totals[metric])}</div>
+              <div className="text-sm text-gray-400">{METRIC_LABELS[metric]}</div>
+              {totals.previous && (
+                <div className={cn('text-xs mt-1', changeClass(metric, totals[metric] - totals.previous[metric]))}>
+                  {formatChange(metric, totals[metric] - totals.previous[metric])} vs previous
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Daily trend */}
+      {chart.points.length > 1 && (
+        <Card className="bg-gray-700 border-gray-600">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-white text-base">{METRIC_LABELS[chart.metric]} over time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chart.points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="label" stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} />
+                  <YAxis
+                    stroke="#9CA3AF"
+                    tick={{ fill: '#9CA3AF' }}
+                    reversed={chart.metric === 'position'}
+                    tickFormatter={value => chart.metric === 'ctr' ? `${(value * 100).toFixed(1)}%` : value}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1F2937',
+                      border: '1px solid #374151',
+                      borderRadius: '0.375rem'
+                    }}
+                    labelStyle={{ color: '#D1D5DB' }}
+                    itemStyle={{ color: '#D1D5DB' }}
+                    formatter={(value: number) => formatMetric(chart.metric, value)}
+                  />
+                  <Legend wrapperStyle={{ color: '#D1D5DB' }} />
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    name="Selected period"
+                    stroke="#8B5CF6"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  {hasComparison && (
+                    <Line
+                      type="monotone"
+                      dataKey="previousValue"
+                      name="Previous period"
+                      stroke="#6B7280"
+                      strokeWidth={2}
+                      strokeDasharray="4 4"
+                      dot={false}
+                    />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Rows */}
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-medium text-white">Results</h4>
+            <span className="text-xs text-gray-400">
+              Showing {rows.length.toLocaleString()} of {totalRows.toLocaleString()}{isTruncated ? '+' : ''} rows
+            </span>
+          </div>
+          {rows.length > 0 ? (
+            <div className="rounded-md border border-gray-600 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-600 hover:bg-gray-600/50">
+                    {plan.dimensions.map(dimension => (
+                      <TableHead key={dimension} className="text-gray-300 capitalize">{dimension}</TableHead>
+                    ))}
+                    {metrics.map(metric => (
+                      <TableHead key={metric} className="text-gray-300 text-right">{METRIC_LABELS[metric]}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className="border-gray-600 hover:bg-gray-600/50">
+                      {plan.dimensions.map(dimension => (
+                        <TableCell key={dimension} className="font-medium text-white max-w-xs truncate">
+                          {dimension === 'page' && row.keys.page ? (
+                            <a href={row.keys.page} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+                              {row.keys.page.replace(/^https?:\/\//, '').replace(/\/$/, '')}
+                            </a>
+                          ) : (
+                            row.keys[dimension] || '-'
+                          )}
+                        </TableCell>
+                      ))}
+                      {metrics.map(metric => renderMetricCell(metric, row, row.previous))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">No rows matched this query.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
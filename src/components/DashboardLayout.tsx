@@ -28,6 +28,8 @@ import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Badge } from './ui/badge';
 import { cn } from '@/lib/utils';
 import { PropertySelector } from './PropertySelector';
+import { NotificationBell } from './NotificationBell';
+import { GSCReconnectBanner } from './GSCReconnectBanner';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -158,6 +160,12 @@ export function DashboardLayout({ children, title, fullScreen = false, compariso
         return <Sparkles className="h-5 w-5" />;
       case 'Rank Tracker':
         return <TrendingUp className="h-5 w-5" />;
+      case 'Keyword Clustering':
+        return <FileBarChart2 className="h-5 w-5" />;
+      case 'Gap Analysis':
+        return <Network className="h-5 w-5" />;
+      case 'Reports':
+        return <FileDown className="h-5 w-5" />;
       case 'Settings':
         return <Settings className="h-5 w-5" />;
       default:
@@ -206,6 +214,27 @@ export function DashboardLayout({ children, title, fullScreen = false, compariso
         active: location.pathname === '/rank-tracker',
         key: 'nav-rank-tracker'
       },
+      {
+        title: 'Keyword Clustering',
+        icon: <FileBarChart2 className="h-5 w-5" />,
+        href: '/keyword-clustering',
+        active: location.pathname === '/keyword-clustering',
+        key: 'nav-keyword-clustering'
+      },
+      {
+        title: 'Gap Analysis',
+        icon: <Network className="h-5 w-5" />,
+        href: '/gap-analysis',
+        active: location.pathname === '/gap-analysis',
+        key: 'nav-gap-analysis'
+      },
+      {
+        title: 'Reports',
+        icon: <FileDown className="h-5 w-5" />,
+        href: '/reports',
+        active: location.pathname === '/reports',
+        key: 'nav-reports'
+      },
       {
         title: 'Settings',
         icon: <Settings className="h-5 w-5" />,
@@ -428,12 +457,16 @@ export function DashboardLayout({ children, title, fullScreen = false, compariso
             <h1 className="text-xl font-semibold text-white">{displayTitle}</h1>
             {renderTrialStatus()}
           </div>
-          {comparisonText && (
-            <div className="text-right">
-              <p className="text-gray-400 text-sm">{comparisonText}</p>
-            </div>
-          )}
+          <div className="flex items-center gap-4">
+            {comparisonText && (
+              <div className="text-right">
+                <p className="text-gray-400 text-sm">{comparisonText}</p>
+              </div>
+            )}
+            <NotificationBell />
+          </div>
         </header>
+        <GSCReconnectBanner />
         
         {/* Content */}
         <div className={cn("flex-1 overflow-auto text-gray-200", fullScreen ? "p-0" : "p-0")}>
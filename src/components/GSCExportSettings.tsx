@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { AlertCircle, Database, Download, Loader2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { createKeywordRuleService } from '@/lib/keywordClassification';
+import {
+  GSCExport,
+  GSCExportDimension,
+  GSCExportFormat,
+  GSC_EXPORT_DIMENSIONS,
+  createGSCExportService
+} from '@/lib/gscExportService';
+
+// How often running exports are re-read for progress
+const POLL_INTERVAL_MS = 3000;
+
+const dimensionLabels: Record<GSCExportDimension, string> = {
+  date: 'Date',
+  query: 'Query',
+  page: 'Page',
+  device: 'Device',
+  country: 'Country'
+};
+
+const formatLabels: Record<GSCExportFormat, string> = {
+  csv: 'CSV (gzip)',
+  ndjson: 'NDJSON (gzip)',
+  parquet: 'Parquet'
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function GSCExportSettings() {
+  const { user, getGSCProperty } = useAuth();
+  const { toast } = useToast();
+  const siteUrl = getGSCProperty();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [exports, setExports] = useState<GSCExport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 90), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(subDays(new Date(), 2), 'yyyy-MM-dd'));
+  const [dimensions, setDimensions] = useState<GSCExportDimension[]>(['date', 'query', 'page']);
+  const [exportFormat, setExportFormat] = useState<GSCExportFormat>('csv');
+
+  const exportService = useMemo(
+    () => (user?.id ? createGSCExportService(user.id) : null),
+    [user?.id]
+  );
+
+  const loadExports = useCallback(async (id: string) => {
+    if (!exportService) return;
+    setExports(await exportService.getExports(id));
+  }, [exportService]);
+
+  useEffect(() => {
+    if (!user?.id || !siteUrl) {
+      setLoading(false);
+      return;
+    }
+
+    createKeywordRuleService(user.id).getProjectId(siteUrl)
+      .then(async id => {
+        setProjectId(id);
+        if (id) {
+          await loadExports(id);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading data exports:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your data exports.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [user?.id, siteUrl, loadExports, toast]);
+
+  const hasActiveExports = exports.some(item => item.status === 'queued' || item.status === 'running');
+
+  useEffect(() => {
+    if (!projectId || !hasActiveExports) return;
+
+    const interval = setInterval(() => {
+      loadExports(projectId).catch(error => console.error('Error refreshing data exports:', error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [projectId, hasActiveExports, loadExports]);
+
+  const toggleDimension = (dimension: GSCExportDimension, checked: boolean) => {
+    setDimensions(prev => (checked ? [...prev, dimension] : prev.filter(item => item !== dimension)));
+  };
+
+  const isRangeInvalid = !startDate || !endDate || startDate > endDate;
+
+  const handleStart = async () => {
+    if (!exportService || !projectId) return;
+
+    try {
+      setStarting(true);
+      await exportService.startExport({ projectId, startDate, endDate, dimensions, format: exportFormat });
+      await loadExports(projectId);
+      toast({
+        title: "Export started",
+        description: "Your file is being prepared. You can leave this page and come back for the download.",
+      });
+    } catch (error) {
+      console.error('Error starting data export:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the export.",
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleDownload = async (gscExport: GSCExport) => {
+    if (!exportService) return;
+
+    try {
+      window.location.href = await exportService.getDownloadUrl(gscExport);
+    } catch (error) {
+      console.error('Error downloading data export:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download the export.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (gscExport: GSCExport) => {
+    if (!exportService || !projectId) return;
+
+    try {
+      await exportService.deleteExport(gscExport);
+      await loadExports(projectId);
+    } catch (error) {
+      console.error('Error deleting data export:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the export.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Raw Data Export
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Export the Search Console rows stored for this property, grouped by the dimensions you choose. Large
+          exports are built in the background.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading data exports...
+          </div>
+        ) : !projectId ? (
+          <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+            <p className="text-gray-400">Create a project for the selected property to export its data.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="export-start" className="text-gray-300">From</Label>
+                <Input
+                  id="export-start"
+                  type="date"
+                  value={startDate}
+                  onChange={e => setStartDate(e.target.value)}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-end" className="text-gray-300">To</Label>
+                <Input
+                  id="export-end"
+                  type="date"
+                  value={endDate}
+                  onChange={e => setEndDate(e.target.value)}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Format</Label>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as GSCExportFormat)}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                    {(Object.keys(formatLabels) as GSCExportFormat[]).map(value => (
+                      <SelectItem key={value} value={value} className="text-white focus:bg-gray-600 focus:text-white">
+                        {formatLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">Group by</Label>
+              <div className="flex flex-wrap gap-4">
+                {GSC_EXPORT_DIMENSIONS.map(dimension => (
+                  <div key={dimension} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-dimension-${dimension}`}
+                      checked={dimensions.includes(dimension)}
+                      onCheckedChange={(checked) => toggleDimension(dimension, checked === true)}
+                    />
+                    <Label htmlFor={`export-dimension-${dimension}`} className="text-gray-300">
+                      {dimensionLabels[dimension]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              onClick={handleStart}
+              disabled={starting || isRangeInvalid || dimensions.length === 0}
+              className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
+            >
+              {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Database className="h-4 w-4" />}
+              Start export
+            </Button>
+
+            {exports.length === 0 ? (
+              <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+                <p className="text-gray-400">No exports yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {exports.map(item => (
+                  <div key={item.id} className="p-3 bg-gray-900/50 rounded-lg border border-gray-700 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0 text-sm">
+                        <p className="text-white truncate">
+                          {item.startDate} to {item.endDate} · {item.dimensions.map(dimension => dimensionLabels[dimension]).join(', ')}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          {formatLabels[item.format]}
+                          {item.rowCount !== null && ` · ${item.rowCount.toLocaleString()} rows`}
+                          {item.fileSize !== null && ` · ${formatFileSize(item.fileSize)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge
+                          variant="outline"
+                          className={item.status === 'error'
+                            ? 'text-red-400 border-red-700'
+                            : item.status === 'completed'
+                              ? 'text-green-400 border-green-700'
+                              : 'text-gray-300 border-gray-600'}
+                        >
+                          {item.status}
+                        </Badge>
+                        {item.status === 'completed' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDownload(item)}
+                            className="text-gray-300 hover:bg-gray-600 border-gray-600"
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(item.status === 'completed' || item.status === 'error') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(item)}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-950/30 border-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {(item.status === 'queued' || item.status === 'running') && <Progress value={item.progress} />}
+                    {item.status === 'error' && item.error && (
+                      <p className="flex items-start gap-2 text-xs text-red-400">
+                        <AlertCircle className="h-4 w-4 shrink-0" />
+                        {item.error}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import { GoogleAuthService } from '@/lib/googleAuthService';
+
+// Shown when the token vault reports that Google revoked or expired the stored grant
+export function GSCReconnectBanner() {
+  const [reconnectRequired, setReconnectRequired] = useState(
+    () => localStorage.getItem('gsc_reconnect_required') === 'true'
+  );
+  const [googleEmail, setGoogleEmail] = useState<string | null>(
+    () => localStorage.getItem('gsc_account_email')
+  );
+
+  useEffect(() => {
+    const handleReconnectRequired = (event: Event) => {
+      const detail = (event as CustomEvent<{ googleEmail?: string | null }>).detail;
+      if (detail?.googleEmail) {
+        setGoogleEmail(detail.googleEmail);
+      }
+      setReconnectRequired(true);
+    };
+    const handleReconnected = () => setReconnectRequired(false);
+
+    window.addEventListener('gsc-reconnect-required', handleReconnectRequired);
+    window.addEventListener('gsc-reconnected', handleReconnected);
+    window.addEventListener('gsc-disconnected', handleReconnected);
+    return () => {
+      window.removeEventListener('gsc-reconnect-required', handleReconnectRequired);
+      window.removeEventListener('gsc-reconnected', handleReconnected);
+      window.removeEventListener('gsc-disconnected', handleReconnected);
+    };
+  }, []);
+
+  if (!reconnectRequired) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4 px-6 md:px-8 py-3 bg-amber-900/30 border-b border-amber-700/50 text-amber-200 text-sm">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          Google Search Console access {googleEmail ? `for ${googleEmail} ` : ''}has expired or was revoked.
+          Reconnect to keep syncing your data.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        className="bg-amber-600 hover:bg-amber-700 text-white"
+        onClick={() => new GoogleAuthService().initiateGSCAuth()}
+      >
+        Reconnect
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Check, Loader2, RotateCcw, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { gscService } from '@/lib/gscService';
+import { FUNNEL_STAGES, FunnelStage, createKeywordRuleService } from '@/lib/keywordClassification';
+import {
+  KeywordIntentPrediction,
+  applyAcceptedIntents,
+  createKeywordIntentService
+} from '@/lib/keywordIntentService';
+
+type StatusFilter = 'pending' | 'reviewed' | 'all';
+
+const QUERY_LIMIT = 2000;
+const VISIBLE_ROWS = 100;
+const BULK_ACCEPT_CONFIDENCE = 0.8;
+
+const stageLabels: Record<FunnelStage, string> = {
+  tofu: 'ToFu',
+  mofu: 'MoFu',
+  bofu: 'BoFu'
+};
+
+const stageColors: Record<FunnelStage, string> = {
+  tofu: 'bg-green-900/30 text-green-400 border-green-700',
+  mofu: 'bg-yellow-900/30 text-yellow-400 border-yellow-700',
+  bofu: 'bg-red-900/30 text-red-400 border-red-700'
+};
+
+export function KeywordIntentReview() {
+  const { user, getGSCProperty } = useAuth();
+  const { toast } = useToast();
+  const siteUrl = getGSCProperty();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [predictions, setPredictions] = useState<KeywordIntentPrediction[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ value: number; message?: string }>({ value: 0 });
+
+  const intentService = useMemo(
+    () => (user?.id ? createKeywordIntentService(user.id) : null),
+    [user?.id]
+  );
+
+  const loadPredictions = useCallback(async (id: string) => {
+    if (!intentService) return;
+    const loaded = await intentService.getPredictions(id);
+    setPredictions(loaded);
+    applyAcceptedIntents(loaded);
+  }, [intentService]);
+
+  useEffect(() => {
+    if (!user?.id || !siteUrl) {
+      setLoading(false);
+      return;
+    }
+
+    createKeywordRuleService(user.id).getProjectId(siteUrl)
+      .then(async id => {
+        setProjectId(id);
+        if (id) {
+          await loadPredictions(id);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading intent predictions:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load intent predictions.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [user?.id, siteUrl, loadPredictions, toast]);
+
+  const visiblePredictions = useMemo(() => predictions.filter(prediction => (
+    statusFilter === 'all' || (statusFilter === 'pending') === (prediction.status === 'pending')
+  )), [predictions, statusFilter]);
+
+  const confidentPending = useMemo(
+    () => predictions.filter(prediction => prediction.status === 'pending' && prediction.confidence >= BULK_ACCEPT_CONFIDENCE),
+    [predictions]
+  );
+
+  const runUpdate = async (update: () => Promise<void>, failureMessage: string) => {
+    if (!projectId) return;
+
+    try {
+      await update();
+      await loadPredictions(projectId);
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClassify = async () => {
+    if (!intentService || !projectId || !siteUrl) return;
+
+    try {
+      setRunning(true);
+      setProgress({ value: 0, message: 'Loading your top queries...' });
+
+      const endDate = new Date();
+      const rows = await gscService.fetchSearchAnalyticsData({
+        siteUrl,
+        startDate: format(subDays(endDate, 28), 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        dimensions: ['query'],
+        rowLimit: QUERY_LIMIT
+      });
+
+      const result = await intentService.predictUnknownIntents(
+        projectId,
+        siteUrl,
+        rows.map(row => row.query),
+        (value, message) => setProgress({ value, message })
+      );
+      await loadPredictions(projectId);
+
+      if (result.error) {
+        toast({
+          title: "Classification stopped early",
+          description: `${result.error} Predictions for ${result.predicted} queries were saved.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Predicted intent for ${result.predicted} queries (${result.cached} already predicted).`,
+        });
+      }
+    } catch (error) {
+      console.error('Error predicting keyword intents:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to classify unknown queries.",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          AI Intent Suggestions
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Predict the funnel stage of queries your rules don't classify. Accepted or overridden labels are used by
+          every intent filter; your rules still take precedence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading predictions...
+          </div>
+        ) : !projectId ? (
+          <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+            <p className="text-gray-400">Create a project for the selected property to classify its queries.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                onClick={handleClassify}
+                disabled={running}
+                className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
+              >
+                {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                Classify unknown queries
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => intentService && runUpdate(
+                  () => intentService.acceptPredictions(confidentPending),
+                  'Failed to accept intent predictions.'
+                )}
+                disabled={running || confidentPending.length === 0}
+                className="bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white"
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Accept {confidentPending.length} with ≥{Math.round(BULK_ACCEPT_CONFIDENCE * 100)}% confidence
+              </Button>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="w-[160px] ml-auto bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                  <SelectItem value="pending" className="text-white focus:bg-gray-600 focus:text-white">Needs review</SelectItem>
+                  <SelectItem value="reviewed" className="text-white focus:bg-gray-600 focus:text-white">Reviewed</SelectItem>
+                  <SelectItem value="all" className="text-white focus:bg-gray-600 focus:text-white">All</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {running && (
+              <div className="space-y-2">
+                <Progress value={progress.value} />
+                {progress.message && <p className="text-xs text-gray-400">{progress.message}</p>}
+              </div>
+            )}
+
+            {visiblePredictions.length === 0 ? (
+              <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+                <p className="text-gray-400">No predictions to show.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {visiblePredictions.slice(0, VISIBLE_ROWS).map(prediction => (
+                  <div key={prediction.id} className="flex items-center justify-between gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                    <div className="flex items-center gap-3 min-w-0 text-sm">
+                      <span className="text-white truncate">{prediction.query}</span>
+                      <Badge variant="outline" className={stageColors[prediction.predictedIntent]}>
+                        {stageLabels[prediction.predictedIntent]}
+                      </Badge>
+                      <span className="text-xs text-gray-400">{Math.round(prediction.confidence * 100)}%</span>
+                      {prediction.status !== 'pending' && (
+                        <Badge variant="outline" className="text-xs text-gray-300 border-gray-600">
+                          {prediction.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {prediction.status === 'pending' ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => intentService && runUpdate(
+                            () => intentService.acceptPredictions([prediction]),
+                            'Failed to accept intent prediction.'
+                          )}
+                          className="text-green-400 hover:text-green-300 hover:bg-green-950/30 border-green-700"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => intentService && runUpdate(
+                            () => intentService.resetPrediction(prediction.id),
+                            'Failed to reset intent prediction.'
+                          )}
+                          className="text-gray-300 hover:bg-gray-600 border-gray-600"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Select
+                        value={prediction.acceptedIntent ?? ''}
+                        onValueChange={(value) => intentService && runUpdate(
+                          () => intentService.overridePrediction(prediction.id, value as FunnelStage),
+                          'Failed to override intent prediction.'
+                        )}
+                      >
+                        <SelectTrigger className="w-[110px] h-8 bg-gray-700 border-gray-600 text-white">
+                          <SelectValue placeholder="Override" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                          {FUNNEL_STAGES.map(stage => (
+                            <SelectItem key={stage} value={stage} className="text-white focus:bg-gray-600 focus:text-white">
+                              {stageLabels[stage]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                ))}
+                {visiblePredictions.length > VISIBLE_ROWS && (
+                  <p className="text-xs text-gray-400 text-center">
+                    Showing the {VISIBLE_ROWS} most confident of {visiblePredictions.length.toLocaleString()} predictions.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
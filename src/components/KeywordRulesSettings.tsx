@@ -0,0 +1,428 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Activity, Loader2, Plus, Tag, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { gscService, GSCDataPoint } from '@/lib/gscService';
+import {
+  FUNNEL_STAGES,
+  KeywordClassification,
+  KeywordClassifier,
+  KeywordMatchType,
+  KeywordRule,
+  KeywordRuleInput,
+  createKeywordRuleService,
+  describeKeywordRule,
+  matchesKeywordRule,
+  setActiveKeywordRules,
+  sortKeywordRules,
+  validateKeywordRule
+} from '@/lib/keywordClassification';
+
+type RuleScope = 'branded' | 'funnel';
+
+const PREVIEW_QUERY_LIMIT = 1000;
+const PREVIEW_SAMPLE_SIZE = 10;
+
+const matchTypeOptions: { value: KeywordMatchType; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'starts_with', label: 'Starts with' },
+  { value: 'ends_with', label: 'Ends with' },
+  { value: 'exact_match', label: 'Exact match' },
+  { value: 'regex', label: 'Regex' }
+];
+
+const classificationLabels: Record<KeywordClassification, string> = {
+  branded: 'Branded',
+  tofu: 'ToFu',
+  mofu: 'MoFu',
+  bofu: 'BoFu'
+};
+
+const classificationColors: Record<KeywordClassification, string> = {
+  branded: 'bg-blue-900/30 text-blue-400 border-blue-700',
+  tofu: 'bg-green-900/30 text-green-400 border-green-700',
+  mofu: 'bg-yellow-900/30 text-yellow-400 border-yellow-700',
+  bofu: 'bg-red-900/30 text-red-400 border-red-700'
+};
+
+const emptyDraft = (scope: RuleScope): KeywordRuleInput => ({
+  classification: scope === 'branded' ? 'branded' : 'tofu',
+  matchType: scope === 'branded' ? 'contains' : 'regex',
+  value: '',
+  isExclusion: false,
+  priority: 0
+});
+
+interface KeywordRulesSettingsProps {
+  scope: RuleScope;
+}
+
+export function KeywordRulesSettings({ scope }: KeywordRulesSettingsProps) {
+  const { user, getGSCProperty } = useAuth();
+  const { toast } = useToast();
+  const siteUrl = getGSCProperty();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [rules, setRules] = useState<KeywordRule[]>([]);
+  const [draft, setDraft] = useState<KeywordRuleInput>(() => emptyDraft(scope));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewQueries, setPreviewQueries] = useState<GSCDataPoint[]>([]);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const ruleService = useMemo(
+    () => (user?.id ? createKeywordRuleService(user.id) : null),
+    [user?.id]
+  );
+
+  useEffect(() => {
+    if (!ruleService || !siteUrl) {
+      setLoading(false);
+      return;
+    }
+
+    ruleService.getProjectId(siteUrl)
+      .then(async id => {
+        setProjectId(id);
+        if (id) {
+          setRules(await ruleService.loadProjectRules(id));
+        }
+      })
+      .catch(error => {
+        console.error('Error loading keyword rules:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your keyword rules.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [ruleService, siteUrl, toast]);
+
+  // The property's top queries, used to preview a rule before it is saved
+  useEffect(() => {
+    if (!siteUrl) return;
+
+    const endDate = new Date();
+    setPreviewLoading(true);
+    gscService.fetchSearchAnalyticsData({
+      siteUrl,
+      startDate: format(subDays(endDate, 28), 'yyyy-MM-dd'),
+      endDate: format(endDate, 'yyyy-MM-dd'),
+      dimensions: ['query'],
+      rowLimit: PREVIEW_QUERY_LIMIT
+    })
+      .then(rows => setPreviewQueries([...rows].sort((a, b) => b.clicks - a.clicks)))
+      .catch(error => console.error('Error loading preview queries:', error))
+      .finally(() => setPreviewLoading(false));
+  }, [siteUrl]);
+
+  const scopedRules = useMemo(
+    () => rules.filter(rule => (scope === 'branded') === (rule.classification === 'branded')),
+    [rules, scope]
+  );
+
+  const preview = useMemo(() => {
+    if (!draft.value.trim() || validateKeywordRule(draft) || previewQueries.length === 0) {
+      return null;
+    }
+
+    const draftRule: KeywordRule = {
+      ...draft,
+      id: 'draft',
+      projectId: projectId || '',
+      createdAt: new Date().toISOString()
+    };
+    const current = new KeywordClassifier(rules);
+    const next = new KeywordClassifier([...rules, draftRule]);
+    const classify = (classifier: KeywordClassifier, query: string) => (
+      scope === 'branded' ? classifier.classifyType(query) : classifier.classifyIntent(query)
+    );
+
+    const matches = previewQueries
+      .filter(row => matchesKeywordRule(draftRule, row.query))
+      .map(row => ({
+        query: row.query,
+        clicks: row.clicks,
+        before: classify(current, row.query),
+        after: classify(next, row.query)
+      }));
+
+    return {
+      matches,
+      changed: matches.filter(match => match.before !== match.after).length,
+      clicks: matches.reduce((sum, match) => sum + match.clicks, 0)
+    };
+  }, [draft, previewQueries, projectId, rules, scope]);
+
+  const applyRules = (updatedRules: KeywordRule[]) => {
+    setRules(sortKeywordRules(updatedRules));
+    setActiveKeywordRules(updatedRules);
+  };
+
+  const handleAddRule = async () => {
+    if (!ruleService || !projectId) return;
+
+    const validationError = validateKeywordRule(draft);
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const rule = await ruleService.addRule(projectId, draft);
+      applyRules([...rules, rule]);
+      setDraft(emptyDraft(scope));
+      toast({
+        title: "Success",
+        description: "Keyword rule added successfully.",
+      });
+    } catch (error) {
+      console.error('Error saving keyword rule:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save keyword rule.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (!ruleService) return;
+
+    try {
+      await ruleService.deleteRule(id);
+      applyRules(rules.filter(rule => rule.id !== id));
+      toast({
+        title: "Success",
+        description: "Keyword rule removed.",
+      });
+    } catch (error) {
+      console.error('Error deleting keyword rule:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete keyword rule.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatClassification = (value: string) => (
+    value in classificationLabels ? classificationLabels[value as KeywordClassification] : value
+  );
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          {scope === 'branded' ? <Tag className="h-5 w-5" /> : <Activity className="h-5 w-5" />}
+          {scope === 'branded' ? 'Branded Keywords Classification' : 'Keyword Funnel Classification'}
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          {scope === 'branded'
+            ? 'Rules that mark keywords as branded for the current project.'
+            : 'Rules that assign keywords to a funnel stage: ToFu (Top of Funnel), MoFu (Middle of Funnel) or BoFu (Bottom of Funnel).'}
+          {' '}Rules are checked from the highest priority down and the first match wins. An exclude rule stops
+          lower-priority rules of the same classification from matching. Matching is case-insensitive.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading rules...
+          </div>
+        ) : !projectId ? (
+          <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+            <p className="text-gray-400">Keyword rules are saved per project.</p>
+            <p className="text-sm text-gray-500 mt-1">Create a project for the selected property to start adding rules.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+              <h3 className="text-lg font-medium text-white">Add New Rule</h3>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                {scope === 'funnel' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-classification" className="text-gray-300">Stage</Label>
+                    <Select
+                      value={draft.classification}
+                      onValueChange={(value) => setDraft(prev => ({ ...prev, classification: value as KeywordClassification }))}
+                    >
+                      <SelectTrigger id="rule-classification" className="bg-gray-700 border-gray-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                        {FUNNEL_STAGES.map(stage => (
+                          <SelectItem key={stage} value={stage} className="text-white focus:bg-gray-600 focus:text-white">
+                            {classificationLabels[stage]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="rule-match-type" className="text-gray-300">Rule Type</Label>
+                  <Select
+                    value={draft.matchType}
+                    onValueChange={(value) => setDraft(prev => ({ ...prev, matchType: value as KeywordMatchType }))}
+                  >
+                    <SelectTrigger id="rule-match-type" className="bg-gray-700 border-gray-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                      {matchTypeOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value} className="text-white focus:bg-gray-600 focus:text-white">
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="rule-value" className="text-gray-300">Value</Label>
+                  <Input
+                    id="rule-value"
+                    value={draft.value}
+                    onChange={(e) => setDraft(prev => ({ ...prev, value: e.target.value }))}
+                    placeholder={draft.matchType === 'regex' ? 'e.g. ^how.*to' : 'Enter keyword or phrase'}
+                    className={`bg-gray-700 border-gray-600 text-white ${draft.matchType === 'regex' ? 'font-mono' : ''}`}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rule-priority" className="text-gray-300">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    step={1}
+                    value={draft.priority}
+                    onChange={(e) => setDraft(prev => ({ ...prev, priority: Number(e.target.value) }))}
+                    className="bg-gray-700 border-gray-600 text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="rule-exclusion"
+                    checked={draft.isExclusion}
+                    onCheckedChange={(checked) => setDraft(prev => ({ ...prev, isExclusion: checked }))}
+                  />
+                  <Label htmlFor="rule-exclusion" className="text-gray-300">
+                    Exclude matching keywords from {classificationLabels[draft.classification]}
+                  </Label>
+                </div>
+                <Button
+                  onClick={handleAddRule}
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                  Add Rule
+                </Button>
+              </div>
+
+              <div className="p-3 bg-gray-800 rounded border border-gray-600 space-y-2">
+                <h4 className="text-sm font-medium text-gray-300">
+                  Preview against your top {PREVIEW_QUERY_LIMIT.toLocaleString()} queries (last 28 days)
+                </h4>
+                {previewLoading ? (
+                  <p className="text-xs text-gray-400 flex items-center gap-2">
+                    <Loader2 className="h-3 w-3 animate-spin" /> Loading queries...
+                  </p>
+                ) : previewQueries.length === 0 ? (
+                  <p className="text-xs text-gray-400">No Search Console queries available for the selected property.</p>
+                ) : !draft.value.trim() ? (
+                  <p className="text-xs text-gray-400">Enter a value to see which queries the rule matches.</p>
+                ) : !preview ? (
+                  <p className="text-xs text-red-400">{validateKeywordRule(draft)}</p>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-400">
+                      Matches <span className="text-white font-medium">{preview.matches.length.toLocaleString()}</span> of{' '}
+                      {previewQueries.length.toLocaleString()} queries ({preview.clicks.toLocaleString()} clicks);{' '}
+                      <span className="text-white font-medium">{preview.changed.toLocaleString()}</span> would change classification.
+                    </p>
+                    {preview.matches.length > 0 && (
+                      <ul className="text-xs space-y-1">
+                        {preview.matches.slice(0, PREVIEW_SAMPLE_SIZE).map(match => (
+                          <li key={match.query} className="flex items-center justify-between gap-3">
+                            <span className="text-gray-300 truncate">{match.query}</span>
+                            <span className={match.before === match.after ? 'text-gray-500' : 'text-blue-400'}>
+                              {formatClassification(match.before)} → {formatClassification(match.after)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-white flex items-center justify-between">
+                Current Rules
+                <Badge variant="outline" className="text-gray-300 border-gray-600">
+                  {scopedRules.length} rules
+                </Badge>
+              </h3>
+
+              {scopedRules.length === 0 ? (
+                <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+                  <p className="text-gray-400">No rules defined for this project yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {scopedRules.map(rule => (
+                    <div key={rule.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                      <div className="flex items-center gap-3 text-sm">
+                        <Badge variant="outline" className="text-xs text-gray-300 border-gray-600">
+                          P{rule.priority}
+                        </Badge>
+                        <span className="text-gray-300">If keyword</span>
+                        <span className={`text-white font-medium ${rule.matchType === 'regex' ? 'font-mono' : ''}`}>
+                          {describeKeywordRule(rule)}
+                        </span>
+                        <span className="text-gray-300">→ {rule.isExclusion ? 'not' : ''}</span>
+                        <Badge variant="outline" className={classificationColors[rule.classification]}>
+                          {classificationLabels[rule.classification]}
+                        </Badge>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteRule(rule.id)}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-950/30 border-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -29,7 +29,6 @@ export const LoginDiagnostics: React.FC<LoginDiagnosticsProps> = ({ isOpen, onCl
         supabaseUrl: !!import.meta.env.VITE_SUPABASE_URL,
         supabaseKey: !!import.meta.env.VITE_SUPABASE_ANON_KEY,
         googleClientId: !!import.meta.env.VITE_GOOGLE_CLIENT_ID,
-        googleClientSecret: !!import.meta.env.VITE_GOOGLE_CLIENT_SECRET,
         googleRedirectUri: !!import.meta.env.VITE_GOOGLE_REDIRECT_URI,
       },
       supabaseConnection: { status: 'testing', error: null },
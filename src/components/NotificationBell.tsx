@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, Sparkles, TrendingDown, TrendingUp, BarChart3, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ScrollArea } from './ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { useNotifications } from '@/hooks/useNotifications';
+import { AppNotification } from '@/lib/notificationService';
+
+const getNotificationIcon = (notification: AppNotification) => {
+  switch (notification.type) {
+    case 'ranking_change': {
+      const previous = Number(notification.data.previous_position);
+      const current = Number(notification.data.current_position);
+      return current < previous
+        ? <TrendingUp className="h-4 w-4 text-green-400" />
+        : <TrendingDown className="h-4 w-4 text-red-400" />;
+    }
+    case 'new_keywords':
+      return <Sparkles className="h-4 w-4 text-purple-400" />;
+    default:
+      return <BarChart3 className="h-4 w-4 text-blue-400" />;
+  }
+};
+
+const getNotificationLink = (notification: AppNotification) => {
+  if (notification.type === 'ranking_change' && typeof notification.data.keyword === 'string') {
+    return `/rank-tracker?search=${encodeURIComponent(notification.data.keyword)}`;
+  }
+  return notification.type === 'weekly_report' ? '/dashboard' : '/rank-tracker';
+};
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead, deleteNotification } = useNotifications();
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    markAsRead(notification.id);
+    setOpen(false);
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-400 hover:text-white hover:bg-gray-700" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0 bg-gray-800 border-gray-700 text-white">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h3 className="font-semibold">Notifications</h3>
+          <div className="flex items-center gap-1">
+            {unreadCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={markAllAsRead} className="text-gray-400 hover:text-white hover:bg-gray-700 h-8">
+                <CheckCheck className="h-4 w-4 mr-1" /> Mark all read
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setOpen(false); navigate('/settings/notifications'); }}
+              className="text-gray-400 hover:text-white hover:bg-gray-700 h-8"
+            >
+              Settings
+            </Button>
+          </div>
+        </div>
+        <ScrollArea className="max-h-[400px]">
+          {loading ? (
+            <p className="py-8 text-center text-sm text-gray-400">Loading notifications...</p>
+          ) : notifications.length === 0 ? (
+            <div className="py-8 text-center text-sm text-gray-400">
+              <Bell className="h-6 w-6 mx-auto mb-2 text-gray-500" />
+              You're all caught up.
+            </div>
+          ) : (
+            notifications.map(notification => (
+              <div
+                key={notification.id}
+                className={cn(
+                  "group flex gap-3 px-4 py-3 border-b border-gray-700/60 cursor-pointer hover:bg-gray-700/50",
+                  !notification.readAt && "bg-blue-900/10"
+                )}
+                onClick={() => handleOpenNotification(notification)}
+              >
+                <div className="mt-0.5">{getNotificationIcon(notification)}</div>
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm truncate", notification.readAt ? "text-gray-300" : "text-white font-medium")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-0.5">{notification.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  aria-label="Dismiss notification"
+                  className="self-start text-gray-500 hover:text-white opacity-0 group-hover:opacity-100"
+                  onClick={e => { e.stopPropagation(); deleteNotification(notification.id); }}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  createNotificationService
+} from '@/lib/notificationService';
+
+const thresholdOptions = [1, 3, 5, 10];
+
+export function NotificationSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const notificationService = useMemo(
+    () => (user?.id ? createNotificationService(user.id) : null),
+    [user?.id]
+  );
+
+  useEffect(() => {
+    if (!notificationService) return;
+
+    notificationService.getPreferences()
+      .then(setPreferences)
+      .catch(error => {
+        console.error('Error loading notification preferences:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your notification preferences.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [notificationService, toast]);
+
+  const handleSave = async () => {
+    if (!notificationService) return;
+
+    try {
+      setSaving(true);
+      await notificationService.savePreferences(preferences);
+      toast({
+        title: "Success",
+        description: "Notification settings saved successfully.",
+      });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save notification preferences.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Notification Settings</CardTitle>
+        <CardDescription className="text-gray-400">
+          Choose which events appear in your notification center. They're checked each time a project syncs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading preferences...
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="rank-changes" className="text-gray-300">Ranking Changes</Label>
+                <p className="text-sm text-gray-400">
+                  Get notified when a tracked keyword moves by at least the threshold below
+                </p>
+              </div>
+              <Switch
+                id="rank-changes"
+                checked={preferences.rankingChanges}
+                onCheckedChange={checked => setPreferences(prev => ({ ...prev, rankingChanges: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between py-2 pl-4">
+              <Label htmlFor="rank-threshold" className="text-gray-400">Minimum position change</Label>
+              <Select
+                value={String(preferences.rankingChangeThreshold)}
+                onValueChange={value => setPreferences(prev => ({ ...prev, rankingChangeThreshold: parseInt(value, 10) }))}
+                disabled={!preferences.rankingChanges}
+              >
+                <SelectTrigger id="rank-threshold" className="w-32 bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                  {thresholdOptions.map(option => (
+                    <SelectItem key={option} value={String(option)} className="text-white focus:bg-gray-600 focus:text-white">
+                      {option} {option === 1 ? 'position' : 'positions'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="new-keywords" className="text-gray-300">New Keywords</Label>
+                <p className="text-sm text-gray-400">
+                  Get notified when queries appear in a project for the first time
+                </p>
+              </div>
+              <Switch
+                id="new-keywords"
+                checked={preferences.newKeywords}
+                onCheckedChange={checked => setPreferences(prev => ({ ...prev, newKeywords: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="weekly-report" className="text-gray-300">Weekly Report</Label>
+                <p className="text-sm text-gray-400">
+                  Receive a weekly summary of your performance
+                </p>
+              </div>
+              <Switch
+                id="weekly-report"
+                checked={preferences.weeklyReport}
+                onCheckedChange={checked => setPreferences(prev => ({ ...prev, weeklyReport: checked }))}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button className="ml-auto bg-blue-600 hover:bg-blue-700" onClick={handleSave} disabled={loading || saving}>
+          {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save Preferences
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -34,6 +34,7 @@ import {
   Loader2,
   AlertCircle,
   CheckCircle,
+  Clock,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -75,6 +76,8 @@ export function ProjectsDropdown() {
         return <CheckCircle className="h-3 w-3 text-green-400" />;
       case 'syncing':
         return <Loader2 className="h-3 w-3 animate-spin text-blue-400" />;
+      case 'partial':
+        return <Clock className="h-3 w-3 text-yellow-400" />;
       case 'error':
         return <AlertCircle className="h-3 w-3 text-red-400" />;
       case 'pending':
@@ -84,12 +87,14 @@ export function ProjectsDropdown() {
     }
   };
 
-  const getSyncStatusText = (status: string) => {
+  const getSyncStatusText = (status: string, syncedThrough?: string) => {
     switch (status) {
       case 'completed':
-        return 'Synced';
+        return syncedThrough ? `Synced through ${syncedThrough}` : 'Synced';
       case 'syncing':
         return 'Syncing...';
+      case 'partial':
+        return `Partially synced through ${syncedThrough}`;
       case 'error':
         return 'Sync failed';
       case 'pending':
@@ -158,7 +163,10 @@ export function ProjectsDropdown() {
                   )}
                   <span className="truncate font-medium">{project.name}</span>
                 </div>
-                <div className="flex items-center gap-1 flex-shrink-0">
+                <div
+                  className="flex items-center gap-1 flex-shrink-0"
+                  title={getSyncStatusText(project.sync_status, project.synced_through)}
+                >
                   {getSyncStatusIcon(project.sync_status, project.id)}
                 </div>
               </button>
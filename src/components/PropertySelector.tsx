@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { GoogleAuthService } from '@/lib/googleAuthService';
+import { GoogleAuthService, GSC_CONNECTED_KEY } from '@/lib/googleAuthService';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -30,7 +30,7 @@ interface GSCProperty {
 const PROPERTY_CHANGE_EVENT = 'gsc-property-changed';
 
 export function PropertySelector() {
-  const { getGSCToken } = useAuth();
+  const { hasGSCConnection } = useAuth();
   const navigate = useNavigate();
   const [gscProperties, setGscProperties] = useState<GSCProperty[]>([]);
   const [currentProperty, setCurrentProperty] = useState<string>('');
@@ -61,9 +61,8 @@ export function PropertySelector() {
       try {
         setIsLoading(true);
         
-        const token = getGSCToken();
-        if (!token) {
-          console.log('🔍 No GSC token found in PropertySelector');
+        if (!hasGSCConnection()) {
+          console.log('🔍 No GSC connection found in PropertySelector');
           setGscProperties([]);
           setCurrentProperty('');
           setIsLoading(false);
@@ -97,7 +96,7 @@ export function PropertySelector() {
         
         // If it's an auth error, clear the tokens
         if (error.message?.includes('token') || error.message?.includes('401')) {
-          localStorage.removeItem('gsc_token');
+          localStorage.removeItem(GSC_CONNECTED_KEY);
           localStorage.removeItem('gsc_refresh_token');
           localStorage.removeItem('gsc_property');
         }
@@ -121,7 +120,7 @@ export function PropertySelector() {
     return () => {
       window.removeEventListener('gsc-disconnected', handleGSCDisconnect);
     };
-  }, [getGSCToken]);
+  }, [hasGSCConnection]);
 
   const handlePropertySelect = async (propertyUrl: string) => {
     if (propertyUrl === currentProperty || isSwitching) return;
@@ -163,8 +162,7 @@ export function PropertySelector() {
   const handleRefreshProperties = async () => {
     try {
       setIsRefreshing(true);
-      const token = getGSCToken();
-      if (!token) {
+      if (!hasGSCConnection()) {
         toast({
           title: 'Error',
           description: 'Please connect to Google Search Console first',
@@ -214,7 +212,7 @@ export function PropertySelector() {
   }
 
   // If not connected to GSC
-  if (!getGSCToken()) {
+  if (!hasGSCConnection()) {
     return (
       <div className="px-4 py-2">
         <div className="text-xs text-gray-500 mb-2 uppercase tracking-wide">GSC Property</div>
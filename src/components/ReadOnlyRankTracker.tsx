@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { SharedRankTracker } from '@/lib/sharedReportData';
+
+interface ReadOnlyRankTrackerProps {
+  data: SharedRankTracker;
+}
+
+export function ReadOnlyRankTracker({ data }: ReadOnlyRankTrackerProps) {
+  const [viewMode, setViewMode] = useState<'weekly' | 'monthly'>('weekly');
+  const grid = data[viewMode];
+
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <CardTitle className="text-lg font-medium text-gray-300">Keyword Positions</CardTitle>
+          <div className="flex gap-2">
+            {(['weekly', 'monthly'] as const).map(mode => (
+              <Button
+                key={mode}
+                size="sm"
+                variant="outline"
+                onClick={() => setViewMode(mode)}
+                className={cn(
+                  "text-white bg-gray-700 hover:bg-gray-600 border-gray-600 hover:text-white",
+                  viewMode === mode && "bg-blue-600 hover:bg-blue-500 border-blue-500"
+                )}
+              >
+                {mode === 'weekly' ? 'Weekly' : 'Monthly'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {grid.keywords.length === 0 ? (
+          <p className="py-10 text-center text-gray-400">No ranking data available for this period.</p>
+        ) : (
+          <div className="rounded-md border border-gray-700 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700 hover:bg-transparent">
+                  <TableHead className="text-gray-300 min-w-[220px] px-4 sticky left-0 bg-gray-800">Keyword</TableHead>
+                  {grid.periods.map(period => (
+                    <TableHead key={period} className="text-center text-gray-300 min-w-[120px] px-4 whitespace-nowrap">
+                      {period}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {grid.keywords.map(keyword => (
+                  <TableRow key={keyword.query} className="border-gray-700 hover:bg-gray-700/50">
+                    <TableCell className="font-medium text-white px-4 sticky left-0 bg-gray-800">{keyword.query}</TableCell>
+                    {keyword.positions.map((position, index) => (
+                      <TableCell
+                        key={grid.periods[index]}
+                        className={cn(
+                          "text-center px-4",
+                          position === null ? 'text-gray-500' :
+                          position <= 3 ? 'text-green-400' :
+                          position <= 10 ? 'text-blue-400' :
+                          'text-gray-300'
+                        )}
+                      >
+                        {position === null ? '–' : position.toFixed(1)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
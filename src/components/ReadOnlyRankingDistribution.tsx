@@ -0,0 +1,93 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LabelList,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { SharedRankingDistribution } from '@/lib/sharedReportData';
+
+interface ReadOnlyRankingDistributionProps {
+  data: SharedRankingDistribution;
+}
+
+// Top3, 4-10, 11-20, 21-50, >50 – same palette as the Dashboard chart
+const bucketColors = ['#3b82f6', '#60a5fa', '#818cf8', '#a78bfa', '#c4b5fd'];
+
+export function ReadOnlyRankingDistribution({ data }: ReadOnlyRankingDistributionProps) {
+  const isEmpty = data.overall.every(bucket => bucket.value === 0) && data.breakdown.length === 0;
+
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-300">Keyword Ranking Distribution</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isEmpty ? (
+          <p className="py-10 text-center text-gray-400">No ranking data available.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-400 mb-3">Total # of Keywords (Latest Month)</h3>
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={data.overall} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis type="number" stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" stroke="#9CA3AF" tick={{ fill: '#9CA3AF', fontSize: 12 }} width={90} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#1F2937',
+                        border: '1px solid #374151',
+                        borderRadius: '0.375rem'
+                      }}
+                      labelStyle={{ color: '#D1D5DB' }}
+                      itemStyle={{ color: '#D1D5DB' }}
+                      formatter={(value: number) => [value.toLocaleString(), 'Keywords']}
+                    />
+                    <Bar dataKey="value" radius={[0, 4, 4, 0]}>
+                      {data.overall.map((bucket, index) => (
+                        <Cell key={bucket.name} fill={bucketColors[index % bucketColors.length]} />
+                      ))}
+                      <LabelList dataKey="value" position="right" fill="#D1D5DB" fontSize={12} formatter={(value: number) => value > 0 ? value.toLocaleString() : ''} />
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-400 mb-3">Top Positions Trend</h3>
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={data.breakdown} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="month" stroke="#9CA3AF" tick={{ fill: '#9CA3AF', fontSize: 12 }} />
+                    <YAxis stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} allowDecimals={false} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#1F2937',
+                        border: '1px solid #374151',
+                        borderRadius: '0.375rem'
+                      }}
+                      labelStyle={{ color: '#D1D5DB' }}
+                      itemStyle={{ color: '#D1D5DB' }}
+                    />
+                    <Legend wrapperStyle={{ color: '#D1D5DB' }} />
+                    <Bar dataKey="top3" name="Top 3" stackId="a" fill="#1e3a8a" />
+                    <Bar dataKey="top4_10" name="Position 4-10" stackId="a" fill="#60a5fa" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SharedTableRow } from '@/lib/sharedReportData';
+
+interface ReadOnlyTopTableProps {
+  title: string;
+  keyLabel: string;
+  rows: SharedTableRow[];
+}
+
+export function ReadOnlyTopTable({ title, keyLabel, rows }: ReadOnlyTopTableProps) {
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-300">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border border-gray-700 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700 hover:bg-transparent">
+                <TableHead className="text-gray-300 w-[60%] px-4">{keyLabel}</TableHead>
+                <TableHead className="text-right text-gray-300 px-4">Clicks</TableHead>
+                <TableHead className="text-right text-gray-300 px-4">Impressions</TableHead>
+                <TableHead className="text-right text-gray-300 px-4">CTR</TableHead>
+                <TableHead className="text-right text-gray-300 px-4">Position</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length > 0 ? (
+                rows.map(row => (
+                  <TableRow key={row.key} className="border-gray-700 hover:bg-gray-700/50">
+                    <TableCell className="font-medium text-white px-4 truncate max-w-xs sm:max-w-md" title={row.key}>{row.key}</TableCell>
+                    <TableCell className="text-right text-gray-300 px-4">{row.clicks.toLocaleString()}</TableCell>
+                    <TableCell className="text-right text-gray-300 px-4">{row.impressions.toLocaleString()}</TableCell>
+                    <TableCell className="text-right text-gray-300 px-4">{(row.ctr * 100).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right text-gray-300 px-4">{row.position.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow className="border-gray-700">
+                  <TableCell colSpan={5} className="text-center py-10 text-gray-400">
+                    No data available for this date range.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,21 +3,41 @@ import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
 import { Checkbox } from './ui/checkbox';
 import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+export interface ShareLinkOptions {
+  expiresInDays?: number;
+  password?: string;
+  isLive?: boolean;
+}
 
 interface ShareReportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerateLink: (selectedComponents: string[]) => void;
+  onGenerateLink: (selectedComponents: string[], options: ShareLinkOptions) => void;
 }
 
+const expiryOptions = [
+  { value: 'never', label: 'Never' },
+  { value: '1', label: 'In 1 day' },
+  { value: '7', label: 'In 7 days' },
+  { value: '30', label: 'In 30 days' },
+  { value: '90', label: 'In 90 days' },
+];
+
 const reportComponents = [
   { id: 'dashboard', label: 'Dashboard' },
   { id: 'rankTracker', label: 'Rank Tracker' },
-  // Add other relevant features here
+  { id: 'keywordAnalysis', label: 'Keyword Analysis' },
 ];
 
 export function ShareReportModal({ isOpen, onClose, onGenerateLink }: ShareReportModalProps) {
   const [selectedComponents, setSelectedComponents] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState('never');
+  const [password, setPassword] = useState('');
+  const [isLive, setIsLive] = useState(false);
 
   const handleCheckboxChange = (componentId: string) => {
     setSelectedComponents(prev =>
@@ -28,7 +48,12 @@ export function ShareReportModal({ isOpen, onClose, onGenerateLink }: ShareRepor
   };
 
   const handleGenerateLink = () => {
-    onGenerateLink(selectedComponents);
+    onGenerateLink(selectedComponents, {
+      expiresInDays: expiry === 'never' ? undefined : parseInt(expiry, 10),
+      password: password || undefined,
+      isLive
+    });
+    setPassword('');
     onClose();
   };
 
@@ -55,6 +80,41 @@ export function ShareReportModal({ isOpen, onClose, onGenerateLink }: ShareRepor
               </Label>
             </div>
           ))}
+          <div className="flex items-start justify-between gap-4 pt-2 border-t border-gray-700">
+            <div className="space-y-0.5">
+              <Label htmlFor="share-live" className="text-gray-300">Keep data live</Label>
+              <p className="text-xs text-gray-500">
+                Refresh the numbers on every view, keeping the date range relative to today. Country, device and page filters still apply.
+              </p>
+            </div>
+            <Switch id="share-live" checked={isLive} onCheckedChange={setIsLive} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="share-expiry" className="text-gray-300">Link expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="share-expiry" className="bg-gray-900 border-gray-700 text-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700 text-white">
+                {expiryOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="hover:bg-gray-700">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="share-password" className="text-gray-300">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder="Leave empty for no password"
+              className="bg-gray-900 border-gray-700 text-gray-300"
+            />
+          </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={onClose} className="text-gray-300 border-gray-600 hover:bg-gray-700 hover:text-white">
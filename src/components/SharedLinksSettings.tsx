@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, Eye, Link2, Loader2, Lock, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ShareLink, createShareLinkService, getShareLinkStatus } from '@/lib/shareLinkService';
+
+const statusStyles = {
+  active: 'bg-green-900/30 text-green-400 border-green-700',
+  expired: 'bg-gray-700 text-gray-400 border-gray-600',
+  revoked: 'bg-red-900/30 text-red-400 border-red-700',
+};
+
+export function SharedLinksSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInactive, setShowInactive] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  const shareLinkService = useMemo(
+    () => (user?.id ? createShareLinkService(user.id) : null),
+    [user?.id]
+  );
+
+  useEffect(() => {
+    if (!shareLinkService) return;
+
+    shareLinkService.getShareLinks()
+      .then(setLinks)
+      .catch(error => {
+        console.error('Error loading share links:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your share links.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [shareLinkService, toast]);
+
+  const getShareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    toast({
+      title: "Link Copied",
+      description: "The share link has been copied to your clipboard.",
+    });
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!shareLinkService) return;
+
+    try {
+      setRevokingId(link.id);
+      await shareLinkService.revokeShareLink(link.id);
+      setLinks(prev => prev.map(item => (
+        item.id === link.id ? { ...item, revokedAt: new Date().toISOString() } : item
+      )));
+      toast({
+        title: "Link Revoked",
+        description: "Anyone opening this link will no longer see the report.",
+      });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke share link.",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const visibleLinks = showInactive ? links : links.filter(link => getShareLinkStatus(link) === 'active');
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-white">Shared Links</CardTitle>
+            <CardDescription className="text-gray-400">
+              Report links you've shared, how often they've been viewed, and when they stop working
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="show-inactive-links" checked={showInactive} onCheckedChange={setShowInactive} />
+            <Label htmlFor="show-inactive-links" className="text-gray-300">Show expired & revoked</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading share links...
+          </div>
+        ) : visibleLinks.length === 0 ? (
+          <div className="py-12 text-center text-gray-400">
+            <Link2 className="h-8 w-8 mx-auto mb-3 text-gray-500" />
+            {links.length === 0 ? 'You haven\'t shared any reports yet.' : 'No active share links.'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700 hover:bg-transparent">
+                <TableHead className="text-gray-400">Property</TableHead>
+                <TableHead className="text-gray-400">Status</TableHead>
+                <TableHead className="text-gray-400">Created</TableHead>
+                <TableHead className="text-gray-400">Expires</TableHead>
+                <TableHead className="text-gray-400 text-right">Views</TableHead>
+                <TableHead className="text-gray-400">Last Viewed</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLinks.map(link => {
+                const status = getShareLinkStatus(link);
+                return (
+                  <TableRow key={link.id} className="border-gray-700 hover:bg-gray-700/50">
+                    <TableCell className="text-gray-200">
+                      <div className="flex items-center gap-2">
+                        {link.isPasswordProtected && (
+                          <span title="Password protected"><Lock className="h-3.5 w-3.5 text-yellow-400" /></span>
+                        )}
+                        {link.gscProperty}
+                        {link.isLive && (
+                          <Badge variant="outline" className="border-blue-700 text-blue-400">Live</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">{link.components.join(', ') || 'No components'}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusStyles[status]}>{status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-400 whitespace-nowrap">{format(new Date(link.createdAt), 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-gray-400 whitespace-nowrap">
+                      {link.expiresAt ? format(new Date(link.expiresAt), 'MMM d, yyyy HH:mm') : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right text-gray-300">
+                      <span className="inline-flex items-center gap-1"><Eye className="h-3.5 w-3.5" />{link.viewCount}</span>
+                    </TableCell>
+                    <TableCell className="text-gray-400 whitespace-nowrap">
+                      {link.lastViewedAt ? format(new Date(link.lastViewedAt), 'MMM d, yyyy HH:mm') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCopy(link.token)}
+                          disabled={status !== 'active'}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(link)}
+                          disabled={status !== 'active' || revokingId === link.id}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                        >
+                          {revokingId === link.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4 mr-1" />}
+                          Revoke
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { GoogleSheetsService } from '@/lib/googleSheetsService';
+import { ExportOptions, SheetsRefreshSchedule, SheetsWriteMode } from '@/types/aiReports';
+
+// The spreadsheet last appended to, offered again on the next export
+const LAST_SPREADSHEET_KEY = 'sheets_export_spreadsheet';
+
+interface SheetsExportModalProps {
+  isOpen: boolean;
+  isExporting: boolean;
+  onClose: () => void;
+  onExport: (spreadsheetId?: string, refresh?: ExportOptions['refresh']) => void;
+}
+
+export function SheetsExportModal({ isOpen, isExporting, onClose, onExport }: SheetsExportModalProps) {
+  const [appendToExisting, setAppendToExisting] = useState(false);
+  const [spreadsheetUrl, setSpreadsheetUrl] = useState('');
+  const [keepUpdated, setKeepUpdated] = useState(false);
+  const [schedule, setSchedule] = useState<SheetsRefreshSchedule>('weekly');
+  const [writeMode, setWriteMode] = useState<SheetsWriteMode>('overwrite');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const lastSpreadsheet = localStorage.getItem(LAST_SPREADSHEET_KEY);
+    setSpreadsheetUrl(lastSpreadsheet || '');
+    setAppendToExisting(!!lastSpreadsheet);
+    setKeepUpdated(false);
+  }, [isOpen]);
+
+  const spreadsheetId = appendToExisting ? GoogleSheetsService.parseSpreadsheetId(spreadsheetUrl) : null;
+  const isInvalid = appendToExisting && !spreadsheetId;
+
+  const handleExport = () => {
+    if (spreadsheetId) {
+      localStorage.setItem(LAST_SPREADSHEET_KEY, spreadsheetUrl.trim());
+    }
+    onExport(spreadsheetId || undefined, keepUpdated ? { schedule, writeMode } : undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-gray-800 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Export to Google Sheets</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            The report rows, AI summary and raw Search Console data are written to separate tabs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="sheets-append" className="text-gray-300">Add to an existing spreadsheet</Label>
+              <p className="text-xs text-gray-500">
+                Rows are appended to tabs from earlier exports of this report type; missing tabs are created.
+              </p>
+            </div>
+            <Switch id="sheets-append" checked={appendToExisting} onCheckedChange={setAppendToExisting} />
+          </div>
+          {appendToExisting && (
+            <div className="grid gap-2">
+              <Label htmlFor="sheets-url" className="text-gray-300">Spreadsheet URL</Label>
+              <Input
+                id="sheets-url"
+                value={spreadsheetUrl}
+                onChange={e => setSpreadsheetUrl(e.target.value)}
+                placeholder="https://docs.google.com/spreadsheets/d/..."
+                className="bg-gray-900 border-gray-700 text-gray-300"
+              />
+              {spreadsheetUrl.trim() && isInvalid && (
+                <p className="text-xs text-red-400">Enter a Google Sheets URL or spreadsheet ID.</p>
+              )}
+            </div>
+          )}
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="sheets-refresh" className="text-gray-300">Keep the GSC Data tab updated</Label>
+              <p className="text-xs text-gray-500">
+                Re-runs the Search Console query on a schedule. The report rows and AI summary tabs are not refreshed.
+                Manage scheduled exports in Settings.
+              </p>
+            </div>
+            <Switch id="sheets-refresh" checked={keepUpdated} onCheckedChange={setKeepUpdated} />
+          </div>
+          {keepUpdated && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label className="text-gray-300">Refresh</Label>
+                <Select value={schedule} onValueChange={(value) => setSchedule(value as SheetsRefreshSchedule)}>
+                  <SelectTrigger className="bg-gray-900 border-gray-700 text-gray-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                    <SelectItem value="daily" className="text-white focus:bg-gray-600 focus:text-white">Daily</SelectItem>
+                    <SelectItem value="weekly" className="text-white focus:bg-gray-600 focus:text-white">Weekly</SelectItem>
+                    <SelectItem value="monthly" className="text-white focus:bg-gray-600 focus:text-white">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label className="text-gray-300">On each refresh</Label>
+                <Select value={writeMode} onValueChange={(value) => setWriteMode(value as SheetsWriteMode)}>
+                  <SelectTrigger className="bg-gray-900 border-gray-700 text-gray-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                    <SelectItem value="overwrite" className="text-white focus:bg-gray-600 focus:text-white">Replace the data</SelectItem>
+                    <SelectItem value="append" className="text-white focus:bg-gray-600 focus:text-white">Append new rows</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} className="text-gray-300 border-gray-600 hover:bg-gray-700 hover:text-white">
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || isInvalid} className="bg-blue-600 hover:bg-blue-700 text-white">
+            {isExporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, ExternalLink, FileSpreadsheet, Loader2, Play, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { SheetsExportBinding, createSheetsBindingService } from '@/lib/sheetsBindingService';
+import { SheetsRefreshSchedule, SheetsWriteMode } from '@/types/aiReports';
+
+const formatRunTime = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+export function SheetsRefreshSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [bindings, setBindings] = useState<SheetsExportBinding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  const bindingService = useMemo(
+    () => (user?.id ? createSheetsBindingService(user.id) : null),
+    [user?.id]
+  );
+
+  const loadBindings = useCallback(async () => {
+    if (!bindingService) return;
+    setBindings(await bindingService.getBindings());
+  }, [bindingService]);
+
+  useEffect(() => {
+    if (!bindingService) return;
+
+    loadBindings()
+      .catch(error => {
+        console.error('Error loading scheduled exports:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your scheduled exports.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [bindingService, loadBindings, toast]);
+
+  const runUpdate = async (update: () => Promise<void>, failureMessage: string) => {
+    try {
+      await update();
+      await loadBindings();
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRunNow = async (binding: SheetsExportBinding) => {
+    if (!bindingService) return;
+
+    try {
+      setRunningId(binding.id);
+      const result = await bindingService.runNow(binding.id);
+      await loadBindings();
+
+      if (result.status === 'success') {
+        toast({
+          title: "Success",
+          description: `Wrote ${(result.rowCount ?? 0).toLocaleString()} rows to "${binding.tabTitle}".`,
+        });
+      } else {
+        toast({
+          title: "Refresh failed",
+          description: result.error || "The spreadsheet could not be refreshed.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error refreshing spreadsheet:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refresh the spreadsheet.",
+        variant: "destructive",
+      });
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Scheduled Google Sheets Exports
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Spreadsheets whose GSC Data tab is refreshed automatically with raw Search Console rows. The report rows
+          and AI summary tabs keep the values from the original export. Schedule a refresh when exporting a report
+          to Google Sheets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading scheduled exports...
+          </div>
+        ) : bindings.length === 0 ? (
+          <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
+            <p className="text-gray-400">No scheduled exports yet.</p>
+          </div>
+        ) : (
+          bindings.map(binding => (
+            <div key={binding.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <a
+                    href={binding.spreadsheetUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-white hover:text-blue-400 flex items-center gap-2"
+                  >
+                    <span className="truncate">{binding.tabTitle}</span>
+                    <ExternalLink className="h-3.5 w-3.5 shrink-0" />
+                  </a>
+                  <p className="text-xs text-gray-400 truncate">
+                    {binding.siteUrl} · last {binding.query.windowDays} days · raw GSC rows only
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={binding.isActive}
+                    onCheckedChange={(isActive) => bindingService && runUpdate(
+                      () => bindingService.updateBinding(binding.id, { isActive }),
+                      'Failed to update scheduled export.'
+                    )}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRunNow(binding)}
+                    disabled={runningId !== null}
+                    className="text-gray-300 hover:bg-gray-600 border-gray-600"
+                  >
+                    {runningId === binding.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => bindingService && runUpdate(
+                      () => bindingService.deleteBinding(binding.id),
+                      'Failed to delete scheduled export.'
+                    )}
+                    className="text-red-400 hover:text-red-300 hover:bg-red-950/30 border-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={binding.schedule}
+                  onValueChange={(value) => bindingService && runUpdate(
+                    () => bindingService.updateBinding(binding.id, { schedule: value as SheetsRefreshSchedule }),
+                    'Failed to update scheduled export.'
+                  )}
+                >
+                  <SelectTrigger className="w-[120px] h-8 bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                    <SelectItem value="daily" className="text-white focus:bg-gray-600 focus:text-white">Daily</SelectItem>
+                    <SelectItem value="weekly" className="text-white focus:bg-gray-600 focus:text-white">Weekly</SelectItem>
+                    <SelectItem value="monthly" className="text-white focus:bg-gray-600 focus:text-white">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={binding.writeMode}
+                  onValueChange={(value) => bindingService && runUpdate(
+                    () => bindingService.updateBinding(binding.id, { writeMode: value as SheetsWriteMode }),
+                    'Failed to update scheduled export.'
+                  )}
+                >
+                  <SelectTrigger className="w-[160px] h-8 bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600 text-white">
+                    <SelectItem value="overwrite" className="text-white focus:bg-gray-600 focus:text-white">Replace the data</SelectItem>
+                    <SelectItem value="append" className="text-white focus:bg-gray-600 focus:text-white">Append new rows</SelectItem>
+                  </SelectContent>
+                </Select>
+                {binding.isActive && (
+                  <span className="text-xs text-gray-400">Next run {formatRunTime(binding.nextRunAt)}</span>
+                )}
+              </div>
+
+              {binding.lastRunAt ? (
+                <div className="flex items-start gap-2 text-xs">
+                  {binding.lastStatus === 'error' ? (
+                    <AlertCircle className="h-4 w-4 text-red-400 shrink-0" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 text-green-400 shrink-0" />
+                  )}
+                  <div className="space-y-1">
+                    <p className="text-gray-300">
+                      Last run {formatRunTime(binding.lastRunAt)}
+                      {binding.lastStatus === 'success' && binding.lastRowCount !== null && (
+                        <> · {binding.lastRowCount.toLocaleString()} rows</>
+                      )}
+                    </p>
+                    {binding.lastStatus === 'error' && binding.lastError && (
+                      <p className="text-red-400">{binding.lastError}</p>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <Badge variant="outline" className="text-xs text-gray-400 border-gray-600">Not run yet</Badge>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useCallback, useState } from 'react';
+import { Database, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Progress } from '../ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { gscService } from '@/lib/gscService';
+import type { CacheStats } from '@/lib/cacheManager';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Readout of the browser cache behind gscService, with a way to force fresh data
+export function CacheStatus() {
+  const { toast } = useToast();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await gscService.getCacheStatus());
+    } catch (error) {
+      console.error('Error reading cache status:', error);
+    }
+  }, []);
+
+  const handleClear = async () => {
+    try {
+      setClearing(true);
+      await gscService.clearCache();
+      await loadStats();
+      toast({
+        title: "Cache cleared",
+        description: "Search Console data will be fetched again on the next load.",
+      });
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear the cache.",
+        variant: "destructive",
+      });
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+  const hitRate = stats && lookups > 0 ? Math.round((stats.hits / lookups) * 100) : null;
+
+  return (
+    <Popover onOpenChange={(open) => { if (open) loadStats(); }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-400 hover:bg-gray-800 hover:text-gray-200">
+          <Database className="h-4 w-4 mr-2" /> Cache status
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-gray-800 border-gray-700 text-gray-300 space-y-3">
+        {!stats ? (
+          <div className="flex items-center justify-center py-4 text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" /> Reading cache...
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Cached responses</span>
+                <span className="text-white">{stats.persistent ? stats.persistentEntries : stats.memoryEntries}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Hit rate this session</span>
+                <span className="text-white">{hitRate === null ? '—' : `${hitRate}% of ${lookups}`}</span>
+              </div>
+            </div>
+
+            {stats.persistent ? (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Stored in this browser</span>
+                  <span>{formatBytes(stats.persistentBytes)} of {formatBytes(stats.maxPersistentBytes)}</span>
+                </div>
+                <Progress value={(stats.persistentBytes / Math.max(stats.maxPersistentBytes, 1)) * 100} />
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">
+                Persistent storage is unavailable, so responses are only cached until this tab closes
+                ({formatBytes(stats.memoryBytes)} in memory).
+              </p>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleClear}
+              disabled={clearing}
+              className="w-full text-gray-300 hover:bg-gray-600 border-gray-600"
+            >
+              {clearing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Trash2 className="h-4 w-4 mr-2" />}
+              Clear cache
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
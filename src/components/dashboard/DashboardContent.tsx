@@ -5,6 +5,7 @@ import { useProgressiveLoading } from '@/hooks/useProgressiveLoading';
 import { DataLoadingOverlay } from '../DataLoadingOverlay';
 import { LoadingProgress } from '../LoadingProgress';
 import { GSCService } from '@/lib/gscService';
+import { classifyKeywordIntent } from '@/lib/keywordClassification';
 import { useToast } from '@/hooks/use-toast';
 
 // Import all the dashboard components from the original Dashboard page
@@ -15,44 +16,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
 import { TrendingUp, TrendingDown, Eye, MousePointer, Target, Search, Calendar, Download, Share2, Users, Globe, Smartphone, Monitor, Tablet } from 'lucide-react';
 
-// Keyword classification helper
-function classifyKeywordCategory(query: string): string {
-  const lowerQuery = query.toLowerCase();
-  
-  // Product-related keywords
-  if (
-    lowerQuery.includes('buy') ||
-    lowerQuery.includes('price') ||
-    lowerQuery.includes('cost') ||
-    lowerQuery.includes('purchase') ||
-    lowerQuery.includes('shop') ||
-    lowerQuery.includes('order')
-  ) {
-    return 'product';
-  }
-  
-  // Transactional keywords
-  if (
-    lowerQuery.includes('how to') ||
-    lowerQuery.includes('vs') ||
-    lowerQuery.includes('versus') ||
-    lowerQuery.includes('compare') ||
-    lowerQuery.includes('best')
-  ) {
-    return 'transactional';
-  }
-  
-  // Default to informational
-  return 'informational';
-}
-
 interface DashboardContentProps {
   isActive: boolean;
   onNavigate?: (section: string) => void;
 }
 
 export function DashboardContent({ isActive, onNavigate }: DashboardContentProps) {
-  const { user, getGSCToken, getGSCProperty } = useAuth();
+  const { user, hasGSCConnection, getGSCProperty } = useAuth();
   const { toast } = useToast();
   const gscService = new GSCService();
   
@@ -96,9 +66,9 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
     await new Promise(resolve => setTimeout(resolve, 100));
     
     const gscProperty = getGSCProperty();
-    const token = getGSCToken();
+    const isConnected = hasGSCConnection();
     
-    if (!gscProperty || !token) {
+    if (!gscProperty || !isConnected) {
       // Check if we're coming from auth callback by looking at referrer or recent navigation
       const isRecentCallback = document.referrer.includes('accounts.google.com') || 
                               sessionStorage.getItem('gsc_auth_pending') === 'true';
@@ -109,9 +79,9 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
         await new Promise(resolve => setTimeout(resolve, 1000));
         
         const retryProperty = getGSCProperty();
-        const retryToken = getGSCToken();
+        const retryConnected = hasGSCConnection();
         
-        if (!retryProperty || !retryToken) {
+        if (!retryProperty || !retryConnected) {
           setError('Google Search Console not connected');
           setLoading(false);
           return;
@@ -149,7 +119,7 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
           // Filter by category if needed
           const filteredData = category === 'all' 
             ? data 
-            : data.filter(item => classifyKeywordCategory(item.query) === category);
+            : data.filter(item => classifyKeywordIntent(item.query) === category);
 
           console.log(`[Dashboard] Data after category filtering: ${filteredData.length} items`);
           
@@ -195,7 +165,7 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
           // Filter by category if needed
           const filteredData = category === 'all'
             ? data
-            : data.filter(item => classifyKeywordCategory(item.query) === category);
+            : data.filter(item => classifyKeywordIntent(item.query) === category);
 
           console.log(`[Dashboard] Trends - Data after category filtering: ${filteredData.length} items`);
 
@@ -262,7 +232,7 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
           // Filter by category if needed
           const filteredData = category === 'all'
             ? data
-            : data.filter(item => classifyKeywordCategory(item.query) === category);
+            : data.filter(item => classifyKeywordIntent(item.query) === category);
 
           console.log(`[Dashboard] Rankings - Data after category filtering: ${filteredData.length} items`);
 
@@ -346,9 +316,9 @@ export function DashboardContent({ isActive, onNavigate }: DashboardContentProps
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Categories</SelectItem>
-          <SelectItem value="product">Product</SelectItem>
-          <SelectItem value="informational">Informational</SelectItem>
-          <SelectItem value="transactional">Transactional</SelectItem>
+          <SelectItem value="tofu">ToFu</SelectItem>
+          <SelectItem value="mofu">MoFu</SelectItem>
+          <SelectItem value="bofu">BoFu</SelectItem>
         </SelectContent>
       </Select>
     </div>
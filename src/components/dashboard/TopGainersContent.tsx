@@ -3,7 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { useDataExports } from '@/hooks/useDataExports';
 import { useToast } from '@/hooks/use-toast';
-import { GSCService, GSCDataPoint } from '@/lib/gscService';
+import { GSCService, GSCPeriodMetrics } from '@/lib/gscService';
 import { OpenAIService } from '@/lib/openAIService';
 import { ExportService } from '@/lib/exportService';
 import { createReportService } from "@/lib/reportService";
@@ -40,7 +40,7 @@ import {
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { DataLoadingOverlay } from '../DataLoadingOverlay';
-import { subDays, subWeeks, format, startOfWeek, endOfWeek, eachWeekOfInterval } from 'date-fns';
+import { subDays, subWeeks, format, startOfWeek } from 'date-fns';
 
 // Enhanced interfaces for the new Top Gainers implementation
 interface TopGainerPage {
@@ -116,6 +116,13 @@ const detectPageType = (url: string): string => {
   return 'Other';
 };
 
+const toPeriodMetrics = (metrics: GSCPeriodMetrics) => ({
+  clicks: metrics.clicks,
+  impressions: metrics.impressions,
+  ctr: metrics.ctr,
+  avgPosition: metrics.position
+});
+
 // Date calculation utilities
 const calculateDateRanges = () => {
   const now = new Date();
@@ -152,7 +159,7 @@ const calculateDateRanges = () => {
 };
 
 export function TopGainersContent({ isActive, onReportSaved }: TopGainersContentProps) {
-  const { user, getGSCToken, getGSCProperty } = useAuth();
+  const { user, hasGSCConnection, getGSCProperty } = useAuth();
   const { subscriptionType } = useSubscription();
   const { trackExport } = useDataExports();
   const { toast } = useToast();
@@ -198,7 +205,7 @@ export function TopGainersContent({ isActive, onReportSaved }: TopGainersContent
         pages: gainerPagesData,
         dateRanges: ranges,
         aiPatterns: patterns // Include AI patterns in saved data
-      }, `Enhanced Top Gainers Report generated with ${gainerPagesData.length} gaining pages. Total clicks gained: ${summaryData.netClicksGained.toLocaleString()}, Average CTR improvement: ${(summaryData.avgCtrImprovement * 100).toFixed(2)}%.`);
+      }, `Enhanced Top Gainers Report generated with ${gainerPagesData.length} gaining pages. Total clicks gained: ${summaryData.netClicksGained.toLocaleString()}, Average CTR improvement: ${(summaryData.avgCtrImprovement * 100).toFixed(2)}%.`, getGSCProperty() || undefined);
       
       console.log('Top Gainers report saved to Supabase successfully');
     } catch (error) {
@@ -215,9 +222,8 @@ const loadTopGainersData = async () => {
     
     try {
       const gscProperty = getGSCProperty();
-      const token = getGSCToken();
       
-      if (!gscProperty || !token) {
+      if (!gscProperty || !hasGSCConnection()) {
         throw new Error('Google Search Console not connected');
       }
 
@@ -227,81 +233,46 @@ const loadTopGainersData = async () => {
       setProgressState(prev => ({ ...prev, overall: 10, isLoading: true }));
       setProgressState(prev => ({ ...prev, currentStage: { id: "fetch", name: "Fetching GSC Data", progress: prev.overall, status: "loading" as const, message: "Step 1: Fetching GSC data for both time periods..." } }));
       
-      const [currentData, previousData] = await Promise.all([
-        // Current period: last 3 months
-        gscService.fetchSearchAnalyticsData({
-        siteUrl: gscProperty,
-          startDate: dateRanges.current.startDate,
-          endDate: dateRanges.current.endDate,
-        dimensions: ['page', 'query'],
-        rowLimit: 25000
-        }),
-        // Previous period: 3 months before that
-        gscService.fetchSearchAnalyticsData({
-        siteUrl: gscProperty,
-          startDate: dateRanges.previous.startDate,
-          endDate: dateRanges.previous.endDate,
-        dimensions: ['page', 'query'],
-        rowLimit: 25000
-        })
+      // Page totals come from device rows, which aren't anonymised like query rows
+      const periods = { siteUrl: gscProperty, current: dateRanges.current, previous: dateRanges.previous };
+      const [comparisons, byQuery] = await Promise.all([
+        gscService.fetchPeriodComparison({ ...periods, granularity: 'page_device' }),
+        gscService.fetchPeriodComparison({ ...periods, granularity: 'page_query' })
       ]);
+      const topQueryByPage = new Map(byQuery.map(page => [page.page, page.topQuery]));
 
       setProgressState(prev => ({ ...prev, overall: 30, isLoading: true }));
       setProgressState(prev => ({ ...prev, currentStage: { id: "process", name: "Processing Data", progress: prev.overall, status: "loading" as const, message: "Step 2: Processing data and calculating deltas..." } }));
 
-      // Step 2: Calculate Deltas and process page data
-      const pageDataCurrent = groupDataByPage(currentData);
-      const pageDataPrevious = groupDataByPage(previousData);
-      
-      const gainerPagesData: TopGainerPage[] = [];
-      
-      // Calculate deltas for each page
-      for (const [pageUrl, currentMetrics] of Object.entries(pageDataCurrent)) {
-        const previousMetrics = pageDataPrevious[pageUrl] || { clicks: 0, impressions: 0, ctr: 0, avgPosition: 100 };
-        
-        const clicksGained = currentMetrics.clicks - previousMetrics.clicks;
-        
-        // Only include pages with positive clicks delta
-        if (clicksGained > 0) {
-          const ctrImprovement = currentMetrics.ctr - previousMetrics.ctr;
-          const positionChange = previousMetrics.avgPosition - currentMetrics.avgPosition; // Positive = improvement
-          
-          gainerPagesData.push({
-            url: pageUrl,
-            pageType: detectPageType(pageUrl),
-            topQuery: '', // Will be populated in step 3
-            clicksGained,
-            ctrImprovement,
-            positionChange,
-            currentMetrics,
-            previousMetrics,
-            weeklyTrendData: [], // Will be populated in step 4
-            selected: false
-          });
-        }
-      }
+      // Step 2: Calculate Deltas, keeping only pages with positive clicks delta
+      const gainerPagesData: TopGainerPage[] = comparisons
+        .filter(page => page.current.clicks > page.previous.clicks)
+        .map(page => ({
+          url: page.page,
+          pageType: detectPageType(page.page),
+          // Step 3: Top query per page comes from the page × query comparison
+          topQuery: topQueryByPage.get(page.page) || 'No data available',
+          clicksGained: page.current.clicks - page.previous.clicks,
+          ctrImprovement: page.current.ctr - page.previous.ctr,
+          // Positive = improvement; pages new this period have nothing to compare against
+          positionChange: page.previous.impressions > 0 ? page.previous.position - page.current.position : 0,
+          currentMetrics: toPeriodMetrics(page.current),
+          previousMetrics: toPeriodMetrics(page.previous),
+          weeklyTrendData: [], // Will be populated in step 4
+          selected: false
+        }));
 
       // Sort by clicks delta descending
       gainerPagesData.sort((a, b) => b.clicksGained - a.clicksGained);
 
-      setProgressState(prev => ({ ...prev, overall: 50, isLoading: true }));
-      setProgressState(prev => ({ ...prev, currentStage: { id: "queries", name: "Getting Top Queries", progress: prev.overall, status: "loading" as const, message: "Step 3: Getting top query for each gainer page..." } }));
-
-      // Step 3: Get Top Query Per Page
-      for (let i = 0; i < Math.min(gainerPagesData.length, 20); i++) {
-        const page = gainerPagesData[i];
-        const topQuery = await getTopQueryForPage(page.url, dateRanges.current, gscProperty);
-        page.topQuery = topQuery;
-      }
-
       setProgressState(prev => ({ ...prev, overall: 70, isLoading: true }));
       setProgressState(prev => ({ ...prev, currentStage: { id: "trends", name: "Generating Trends", progress: prev.overall, status: "loading" as const, message: "Step 4: Generating weekly performance trend data..." } }));
 
       // Step 4: Generate Weekly Performance Trend Data
       const top5Pages = gainerPagesData.slice(0, 5);
+      const weeklyTrends = await gscService.getWeeklyPageTrends(gscProperty, dateRanges.trend, top5Pages.map(page => page.url));
       for (const page of top5Pages) {
-        const weeklyData = await getWeeklyTrendData(page.url, dateRanges.trend, gscProperty);
-        page.weeklyTrendData = weeklyData;
+        page.weeklyTrendData = weeklyTrends[page.url] || [];
       }
 
       setTopGainerPages(gainerPagesData);
@@ -348,122 +319,6 @@ const loadTopGainersData = async () => {
     }
   };
 
-  // Helper function to group GSC data by page
-  const groupDataByPage = (data: GSCDataPoint[]) => {
-    const grouped: Record<string, { clicks: number; impressions: number; ctr: number; avgPosition: number; queryCount: number }> = {};
-
-    for (const item of data) {
-      if (!item.page) continue;
-      
-      if (!grouped[item.page]) {
-        grouped[item.page] = { clicks: 0, impressions: 0, ctr: 0, avgPosition: 0, queryCount: 0 };
-      }
-      
-      grouped[item.page].clicks += item.clicks;
-      grouped[item.page].impressions += item.impressions;
-      grouped[item.page].avgPosition += item.position;
-      grouped[item.page].queryCount += 1;
-    }
-    
-    // Calculate averages
-    for (const page of Object.keys(grouped)) {
-      const pageData = grouped[page];
-      pageData.ctr = pageData.impressions > 0 ? pageData.clicks / pageData.impressions : 0;
-      pageData.avgPosition = pageData.queryCount > 0 ? pageData.avgPosition / pageData.queryCount : 100;
-    }
-    
-    return grouped;
-  };
-
-  // Step 3: Get top query for a specific page
-  const getTopQueryForPage = async (pageUrl: string, dateRange: { startDate: string; endDate: string }, gscProperty: string): Promise<string> => {
-    try {
-      const queryData = await gscService.fetchSearchAnalyticsData({
-        siteUrl: gscProperty,
-        startDate: dateRange.startDate,
-        endDate: dateRange.endDate,
-        dimensions: ['page', 'query'],
-        rowLimit: 1000,
-        dimensionFilterGroups: [{
-          filters: [{
-            dimension: 'page',
-            operator: 'equals',
-            expression: pageUrl
-          }]
-        }]
-      });
-
-      if (queryData.length === 0) return 'No data available';
-      
-      // Find query with highest clicks for this page
-      const topQuery = queryData.reduce((best, current) => 
-        current.clicks > best.clicks ? current : best
-      );
-      
-      return topQuery.query || 'Unknown query';
-    } catch (error) {
-      console.error('Error fetching top query for page:', pageUrl, error);
-      return 'Error fetching query';
-    }
-  };
-
-  // Step 4: Generate weekly performance trend data
-  const getWeeklyTrendData = async (pageUrl: string, dateRange: { startDate: string; endDate: string }, gscProperty: string): Promise<WeeklyTrendData[]> => {
-    try {
-      const trendData = await gscService.fetchSearchAnalyticsData({
-        siteUrl: gscProperty,
-        startDate: dateRange.startDate,
-        endDate: dateRange.endDate,
-        dimensions: ['page', 'date'],
-        rowLimit: 5000,
-        dimensionFilterGroups: [{
-          filters: [{
-            dimension: 'page',
-            operator: 'equals',
-            expression: pageUrl
-          }]
-        }]
-      });
-      
-      // Group by weeks
-      const startDate = new Date(dateRange.startDate);
-      const endDate = new Date(dateRange.endDate);
-      const weeks = eachWeekOfInterval({ start: startDate, end: endDate }, { weekStartsOn: 1 });
-
-      const weeklyData: WeeklyTrendData[] = weeks.map(weekStart => {
-        const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-        const weekLabel = `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d')}`;
-
-        // Filter data for this week
-        const weekData = trendData.filter(item => {
-          if (!item.date) return false;
-          const itemDate = new Date(item.date);
-          return itemDate >= weekStart && itemDate <= weekEnd;
-        });
-
-        // Aggregate weekly metrics
-        const totalClicks = weekData.reduce((sum, item) => sum + item.clicks, 0);
-        const totalImpressions = weekData.reduce((sum, item) => sum + item.impressions, 0);
-        const avgCtr = totalImpressions > 0 ? totalClicks / totalImpressions : 0;
-        const avgPosition = weekData.length > 0 
-          ? weekData.reduce((sum, item) => sum + item.position, 0) / weekData.length 
-          : 0;
-
-        return {
-          weekLabel,
-          clicks: totalClicks,
-          ctr: avgCtr,
-          avgPosition
-        };
-    });
-
-      return weeklyData;
-    } catch (error) {
-      console.error('Error fetching weekly trend data for page:', pageUrl, error);
-      return [];
-    }
-  };
-
   // Step 5: Generate AI-powered success patterns
   const generateAISuccessPatterns = async (topPages: TopGainerPage[]): Promise<AISuccessPatterns> => {
     setAiPatterns(prev => ({ ...prev, loading: true }));
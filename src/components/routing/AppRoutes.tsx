@@ -5,6 +5,9 @@ import AccountDashboard from "@/pages/AccountDashboard";
 import Dashboard from '@/pages/Dashboard';
 import ClickGapIntelligence from '@/pages/ClickGapIntelligence';
 import RankTracker from '@/pages/RankTracker';
+import KeywordClustering from '@/pages/KeywordClustering';
+import GapAnalysis from '@/pages/GapAnalysis';
+import Reports from '@/pages/Reports';
 import Settings from '@/pages/Settings';
 import CustomAIDashboard from '@/pages/CustomAIDashboard';
 import TopGainersReport from '@/pages/TopGainersReport';
@@ -543,19 +546,19 @@ export const AppRoutes = () => {
       
       <Route path="/gap-analysis" element={
         <ProtectedRoute>
-          <Dashboard />
+          <GapAnalysis />
         </ProtectedRoute>
       } />
       
       <Route path="/keyword-clustering" element={
         <ProtectedRoute>
-          <Dashboard />
+          <KeywordClustering />
         </ProtectedRoute>
       } />
       
       <Route path="/reports" element={
         <ProtectedRoute>
-          <Dashboard />
+          <Reports />
         </ProtectedRoute>
       } />
       
@@ -589,6 +592,24 @@ export const AppRoutes = () => {
         </ProtectedRoute>
       } />
       
+      <Route path="/settings/sharedlinks" element={
+        <ProtectedRoute>
+          <Settings />
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/settings/scheduledexports" element={
+        <ProtectedRoute>
+          <Settings />
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/settings/rawdata" element={
+        <ProtectedRoute>
+          <Settings />
+        </ProtectedRoute>
+      } />
+      
       <Route path="/settings/keywordstype" element={
         <ProtectedRoute>
           <Settings />
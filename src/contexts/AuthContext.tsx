@@ -2,7 +2,8 @@ import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase, refreshSessionIfNeeded } from '@/lib/supabaseClient';
 import { User as SupabaseUser } from '@supabase/supabase-js';
-import { GoogleAuthService } from '@/lib/googleAuthService';
+import { GoogleAuthService, GSC_CONNECTED_KEY, hasGSCConnection } from '@/lib/googleAuthService';
+import { gscService } from '@/lib/gscService';
 import { subdomainService } from '@/config/subdomainConfig';
 
 // Development mode helper - creates a mock user for development
@@ -35,7 +36,7 @@ interface AuthContextType {
   login: (userData: User) => void;
   logout: () => void;
   isAddonAuthenticated: () => boolean;
-  getGSCToken: () => string | null;
+  hasGSCConnection: () => boolean;
   getGSCProperty: () => string | null;
   connectGSC: () => Promise<void>;
   disconnectGSC: () => Promise<void>;
@@ -48,7 +49,7 @@ const AuthContext = createContext<AuthContextType>({
   login: () => {},
   logout: () => {},
   isAddonAuthenticated: () => false,
-  getGSCToken: () => null,
+  hasGSCConnection: () => false,
   getGSCProperty: () => null,
   connectGSC: async () => {},
   disconnectGSC: async () => {},
@@ -68,13 +69,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     console.log('Clearing stored session data...');
     setUser(null);
     localStorage.removeItem('user');
-    localStorage.removeItem('gsc_token');
+    localStorage.removeItem(GSC_CONNECTED_KEY);
     localStorage.removeItem('gsc_property');
     // Clear any other auth-related storage
     sessionStorage.removeItem('gsc_auth_in_progress');
     sessionStorage.removeItem('gsc_auth_pending');
     sessionStorage.removeItem('sb-access-token');
     sessionStorage.removeItem('sb-refresh-token');
+    // Cached GSC responses persist across reloads, so they must not outlive the session
+    gscService.clearCache().catch(error => console.warn('Failed to clear GSC cache:', error));
     
     // In production, also clear cross-subdomain auth cookies
     const config = subdomainService.getConfig();
@@ -398,7 +401,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             name: supabaseUser.user_metadata?.full_name || supabaseUser.email!.split('@')[0],
             member_since: newInstallation.created_at,
             current_plan: newInstallation.subscription_type,
-            isAddonUser: !!localStorage.getItem('gsc_token'),
+            isAddonUser: hasGSCConnection(),
             gscProperty: localStorage.getItem('gsc_property') || undefined,
             avatar_url: avatarUrl
           };
@@ -416,7 +419,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           name: installationData.full_name || supabaseUser.user_metadata?.full_name || supabaseUser.email!.split('@')[0],
           member_since: installationData.install_date,
           current_plan: installationData.subscription_type,
-          isAddonUser: !!localStorage.getItem('gsc_token'),
+          isAddonUser: hasGSCConnection(),
           gscProperty: localStorage.getItem('gsc_property') || undefined,
           avatar_url: avatarUrl
         };
@@ -451,7 +454,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     console.log('Login called with:', userData);
     const enhancedUserData = {
       ...userData,
-      isAddonUser: !!localStorage.getItem('gsc_token'),
+      isAddonUser: hasGSCConnection(),
       gscProperty: localStorage.getItem('gsc_property') || userData.gscProperty
     };
     setUser(enhancedUserData);
@@ -512,7 +515,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const disconnectGSC = async () => {
     try {
       console.log('🔄 Starting GSC disconnect process...');
-      
+
+      // Revoke the Google grant held by the token vault
+      try {
+        await googleAuthService.disconnect();
+      } catch (vaultError) {
+        console.error('Failed to revoke Google access:', vaultError);
+      }
+
       // Clear all GSC auth state and tokens
       googleAuthService.clearAuthState();
       
@@ -571,11 +581,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const isAddonAuthenticated = () => {
-    return !!localStorage.getItem('gsc_token');
-  };
-
-  const getGSCToken = () => {
-    return localStorage.getItem('gsc_token');
+    return hasGSCConnection();
   };
 
   const getGSCProperty = () => {
@@ -588,7 +594,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     login,
     logout,
     isAddonAuthenticated,
-    getGSCToken,
+    hasGSCConnection,
     getGSCProperty,
     connectGSC,
     disconnectGSC,
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { useAuth } from './AuthContext';
-import { GoogleAuthService } from '@/lib/googleAuthService';
+import { GoogleAuthService, hasGSCConnection } from '@/lib/googleAuthService';
 import { GSCService } from '@/lib/gscService';
 import { toast } from '@/hooks/use-toast';
 
@@ -11,8 +11,10 @@ export interface Project {
   name: string;
   gsc_property: string;
   is_active: boolean;
-  sync_status: 'pending' | 'syncing' | 'completed' | 'error';
+  sync_status: 'pending' | 'syncing' | 'partial' | 'completed' | 'error';
   last_sync_date?: string;
+  synced_through?: string;
+  google_account_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -104,8 +106,8 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
           console.log('='.repeat(80));
           console.log('PROJECTS TABLE SETUP REQUIRED');
           console.log('='.repeat(80));
-          console.log('Please go to your Supabase dashboard > SQL Editor and run the SQL from create-projects-table.sql');
-          console.log('Or copy and paste this SQL:');
+          console.log('Apply the migrations in supabase/migrations (e.g. `supabase db push`); later migrations add tables that reference projects.');
+          console.log('Or copy and paste this SQL, which matches the projects table those migrations create:');
           console.log(`
 -- Create projects table for Multi-Project Workspace
 CREATE TABLE IF NOT EXISTS projects (
@@ -114,8 +116,9 @@ CREATE TABLE IF NOT EXISTS projects (
     name TEXT NOT NULL,
     gsc_property TEXT NOT NULL,
     is_active BOOLEAN DEFAULT false,
-    sync_status TEXT DEFAULT 'pending' CHECK (sync_status IN ('pending', 'syncing', 'completed', 'error')),
+    sync_status TEXT DEFAULT 'pending' CHECK (sync_status IN ('pending', 'syncing', 'partial', 'completed', 'error')),
     last_sync_date TIMESTAMP WITH TIME ZONE,
+    synced_through DATE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(user_id, name),
@@ -194,8 +197,7 @@ CREATE INDEX IF NOT EXISTS projects_user_id_active_idx ON projects(user_id, is_a
       setIsLoadingProperties(true);
       
       // Check if user is connected to GSC first
-      const token = localStorage.getItem('gsc_token');
-      if (!token) {
+      if (!hasGSCConnection()) {
         setGscProperties([]);
         return;
       }
@@ -277,7 +279,9 @@ CREATE INDEX IF NOT EXISTS projects_user_id_active_idx ON projects(user_id, is_a
         name,
         gsc_property: gscProperty,
         is_active: projects.length === 0, // Make first project active
-        sync_status: 'pending' as const
+        sync_status: 'pending' as const,
+        // Bind the property to the Google account it was picked from
+        google_account_id: localStorage.getItem('gsc_account_id')
       };
       console.log('Project data to insert:', projectData);
 
@@ -428,50 +432,63 @@ CREATE INDEX IF NOT EXISTS projects_user_id_active_idx ON projects(user_id, is_a
         p.id === projectId ? { ...p, sync_status: 'syncing' as const } : p
       ));
 
-      // Calculate date range (last 12 months)
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setFullYear(startDate.getFullYear() - 1);
+      // Only fetch the days missing since the last fully ingested day
+      const result = await gscService.syncProjectIncremental(project.id, project.gsc_property);
 
-      const startDateStr = startDate.toISOString().split('T')[0];
-      const endDateStr = endDate.toISOString().split('T')[0];
+      // Without any ingested day there is no progress to report
+      const syncStatus = result.isComplete
+        ? 'completed' as const
+        : result.syncedThrough ? 'partial' as const : 'error' as const;
+      const lastSyncDate = new Date().toISOString();
 
-      // Sync GSC data
-      await gscService.syncGSCData(startDateStr, endDateStr);
-
-      // Update sync status to completed
       await supabase
         .from('projects')
         .update({ 
-          sync_status: 'completed',
-          last_sync_date: new Date().toISOString()
+          sync_status: syncStatus,
+          last_sync_date: lastSyncDate,
+          synced_through: result.syncedThrough
         })
         .eq('id', projectId);
 
       setProjects(prev => prev.map(p => 
         p.id === projectId ? { 
           ...p, 
-          sync_status: 'completed' as const,
-          last_sync_date: new Date().toISOString()
+          sync_status: syncStatus,
+          last_sync_date: lastSyncDate,
+          synced_through: result.syncedThrough || undefined
         } : p
       ));
 
-      toast({
-        title: "Sync Complete",
-        description: `Data synced successfully for "${project.name}"`,
-      });
+      if (result.isComplete) {
+        toast({
+          title: "Sync Complete",
+          description: result.syncedThrough
+            ? `"${project.name}" is synced through ${result.syncedThrough}`
+            : `Data synced successfully for "${project.name}"`,
+        });
+      } else {
+        toast({
+          title: result.syncedThrough ? "Sync Incomplete" : "Sync Failed",
+          description: `${result.syncedThrough
+            ? `"${project.name}" is synced through ${result.syncedThrough}. The next sync will resume from there.`
+            : `Failed to sync data for "${project.name}".`}${result.error ? ` ${result.error}` : ''}`,
+          variant: "destructive",
+        });
+      }
 
     } catch (error) {
       console.error('Error syncing project data:', error);
       
-      // Update sync status to error
+      // Keep partial progress from earlier runs visible
+      const syncStatus = project.synced_through ? 'partial' as const : 'error' as const;
+
       await supabase
         .from('projects')
-        .update({ sync_status: 'error' })
+        .update({ sync_status: syncStatus })
         .eq('id', projectId);
 
       setProjects(prev => prev.map(p => 
-        p.id === projectId ? { ...p, sync_status: 'error' as const } : p
+        p.id === projectId ? { ...p, sync_status: syncStatus } : p
       ));
 
       toast({
@@ -0,0 +1,101 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabaseClient';
+import { AppNotification, createNotificationService } from '@/lib/notificationService';
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const notificationService = useMemo(
+    () => (user?.id ? createNotificationService(user.id) : null),
+    [user?.id]
+  );
+
+  const fetchNotifications = useCallback(async () => {
+    if (!notificationService) return;
+
+    try {
+      setNotifications(await notificationService.getNotifications());
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [notificationService]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchNotifications();
+
+    // New notifications are written by database functions after a sync
+    const subscription = supabase
+      .channel(`notifications_${user.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${user.id}`
+      }, () => {
+        fetchNotifications();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, fetchNotifications]);
+
+  const markAsRead = async (id: string) => {
+    if (!notificationService) return;
+
+    setNotifications(prev => prev.map(item => (
+      item.id === id ? { ...item, readAt: item.readAt || new Date().toISOString() } : item
+    )));
+    try {
+      await notificationService.markAsRead(id);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const markAllAsRead = async () => {
+    if (!notificationService) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(item => ({ ...item, readAt: item.readAt || readAt })));
+    try {
+      await notificationService.markAllAsRead();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const deleteNotification = async (id: string) => {
+    if (!notificationService) return;
+
+    setNotifications(prev => prev.filter(item => item.id !== id));
+    try {
+      await notificationService.deleteNotification(id);
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      fetchNotifications();
+    }
+  };
+
+  const unreadCount = notifications.filter(item => !item.readAt).length;
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+    refresh: fetchNotifications
+  };
+};
@@ -1,47 +1,316 @@
 interface CacheEntry<T> {
   data: T;
-  timestamp: number;
+  size: number;
+  expiresAt: number;
 }
 
+// Persisted entries keep their bookkeeping apart from the data so eviction never loads the payloads
+interface PersistedMeta {
+  key: string;
+  size: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+}
+
+interface PersistedData<T> {
+  key: string;
+  data: T;
+}
+
+type CacheMessage = { type: 'set'; key: string } | { type: 'clear'; prefix?: string };
+
+export interface CacheManagerOptions {
+  // Default time to live in milliseconds
+  ttl?: number;
+  maxMemoryBytes?: number;
+  // Adds an IndexedDB tier shared by every tab, bounded by maxBytes
+  persistence?: {
+    name: string;
+    maxBytes: number;
+  };
+}
+
+export interface CacheStats {
+  persistent: boolean;
+  memoryEntries: number;
+  memoryBytes: number;
+  persistentEntries: number;
+  persistentBytes: number;
+  maxPersistentBytes: number;
+  hits: number;
+  misses: number;
+}
+
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'entries';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Approximate size in bytes of the serialised value (UTF-16 code units)
+function estimateSize(data: unknown): number {
+  try {
+    return (JSON.stringify(data) ?? '').length * 2;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Two-tier cache: a size-bounded in-memory LRU in front of an optional
+ * IndexedDB store. The persistent tier survives reloads, is shared between
+ * tabs, and evicts least recently used entries once it exceeds its byte
+ * budget. Without IndexedDB (private browsing, tests) it degrades to memory.
+ */
 export class CacheManager {
   private cache: Map<string, CacheEntry<any>>;
-  private readonly TTL = 3600000; // 1 hour in milliseconds
+  private memoryBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private readonly TTL: number;
+  private readonly maxMemoryBytes: number;
+  private readonly persistence?: CacheManagerOptions['persistence'];
+  private db: Promise<IDBDatabase | null> | null = null;
+  private channel: BroadcastChannel | null = null;
 
-  constructor() {
+  constructor(options: CacheManagerOptions = {}) {
     this.cache = new Map();
+    this.TTL = options.ttl ?? 3600000; // 1 hour in milliseconds
+    this.maxMemoryBytes = options.maxMemoryBytes ?? 50 * 1024 * 1024;
+    this.persistence = typeof indexedDB !== 'undefined' ? options.persistence : undefined;
+
+    if (this.persistence && typeof BroadcastChannel !== 'undefined') {
+      // Other tabs write to the same store; drop our memory copy so the next read sees their value
+      this.channel = new BroadcastChannel(`cache:${this.persistence.name}`);
+      this.channel.onmessage = (event: MessageEvent<CacheMessage>) => {
+        if (event.data.type === 'set') {
+          this.deleteFromMemory(event.data.key);
+        } else {
+          this.clearMemory(event.data.prefix);
+        }
+      };
+    }
   }
 
   async get<T>(key: string): Promise<T | null> {
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (entry) {
+      // Check if cache entry has expired
+      if (Date.now() > entry.expiresAt) {
+        this.deleteFromMemory(key);
+      } else {
+        // Re-insert so Map order stays least to most recently used
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+        this.hits += 1;
+        return entry.data;
+      }
+    }
 
-    // Check if cache entry has expired
-    if (Date.now() - entry.timestamp > this.TTL) {
-      this.cache.delete(key);
-      return null;
+    const persisted = await this.getPersisted<T>(key);
+    if (persisted) {
+      this.setInMemory(key, persisted);
+      this.hits += 1;
+      return persisted.data;
     }
 
-    return entry.data;
+    this.misses += 1;
+    return null;
   }
 
-  async set<T>(key: string, data: T): Promise<void> {
-    this.cache.set(key, {
+  async set<T>(key: string, data: T, ttl: number = this.TTL): Promise<void> {
+    const entry: CacheEntry<T> = {
       data,
-      timestamp: Date.now()
-    });
+      size: estimateSize(data),
+      expiresAt: Date.now() + ttl
+    };
+
+    this.setInMemory(key, entry);
+    await this.setPersisted(key, entry);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    this.clearMemory(prefix);
+
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      const keys = await promisifyRequest(transaction.objectStore(META_STORE).getAllKeys()) as string[];
+      keys
+        .filter(key => !prefix || key.startsWith(prefix))
+        .forEach(key => {
+          transaction.objectStore(META_STORE).delete(key);
+          transaction.objectStore(DATA_STORE).delete(key);
+        });
+      await transactionDone(transaction);
+      this.channel?.postMessage({ type: 'clear', prefix } satisfies CacheMessage);
+    } catch (error) {
+      console.warn('Failed to clear persistent cache:', error);
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const stats: CacheStats = {
+      persistent: false,
+      memoryEntries: this.cache.size,
+      memoryBytes: this.memoryBytes,
+      persistentEntries: 0,
+      persistentBytes: 0,
+      maxPersistentBytes: this.persistence?.maxBytes ?? 0,
+      hits: this.hits,
+      misses: this.misses
+    };
+
+    const db = await this.getDatabase();
+    if (!db) return stats;
+
+    try {
+      const metas = await promisifyRequest(
+        db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+      ) as PersistedMeta[];
+      const now = Date.now();
+      const live = metas.filter(meta => meta.expiresAt > now);
+      return {
+        ...stats,
+        persistent: true,
+        persistentEntries: live.length,
+        persistentBytes: live.reduce((total, meta) => total + meta.size, 0)
+      };
+    } catch (error) {
+      console.warn('Failed to read persistent cache stats:', error);
+      return stats;
+    }
   }
 
-  clear(prefix?: string): void {
+  private setInMemory<T>(key: string, entry: CacheEntry<T>): void {
+    this.deleteFromMemory(key);
+    if (entry.size > this.maxMemoryBytes) return;
+
+    this.cache.set(key, entry);
+    this.memoryBytes += entry.size;
+
+    // Evict least recently used entries (the front of the Map) until back under budget
+    for (const [oldestKey] of this.cache) {
+      if (this.memoryBytes <= this.maxMemoryBytes) break;
+      this.deleteFromMemory(oldestKey);
+    }
+  }
+
+  private deleteFromMemory(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+    this.memoryBytes -= entry.size;
+    this.cache.delete(key);
+  }
+
+  private clearMemory(prefix?: string): void {
     if (prefix) {
       // Clear entries with matching prefix
-      for (const key of this.cache.keys()) {
+      for (const key of Array.from(this.cache.keys())) {
         if (key.startsWith(prefix)) {
-          this.cache.delete(key);
+          this.deleteFromMemory(key);
         }
       }
     } else {
       // Clear all entries
       this.cache.clear();
+      this.memoryBytes = 0;
+    }
+  }
+
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.persistence) return Promise.resolve(null);
+
+    if (!this.db) {
+      const request = indexedDB.open(`cache:${this.persistence.name}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccessedAt', 'lastAccessedAt');
+        db.createObjectStore(DATA_STORE, { keyPath: 'key' });
+      };
+      this.db = promisifyRequest(request).catch(error => {
+        console.warn('Persistent cache unavailable, using memory only:', error);
+        return null;
+      });
     }
+
+    return this.db;
   }
-} 
\ No newline at end of file
+
+  private async getPersisted<T>(key: string): Promise<CacheEntry<T> | null> {
+    const db = await this.getDatabase();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      const metaStore = transaction.objectStore(META_STORE);
+      const meta = await promisifyRequest(metaStore.get(key)) as PersistedMeta | undefined;
+      if (!meta) return null;
+
+      if (Date.now() > meta.expiresAt) {
+        metaStore.delete(key);
+        transaction.objectStore(DATA_STORE).delete(key);
+        await transactionDone(transaction);
+        return null;
+      }
+
+      const stored = await promisifyRequest(transaction.objectStore(DATA_STORE).get(key)) as PersistedData<T> | undefined;
+      metaStore.put({ ...meta, lastAccessedAt: Date.now() });
+      await transactionDone(transaction);
+
+      return stored ? { data: stored.data, size: meta.size, expiresAt: meta.expiresAt } : null;
+    } catch (error) {
+      console.warn('Failed to read persistent cache:', error);
+      return null;
+    }
+  }
+
+  private async setPersisted<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db || !this.persistence || entry.size > this.persistence.maxBytes) return;
+
+    try {
+      const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      const metaStore = transaction.objectStore(META_STORE);
+      metaStore.put({ key, size: entry.size, expiresAt: entry.expiresAt, lastAccessedAt: Date.now() } satisfies PersistedMeta);
+      transaction.objectStore(DATA_STORE).put({ key, data: entry.data } satisfies PersistedData<T>);
+
+      // Drop expired entries, then the least recently used, until the store fits its budget
+      const metas = await promisifyRequest(metaStore.index('lastAccessedAt').getAll()) as PersistedMeta[];
+      const now = Date.now();
+      let totalBytes = metas.reduce((total, meta) => total + meta.size, 0);
+      const evict = (meta: PersistedMeta) => {
+        metaStore.delete(meta.key);
+        transaction.objectStore(DATA_STORE).delete(meta.key);
+        totalBytes -= meta.size;
+      };
+
+      metas.filter(meta => meta.expiresAt <= now).forEach(evict);
+      for (const meta of metas) {
+        if (totalBytes <= this.persistence.maxBytes) break;
+        if (meta.key !== key && meta.expiresAt > now) evict(meta);
+      }
+
+      await transactionDone(transaction);
+      this.channel?.postMessage({ type: 'set', key } satisfies CacheMessage);
+    } catch (error) {
+      // Quota errors and the like only cost us the persistent copy
+      console.warn('Failed to write persistent cache:', error);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import ExcelJS from 'exceljs';
+import { SheetColumnFormat, SheetTab } from './googleSheetsService';
+
+const NUMBER_FORMATS: Record<Exclude<SheetColumnFormat, 'text'>, string> = {
+  integer: '#,##0',
+  decimal: '0.0',
+  percent: '0.00%'
+};
+
+// Excel rejects sheet names over 31 characters or containing : \ / ? * [ ]
+const toSheetName = (title: string) => title.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31);
+
+// Enough rows to size a column; the GSC Data tab can hold tens of thousands
+const COLUMN_WIDTH_SAMPLE_ROWS = 500;
+
+/**
+ * Builds an .xlsx file from the same tabs the Google Sheets export writes: one
+ * worksheet per tab with a bold, frozen header row and typed numeric columns.
+ */
+export async function buildWorkbook(tabs: SheetTab[]): Promise<Blob> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'DataPulsify';
+  workbook.created = new Date();
+
+  tabs.forEach(tab => {
+    const worksheet = workbook.addWorksheet(toSheetName(tab.title), {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    const sampleRows = tab.rows.slice(0, COLUMN_WIDTH_SAMPLE_ROWS);
+
+    worksheet.columns = tab.headers.map((header, index) => {
+      const format = tab.columnFormats?.[index] ?? 'text';
+      const longest = sampleRows.reduce((max, row) => Math.max(max, String(row[index] ?? '').length), header.length);
+      return {
+        header,
+        // Long text such as recommendations wraps instead of stretching the column
+        width: Math.min(Math.max(longest + 2, 10), 60),
+        style: format === 'text'
+          ? { alignment: { wrapText: longest > 60, vertical: 'top' } }
+          : { numFmt: NUMBER_FORMATS[format] }
+      };
+    });
+
+    worksheet.addRows(tab.rows);
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headerRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2961D9' } };
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
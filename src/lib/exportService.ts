@@ -1,5 +1,18 @@
 import { Report, ExportOptions } from '@/types/aiReports';
 import { supabase } from './supabaseClient';
+import { GoogleSheetsService, SheetColumnFormat, SheetTab } from './googleSheetsService';
+import { createReportService } from './reportService';
+import { createSheetsBindingService } from './sheetsBindingService';
+import type { ReportChart } from './pdfReport';
+
+// Dimensions of the raw GSC rows, in the order they appear in the GSC Data tab
+const GSC_DIMENSION_COLUMNS = [
+  { key: 'query', header: 'Query' },
+  { key: 'page', header: 'Page' },
+  { key: 'device', header: 'Device' },
+  { key: 'country', header: 'Country' },
+  { key: 'date', header: 'Date' }
+] as const;
 
 export class ExportService {
   private userId: string;
@@ -52,8 +65,6 @@ export class ExportService {
       throw new Error('Export limit reached for your plan');
     }
 
-    // This would integrate with Google Sheets API
-    // For now, return a placeholder URL
     const sheetsUrl = await this.createGoogleSheet(report, options);
     
     // Update export count
@@ -62,8 +73,71 @@ export class ExportService {
     return sheetsUrl;
   }
 
+  async exportToXLSX(report: Report): Promise<Blob> {
+    if (!await this.canExport()) {
+      throw new Error('Export limit reached for your plan');
+    }
+
+    // The workbook and PDF libraries are large, so they load only when used
+    const { buildWorkbook } = await import('./excelWorkbook');
+    const workbook = await buildWorkbook([
+      this.getReportSheetTab(report, 'Data'),
+      this.getSummarySheetTab(report, 'Summary'),
+      this.getGSCDataSheetTab(report, 'GSC Data')
+    ]);
+
+    // Update export count
+    await this.incrementExportUsage(report.id);
+
+    return workbook;
+  }
+
+  async exportToPDF(report: Report): Promise<Blob> {
+    if (!await this.canExport()) {
+      throw new Error('Export limit reached for your plan');
+    }
+
+    const { buildReportPdf } = await import('./pdfReport');
+    const pdf = buildReportPdf({
+      title: `${this.getReportName(report)} Report`,
+      details: [
+        ['Property', report.siteUrl || ''],
+        ['Date Range', `${report.dateRange.startDate} to ${report.dateRange.endDate}`],
+        ['Generated', new Date(report.createdAt).toLocaleString()]
+      ],
+      summary: report.aiSummary,
+      charts: this.getReportCharts(report),
+      table: { headers: this.getCSVHeaders(report), rows: this.getCSVRows(report) }
+    });
+
+    // Update export count
+    await this.incrementExportUsage(report.id);
+
+    return pdf;
+  }
+
+  // Export an ad-hoc table (e.g. an analysis view) that isn't backed by a saved report
+  async exportRowsToCSV(headers: string[], rows: string[][]): Promise<string> {
+    if (!await this.canExport()) {
+      throw new Error('Export limit reached for your plan');
+    }
+
+    const csvContent = headers.join(',') + '\n' + this.formatCSVRows(rows);
+
+    // Update export count
+    await this.incrementExportUsage();
+
+    return csvContent;
+  }
+
+  private formatCSVRows(rows: string[][]): string {
+    return rows
+      .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',') + '\n')
+      .join('');
+  }
+
   private generateCSVContent(report: Report, options: ExportOptions): string {
-    const headers = this.getCSVHeaders(report.reportType);
+    const headers = this.getCSVHeaders(report);
     const rows = this.getCSVRows(report);
     
     let csvContent = headers.join(',') + '\n';
@@ -75,27 +149,36 @@ export class ExportService {
     }
     
     // Add data rows
-    rows.forEach(row => {
-      csvContent += row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',') + '\n';
-    });
+    csvContent += this.formatCSVRows(rows);
     
     return csvContent;
   }
 
-  private getCSVHeaders(reportType: string): string[] {
-    switch (reportType) {
+  private getCSVHeaders(report: Report): string[] {
+    switch (report.reportType) {
       case 'top_gainers':
         return ['URL', 'Clicks', 'Impressions', 'CTR', 'Position', 'SEO Recommendation', 'AEO Recommendation'];
+      case 'top_losers':
+        return ['URL', 'Page Type', 'Clicks', 'Previous Clicks', 'Clicks Lost', 'Impressions', 'Previous Impressions', 'CTR', 'Previous CTR', 'Position', 'Previous Position', 'Loss Cause', 'Top Lost Queries', 'Devices', 'Countries', 'Recovery Actions'];
       case 'underperforming_pages':
         return ['URL', 'Clicks', 'Impressions', 'CTR', 'Position', 'SEO Recommendation', 'AEO Recommendation'];
       case 'emerging_keywords':
-        return ['Keyword', 'Mapped URL', 'CTR', 'Position', 'Suggested Action'];
+        return ['Keyword', 'Mapped URL', 'Impressions', 'Previous Impressions', 'First Seen', 'Growth Rate', 'CTR', 'Position', 'Suggested Action'];
       case 'bofu_pages':
-        return ['URL', 'Clicks Change', 'CTR Change', 'Rank Change', 'Suggested Fixes', 'AEO Score'];
+        return ['URL', 'Clicks', 'Previous Clicks', 'Clicks Change', 'CTR Change', 'Rank Change', 'Suggested Fixes', 'AEO Score'];
       case 'ranking_volatility':
-        return ['URL', 'Position Change', 'CTR', 'Volatility Type', 'Suggested Action'];
+        return ['URL', 'Volatility Score', 'Position Std Dev', 'Direction Changes', 'Max Swing', 'Position Change', 'Avg Position', 'Impressions', 'CTR', 'Volatility Type', 'Suggested Action'];
       case 'quick_wins':
         return ['URL', 'Position', 'Impressions', 'CTR', 'Opportunity Type', 'Suggested Optimizations'];
+      case 'custom': {
+        // Columns follow whatever dimensions the planned query grouped by
+        const { plan } = report.data;
+        const dimensionHeaders = plan.dimensions.map(dimension => dimension.charAt(0).toUpperCase() + dimension.slice(1));
+        const comparisonHeaders = plan.comparisonDateRange
+          ? ['Previous Clicks', 'Clicks Change', 'Previous Impressions', 'Previous CTR', 'Previous Position', 'Position Change']
+          : [];
+        return [...dimensionHeaders, 'Clicks', 'Impressions', 'CTR', 'Position', ...comparisonHeaders];
+      }
       default:
         return ['URL', 'Metric', 'Value'];
     }
@@ -114,6 +197,28 @@ export class ExportService {
           item.seo_recommendation,
           item.aeo_recommendation
         ]);
+      case 'top_losers': {
+        const contributors = (items: { key: string; clicksLost: number }[]) =>
+          items.map(item => `${item.key} (-${item.clicksLost})`).join('; ');
+        return report.data.map(item => [
+          item.url,
+          item.pageType,
+          item.clicks.toString(),
+          item.previousClicks.toString(),
+          item.clicksLost.toString(),
+          item.impressions.toString(),
+          item.previousImpressions.toString(),
+          (item.ctr * 100).toFixed(2) + '%',
+          (item.previousCtr * 100).toFixed(2) + '%',
+          item.position.toFixed(1),
+          item.previousPosition.toFixed(1),
+          item.lossCause.replace('_', ' '),
+          contributors(item.topQueries),
+          contributors(item.devices),
+          contributors(item.countries),
+          item.recoveryActions.join('; ')
+        ]);
+      }
       case 'underperforming_pages':
         const underperformingData = (report as any).data.pages || [];
         return underperformingData.map((item: any) => [
@@ -130,6 +235,10 @@ export class ExportService {
         return emergingData.map(item => [
           item.keyword,
           item.mappedUrl,
+          (item.impressions ?? 0).toString(),
+          (item.previousImpressions ?? 0).toString(),
+          item.firstSeen || '',
+          item.growthRate !== undefined ? (item.growthRate * 100).toFixed(0) + '%' : '',
           item.ctr.toString(),
           item.position.toString(),
           item.suggestedAction
@@ -138,6 +247,8 @@ export class ExportService {
         const bofuData = report.data as any[];
         return bofuData.map(item => [
           item.url,
+          (item.clicks ?? 0).toString(),
+          (item.previousClicks ?? 0).toString(),
           item.clicksChange.toString(),
           item.ctrChange.toString(),
           item.rankChange.toString(),
@@ -148,7 +259,13 @@ export class ExportService {
         const volatilityData = report.data as any[];
         return volatilityData.map(item => [
           item.url,
+          (item.volatilityScore ?? 0).toString(),
+          (item.stdDev ?? 0).toString(),
+          (item.directionChanges ?? 0).toString(),
+          (item.maxSwing ?? 0).toString(),
           item.positionChange.toString(),
+          (item.position ?? 0).toString(),
+          (item.impressions ?? 0).toString(),
           item.ctr.toString(),
           item.volatilityType,
           item.suggestedAction
@@ -163,90 +280,210 @@ export class ExportService {
           item.opportunityType,
           item.suggestedOptimizations.join('; ')
         ]);
+      case 'custom': {
+        const { plan, rows } = report.data;
+        return rows.map(item => [
+          ...plan.dimensions.map(dimension => item.keys[dimension] ?? ''),
+          item.clicks.toString(),
+          item.impressions.toString(),
+          (item.ctr * 100).toFixed(2) + '%',
+          item.position.toFixed(1),
+          ...(plan.comparisonDateRange && item.previous
+            ? [
+                item.previous.clicks.toString(),
+                (item.clicks - item.previous.clicks).toString(),
+                item.previous.impressions.toString(),
+                (item.previous.ctr * 100).toFixed(2) + '%',
+                item.previous.position.toFixed(1),
+                (item.position - item.previous.position).toFixed(1)
+              ]
+            : [])
+        ]);
+      }
       default:
         return [];
     }
   }
 
+  private getReportName(report: Report): string {
+    return report.reportType
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
   private async createGoogleSheet(report: Report, options: ExportOptions): Promise<string> {
-    // This would integrate with Google Sheets API
-    // For now, return a placeholder implementation
-    
-    try {
-      // Get Google access token (would need to implement OAuth flow)
-      const accessToken = localStorage.getItem('google_sheets_token');
-      
-      if (!accessToken) {
-        throw new Error('Google Sheets access not configured');
-      }
+    const reportName = this.getReportName(report);
 
-      // Create spreadsheet
-      const spreadsheetData = {
-        properties: {
-          title: `${report.reportType} Report - ${new Date(report.createdAt).toLocaleDateString()}`
-        },
-        sheets: [{
-          properties: {
-            title: 'Report Data'
-          },
-          data: [{
-            rowData: this.getGoogleSheetsData(report)
-          }]
-        }]
-      };
+    const gscDataTabTitle = `${reportName} - GSC Data`;
 
-      const response = await fetch('https://sheets.googleapis.com/v4/spreadsheets', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(spreadsheetData)
-      });
+    if (options.refresh && !report.siteUrl) {
+      throw new Error('This report has no Search Console property, so its spreadsheet cannot be refreshed.');
+    }
 
-      if (!response.ok) {
-        throw new Error('Failed to create Google Sheet');
+    const { spreadsheetId, spreadsheetUrl } = await new GoogleSheetsService().exportTabs(
+      [
+        this.getReportSheetTab(report, `${reportName} - Data`),
+        this.getSummarySheetTab(
+          report,
+          `${reportName} - Summary`,
+          // Scheduled refreshes only rewrite the GSC Data tab, so say so where the sheet's readers will see it
+          options.refresh
+            ? `The "${gscDataTabTitle}" tab is refreshed ${options.refresh.schedule}. The report rows and this summary are a snapshot from the export date.`
+            : undefined
+        ),
+        this.getGSCDataSheetTab(report, gscDataTabTitle)
+      ],
+      {
+        title: `${reportName} Report - ${new Date(report.createdAt).toLocaleDateString()}`,
+        siteUrl: report.siteUrl,
+        spreadsheetId: options.spreadsheetId
       }
+    );
 
-      const result = await response.json();
-      return result.spreadsheetUrl;
-    } catch (error) {
-      console.error('Error creating Google Sheet:', error);
-      // Fallback to CSV download
-      return 'data:text/csv;charset=utf-8,' + encodeURIComponent(this.generateCSVContent(report, options));
+    if (options.refresh) {
+      await createSheetsBindingService(this.userId).createBinding({
+        report,
+        spreadsheetId,
+        spreadsheetUrl,
+        tabTitle: gscDataTabTitle,
+        query: createReportService(this.userId, this.planType).getRefreshQuery(report),
+        schedule: options.refresh.schedule,
+        writeMode: options.refresh.writeMode
+      });
     }
+
+    return spreadsheetUrl;
   }
 
-  private getGoogleSheetsData(report: Report): any[] {
-    const headers = this.getCSVHeaders(report.reportType);
-    const rows = this.getCSVRows(report);
-    
-    const sheetData = [];
-    
-    // Add headers
-    sheetData.push({
-      values: headers.map(header => ({ userEnteredValue: { stringValue: header } }))
-    });
-    
-    // Add data rows
-    rows.forEach(row => {
-      sheetData.push({
-        values: row.map(cell => ({ userEnteredValue: { stringValue: cell } }))
+  // Reuses the CSV columns, turning metric columns back into numbers so Sheets can format them
+  private getReportSheetTab(report: Report, title: string): SheetTab {
+    const headers = this.getCSVHeaders(report);
+    const columnFormats = headers.map(header => this.getColumnFormat(header));
+
+    return {
+      title,
+      headers,
+      columnFormats,
+      rows: this.getCSVRows(report).map(row => row.map((cell, index) => this.toSheetValue(cell, columnFormats[index])))
+    };
+  }
+
+  private getSummarySheetTab(report: Report, title: string, refreshNote?: string): SheetTab {
+    const paragraphs = report.aiSummary.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+    return {
+      title,
+      headers: ['Field', 'Value'],
+      rows: [
+        ['Exported', new Date().toISOString()],
+        ['Property', report.siteUrl || ''],
+        ['Date Range', `${report.dateRange.startDate} to ${report.dateRange.endDate}`],
+        ['Generated', report.createdAt],
+        ...(refreshNote ? [['Scheduled Refresh', refreshNote]] : []),
+        ...paragraphs.map((paragraph, index) => [index === 0 ? 'AI Summary' : '', paragraph])
+      ]
+    };
+  }
+
+  private getGSCDataSheetTab(report: Report, title: string): SheetTab {
+    const rows = report.gscData || [];
+    const dimensions = GSC_DIMENSION_COLUMNS.filter(({ key }) => rows.some(row => row[key]));
+
+    return {
+      title,
+      headers: [...dimensions.map(({ header }) => header), 'Clicks', 'Impressions', 'CTR', 'Position'],
+      columnFormats: [...dimensions.map((): SheetColumnFormat => 'text'), 'integer', 'integer', 'percent', 'decimal'],
+      rows: rows.map(row => [
+        ...dimensions.map(({ key }) => row[key] || ''),
+        row.clicks,
+        row.impressions,
+        row.ctr,
+        row.position
+      ])
+    };
+  }
+
+  // The custom report's own trend chart, a daily trend for date-level data, otherwise the top rows by clicks
+  private getReportCharts(report: Report): ReportChart[] {
+    if (report.reportType === 'custom') {
+      const { chart, plan } = report.data;
+      if (chart.points.length < 2) return [];
+
+      const metricLabel = chart.metric.charAt(0).toUpperCase() + chart.metric.slice(1);
+      const hasPrevious = chart.points.some(point => point.previousValue !== undefined);
+      return [{
+        title: `${metricLabel} Trend`,
+        type: 'line',
+        labels: chart.points.map(point => point.label),
+        series: [
+          { label: plan.comparisonDateRange ? 'Current period' : metricLabel, values: chart.points.map(point => point.value) },
+          ...(hasPrevious ? [{ label: 'Previous period', values: chart.points.map(point => point.previousValue ?? 0) }] : [])
+        ]
+      }];
+    }
+
+    const rows = report.gscData || [];
+    if (rows.length === 0) return [];
+
+    if (rows.some(row => row.date)) {
+      const clicksByDate = new Map<string, number>();
+      rows.forEach(row => {
+        if (row.date) clicksByDate.set(row.date, (clicksByDate.get(row.date) || 0) + row.clicks);
       });
+      const dates = Array.from(clicksByDate.keys()).sort();
+      return [{
+        title: 'Daily Clicks',
+        type: 'line',
+        labels: dates,
+        series: [{ label: 'Clicks', values: dates.map(date => clicksByDate.get(date) || 0) }]
+      }];
+    }
+
+    const key = rows.some(row => row.page) ? 'page' : 'query';
+    const clicksByKey = new Map<string, number>();
+    rows.forEach(row => {
+      const label = row[key] || '';
+      clicksByKey.set(label, (clicksByKey.get(label) || 0) + row.clicks);
     });
-    
-    return sheetData;
+    const top = Array.from(clicksByKey.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10);
+    return [{
+      title: key === 'page' ? 'Top Pages by Clicks' : 'Top Queries by Clicks',
+      type: 'bar',
+      labels: top.map(([label]) => (key === 'page' ? label.replace(/^https?:\/\/[^/]+/, '') || '/' : label)),
+      series: [{ label: 'Clicks', values: top.map(([, clicks]) => clicks) }]
+    }];
   }
 
-  private async incrementExportUsage(reportId: string): Promise<void> {
+  private getColumnFormat(header: string): SheetColumnFormat {
+    if (/CTR|Growth Rate/.test(header)) return 'percent';
+    if (/Position|Rank Change|Std Dev|Swing|Score/.test(header)) return 'decimal';
+    if (/Clicks|Impressions|Direction Changes/.test(header)) return 'integer';
+    return 'text';
+  }
+
+  // Percent columns hold either "5.00%" strings or fractions
+  private toSheetValue(cell: string, format: SheetColumnFormat): string | number {
+    if (format === 'text') return cell;
+
+    const match = cell.trim().match(/^([+-]?\d+(?:\.\d+)?)(%?)$/);
+    if (!match) return cell;
+
+    const value = parseFloat(match[1]);
+    return match[2] ? value / 100 : value;
+  }
+
+  private async incrementExportUsage(reportId?: string): Promise<void> {
     try {
       // Update export count in reports table
-      const { data: currentReport } = await supabase
-        .from('reports')
-        .select('export_count')
-        .eq('id', reportId)
-        .eq('user_id', this.userId)
-        .single();
+      const { data: currentReport } = reportId
+        ? await supabase
+            .from('reports')
+            .select('export_count')
+            .eq('id', reportId)
+            .eq('user_id', this.userId)
+            .single()
+        : { data: null };
       
       if (currentReport) {
         await supabase
@@ -281,10 +518,10 @@ export class ExportService {
     }
   }
 
-  generateFileName(report: Report, format: 'csv' | 'google_sheets'): string {
+  // Google Sheets exports live in the user's Drive, so only downloadable formats get a file name
+  generateFileName(report: Report, format: Exclude<ExportOptions['format'], 'google_sheets'>): string {
     const date = new Date(report.createdAt).toISOString().split('T')[0];
-    const extension = format === 'csv' ? 'csv' : 'xlsx';
-    return `${report.reportType}_report_${date}.${extension}`;
+    return `${report.reportType}_report_${date}.${format}`;
   }
 }
 
@@ -0,0 +1,212 @@
+import { GSCDataPoint } from './gscService';
+import { clusterKeywords, tokenizeQuery } from './keywordClusteringService';
+
+export interface UnrankedQuery {
+  query: string;
+  bestPage: string;
+  bestPosition: number;
+  clicks: number;
+  impressions: number;
+  pageCount: number;
+}
+
+export interface CompetingPage {
+  page: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+  impressionShare: number;
+}
+
+export interface CannibalizedQuery {
+  query: string;
+  clicks: number;
+  impressions: number;
+  pages: CompetingPage[];
+}
+
+export interface TopicGap {
+  topic: string;
+  keywords: string[];
+  clicks: number;
+  impressions: number;
+  position: number;
+}
+
+export interface GapAnalysisOptions {
+  minImpressions?: number;
+  rankThreshold?: number;
+  minImpressionShare?: number;
+}
+
+const DEFAULT_MIN_IMPRESSIONS = 10;
+const DEFAULT_RANK_THRESHOLD = 20;
+// A page needs this share of a query's impressions to count as a competitor rather than noise
+const DEFAULT_MIN_IMPRESSION_SHARE = 0.1;
+
+// Group query x page rows by query, merging duplicate pages that come from other dimensions
+function groupByQuery(data: GSCDataPoint[]): Map<string, Map<string, GSCDataPoint>> {
+  const byQuery = new Map<string, Map<string, GSCDataPoint>>();
+
+  data.forEach(item => {
+    if (!item.query || !item.page) return;
+    const pages = byQuery.get(item.query) || new Map<string, GSCDataPoint>();
+    const existing = pages.get(item.page);
+
+    if (existing) {
+      const impressions = existing.impressions + item.impressions;
+      pages.set(item.page, {
+        ...existing,
+        clicks: existing.clicks + item.clicks,
+        impressions,
+        ctr: impressions > 0 ? (existing.clicks + item.clicks) / impressions : 0,
+        position: impressions > 0
+          ? (existing.position * existing.impressions + item.position * item.impressions) / impressions
+          : existing.position
+      });
+    } else {
+      pages.set(item.page, { ...item });
+    }
+
+    byQuery.set(item.query, pages);
+  });
+
+  return byQuery;
+}
+
+// Queries that earn impressions but where no page of the site ranks within the top N
+export function findUnrankedQueries(data: GSCDataPoint[], options: GapAnalysisOptions = {}): UnrankedQuery[] {
+  const minImpressions = options.minImpressions ?? DEFAULT_MIN_IMPRESSIONS;
+  const rankThreshold = options.rankThreshold ?? DEFAULT_RANK_THRESHOLD;
+  const results: UnrankedQuery[] = [];
+
+  groupByQuery(data).forEach((pages, query) => {
+    const rows = Array.from(pages.values());
+    const impressions = rows.reduce((sum, row) => sum + row.impressions, 0);
+    const best = rows.reduce((a, b) => (b.position < a.position ? b : a));
+
+    if (impressions < minImpressions || best.position <= rankThreshold) return;
+
+    results.push({
+      query,
+      bestPage: best.page || '',
+      bestPosition: best.position,
+      clicks: rows.reduce((sum, row) => sum + row.clicks, 0),
+      impressions,
+      pageCount: rows.length
+    });
+  });
+
+  return results.sort((a, b) => b.impressions - a.impressions);
+}
+
+// Queries where two or more pages of the same site split the impressions
+export function findCannibalization(data: GSCDataPoint[], options: GapAnalysisOptions = {}): CannibalizedQuery[] {
+  const minImpressions = options.minImpressions ?? DEFAULT_MIN_IMPRESSIONS;
+  const minShare = options.minImpressionShare ?? DEFAULT_MIN_IMPRESSION_SHARE;
+  const results: CannibalizedQuery[] = [];
+
+  groupByQuery(data).forEach((pages, query) => {
+    const rows = Array.from(pages.values());
+    const impressions = rows.reduce((sum, row) => sum + row.impressions, 0);
+    if (impressions < minImpressions) return;
+
+    const competing = rows
+      .map(row => ({
+        page: row.page || '',
+        clicks: row.clicks,
+        impressions: row.impressions,
+        position: row.position,
+        impressionShare: row.impressions / impressions
+      }))
+      .filter(page => page.impressionShare >= minShare)
+      .sort((a, b) => a.position - b.position);
+
+    if (competing.length < 2) return;
+
+    results.push({
+      query,
+      clicks: rows.reduce((sum, row) => sum + row.clicks, 0),
+      impressions,
+      pages: competing
+    });
+  });
+
+  return results.sort((a, b) => b.impressions - a.impressions);
+}
+
+// Topics clustered from the source project's queries that no query of the target project covers
+export function findTopicGaps(
+  sourceData: GSCDataPoint[],
+  targetData: GSCDataPoint[],
+  options: GapAnalysisOptions = {}
+): TopicGap[] {
+  const minImpressions = options.minImpressions ?? DEFAULT_MIN_IMPRESSIONS;
+
+  const sourceByQuery = new Map<string, GSCDataPoint>();
+  sourceData.forEach(item => {
+    if (!item.query) return;
+    const existing = sourceByQuery.get(item.query);
+    if (existing) {
+      const impressions = existing.impressions + item.impressions;
+      sourceByQuery.set(item.query, {
+        ...existing,
+        clicks: existing.clicks + item.clicks,
+        impressions,
+        position: impressions > 0
+          ? (existing.position * existing.impressions + item.position * item.impressions) / impressions
+          : existing.position
+      });
+    } else {
+      sourceByQuery.set(item.query, { ...item });
+    }
+  });
+
+  // Inverted index from each token to the target queries (by position) containing it
+  const targetQueriesByToken = new Map<string, Set<number>>();
+  Array.from(new Set(targetData.map(item => item.query).filter(Boolean))).forEach((query, index) => {
+    tokenizeQuery(query).forEach(token => {
+      const queries = targetQueriesByToken.get(token) || new Set<number>();
+      queries.add(index);
+      targetQueriesByToken.set(token, queries);
+    });
+  });
+
+  // A topic is covered when any target query contains every token of the topic name:
+  // walk the rarest token's queries and check the others' sets
+  const isCovered = (topic: string) => {
+    const tokens = Array.from(new Set(tokenizeQuery(topic)));
+    if (tokens.length === 0) return true;
+
+    const querySets = tokens.map(token => targetQueriesByToken.get(token));
+    if (querySets.some(queries => !queries)) return false;
+
+    const [rarest, ...others] = (querySets as Set<number>[]).sort((a, b) => a.size - b.size);
+    for (const query of rarest) {
+      if (others.every(queries => queries.has(query))) return true;
+    }
+    return false;
+  };
+
+  const gaps: TopicGap[] = [];
+  clusterKeywords(Array.from(sourceByQuery.values())).forEach(cluster => {
+    const rows = cluster.keywords
+      .map(keyword => sourceByQuery.get(keyword))
+      .filter((row): row is GSCDataPoint => !!row);
+    const impressions = rows.reduce((sum, row) => sum + row.impressions, 0);
+
+    if (impressions < minImpressions || isCovered(cluster.name)) return;
+
+    gaps.push({
+      topic: cluster.name,
+      keywords: cluster.keywords,
+      clicks: rows.reduce((sum, row) => sum + row.clicks, 0),
+      impressions,
+      position: impressions > 0
+        ? rows.reduce((sum, row) => sum + row.position * row.impressions, 0) / impressions
+        : 0
+    });
+  });
+
+  return gaps.sort((a, b) => b.impressions - a.impressions);
+}
@@ -1,6 +1,7 @@
+import { supabase } from './supabaseClient';
+
 interface GoogleAuthConfig {
   clientId: string;
-  clientSecret: string;
   redirectUri: string;
   scope: string[];
 }
@@ -12,6 +13,32 @@ interface AuthResult {
   recoveryAction?: string;
 }
 
+interface VaultTokenResponse {
+  accessToken: string;
+  expiresAt: string;
+  accountId: string;
+  googleEmail: string | null;
+}
+
+class VaultRequestError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+// Refresh a little before Google's expiry so in-flight requests don't race it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Access tokens are shared by every GoogleAuthService instance, keyed by property ('' for the default account)
+const accessTokenCache = new Map<string, { token: string; expiresAt: number }>();
+const pendingTokenRequests = new Map<string, Promise<string | null>>();
+
+// Access tokens never leave memory; localStorage only records that a Google account is connected
+export const GSC_CONNECTED_KEY = 'gsc_connected';
+const LEGACY_TOKEN_KEYS = ['gsc_token', 'gsc_token_expires_at'];
+
+export const hasGSCConnection = (): boolean => localStorage.getItem(GSC_CONNECTED_KEY) === 'true';
+
 export class GoogleAuthService {
   private config: GoogleAuthConfig;
   private tokenRefreshTimeout: NodeJS.Timeout | null = null;
@@ -20,13 +47,12 @@ export class GoogleAuthService {
   constructor() {
     this.config = {
       clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID,
-      clientSecret: import.meta.env.VITE_GOOGLE_CLIENT_SECRET,
       redirectUri: import.meta.env.VITE_GSC_REDIRECT_URI || (
         import.meta.env.DEV 
           ? `http://localhost:8081/auth/gsc/callback`
           : 'https://app.datapulsify.com/auth/gsc/callback'
       ),
-      scope: ['https://www.googleapis.com/auth/webmasters.readonly', 'https://www.googleapis.com/auth/webmasters']
+      scope: ['openid', 'email', 'https://www.googleapis.com/auth/webmasters.readonly', 'https://www.googleapis.com/auth/webmasters', 'https://www.googleapis.com/auth/spreadsheets']
     };
     
     // Log configuration for debugging
@@ -38,11 +64,20 @@ export class GoogleAuthService {
     });
     
     this.validateConfig();
+    this.dropLegacyAccessToken();
+  }
+
+  // Access tokens used to be kept in localStorage; keep the connection, drop the token
+  private dropLegacyAccessToken() {
+    if (localStorage.getItem('gsc_token')) {
+      localStorage.setItem(GSC_CONNECTED_KEY, 'true');
+    }
+    LEGACY_TOKEN_KEYS.forEach(key => localStorage.removeItem(key));
   }
 
   // Validate OAuth configuration
   private validateConfig() {
-    const required = ['clientId', 'clientSecret', 'redirectUri'];
+    const required = ['clientId', 'redirectUri'];
     const missing = required.filter(key => !this.config[key as keyof GoogleAuthConfig]);
     
     if (missing.length > 0) {
@@ -103,8 +138,12 @@ export class GoogleAuthService {
     
     // Also clear the actual GSC tokens and property data
     const gscDataKeys = [
-      'gsc_token', 
+      GSC_CONNECTED_KEY,
+      ...LEGACY_TOKEN_KEYS,
       'gsc_refresh_token', 
+      'gsc_account_id',
+      'gsc_account_email',
+      'gsc_reconnect_required',
       'gsc_property'
     ];
     
@@ -112,6 +151,7 @@ export class GoogleAuthService {
       localStorage.removeItem(key);
       sessionStorage.removeItem(key);
     });
+    accessTokenCache.clear();
     
     console.log('🧹 Cleared all GSC auth state and token data');
   }
@@ -221,80 +261,25 @@ export class GoogleAuthService {
         url: window.location.href
       });
 
-      // Exchange code for tokens
+      // The vault exchanges the code and keeps the refresh token; only the access token comes back
       console.log('🔄 Starting token exchange...');
-      
-      const tokenRequestBody = {
+      const tokens = await this.callVault<VaultTokenResponse>('exchange', {
         code,
-        client_id: this.config.clientId,
-        client_secret: this.config.clientSecret,
-        redirect_uri: this.config.redirectUri,
-        grant_type: 'authorization_code',
-      };
-      
-      // Log the full request for debugging (except secret)
-      console.log('🔄 Token exchange request:', {
-        url: 'https://oauth2.googleapis.com/token',
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: {
-          ...tokenRequestBody,
-          client_secret: '[REDACTED]',
-          code: code ? `${code.substring(0, 10)}...` : 'missing'
-        }
-      });
-      
-      const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json'
-        },
-        body: new URLSearchParams(tokenRequestBody),
+        redirectUri: this.config.redirectUri
       });
-
-      // Log the response status and headers
-      console.log('🔄 Token exchange response:', {
-        status: tokenResponse.status,
-        statusText: tokenResponse.statusText,
-        headers: Object.fromEntries(tokenResponse.headers.entries())
-      });
-
-      if (!tokenResponse.ok) {
-        const errorData = await tokenResponse.json().catch(() => ({}));
-        console.error('❌ Token exchange failed:', {
-          status: tokenResponse.status,
-          statusText: tokenResponse.statusText,
-          errorData,
-          requestBody: {
-            ...tokenRequestBody,
-            client_secret: '[REDACTED]',
-            code: code ? `${code.substring(0, 10)}...` : 'missing'
-          }
-        });
-        
-        throw new Error(`Token exchange failed: ${errorData.error_description || errorData.error || 'Unknown error'}`);
-      }
-
-      const tokens = await tokenResponse.json();
       console.log('✅ Token exchange successful:', {
-        hasAccessToken: !!tokens.access_token,
-        hasRefreshToken: !!tokens.refresh_token,
-        tokenLength: tokens.access_token?.length || 0,
-        expiresIn: tokens.expires_in
+        accountId: tokens.accountId,
+        expiresAt: tokens.expiresAt
       });
 
-      // Store tokens
-      localStorage.setItem('gsc_token', tokens.access_token);
-      if (tokens.refresh_token) {
-        localStorage.setItem('gsc_refresh_token', tokens.refresh_token);
-      }
+      this.storeAccessToken('', tokens);
+      localStorage.removeItem('gsc_refresh_token');
 
       // Verify the token works by making a test API call
       console.log('🔍 Verifying token with test API call...');
       const testResponse = await fetch('https://www.googleapis.com/webmasters/v3/sites', {
         headers: {
-          'Authorization': `Bearer ${tokens.access_token}`,
+          'Authorization': `Bearer ${tokens.accessToken}`,
         },
       });
 
@@ -332,7 +317,7 @@ export class GoogleAuthService {
   }
 
   async fetchGSCProperties(): Promise<{ siteUrl: string }[]> {
-    const token = localStorage.getItem('gsc_token');
+    const token = await this.validateAndRefreshToken();
     if (!token) {
       throw new Error('No GSC token available. Please reconnect to Google Search Console.');
     }
@@ -346,8 +331,7 @@ export class GoogleAuthService {
     if (!response.ok) {
       if (response.status === 401) {
         // Token expired or invalid
-        localStorage.removeItem('gsc_token');
-        localStorage.removeItem('gsc_refresh_token');
+        this.forgetAccessToken();
         throw new Error('Your Google Search Console token has expired. Please reconnect your account.');
       }
       
@@ -373,33 +357,15 @@ export class GoogleAuthService {
     }
   }
 
-  // Check if GSC is properly connected (has valid token and can fetch data)
+  // Check if GSC is properly connected (the vault can mint a token that works)
   async isGSCConnected(): Promise<boolean> {
     try {
-      const token = localStorage.getItem('gsc_token');
+      const token = await this.validateAndRefreshToken();
       if (!token) {
-        console.log('🔍 No GSC token found');
+        console.log('🔍 No GSC token available');
         return false;
       }
 
-      // Validate the token by making a test API call
-      const isValid = await this.validateToken(token);
-      if (!isValid) {
-        console.log('⚠️ GSC token is invalid, attempting refresh...');
-        
-        // Try to refresh the token
-        const refreshedToken = await this.validateAndRefreshToken();
-        if (refreshedToken) {
-          console.log('✅ GSC token refreshed successfully');
-          return true;
-        } else {
-          console.log('❌ GSC token refresh failed');
-          // Clear invalid tokens
-          this.clearAuthState();
-          return false;
-        }
-      }
-
       console.log('✅ GSC is properly connected');
       return true;
     } catch (error) {
@@ -408,74 +374,128 @@ export class GoogleAuthService {
     }
   }
 
-  async validateAndRefreshToken(): Promise<string | null> {
+  // Returns an access token for the Google account that owns siteUrl (or the default account).
+  // Tokens are minted by the google-token-vault function and cached until shortly before they expire.
+  async validateAndRefreshToken(siteUrl?: string): Promise<string | null> {
+    const cacheKey = siteUrl || '';
+    const cached = accessTokenCache.get(cacheKey);
+    if (cached && cached.expiresAt - Date.now() > TOKEN_EXPIRY_MARGIN_MS) {
+      return cached.token;
+    }
+
+    // Concurrent API calls share one vault request
+    const pending = pendingTokenRequests.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.requestAccessToken(siteUrl).finally(() => pendingTokenRequests.delete(cacheKey));
+    pendingTokenRequests.set(cacheKey, request);
+    return request;
+  }
+
+  isReconnectRequired(): boolean {
+    return localStorage.getItem('gsc_reconnect_required') === 'true';
+  }
+
+  // Revoke the stored Google grant(s) and forget them server-side
+  async disconnect(accountId?: string): Promise<void> {
+    await this.callVault('disconnect', accountId ? { accountId } : {});
+    accessTokenCache.clear();
+    if (!accountId) {
+      localStorage.removeItem(GSC_CONNECTED_KEY);
+    }
+  }
+
+  private async requestAccessToken(siteUrl?: string): Promise<string | null> {
     try {
-      const currentToken = localStorage.getItem('gsc_token');
-      const refreshToken = localStorage.getItem('gsc_refresh_token');
+      await this.importLegacyRefreshToken();
 
-      if (!currentToken) {
-        console.error('No access token found');
-        return null;
-      }
+      const tokens = await this.callVault<VaultTokenResponse>('token', siteUrl ? { siteUrl } : {});
+      this.storeAccessToken(siteUrl || '', tokens);
 
-      // First, try to validate the current token
-      const isValid = await this.validateToken(currentToken);
-      if (isValid) {
-        return currentToken;
+      if (this.isReconnectRequired()) {
+        localStorage.removeItem('gsc_reconnect_required');
+        window.dispatchEvent(new CustomEvent('gsc-reconnected'));
       }
 
-      // If current token is invalid, try to refresh it
-      if (!refreshToken) {
-        console.error('No refresh token available for token refresh');
+      return tokens.accessToken;
+    } catch (error) {
+      if (error instanceof VaultRequestError && error.details.reconnectRequired) {
+        console.warn('Google access was revoked, reconnect required:', error.details.googleEmail);
+        this.forgetAccessToken();
+        localStorage.removeItem(GSC_CONNECTED_KEY);
+        localStorage.setItem('gsc_reconnect_required', 'true');
+        window.dispatchEvent(new CustomEvent('gsc-reconnect-required', { detail: error.details }));
         return null;
       }
 
-      console.log('Access token invalid, attempting to refresh...');
-      
-      // Use fetch to refresh the token
-      const refreshResponse = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          refresh_token: refreshToken,
-          client_id: this.config.clientId,
-          client_secret: this.config.clientSecret,
-          grant_type: 'refresh_token',
-        }),
-      });
-
-      if (!refreshResponse.ok) {
-        const errorData = await refreshResponse.json();
-        console.error('Token refresh failed:', errorData);
-        throw new Error(`Token refresh failed: ${errorData.error_description || errorData.error}`);
-      }
-
-      const tokens = await refreshResponse.json();
-      
-      if (tokens.access_token) {
-        // Store the new access token
-        localStorage.setItem('gsc_token', tokens.access_token);
-        
-        // If we got a new refresh token, store it too
-        if (tokens.refresh_token) {
-          localStorage.setItem('gsc_refresh_token', tokens.refresh_token);
-        }
-
-        console.log('Token refreshed successfully');
-        return tokens.access_token;
-      } else {
-        console.error('Failed to refresh token - no access token in response');
+      if (error instanceof VaultRequestError && error.details.notConnected) {
+        console.log('🔍 No Google account connected');
+        this.forgetAccessToken();
+        localStorage.removeItem(GSC_CONNECTED_KEY);
         return null;
       }
 
-    } catch (error) {
-      console.error('Error refreshing token:', error);
-      // Clear invalid tokens
-      localStorage.removeItem('gsc_token');
-      localStorage.removeItem('gsc_refresh_token');
+      console.error('Error fetching access token:', error);
       return null;
     }
   }
-} 
\ No newline at end of file
+
+  // Refresh tokens used to live in localStorage; hand any leftover one to the vault once
+  private async importLegacyRefreshToken(): Promise<void> {
+    const refreshToken = localStorage.getItem('gsc_refresh_token');
+    if (!refreshToken) {
+      return;
+    }
+
+    localStorage.removeItem('gsc_refresh_token');
+    try {
+      const tokens = await this.callVault<VaultTokenResponse>('import', { refreshToken });
+      this.storeAccessToken('', tokens);
+      console.log('✅ Moved stored Google refresh token into the token vault');
+    } catch (error) {
+      console.error('Failed to import stored Google refresh token:', error);
+    }
+  }
+
+  private storeAccessToken(cacheKey: string, tokens: VaultTokenResponse) {
+    accessTokenCache.set(cacheKey, {
+      token: tokens.accessToken,
+      expiresAt: new Date(tokens.expiresAt).getTime()
+    });
+
+    localStorage.setItem(GSC_CONNECTED_KEY, 'true');
+    localStorage.setItem('gsc_account_id', tokens.accountId);
+    if (tokens.googleEmail) {
+      localStorage.setItem('gsc_account_email', tokens.googleEmail);
+    }
+  }
+
+  private forgetAccessToken() {
+    accessTokenCache.clear();
+  }
+
+  private async callVault<T>(action: string, payload: Record<string, unknown>): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to connect Google Search Console.');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/google-token-vault`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ action, ...payload })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new VaultRequestError(result.error || `Token vault request failed: ${response.status}`, response.status, result);
+    }
+
+    return result as T;
+  }
+}
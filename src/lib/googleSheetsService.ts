@@ -0,0 +1,200 @@
+import { GoogleAuthService } from './googleAuthService';
+
+export type SheetColumnFormat = 'text' | 'integer' | 'decimal' | 'percent';
+
+export interface SheetTab {
+  title: string;
+  headers: string[];
+  rows: Array<Array<string | number>>;
+  columnFormats?: SheetColumnFormat[];
+}
+
+export interface SheetsExportResult {
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+}
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+}
+
+interface SpreadsheetInfo {
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  sheets: Array<{ properties: SheetProperties }>;
+}
+
+const SHEETS_API_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+
+const NUMBER_FORMATS: Record<Exclude<SheetColumnFormat, 'text'>, { type: string; pattern: string }> = {
+  integer: { type: 'NUMBER', pattern: '#,##0' },
+  decimal: { type: 'NUMBER', pattern: '0.0' },
+  percent: { type: 'PERCENT', pattern: '0.00%' }
+};
+
+const HEADER_FORMAT = {
+  textFormat: { bold: true, foregroundColor: { red: 1, green: 1, blue: 1 } },
+  backgroundColor: { red: 0.16, green: 0.38, blue: 0.85 }
+};
+
+interface SheetRow {
+  values: Array<{
+    userEnteredValue: { numberValue: number } | { stringValue: string };
+    userEnteredFormat?: typeof HEADER_FORMAT;
+  }>;
+}
+
+/**
+ * Writes tabs to a new or existing spreadsheet with the Google account bound to
+ * the property. Tabs that already exist get the rows appended below their data.
+ */
+export class GoogleSheetsService {
+  private googleAuthService: GoogleAuthService;
+
+  constructor() {
+    this.googleAuthService = new GoogleAuthService();
+  }
+
+  // Accepts a spreadsheet URL or a bare ID
+  static parseSpreadsheetId(input: string): string | null {
+    const trimmed = input.trim();
+    const match = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+    if (match) return match[1];
+    return /^[a-zA-Z0-9-_]{20,}$/.test(trimmed) ? trimmed : null;
+  }
+
+  async exportTabs(
+    tabs: SheetTab[],
+    options: { title: string; siteUrl?: string; spreadsheetId?: string }
+  ): Promise<SheetsExportResult> {
+    const token = await this.googleAuthService.validateAndRefreshToken(options.siteUrl);
+    if (!token) {
+      throw new Error('Google account not connected. Please reconnect to export to Google Sheets.');
+    }
+
+    const spreadsheet = options.spreadsheetId
+      ? await this.request<SpreadsheetInfo>(
+          token,
+          `${SHEETS_API_URL}/${options.spreadsheetId}?fields=spreadsheetId,spreadsheetUrl,sheets.properties(sheetId,title)`
+        )
+      : await this.request<SpreadsheetInfo>(token, SHEETS_API_URL, {
+          method: 'POST',
+          body: JSON.stringify({
+            properties: { title: options.title },
+            sheets: tabs.map(tab => ({ properties: { title: tab.title } }))
+          })
+        });
+
+    const sheetIds = new Map(spreadsheet.sheets.map(sheet => [sheet.properties.title, sheet.properties.sheetId]));
+    const missingTabs = tabs.filter(tab => !sheetIds.has(tab.title));
+    const newTabs = new Set((options.spreadsheetId ? missingTabs : tabs).map(tab => tab.title));
+
+    if (missingTabs.length > 0) {
+      const result = await this.batchUpdate(token, spreadsheet.spreadsheetId, missingTabs.map(tab => ({
+        addSheet: { properties: { title: tab.title } }
+      })));
+      result.replies.forEach(reply => {
+        if (reply.addSheet) {
+          sheetIds.set(reply.addSheet.properties.title, reply.addSheet.properties.sheetId);
+        }
+      });
+    }
+
+    const requests = tabs.flatMap(tab => this.getTabRequests(tab, sheetIds.get(tab.title)!, newTabs.has(tab.title)));
+    await this.batchUpdate(token, spreadsheet.spreadsheetId, requests);
+
+    return {
+      spreadsheetId: spreadsheet.spreadsheetId,
+      spreadsheetUrl: spreadsheet.spreadsheetUrl
+    };
+  }
+
+  // New tabs get a formatted, frozen header row; existing tabs only receive the data rows
+  private getTabRequests(tab: SheetTab, sheetId: number, isNew: boolean): object[] {
+    const formats = tab.columnFormats || [];
+    const rows: SheetRow[] = tab.rows.map(row => ({
+      values: row.map(value => ({
+        userEnteredValue: typeof value === 'number' ? { numberValue: value } : { stringValue: value }
+      }))
+    }));
+
+    if (isNew) {
+      rows.unshift({
+        values: tab.headers.map(header => ({
+          userEnteredValue: { stringValue: header },
+          userEnteredFormat: HEADER_FORMAT
+        }))
+      });
+    }
+
+    const requests: object[] = [];
+    if (rows.length > 0) {
+      requests.push({
+        appendCells: { sheetId, rows, fields: 'userEnteredValue,userEnteredFormat' }
+      });
+    }
+
+    formats.forEach((format, columnIndex) => {
+      if (format === 'text') return;
+      requests.push({
+        repeatCell: {
+          range: { sheetId, startRowIndex: 1, startColumnIndex: columnIndex, endColumnIndex: columnIndex + 1 },
+          cell: { userEnteredFormat: { numberFormat: NUMBER_FORMATS[format] } },
+          fields: 'userEnteredFormat.numberFormat'
+        }
+      });
+    });
+
+    if (isNew) {
+      requests.push(
+        {
+          updateSheetProperties: {
+            properties: { sheetId, gridProperties: { frozenRowCount: 1 } },
+            fields: 'gridProperties.frozenRowCount'
+          }
+        },
+        {
+          autoResizeDimensions: {
+            dimensions: { sheetId, dimension: 'COLUMNS', startIndex: 0, endIndex: tab.headers.length }
+          }
+        }
+      );
+    }
+
+    return requests;
+  }
+
+  private async batchUpdate(token: string, spreadsheetId: string, requests: object[]) {
+    return this.request<{ replies: Array<{ addSheet?: { properties: SheetProperties } }> }>(token, `${SHEETS_API_URL}/${spreadsheetId}:batchUpdate`, {
+      method: 'POST',
+      body: JSON.stringify({ requests })
+    });
+  }
+
+  private async request<T>(token: string, url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Google Sheets API Error Details:', errorData);
+
+      const reason = errorData.error?.details?.[0]?.reason;
+      if (response.status === 403 && reason === 'ACCESS_TOKEN_SCOPE_INSUFFICIENT') {
+        throw new Error('Google Sheets access has not been granted. Reconnect your Google account to export to Sheets.');
+      }
+      if (response.status === 404) {
+        throw new Error('Spreadsheet not found. Check the URL and that your Google account can edit it.');
+      }
+      throw new Error(`Google Sheets API Error: ${errorData.error?.message || response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
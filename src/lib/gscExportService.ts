@@ -0,0 +1,166 @@
+import { supabase } from './supabaseClient';
+
+export type GSCExportDimension = 'date' | 'query' | 'page' | 'device' | 'country';
+export type GSCExportFormat = 'csv' | 'ndjson' | 'parquet';
+export type GSCExportStatus = 'queued' | 'running' | 'completed' | 'error';
+
+export const GSC_EXPORT_DIMENSIONS: GSCExportDimension[] = ['date', 'query', 'page', 'device', 'country'];
+
+export interface GSCExport {
+  id: string;
+  startDate: string;
+  endDate: string;
+  dimensions: GSCExportDimension[];
+  format: GSCExportFormat;
+  status: GSCExportStatus;
+  progress: number;
+  totalRows: number | null;
+  rowCount: number | null;
+  filePath: string | null;
+  fileSize: number | null;
+  error: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface GSCExportInput {
+  projectId: string;
+  startDate: string;
+  endDate: string;
+  dimensions: GSCExportDimension[];
+  format: GSCExportFormat;
+}
+
+const EXPORT_BUCKET = 'gsc-exports';
+// Signed download links stay valid for an hour
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+interface GSCExportRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  dimensions: GSCExportDimension[];
+  format: GSCExportFormat;
+  status: GSCExportStatus;
+  progress: number;
+  total_rows: number | null;
+  row_count: number | null;
+  file_path: string | null;
+  file_size: number | null;
+  error: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+const toExport = (row: GSCExportRow): GSCExport => ({
+  id: row.id,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  dimensions: row.dimensions,
+  format: row.format,
+  status: row.status,
+  progress: row.progress,
+  totalRows: row.total_rows,
+  rowCount: row.row_count,
+  filePath: row.file_path,
+  fileSize: row.file_size,
+  error: row.error,
+  completedAt: row.completed_at,
+  createdAt: row.created_at
+});
+
+/**
+ * Bulk exports of a project's stored GSC rows. The export-gsc-data function
+ * builds each file in the background and reports progress on its job row.
+ */
+export class GSCExportService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for GSCExportService');
+    }
+    this.userId = userId;
+  }
+
+  async getExports(projectId: string): Promise<GSCExport[]> {
+    const { data, error } = await supabase
+      .from('gsc_exports')
+      .select('*')
+      .eq('user_id', this.userId)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch data exports: ${error.message}`);
+    }
+
+    return ((data || []) as GSCExportRow[]).map(toExport);
+  }
+
+  async startExport(input: GSCExportInput): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to export data.');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-gsc-data`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify(input)
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Failed to start export: ${response.status}`);
+    }
+
+    return result.exportId;
+  }
+
+  async getDownloadUrl(gscExport: GSCExport): Promise<string> {
+    if (!gscExport.filePath) {
+      throw new Error('This export has no file to download.');
+    }
+
+    const fileName = `gsc_${gscExport.startDate}_${gscExport.endDate}_${gscExport.dimensions.join('-')}.${gscExport.filePath.split('.').slice(1).join('.')}`;
+    const { data, error } = await supabase.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(gscExport.filePath, DOWNLOAD_URL_TTL_SECONDS, { download: fileName });
+
+    if (error) {
+      throw new Error(`Failed to create download link: ${error.message}`);
+    }
+
+    return data.signedUrl;
+  }
+
+  async deleteExport(gscExport: GSCExport): Promise<void> {
+    if (gscExport.filePath) {
+      const { error: storageError } = await supabase.storage
+        .from(EXPORT_BUCKET)
+        .remove([gscExport.filePath]);
+
+      if (storageError) {
+        throw new Error(`Failed to delete export file: ${storageError.message}`);
+      }
+    }
+
+    const { error } = await supabase
+      .from('gsc_exports')
+      .delete()
+      .eq('id', gscExport.id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to delete data export: ${error.message}`);
+    }
+  }
+}
+
+export const createGSCExportService = (userId: string) => {
+  return new GSCExportService(userId);
+};
@@ -1,5 +1,7 @@
-import { CacheManager } from './cacheManager';
+import { CacheManager, CacheStats } from './cacheManager';
+import { classifyKeywordType, ensureKeywordRulesLoaded } from './keywordClassification';
 import { GoogleAuthService } from './googleAuthService';
+import { supabase } from './supabaseClient';
 
 // Types
 export interface GSCSearchAnalyticsParams {
@@ -11,6 +13,7 @@ export interface GSCSearchAnalyticsParams {
   searchType?: 'web' | 'image' | 'video' | 'news' | 'discover' | 'googleNews';
   dimensionFilterGroups?: any[];
   startRow?: number;
+  maxRows?: number;
   keywordType?: 'all' | 'branded' | 'non-branded';
 }
 
@@ -36,22 +39,112 @@ export interface GSCDataPoint {
   type?: string;
 }
 
+// Rows returned by fetchSearchAnalyticsData; isTruncated is set when the max-row cap was hit
+export type GSCSearchAnalyticsResult = GSCDataPoint[] & {
+  isTruncated?: boolean;
+};
+
+interface CachedSearchAnalyticsData {
+  rows: GSCDataPoint[];
+  isTruncated: boolean;
+}
+
+export interface GSCSyncResult {
+  rowsStored: number;
+  daysSynced: number;
+  syncedThrough: string | null;
+  isComplete: boolean;
+  error?: string;
+}
+
+export interface GSCDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface GSCPeriodMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+// 'page' compares whole pages; the others also break each page down by a second dimension,
+// and 'page_query' picks the page's top query
+export type GSCComparisonGranularity = 'page' | 'page_query' | 'page_device' | 'page_country';
+
+export interface GSCPeriodComparisonParams {
+  siteUrl: string;
+  current: GSCDateRange;
+  previous: GSCDateRange;
+  granularity?: GSCComparisonGranularity;
+  dimensionFilterGroups?: GSCSearchAnalyticsParams['dimensionFilterGroups'];
+}
+
+export interface GSCBreakdownComparison {
+  key: string;
+  current: GSCPeriodMetrics;
+  previous: GSCPeriodMetrics;
+}
+
+// Metrics are zeroed for a period in which the page had no impressions
+export interface GSCPageComparison {
+  page: string;
+  current: GSCPeriodMetrics;
+  previous: GSCPeriodMetrics;
+  topQuery?: string;
+  breakdown?: GSCBreakdownComparison[];
+}
+
+export interface GSCWeeklyTrendPoint {
+  weekStart: string;
+  weekLabel: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  avgPosition: number;
+}
+
 export class GSCService {
   private cache: CacheManager;
   private requestQueue: any[] = [];
   private isProcessingQueue = false;
   private readonly RATE_LIMIT = 10; // requests per second
+  private readonly SYNC_DIMENSIONS = ['date', 'query', 'page', 'device', 'country'];
+  // Property-level series stored next to the rows; summing query/page rows misstates totals
+  private readonly DAILY_TOTALS_DIMENSIONS = ['date', 'device'];
+  private readonly UPSERT_BATCH_SIZE = 500;
+  private readonly DATA_LAG_DAYS = 3; // GSC data is usually finalised ~3 days after the fact
+  private readonly INITIAL_BACKFILL_MONTHS = 12;
+  private readonly API_MAX_ROWS_PER_REQUEST = 25000;
+  private readonly DEFAULT_MAX_ROWS = 100000;
+  private readonly SYNC_MAX_ROWS = 500000;
+  // Ranges GSC may still revise are cached briefly; older ranges are final and can be kept for days
+  private readonly CACHE_TTL_FRESH = 60 * 60 * 1000;
+  private readonly CACHE_TTL_RECENT = 12 * 60 * 60 * 1000;
+  private readonly CACHE_TTL_HISTORICAL = 7 * 24 * 60 * 60 * 1000;
+  private readonly CACHE_HISTORICAL_AFTER_DAYS = 14;
+  private readonly CACHE_MAX_BYTES = 200 * 1024 * 1024;
+  private readonly COMPARISON_BREAKDOWNS: Record<GSCComparisonGranularity, 'query' | 'device' | 'country' | null> = {
+    page: null,
+    page_query: 'query',
+    page_device: 'device',
+    page_country: 'country'
+  };
   private isTestMode = false;
   private googleAuthService: GoogleAuthService;
 
   constructor() {
-    this.cache = new CacheManager();
+    this.cache = new CacheManager({
+      ttl: this.CACHE_TTL_FRESH,
+      persistence: { name: 'gsc', maxBytes: this.CACHE_MAX_BYTES }
+    });
     this.googleAuthService = new GoogleAuthService();
   }
 
-  private async getToken(): Promise<string | null> {
-    // Use validateAndRefreshToken to ensure we have a valid token
-    const validToken = await this.googleAuthService.validateAndRefreshToken();
+  private async getToken(siteUrl?: string): Promise<string | null> {
+    // The token vault picks the Google account bound to the property's project
+    const validToken = await this.googleAuthService.validateAndRefreshToken(siteUrl);
     if (!validToken) {
       console.error('Failed to get valid GSC token');
       throw new Error('Invalid or expired GSC token. Please reconnect to Google Search Console.');
@@ -152,38 +245,37 @@ export class GSCService {
     return `gsc:${params.siteUrl}:${params.startDate}:${params.endDate}:${params.dimensions?.join(',')}${filterKey}${keywordTypeKey}`;
   }
 
-  // Enhanced fetch method with retries and rate limiting
+  // Enhanced fetch method with retries, rate limiting and automatic pagination
   async fetchSearchAnalyticsData(
     params: GSCSearchAnalyticsParams,
     onProgress?: (progress: number, message?: string) => void
-  ): Promise<GSCDataPoint[]> {
+  ): Promise<GSCSearchAnalyticsResult> {
     try {
       onProgress?.(10, 'Checking cache...');
+
+      // rowLimit is the page size; callers asking for less than a full page get a single page
+      const pageSize = Math.min(params.rowLimit || this.API_MAX_ROWS_PER_REQUEST, this.API_MAX_ROWS_PER_REQUEST);
+      const maxRows = params.maxRows ?? (
+        params.rowLimit && params.rowLimit < this.API_MAX_ROWS_PER_REQUEST ? params.rowLimit : this.DEFAULT_MAX_ROWS
+      );
       
       // Create cache key without keywordType for raw data caching
-      const baseCacheKey = `gsc:${params.siteUrl}:${params.startDate}:${params.endDate}:${params.dimensions?.join(',')}${params.dimensionFilterGroups ? `:filters:${JSON.stringify(params.dimensionFilterGroups)}` : ''}`;
+      const baseCacheKey = `gsc:${params.siteUrl}:${params.startDate}:${params.endDate}:${params.dimensions?.join(',')}${params.dimensionFilterGroups ? `:filters:${JSON.stringify(params.dimensionFilterGroups)}` : ''}:start:${params.startRow || 0}:max:${maxRows}`;
       
-      const cachedData = await this.cache.get(baseCacheKey) as GSCDataPoint[] | null;
+      const cachedData = await this.cache.get(baseCacheKey) as CachedSearchAnalyticsData | null;
 
       if (cachedData) {
         onProgress?.(100, 'Data loaded from cache');
-        // Apply keyword type filter to cached data
-        const filteredData = params.keywordType && params.keywordType !== 'all'
-          ? cachedData.filter(item => {
-              const matches = item.type === params.keywordType;
-              if (!matches) {
-                console.log(`[GSC Service] Filtering out keyword "${item.query}" (type: ${item.type}, wanted: ${params.keywordType})`);
-              }
-              return matches;
-            })
-          : cachedData;
-        
-        return this.validateSearchAnalyticsData(filteredData);
+        await ensureKeywordRulesLoaded(params.siteUrl);
+        return this.withTruncationFlag(
+          this.validateSearchAnalyticsData(this.filterByKeywordType(this.classifyRows(cachedData.rows), params.keywordType)),
+          cachedData.isTruncated
+        );
       }
 
       onProgress?.(20, 'Preparing API request...');
 
-      const token = await this.getToken();
+      const token = await this.getToken(params.siteUrl);
       if (!token) {
         throw new Error('Authentication token not found');
       }
@@ -197,69 +289,115 @@ export class GSCService {
         : `https://www.googleapis.com/webmasters/v3/sites/${encodeURIComponent(formattedSiteUrl)}/searchAnalytics/query`;
 
       onProgress?.(40, 'Fetching data from Google Search Console...');
-      
-      const result = await this.queueRequest(async () => {
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            startDate: params.startDate,
-            endDate: params.endDate,
-            dimensions: params.dimensions || ['query'],
-            rowLimit: params.rowLimit || 25000,
-            searchType: params.searchType || 'web',
-            dimensionFilterGroups: params.dimensionFilterGroups || [],
-            startRow: params.startRow || 0
-          })
-        });
 
-        onProgress?.(70, 'Processing API response...');
+      const result: GSCDataPoint[] = [];
+      let startRow = params.startRow || 0;
+      let pageNumber = 0;
+      let isTruncated = false;
+
+      // Keep paging through startRow until GSC returns a short page or the cap is reached
+      while (true) {
+        const requestRowLimit = Math.min(pageSize, maxRows - result.length);
+        const pageRows = await this.queueRequest(() => this.fetchSearchAnalyticsPage(apiUrl, token, params, startRow, requestRowLimit));
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error('GSC API Error Details:', errorData);
-          throw new Error(`GSC API Error: ${errorData.error?.message || response.statusText}`);
+        result.push(...pageRows);
+        pageNumber += 1;
+        startRow += pageRows.length;
+
+        onProgress?.(
+          Math.min(40 + pageNumber * 10, 85),
+          `Fetched ${result.length.toLocaleString()} rows (page ${pageNumber})...`
+        );
+
+        if (pageRows.length < requestRowLimit) {
+          break;
         }
 
-        const data = await response.json();
-        if (!data.rows) {
-          console.warn('No data returned from GSC API');
-          onProgress?.(90, 'No data found');
-          return [];
+        if (result.length >= maxRows) {
+          isTruncated = true;
+          console.warn(`[GSC Service] Stopped after ${result.length} rows: max-row cap of ${maxRows} reached`);
+          break;
         }
+      }
 
-        onProgress?.(85, 'Transforming data...');
-        const transformedData = this.transformSearchAnalyticsData(data.rows, params.dimensions || ['query']);
-        
-        return transformedData;
-      });
+      if (result.length === 0) {
+        console.warn('No data returned from GSC API');
+        onProgress?.(90, 'No data found');
+      }
 
       // Cache the unfiltered result for reuse with different keyword type filters
       onProgress?.(95, 'Caching data...');
-      await this.cache.set(baseCacheKey, result);
-
-      // Apply keyword type filter to the result
-      const filteredResult = params.keywordType && params.keywordType !== 'all'
-        ? result.filter(item => {
-            const matches = item.type === params.keywordType;
-            if (!matches) {
-              console.log(`[GSC Service] Filtering out keyword "${item.query}" (type: ${item.type}, wanted: ${params.keywordType})`);
-            }
-            return matches;
-          })
-        : result;
-
-      onProgress?.(100, 'Data loading complete');
-      return this.validateSearchAnalyticsData(filteredResult);
+      await this.cache.set(baseCacheKey, { rows: result, isTruncated }, this.getCacheTTL(params.endDate));
+
+      onProgress?.(100, isTruncated ? 'Data loading complete (row cap reached)' : 'Data loading complete');
+      await ensureKeywordRulesLoaded(params.siteUrl);
+      return this.withTruncationFlag(
+        this.validateSearchAnalyticsData(this.filterByKeywordType(this.classifyRows(result), params.keywordType)),
+        isTruncated
+      );
     } catch (error) {
       console.error('Error fetching search analytics data:', error);
       throw error;
     }
   }
 
+  private async fetchSearchAnalyticsPage(
+    apiUrl: string,
+    token: string,
+    params: GSCSearchAnalyticsParams,
+    startRow: number,
+    rowLimit: number
+  ): Promise<GSCDataPoint[]> {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        startDate: params.startDate,
+        endDate: params.endDate,
+        dimensions: params.dimensions || ['query'],
+        rowLimit,
+        searchType: params.searchType || 'web',
+        dimensionFilterGroups: params.dimensionFilterGroups || [],
+        startRow
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('GSC API Error Details:', errorData);
+      throw new Error(`GSC API Error: ${errorData.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data.rows) {
+      return [];
+    }
+
+    return this.transformSearchAnalyticsData(data.rows, params.dimensions || ['query']);
+  }
+
+  // Classified on read so cached rows always reflect the project's current rules
+  private classifyRows(rows: GSCDataPoint[]): GSCDataPoint[] {
+    return rows.map(row => row.query ? { ...row, type: classifyKeywordType(row.query) } : row);
+  }
+
+  private filterByKeywordType(data: GSCDataPoint[], keywordType?: GSCSearchAnalyticsParams['keywordType']): GSCDataPoint[] {
+    if (!keywordType || keywordType === 'all') {
+      return data;
+    }
+
+    const filtered = data.filter(item => item.type === keywordType);
+    console.log(`[GSC Service] Kept ${filtered.length} of ${data.length} rows for keyword type "${keywordType}"`);
+    return filtered;
+  }
+
+  private withTruncationFlag(rows: GSCDataPoint[], isTruncated: boolean): GSCSearchAnalyticsResult {
+    return Object.assign(rows, { isTruncated });
+  }
+
   // Queue manager for rate limiting
   private async queueRequest<T>(request: () => Promise<T>): Promise<T> {
     return new Promise((resolve, reject) => {
@@ -305,7 +443,6 @@ export class GSCService {
         switch (dimension) {
           case 'query':
             dataPoint.query = row.keys[index];
-            dataPoint.type = this.classifyKeywordType(row.keys[index]); // Add type classification
             break;
           case 'page':
             dataPoint.page = row.keys[index];
@@ -326,47 +463,6 @@ export class GSCService {
     });
   }
 
-  // Add keyword classification method
-  private classifyKeywordType(keyword: string): 'branded' | 'non-branded' {
-    const rules = this.getBrandedKeywordRules();
-    const lowerKeyword = keyword.toLowerCase();
-
-    for (const rule of rules) {
-      const value = rule.value.toLowerCase();
-      switch (rule.type) {
-        case 'contains':
-          if (lowerKeyword.includes(value)) {
-            return 'branded';
-          }
-          break;
-        case 'starts_with':
-          if (lowerKeyword.startsWith(value)) {
-            return 'branded';
-          }
-          break;
-        case 'exact_match':
-          if (lowerKeyword === value) {
-            return 'branded';
-          }
-          break;
-        case 'ends_with':
-          if (lowerKeyword.endsWith(value)) {
-            return 'branded';
-          }
-          break;
-      }
-    }
-    return 'non-branded';
-  }
-
-  private getBrandedKeywordRules() {
-    const rules = localStorage.getItem('branded_keyword_rules');
-    if (rules) {
-      return JSON.parse(rules);
-    }
-    return [];
-  }
-
   // Remove Supabase-related methods
   async getTopQueries(
     siteUrl: string,
@@ -466,63 +562,425 @@ export class GSCService {
     }
   }
 
-  // Updated syncGSCData to require siteUrl parameter
+  // Fetch daily rows for every dimension and persist them into the gsc_data table
   async syncGSCData(
     startDate: string,
     endDate: string,
-    siteUrl?: string
-  ): Promise<void> {
+    siteUrl?: string,
+    projectId?: string
+  ): Promise<number> {
     try {
       const targetSiteUrl = await this.getSiteUrl(siteUrl);
       if (!targetSiteUrl) {
         throw new Error('No GSC property specified for sync');
       }
 
-      // Fetch comprehensive data with multiple dimensions
-      const queries = await this.fetchSearchAnalyticsData({
-        siteUrl: targetSiteUrl,
-        startDate,
-        endDate,
-        dimensions: ['query'],
-        rowLimit: 25000
-      });
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User not authenticated');
+      }
 
-      const pages = await this.fetchSearchAnalyticsData({
-        siteUrl: targetSiteUrl,
-        startDate,
-        endDate,
-        dimensions: ['page'],
-        rowLimit: 25000
-      });
+      // Fall back to the project that owns this property when none is given
+      let targetProjectId = projectId || null;
+      if (!targetProjectId) {
+        const { data: project } = await supabase
+          .from('projects')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('gsc_property', targetSiteUrl)
+          .maybeSingle();
+        targetProjectId = project?.id || null;
+      }
 
-      const devices = await this.fetchSearchAnalyticsData({
+      // Fetch the full daily breakdown in a single request
+      const rows = await this.fetchSearchAnalyticsData({
         siteUrl: targetSiteUrl,
         startDate,
         endDate,
-        dimensions: ['device'],
-        rowLimit: 1000
+        dimensions: this.SYNC_DIMENSIONS,
+        rowLimit: 25000,
+        maxRows: this.SYNC_MAX_ROWS
       });
 
-      const countries = await this.fetchSearchAnalyticsData({
-        siteUrl: targetSiteUrl,
-        startDate,
-        endDate,
-        dimensions: ['country'],
-        rowLimit: 1000
-      });
+      if (rows.isTruncated) {
+        console.warn(`[GSC Service] Sync for ${targetSiteUrl} hit the ${this.SYNC_MAX_ROWS} row cap; some rows were not stored`);
+      }
 
-      // Fetch daily trend data
-      const trendData = await this.getTrendData(targetSiteUrl, startDate, endDate);
+      const storedRows = await this.storeSearchAnalyticsRows(rows, user.id, targetSiteUrl, targetProjectId);
+      await this.syncDailyTotals(startDate, endDate, user.id, targetSiteUrl, targetProjectId);
 
       // Store sync timestamp
       localStorage.setItem('last_gsc_sync', new Date().toISOString());
 
+      return storedRows;
     } catch (error) {
       console.error('Error syncing GSC data:', error);
       throw error;
     }
   }
 
+  // Upsert rows in batches, deduplicated on the gsc_data natural key
+  private async storeSearchAnalyticsRows(
+    rows: GSCDataPoint[],
+    userId: string,
+    siteUrl: string,
+    projectId: string | null
+  ): Promise<number> {
+    const records = rows
+      .filter(row => row.date && row.query)
+      .map(row => ({
+        user_id: userId,
+        project_id: projectId,
+        site_url: siteUrl,
+        date: row.date,
+        query: row.query,
+        page: row.page || null,
+        device: row.device || null,
+        country: row.country || null,
+        clicks: row.clicks,
+        impressions: row.impressions,
+        ctr: row.ctr,
+        position: row.position
+      }));
+
+    for (let i = 0; i < records.length; i += this.UPSERT_BATCH_SIZE) {
+      const batch = records.slice(i, i + this.UPSERT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('gsc_data')
+        .upsert(batch, { onConflict: 'user_id,site_url,date,query,page,device,country' });
+
+      if (error) {
+        throw new Error(`Failed to store GSC data: ${error.message}`);
+      }
+    }
+
+    return records.length;
+  }
+
+  // Fetch and upsert the date x device totals for the range
+  private async syncDailyTotals(
+    startDate: string,
+    endDate: string,
+    userId: string,
+    siteUrl: string,
+    projectId: string | null
+  ): Promise<void> {
+    const rows = await this.fetchSearchAnalyticsData({
+      siteUrl,
+      startDate,
+      endDate,
+      dimensions: this.DAILY_TOTALS_DIMENSIONS
+    });
+
+    const records = rows
+      .filter(row => row.date && row.device)
+      .map(row => ({
+        user_id: userId,
+        project_id: projectId,
+        site_url: siteUrl,
+        date: row.date,
+        device: row.device,
+        clicks: row.clicks,
+        impressions: row.impressions,
+        ctr: row.ctr,
+        position: row.position
+      }));
+
+    if (records.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('gsc_daily_totals')
+      .upsert(records, { onConflict: 'user_id,site_url,date,device' });
+
+    if (error) {
+      throw new Error(`Failed to store GSC daily totals: ${error.message}`);
+    }
+  }
+
+  // Sync only the days missing since the project's watermark, one day at a time,
+  // so a failed run resumes from the last fully ingested day
+  async syncProjectIncremental(
+    projectId: string,
+    siteUrl: string,
+    onProgress?: (progress: number, message?: string) => void
+  ): Promise<GSCSyncResult> {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const dimensionSet = this.SYNC_DIMENSIONS.join(',');
+    const { data: state, error: stateError } = await supabase
+      .from('gsc_sync_state')
+      .select('last_synced_date')
+      .eq('project_id', projectId)
+      .eq('dimension_set', dimensionSet)
+      .maybeSingle();
+
+    if (stateError) {
+      throw new Error(`Failed to load sync state: ${stateError.message}`);
+    }
+
+    const watermark: string | null = state?.last_synced_date || null;
+
+    // Never request days GSC has not finalised yet
+    const latestAvailable = new Date();
+    latestAvailable.setUTCDate(latestAvailable.getUTCDate() - this.DATA_LAG_DAYS);
+    const endDate = this.formatDate(latestAvailable);
+
+    let startDate: string;
+    if (watermark) {
+      startDate = this.addDays(watermark, 1);
+    } else {
+      const backfillStart = new Date(latestAvailable);
+      backfillStart.setUTCMonth(backfillStart.getUTCMonth() - this.INITIAL_BACKFILL_MONTHS);
+      startDate = this.formatDate(backfillStart);
+    }
+
+    const result: GSCSyncResult = {
+      rowsStored: 0,
+      daysSynced: 0,
+      syncedThrough: watermark,
+      isComplete: true
+    };
+
+    if (startDate > endDate) {
+      onProgress?.(100, `Already synced through ${watermark}`);
+      return result;
+    }
+
+    const days: string[] = [];
+    for (let day = startDate; day <= endDate; day = this.addDays(day, 1)) {
+      days.push(day);
+    }
+
+    for (const day of days) {
+      onProgress?.(Math.round((result.daysSynced / days.length) * 100), `Syncing ${day}...`);
+
+      try {
+        const rows = await this.fetchSearchAnalyticsData({
+          siteUrl,
+          startDate: day,
+          endDate: day,
+          dimensions: this.SYNC_DIMENSIONS,
+          rowLimit: 25000,
+          maxRows: this.SYNC_MAX_ROWS
+        });
+
+        result.rowsStored += await this.storeSearchAnalyticsRows(rows, user.id, siteUrl, projectId);
+        await this.syncDailyTotals(day, day, user.id, siteUrl, projectId);
+
+        // Keep what was fetched, but a day missing rows isn't ingested: the watermark stays put
+        // so the next sync retries it, and the sync reports as incomplete
+        if (rows.isTruncated) {
+          const message = `${day} has more than ${this.SYNC_MAX_ROWS} rows; only part of the day was stored`;
+          console.warn(`[GSC Service] ${message}`);
+          await this.saveSyncState(user.id, projectId, dimensionSet, result.syncedThrough, message);
+          result.isComplete = false;
+          result.error = message;
+          break;
+        }
+
+        await this.saveSyncState(user.id, projectId, dimensionSet, day, null);
+
+        result.daysSynced += 1;
+        result.syncedThrough = day;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error syncing GSC data for ${day}:`, error);
+
+        await this.saveSyncState(user.id, projectId, dimensionSet, result.syncedThrough, message)
+          .catch(stateSaveError => console.error('Error saving sync state:', stateSaveError));
+
+        result.isComplete = false;
+        result.error = message;
+        break;
+      }
+    }
+
+    // Ranking, new query and weekly summary notifications for the freshly stored days.
+    // The initial backfill has no watermark, so it doesn't report every query as new.
+    if (result.daysSynced > 0) {
+      const { error: notifyError } = await supabase.rpc('generate_project_notifications', {
+        p_project_id: projectId,
+        p_since: watermark ? startDate : null
+      });
+
+      if (notifyError) {
+        console.error('Error generating sync notifications:', notifyError);
+      }
+    }
+
+    if (result.isComplete) {
+      localStorage.setItem('last_gsc_sync', new Date().toISOString());
+      onProgress?.(100, `Synced through ${result.syncedThrough}`);
+    }
+
+    return result;
+  }
+
+  private async saveSyncState(
+    userId: string,
+    projectId: string,
+    dimensionSet: string,
+    lastSyncedDate: string | null,
+    lastError: string | null
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('gsc_sync_state')
+      .upsert({
+        user_id: userId,
+        project_id: projectId,
+        dimension_set: dimensionSet,
+        last_synced_date: lastSyncedDate,
+        last_attempt_at: new Date().toISOString(),
+        last_error: lastError
+      }, { onConflict: 'project_id,dimension_set' });
+
+    if (error) {
+      throw new Error(`Failed to save sync state: ${error.message}`);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return this.formatDate(next);
+  }
+
+  // Fetch the same pages for two windows and line them up per page; broken-down granularities
+  // roll the page × dimension rows up to the page, largest current clicks first
+  async fetchPeriodComparison(params: GSCPeriodComparisonParams): Promise<GSCPageComparison[]> {
+    const granularity = params.granularity || 'page';
+    const breakdownDimension = this.COMPARISON_BREAKDOWNS[granularity];
+    const dimensions = breakdownDimension ? ['page', breakdownDimension] : ['page'];
+
+    const [currentRows, previousRows] = await Promise.all([params.current, params.previous].map(period =>
+      this.fetchSearchAnalyticsData({
+        siteUrl: params.siteUrl,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        dimensions,
+        dimensionFilterGroups: params.dimensionFilterGroups,
+        rowLimit: this.API_MAX_ROWS_PER_REQUEST
+      })
+    ));
+
+    const currentByPage = this.groupRowsByPage(currentRows);
+    const previousByPage = this.groupRowsByPage(previousRows);
+    const pages = new Set([...currentByPage.keys(), ...previousByPage.keys()]);
+
+    return Array.from(pages).map(page => {
+      const current = currentByPage.get(page) || [];
+      const previous = previousByPage.get(page) || [];
+      const comparison: GSCPageComparison = {
+        page,
+        current: this.aggregateMetrics(current),
+        previous: this.aggregateMetrics(previous)
+      };
+
+      if (breakdownDimension) {
+        const keyOf = (row: GSCDataPoint) => row[breakdownDimension] || '';
+        const currentByKey = new Map(current.map(row => [keyOf(row), row]));
+        const previousByKey = new Map(previous.map(row => [keyOf(row), row]));
+        const keys = new Set([...currentByKey.keys(), ...previousByKey.keys()]);
+
+        comparison.breakdown = Array.from(keys)
+          .map(key => ({
+            key,
+            current: this.aggregateMetrics(currentByKey.has(key) ? [currentByKey.get(key)!] : []),
+            previous: this.aggregateMetrics(previousByKey.has(key) ? [previousByKey.get(key)!] : [])
+          }))
+          .sort((a, b) => b.current.clicks - a.current.clicks || b.current.impressions - a.current.impressions);
+
+        if (granularity === 'page_query') {
+          comparison.topQuery = comparison.breakdown.find(query => query.current.impressions > 0)?.key;
+        }
+      }
+
+      return comparison;
+    });
+  }
+
+  // Weekly (Monday-start) totals per page, one filtered daily request per page
+  async getWeeklyPageTrends(
+    siteUrl: string,
+    period: GSCDateRange,
+    pages: string[]
+  ): Promise<Record<string, GSCWeeklyTrendPoint[]>> {
+    const trends: Record<string, GSCWeeklyTrendPoint[]> = {};
+
+    for (const page of pages) {
+      const rows = await this.fetchSearchAnalyticsData({
+        siteUrl,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        dimensions: ['date'],
+        dimensionFilterGroups: [{
+          filters: [{ dimension: 'page', operator: 'equals', expression: page }]
+        }],
+        rowLimit: 1000
+      });
+
+      const weeks = new Map<string, GSCDataPoint[]>();
+      rows.forEach(row => {
+        if (!row.date) return;
+        const weekStart = this.getWeekStart(row.date);
+        weeks.set(weekStart, [...(weeks.get(weekStart) || []), row]);
+      });
+
+      trends[page] = Array.from(weeks.keys()).sort().map(weekStart => {
+        const metrics = this.aggregateMetrics(weeks.get(weekStart)!);
+        return {
+          weekStart,
+          weekLabel: `${this.formatShortDate(weekStart)} - ${this.formatShortDate(this.addDays(weekStart, 6))}`,
+          clicks: metrics.clicks,
+          impressions: metrics.impressions,
+          ctr: metrics.ctr,
+          avgPosition: metrics.position
+        };
+      });
+    }
+
+    return trends;
+  }
+
+  private groupRowsByPage(rows: GSCDataPoint[]): Map<string, GSCDataPoint[]> {
+    const grouped = new Map<string, GSCDataPoint[]>();
+    rows.forEach(row => {
+      if (!row.page) return;
+      grouped.set(row.page, [...(grouped.get(row.page) || []), row]);
+    });
+    return grouped;
+  }
+
+  // Summed clicks and impressions with CTR and impression-weighted position recomputed from them
+  private aggregateMetrics(rows: GSCDataPoint[]): GSCPeriodMetrics {
+    const clicks = rows.reduce((sum, row) => sum + row.clicks, 0);
+    const impressions = rows.reduce((sum, row) => sum + row.impressions, 0);
+    return {
+      clicks,
+      impressions,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      position: impressions > 0 ? rows.reduce((sum, row) => sum + row.position * row.impressions, 0) / impressions : 0
+    };
+  }
+
+  private getWeekStart(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return this.addDays(date, -((day + 6) % 7));
+  }
+
+  private formatShortDate(date: string): string {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  }
+
   async getTopPages(
     siteUrl: string,
     startDate: string,
@@ -696,9 +1154,21 @@ export class GSCService {
     }
   }
 
+  private getCacheTTL(endDate: string): number {
+    const ageInDays = Math.floor((Date.now() - new Date(`${endDate}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+    if (ageInDays <= this.DATA_LAG_DAYS) return this.CACHE_TTL_FRESH;
+    if (ageInDays <= this.CACHE_HISTORICAL_AFTER_DAYS) return this.CACHE_TTL_RECENT;
+    return this.CACHE_TTL_HISTORICAL;
+  }
+
   // Public method to clear cache
-  clearCache(prefix?: string): void {
-    this.cache.clear(prefix);
+  async clearCache(prefix?: string): Promise<void> {
+    await this.cache.clear(prefix);
+  }
+
+  async getCacheStatus(): Promise<CacheStats> {
+    return this.cache.getStats();
   }
 }
 
@@ -0,0 +1,391 @@
+import { supabase } from './supabaseClient';
+import { fetchAllPages } from './supabasePaging';
+
+export type FunnelStage = 'tofu' | 'mofu' | 'bofu';
+export type KeywordClassification = 'branded' | FunnelStage;
+export type KeywordMatchType = 'contains' | 'starts_with' | 'ends_with' | 'exact_match' | 'regex';
+export type KeywordType = 'branded' | 'non-branded';
+export type KeywordIntent = FunnelStage | 'unknown';
+
+export interface KeywordRule {
+  id: string;
+  projectId: string;
+  classification: KeywordClassification;
+  matchType: KeywordMatchType;
+  value: string;
+  isExclusion: boolean;
+  priority: number;
+  createdAt: string;
+}
+
+export type KeywordRuleInput = Pick<KeywordRule, 'classification' | 'matchType' | 'value' | 'isExclusion' | 'priority'>;
+
+// Stage order doubles as the tie-break between funnel rules of equal priority
+export const FUNNEL_STAGES: FunnelStage[] = ['tofu', 'mofu', 'bofu'];
+
+const CLASSIFICATION_ORDER: KeywordClassification[] = ['branded', ...FUNNEL_STAGES];
+
+// Pre-project rule storage, imported into the database once per user
+const LEGACY_BRANDED_RULES_KEY = 'branded_keyword_rules';
+const LEGACY_CATEGORY_PATTERNS_KEY = 'keyword_category_patterns';
+
+interface CompiledRule {
+  rule: KeywordRule;
+  test: (keyword: string) => boolean;
+}
+
+const compileRule = (rule: KeywordRule): CompiledRule | null => {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return null;
+
+  switch (rule.matchType) {
+    case 'contains':
+      return { rule, test: keyword => keyword.includes(value) };
+    case 'starts_with':
+      return { rule, test: keyword => keyword.startsWith(value) };
+    case 'ends_with':
+      return { rule, test: keyword => keyword.endsWith(value) };
+    case 'exact_match':
+      return { rule, test: keyword => keyword === value };
+    case 'regex':
+      try {
+        const regex = new RegExp(rule.value.trim(), 'i');
+        return { rule, test: keyword => regex.test(keyword) };
+      } catch {
+        // Invalid patterns are rejected on save; skip any that slipped through
+        return null;
+      }
+  }
+};
+
+// Higher priority first, exclusions before includes, then stage order and age
+const compareRules = (a: KeywordRule, b: KeywordRule): number => {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  if (a.isExclusion !== b.isExclusion) return a.isExclusion ? -1 : 1;
+  const stageDiff = CLASSIFICATION_ORDER.indexOf(a.classification) - CLASSIFICATION_ORDER.indexOf(b.classification);
+  if (stageDiff !== 0) return stageDiff;
+  return a.createdAt.localeCompare(b.createdAt);
+};
+
+// Key used for per-query intent labels
+export const normalizeKeyword = (keyword: string): string => keyword.trim().toLowerCase();
+
+export const sortKeywordRules = (rules: KeywordRule[]): KeywordRule[] => [...rules].sort(compareRules);
+
+export const matchesKeywordRule = (rule: KeywordRule, keyword: string): boolean => {
+  return compileRule(rule)?.test(normalizeKeyword(keyword)) ?? false;
+};
+
+export const validateKeywordRule = (input: KeywordRuleInput): string | null => {
+  if (!input.value.trim()) {
+    return 'Please provide a value for the rule';
+  }
+  if (!Number.isInteger(input.priority)) {
+    return 'Priority must be a whole number';
+  }
+  if (input.matchType === 'regex') {
+    try {
+      new RegExp(input.value.trim(), 'i');
+    } catch {
+      return `Invalid regex pattern: ${input.value}`;
+    }
+  }
+  return null;
+};
+
+export const describeKeywordRule = (rule: Pick<KeywordRule, 'matchType' | 'value'>): string => {
+  return rule.matchType === 'regex'
+    ? `matches /${rule.value}/`
+    : `${rule.matchType.replace('_', ' ')} "${rule.value}"`;
+};
+
+/**
+ * Applies a project's rules in priority order: the first matching include rule
+ * decides the classification, unless an exclusion for that classification
+ * matched first. Keywords no funnel rule matches fall back to the intent labels
+ * the user accepted for that exact query.
+ */
+export class KeywordClassifier {
+  private brandedRules: CompiledRule[];
+  private funnelRules: CompiledRule[];
+  private intentLabels: Map<string, FunnelStage>;
+
+  constructor(rules: KeywordRule[], intentLabels: Map<string, FunnelStage> = new Map()) {
+    this.intentLabels = intentLabels;
+    const compiled = sortKeywordRules(rules)
+      .map(compileRule)
+      .filter((rule): rule is CompiledRule => rule !== null);
+
+    this.brandedRules = compiled.filter(({ rule }) => rule.classification === 'branded');
+    this.funnelRules = compiled.filter(({ rule }) => rule.classification !== 'branded');
+  }
+
+  classifyType(keyword: string): KeywordType {
+    return this.firstMatch(this.brandedRules, keyword)?.classification === 'branded' ? 'branded' : 'non-branded';
+  }
+
+  classifyIntent(keyword: string): KeywordIntent {
+    return this.classifyIntentByRules(keyword) ?? this.intentLabels.get(normalizeKeyword(keyword)) ?? 'unknown';
+  }
+
+  // Intent from the project's rules alone, ignoring accepted labels
+  classifyIntentByRules(keyword: string): FunnelStage | null {
+    return (this.firstMatch(this.funnelRules, keyword)?.classification as FunnelStage | undefined) ?? null;
+  }
+
+  // The rule that decides the keyword's classification, if any
+  findDecidingRule(keyword: string, scope: 'branded' | 'funnel'): KeywordRule | null {
+    return this.firstMatch(scope === 'branded' ? this.brandedRules : this.funnelRules, keyword);
+  }
+
+  private firstMatch(rules: CompiledRule[], keyword: string): KeywordRule | null {
+    const normalized = normalizeKeyword(keyword);
+    const excluded = new Set<KeywordClassification>();
+
+    for (const { rule, test } of rules) {
+      if (excluded.has(rule.classification) || !test(normalized)) continue;
+      if (rule.isExclusion) {
+        excluded.add(rule.classification);
+        continue;
+      }
+      return rule;
+    }
+    return null;
+  }
+}
+
+// Rules and intent labels of the property currently in view, shared by every screen
+let activeRules: KeywordRule[] = [];
+let activeIntentLabels = new Map<string, FunnelStage>();
+let activeClassifier = new KeywordClassifier(activeRules, activeIntentLabels);
+let activeSiteUrl: string | null = null;
+let pendingLoad: Promise<void> | null = null;
+
+export const setActiveKeywordRules = (rules: KeywordRule[]) => {
+  activeRules = rules;
+  activeClassifier = new KeywordClassifier(activeRules, activeIntentLabels);
+};
+
+export const setActiveIntentLabels = (labels: Map<string, FunnelStage>) => {
+  activeIntentLabels = labels;
+  activeClassifier = new KeywordClassifier(activeRules, activeIntentLabels);
+};
+
+export const classifyKeywordType = (keyword: string): KeywordType => activeClassifier.classifyType(keyword);
+
+export const classifyKeywordIntent = (keyword: string): KeywordIntent => activeClassifier.classifyIntent(keyword);
+
+// Loads the rules of the project owning siteUrl once; later calls for the same property are free
+export const ensureKeywordRulesLoaded = async (siteUrl: string): Promise<void> => {
+  if (activeSiteUrl === siteUrl) {
+    return pendingLoad ?? undefined;
+  }
+
+  activeSiteUrl = siteUrl;
+  pendingLoad = (async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const ruleService = createKeywordRuleService(user.id);
+      const projectId = await ruleService.getProjectId(siteUrl);
+      const [rules, labels] = projectId
+        ? await Promise.all([ruleService.loadProjectRules(projectId), ruleService.getIntentLabels(projectId)])
+        : [[], new Map<string, FunnelStage>()];
+
+      if (activeSiteUrl === siteUrl) {
+        setActiveKeywordRules(rules);
+        setActiveIntentLabels(labels);
+      }
+    } catch (error) {
+      console.error('Error loading keyword classification rules:', error);
+      activeSiteUrl = null;
+    }
+  })();
+
+  return pendingLoad;
+};
+
+interface KeywordRuleRow {
+  id: string;
+  project_id: string;
+  classification: KeywordClassification;
+  match_type: KeywordMatchType;
+  value: string;
+  is_exclusion: boolean;
+  priority: number;
+  created_at: string;
+}
+
+const toKeywordRule = (row: KeywordRuleRow): KeywordRule => ({
+  id: row.id,
+  projectId: row.project_id,
+  classification: row.classification,
+  matchType: row.match_type,
+  value: row.value,
+  isExclusion: row.is_exclusion,
+  priority: row.priority,
+  createdAt: row.created_at
+});
+
+export class KeywordRuleService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for KeywordRuleService');
+    }
+    this.userId = userId;
+  }
+
+  async getProjectId(siteUrl: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('user_id', this.userId)
+      .eq('gsc_property', siteUrl)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find project for ${siteUrl}: ${error.message}`);
+    }
+
+    return data?.id || null;
+  }
+
+  async getRules(projectId: string): Promise<KeywordRule[]> {
+    const { data, error } = await supabase
+      .from('keyword_classification_rules')
+      .select('id, project_id, classification, match_type, value, is_exclusion, priority, created_at')
+      .eq('user_id', this.userId)
+      .eq('project_id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to fetch keyword rules: ${error.message}`);
+    }
+
+    return sortKeywordRules(((data || []) as KeywordRuleRow[]).map(toKeywordRule));
+  }
+
+  // Like getRules, but seeds an empty project with rules saved in this browser
+  async loadProjectRules(projectId: string): Promise<KeywordRule[]> {
+    const rules = await this.getRules(projectId);
+    if (rules.length > 0) return rules;
+
+    return this.importLegacyRules(projectId);
+  }
+
+  // Intents the user accepted or chose for individual queries
+  async getIntentLabels(projectId: string): Promise<Map<string, FunnelStage>> {
+    try {
+      const rows = await fetchAllPages<{ query: string; accepted_intent: FunnelStage }>((from, to) => supabase
+        .from('keyword_intent_predictions')
+        .select('query, accepted_intent')
+        .eq('user_id', this.userId)
+        .eq('project_id', projectId)
+        .not('accepted_intent', 'is', null)
+        .order('id')
+        .range(from, to));
+
+      return new Map(rows.map(row => [row.query, row.accepted_intent]));
+    } catch (error) {
+      throw new Error(`Failed to fetch keyword intent labels: ${(error as Error).message}`);
+    }
+  }
+
+  async addRule(projectId: string, input: KeywordRuleInput): Promise<KeywordRule> {
+    const validationError = validateKeywordRule(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { data, error } = await supabase
+      .from('keyword_classification_rules')
+      .insert({
+        user_id: this.userId,
+        project_id: projectId,
+        classification: input.classification,
+        match_type: input.matchType,
+        value: input.value.trim(),
+        is_exclusion: input.isExclusion,
+        priority: input.priority
+      })
+      .select('id, project_id, classification, match_type, value, is_exclusion, priority, created_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save keyword rule: ${error.message}`);
+    }
+
+    return toKeywordRule(data as KeywordRuleRow);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('keyword_classification_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to delete keyword rule: ${error.message}`);
+    }
+  }
+
+  // Moves rules saved in this browser before rules were stored per project into the given project
+  private async importLegacyRules(projectId: string): Promise<KeywordRule[]> {
+    const inputs: KeywordRuleInput[] = [];
+
+    try {
+      const brandedRules: Array<{ type: KeywordMatchType; value: string }> =
+        JSON.parse(localStorage.getItem(LEGACY_BRANDED_RULES_KEY) || '[]');
+      brandedRules.forEach(rule => inputs.push({
+        classification: 'branded',
+        matchType: rule.type,
+        value: rule.value,
+        isExclusion: false,
+        priority: 0
+      }));
+
+      const patterns: Partial<Record<FunnelStage, string[]>> =
+        JSON.parse(localStorage.getItem(LEGACY_CATEGORY_PATTERNS_KEY) || '{}');
+      FUNNEL_STAGES.forEach(stage => (patterns[stage] || []).forEach(pattern => inputs.push({
+        classification: stage,
+        matchType: 'regex',
+        value: pattern,
+        isExclusion: false,
+        priority: 0
+      })));
+    } catch (error) {
+      console.warn('Ignoring unreadable legacy keyword rules:', error);
+    }
+
+    const validInputs = inputs.filter(input => !validateKeywordRule(input));
+    if (validInputs.length === 0) return [];
+
+    const { error } = await supabase
+      .from('keyword_classification_rules')
+      .insert(validInputs.map(input => ({
+        user_id: this.userId,
+        project_id: projectId,
+        classification: input.classification,
+        match_type: input.matchType,
+        value: input.value.trim(),
+        is_exclusion: input.isExclusion,
+        priority: input.priority
+      })));
+
+    if (error) {
+      throw new Error(`Failed to import keyword rules: ${error.message}`);
+    }
+
+    localStorage.removeItem(LEGACY_BRANDED_RULES_KEY);
+    localStorage.removeItem(LEGACY_CATEGORY_PATTERNS_KEY);
+
+    return this.getRules(projectId);
+  }
+}
+
+export const createKeywordRuleService = (userId: string) => {
+  return new KeywordRuleService(userId);
+};
@@ -0,0 +1,280 @@
+import { supabase } from './supabaseClient';
+import { GSCDataPoint } from './gscService';
+
+export interface KeywordCluster {
+  id?: string;
+  name: string;
+  keywords: string[];
+}
+
+export interface ClusterMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface ClusterTrendPoint extends ClusterMetrics {
+  date: string;
+}
+
+export interface ClusteringOptions {
+  similarityThreshold?: number;
+  maxKeywords?: number;
+}
+
+// Words that carry no topical meaning and would otherwise glue unrelated queries together
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'you', 'your'
+]);
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+const DEFAULT_MAX_KEYWORDS = 2000;
+
+// Lowercase, strip punctuation, drop stop words and fold simple plurals
+export function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+function getNgrams(tokens: string[], size: number): string[] {
+  const ngrams: string[] = [];
+  for (let i = 0; i + size <= tokens.length; i++) {
+    ngrams.push(tokens.slice(i, i + size).join(' '));
+  }
+  return ngrams;
+}
+
+// Unigrams plus bigrams, so "seo audit tool" is closer to "seo audit" than to "audit seo"
+function getQuerySignature(query: string): Set<string> {
+  const tokens = tokenizeQuery(query);
+  return new Set([...tokens, ...getNgrams(tokens, 2)]);
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  a.forEach(item => {
+    if (b.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+// Name a cluster after the n-gram shared by most of its keywords, preferring longer phrases
+export function suggestClusterName(keywords: string[]): string {
+  if (keywords.length === 0) return 'Untitled cluster';
+
+  const counts = new Map<string, number>();
+  keywords.forEach(keyword => {
+    const tokens = tokenizeQuery(keyword);
+    new Set([...getNgrams(tokens, 2), ...tokens]).forEach(ngram => {
+      counts.set(ngram, (counts.get(ngram) || 0) + 1);
+    });
+  });
+
+  let bestName = '';
+  let bestScore = 0;
+  counts.forEach((count, ngram) => {
+    // Bigrams win ties against the unigrams they contain
+    const score = count + (ngram.includes(' ') ? 0.5 : 0);
+    if (count >= Math.ceil(keywords.length / 2) && score > bestScore) {
+      bestName = ngram;
+      bestScore = score;
+    }
+  });
+
+  return bestName || keywords[0];
+}
+
+// Greedily group queries by lexical similarity, seeding clusters with the highest-impression queries
+export function clusterKeywords(data: GSCDataPoint[], options: ClusteringOptions = {}): KeywordCluster[] {
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const maxKeywords = options.maxKeywords ?? DEFAULT_MAX_KEYWORDS;
+
+  const impressionsByQuery = new Map<string, number>();
+  data.forEach(item => {
+    if (!item.query) return;
+    impressionsByQuery.set(item.query, (impressionsByQuery.get(item.query) || 0) + item.impressions);
+  });
+
+  const queries = Array.from(impressionsByQuery.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxKeywords)
+    .map(([query]) => query);
+
+  const clusters: Array<{ signature: Set<string>; keywords: string[] }> = [];
+  // Inverted index from token to cluster indexes keeps candidate lookups small
+  const clustersByToken = new Map<string, number[]>();
+
+  queries.forEach(query => {
+    const signature = getQuerySignature(query);
+    const candidates = new Set<number>();
+    signature.forEach(ngram => {
+      clustersByToken.get(ngram)?.forEach(index => candidates.add(index));
+    });
+
+    let bestIndex = -1;
+    let bestSimilarity = 0;
+    candidates.forEach(index => {
+      const similarity = jaccardSimilarity(signature, clusters[index].signature);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0 && bestSimilarity >= threshold) {
+      clusters[bestIndex].keywords.push(query);
+      return;
+    }
+
+    const index = clusters.length;
+    clusters.push({ signature, keywords: [query] });
+    signature.forEach(ngram => {
+      const indexes = clustersByToken.get(ngram) || [];
+      indexes.push(index);
+      clustersByToken.set(ngram, indexes);
+    });
+  });
+
+  return clusters.map(cluster => ({
+    name: suggestClusterName(cluster.keywords),
+    keywords: cluster.keywords
+  }));
+}
+
+function toMetrics(clicks: number, impressions: number, weightedPosition: number): ClusterMetrics {
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    position: impressions > 0 ? weightedPosition / impressions : 0
+  };
+}
+
+// Totals for a cluster with an impression-weighted average position
+export function getClusterMetrics(cluster: KeywordCluster, data: GSCDataPoint[]): ClusterMetrics {
+  const keywords = new Set(cluster.keywords);
+  let clicks = 0;
+  let impressions = 0;
+  let weightedPosition = 0;
+
+  data.forEach(item => {
+    if (!keywords.has(item.query)) return;
+    clicks += item.clicks;
+    impressions += item.impressions;
+    weightedPosition += item.position * item.impressions;
+  });
+
+  return toMetrics(clicks, impressions, weightedPosition);
+}
+
+// Daily series for a cluster; data must include the date dimension
+export function getClusterTrend(cluster: KeywordCluster, data: GSCDataPoint[]): ClusterTrendPoint[] {
+  const keywords = new Set(cluster.keywords);
+  const byDate = new Map<string, { clicks: number; impressions: number; weightedPosition: number }>();
+
+  data.forEach(item => {
+    if (!item.date || !keywords.has(item.query)) return;
+    const day = byDate.get(item.date) || { clicks: 0, impressions: 0, weightedPosition: 0 };
+    day.clicks += item.clicks;
+    day.impressions += item.impressions;
+    day.weightedPosition += item.position * item.impressions;
+    byDate.set(item.date, day);
+  });
+
+  return Array.from(byDate.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, day]) => ({ date, ...toMetrics(day.clicks, day.impressions, day.weightedPosition) }));
+}
+
+export class KeywordClusteringService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for KeywordClusteringService');
+    }
+    this.userId = userId;
+  }
+
+  async getClusters(siteUrl: string): Promise<KeywordCluster[]> {
+    const { data, error } = await supabase
+      .from('keyword_clusters')
+      .select('id, cluster_name, keywords')
+      .eq('user_id', this.userId)
+      .eq('site_url', siteUrl)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch keyword clusters: ${error.message}`);
+    }
+
+    return (data || []).map(item => ({
+      id: item.id,
+      name: item.cluster_name,
+      keywords: Array.isArray(item.keywords) ? item.keywords : []
+    }));
+  }
+
+  // Replace the saved clusters for a property with the given set. Every cluster is written in
+  // one upsert, and removed clusters are only deleted once that has succeeded, so a failed save
+  // leaves the previous set in place.
+  async saveClusters(siteUrl: string, clusters: KeywordCluster[]): Promise<KeywordCluster[]> {
+    const existing = await this.getClusters(siteUrl);
+    const records = clusters.map(cluster => ({
+      id: cluster.id || crypto.randomUUID(),
+      user_id: this.userId,
+      site_url: siteUrl,
+      cluster_name: cluster.name,
+      keywords: cluster.keywords
+    }));
+
+    let saved: KeywordCluster[] = [];
+    if (records.length > 0) {
+      const { data, error } = await supabase
+        .from('keyword_clusters')
+        .upsert(records, { onConflict: 'id' })
+        .select('id, cluster_name, keywords');
+
+      if (error) {
+        throw new Error(`Failed to save keyword clusters: ${error.message}`);
+      }
+
+      const savedById = new Map((data || []).map(item => [item.id, item]));
+      saved = records
+        .filter(record => savedById.has(record.id))
+        .map(record => {
+          const item = savedById.get(record.id)!;
+          return { id: item.id, name: item.cluster_name, keywords: item.keywords };
+        });
+    }
+
+    const keptIds = new Set(records.map(record => record.id));
+    const removedIds = existing.filter(cluster => !keptIds.has(cluster.id!)).map(cluster => cluster.id);
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('keyword_clusters')
+        .delete()
+        .eq('user_id', this.userId)
+        .in('id', removedIds);
+
+      if (error) {
+        throw new Error(`Failed to delete keyword clusters: ${error.message}`);
+      }
+    }
+
+    return saved;
+  }
+}
+
+export const createKeywordClusteringService = (userId: string) => {
+  return new KeywordClusteringService(userId);
+};
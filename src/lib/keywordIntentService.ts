@@ -0,0 +1,217 @@
+import { ReportError } from '@/types/aiReports';
+import { supabase } from './supabaseClient';
+import { openAIService } from './openAIService';
+import { fetchAllPages } from './supabasePaging';
+import {
+  FunnelStage,
+  KeywordClassifier,
+  createKeywordRuleService,
+  normalizeKeyword,
+  setActiveIntentLabels
+} from './keywordClassification';
+
+export type IntentPredictionStatus = 'pending' | 'accepted' | 'overridden';
+
+export interface KeywordIntentPrediction {
+  id: string;
+  query: string;
+  predictedIntent: FunnelStage;
+  confidence: number;
+  acceptedIntent: FunnelStage | null;
+  status: IntentPredictionStatus;
+  createdAt: string;
+}
+
+export interface IntentPredictionRun {
+  predicted: number;
+  cached: number;
+  skipped: number;
+  // Set when the run stopped early; predictions from the batches before it are kept
+  error?: string;
+}
+
+// Small batches keep each prompt well inside the context window and limit the cost of a failed request
+const INTENT_BATCH_SIZE = 100;
+const MAX_QUERIES_PER_RUN = 2000;
+
+interface KeywordIntentPredictionRow {
+  id: string;
+  query: string;
+  predicted_intent: FunnelStage;
+  confidence: number;
+  accepted_intent: FunnelStage | null;
+  status: IntentPredictionStatus;
+  created_at: string;
+}
+
+const toPrediction = (row: KeywordIntentPredictionRow): KeywordIntentPrediction => ({
+  id: row.id,
+  query: row.query,
+  predictedIntent: row.predicted_intent,
+  confidence: Number(row.confidence),
+  acceptedIntent: row.accepted_intent,
+  status: row.status,
+  createdAt: row.created_at
+});
+
+export class KeywordIntentService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for KeywordIntentService');
+    }
+    this.userId = userId;
+  }
+
+  async getPredictions(projectId: string): Promise<KeywordIntentPrediction[]> {
+    try {
+      const rows = await fetchAllPages<KeywordIntentPredictionRow>((from, to) => supabase
+        .from('keyword_intent_predictions')
+        .select('id, query, predicted_intent, confidence, accepted_intent, status, created_at')
+        .eq('user_id', this.userId)
+        .eq('project_id', projectId)
+        .order('confidence', { ascending: false })
+        .order('id')
+        .range(from, to));
+
+      return rows.map(toPrediction);
+    } catch (error) {
+      throw new Error(`Failed to fetch intent predictions: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Sends the queries the project's rules leave unclassified to the AI layer in
+   * batches. Queries predicted before are served from the stored predictions.
+   */
+  async predictUnknownIntents(
+    projectId: string,
+    siteUrl: string,
+    queries: string[],
+    onProgress?: (progress: number, message?: string) => void
+  ): Promise<IntentPredictionRun> {
+    const rules = await createKeywordRuleService(this.userId).getRules(projectId);
+    const classifier = new KeywordClassifier(rules);
+    const existing = new Set((await this.getPredictions(projectId)).map(prediction => prediction.query));
+
+    const unknown = Array.from(new Set(queries.map(normalizeKeyword)))
+      .filter(query => query !== '' && classifier.classifyIntentByRules(query) === null);
+    const pending = unknown.filter(query => !existing.has(query)).slice(0, MAX_QUERIES_PER_RUN);
+
+    let predicted = 0;
+    let runError: string | undefined;
+
+    if (pending.length > 0) {
+      // One usage key with a call per batch, so the whole run counts as a single AI request
+      const usageKey = await openAIService.reserveUsage(Math.ceil(pending.length / INTENT_BATCH_SIZE));
+
+      for (let start = 0; start < pending.length; start += INTENT_BATCH_SIZE) {
+        const batch = pending.slice(start, start + INTENT_BATCH_SIZE);
+        onProgress?.(
+          Math.round((start / pending.length) * 100),
+          `Classifying queries ${start + 1}-${start + batch.length} of ${pending.length}...`
+        );
+
+        let predictions: Record<string, { intent: FunnelStage; confidence: number }>;
+        try {
+          predictions = await openAIService.predictKeywordIntents(batch, siteUrl, usageKey);
+        } catch (error) {
+          console.error('Error predicting keyword intents:', error);
+          runError = this.describeRunError(error);
+          break;
+        }
+
+        const rows = Object.entries(predictions).map(([query, prediction]) => ({
+          user_id: this.userId,
+          project_id: projectId,
+          query,
+          predicted_intent: prediction.intent,
+          confidence: prediction.confidence
+        }));
+
+        if (rows.length === 0) continue;
+
+        const { error } = await supabase
+          .from('keyword_intent_predictions')
+          .upsert(rows, { onConflict: 'project_id,query', ignoreDuplicates: true });
+
+        if (error) {
+          throw new Error(`Failed to save intent predictions: ${error.message}`);
+        }
+
+        predicted += rows.length;
+      }
+    }
+
+    onProgress?.(100, runError ? 'Intent classification stopped early' : 'Intent classification complete');
+
+    return {
+      predicted,
+      cached: unknown.length - pending.length,
+      skipped: pending.length - predicted,
+      ...(runError ? { error: runError } : {})
+    };
+  }
+
+  private describeRunError(error: unknown): string {
+    const message = error instanceof Error ? error.message : '';
+    if (message === ReportError.SUBSCRIPTION_LIMIT_REACHED) return 'Report limit reached for your plan.';
+    if (message === ReportError.USAGE_KEY_EXHAUSTED) return 'The AI request expired before every batch was classified.';
+    if (message === ReportError.RATE_LIMIT_EXCEEDED) return 'The AI service is busy. Try again in a few minutes.';
+    return message || 'Failed to classify unknown queries.';
+  }
+
+  async acceptPredictions(predictions: KeywordIntentPrediction[]): Promise<void> {
+    // Each row keeps its own predicted intent, so accept them one intent at a time
+    for (const intent of new Set(predictions.map(prediction => prediction.predictedIntent))) {
+      const ids = predictions.filter(prediction => prediction.predictedIntent === intent).map(prediction => prediction.id);
+      const { error } = await supabase
+        .from('keyword_intent_predictions')
+        .update({ accepted_intent: intent, status: 'accepted' })
+        .in('id', ids)
+        .eq('user_id', this.userId);
+
+      if (error) {
+        throw new Error(`Failed to accept intent predictions: ${error.message}`);
+      }
+    }
+  }
+
+  async overridePrediction(id: string, intent: FunnelStage): Promise<void> {
+    const { error } = await supabase
+      .from('keyword_intent_predictions')
+      .update({ accepted_intent: intent, status: 'overridden' })
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to override intent prediction: ${error.message}`);
+    }
+  }
+
+  async resetPrediction(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('keyword_intent_predictions')
+      .update({ accepted_intent: null, status: 'pending' })
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to reset intent prediction: ${error.message}`);
+    }
+  }
+}
+
+// Pushes the accepted labels to every screen's intent filters
+export const applyAcceptedIntents = (predictions: KeywordIntentPrediction[]) => {
+  setActiveIntentLabels(new Map(
+    predictions
+      .filter(prediction => prediction.acceptedIntent !== null)
+      .map(prediction => [prediction.query, prediction.acceptedIntent as FunnelStage])
+  ));
+};
+
+export const createKeywordIntentService = (userId: string) => {
+  return new KeywordIntentService(userId);
+};
@@ -0,0 +1,189 @@
+import { ReportError } from '@/types/aiReports';
+import { supabase } from './supabaseClient';
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure_openai' | 'openai_compatible' | 'stub';
+
+export interface LLMProviderOption {
+  id: LLMProviderId;
+  label: string;
+  model: string;
+}
+
+// What the active provider can handle; OpenAIService sizes prompt chunks from this
+export interface LLMCapabilities {
+  provider: LLMProviderId;
+  label: string;
+  model: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJsonMode: boolean;
+  availableProviders: LLMProviderOption[];
+}
+
+export interface LLMCompletionRequest {
+  systemPrompt: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  jsonMode: boolean;
+  // A key from reserveUsage; without one the call is charged as an operation of its own
+  usageKey?: string;
+}
+
+export interface LLMProvider {
+  describe(): Promise<LLMCapabilities>;
+  // Reserve a usage key covering up to maxCalls completions, charged once as a single report
+  reserveUsage(maxCalls: number): Promise<string>;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+// Talks to the ai-gateway edge function, which routes to the provider chosen for the workspace
+export class GatewayLLMProvider implements LLMProvider {
+  private async callGateway<T>(body: Record<string, unknown>): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to use AI features.');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-gateway`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+
+      if (response.status === 402) {
+        throw new Error(ReportError.SUBSCRIPTION_LIMIT_REACHED);
+      }
+
+      if (response.status === 429) {
+        throw new Error(ReportError.RATE_LIMIT_EXCEEDED);
+      }
+
+      if (error.code === 'INVALID_USAGE_KEY') {
+        throw new Error(ReportError.USAGE_KEY_EXHAUSTED);
+      }
+
+      throw new Error(`AI Gateway Error: ${error.error || response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  describe(): Promise<LLMCapabilities> {
+    return this.callGateway<LLMCapabilities>({ action: 'describe' });
+  }
+
+  async reserveUsage(maxCalls: number): Promise<string> {
+    const data = await this.callGateway<{ usageKey: string }>({ action: 'reserve', maxCalls });
+    return data.usageKey;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const data = await this.callGateway<{ content: string }>({
+      action: 'complete',
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      jsonMode: request.jsonMode,
+      usageKey: request.usageKey
+    });
+    return data.content;
+  }
+}
+
+interface StubLLMProviderOptions {
+  contextWindow?: number;
+  supportsJsonMode?: boolean;
+  // Override the canned answer, e.g. to return a fixture for one report type
+  respond?: (request: LLMCompletionRequest) => string;
+}
+
+// Deterministic, offline provider for exercising ReportService without a network or API key.
+// The same request always produces the same answer.
+export class StubLLMProvider implements LLMProvider {
+  readonly requests: LLMCompletionRequest[] = [];
+  private reservations = 0;
+
+  constructor(private options: StubLLMProviderOptions = {}) {}
+
+  async describe(): Promise<LLMCapabilities> {
+    return {
+      provider: 'stub',
+      label: 'Stub (offline)',
+      model: 'stub-1',
+      contextWindow: this.options.contextWindow ?? 8192,
+      maxOutputTokens: 1000,
+      supportsJsonMode: this.options.supportsJsonMode ?? true,
+      availableProviders: [{ id: 'stub', label: 'Stub (offline)', model: 'stub-1' }]
+    };
+  }
+
+  async reserveUsage(): Promise<string> {
+    this.reservations += 1;
+    return `stub-usage-${this.reservations}`;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    if (this.options.respond) {
+      return this.options.respond(request);
+    }
+
+    const fingerprint = stableHash(request.systemPrompt + request.prompt);
+    if (request.jsonMode) {
+      return JSON.stringify({
+        summary: `Stub analysis ${fingerprint}`,
+        patterns: [`Stub pattern ${fingerprint}`],
+        nextSteps: [`Stub next step ${fingerprint}`]
+      });
+    }
+
+    return `Stub response ${fingerprint}: ${request.prompt.slice(0, 80)}`;
+  }
+}
+
+function stableHash(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16);
+}
+
+// Providers without a JSON mode often wrap the object in prose or a ```json fence
+export function extractJSON(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.search(/[[{]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  return start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate.trim();
+}
+
+// VITE_LLM_PROVIDER=stub runs the whole app against the stub, e.g. for offline demos
+export const createLLMProvider = (): LLMProvider => {
+  return import.meta.env.VITE_LLM_PROVIDER === 'stub'
+    ? new StubLLMProvider()
+    : new GatewayLLMProvider();
+};
+
+export const saveWorkspaceLLMProvider = async (userId: string, provider: LLMProviderId) => {
+  const { error } = await supabase
+    .from('ai_provider_settings')
+    .upsert({ user_id: userId, provider }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving AI provider:', error);
+    throw new Error(`Failed to save AI provider: ${error.message}`);
+  }
+};
@@ -0,0 +1,143 @@
+import { supabase } from './supabaseClient';
+
+export type NotificationType = 'ranking_change' | 'new_keywords' | 'weekly_report';
+
+export interface AppNotification {
+  id: string;
+  projectId: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  rankingChanges: boolean;
+  rankingChangeThreshold: number;
+  newKeywords: boolean;
+  weeklyReport: boolean;
+}
+
+// Matches the column defaults in notification_preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  rankingChanges: true,
+  rankingChangeThreshold: 3,
+  newKeywords: true,
+  weeklyReport: false
+};
+
+export class NotificationService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for NotificationService');
+    }
+    this.userId = userId;
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('ranking_changes, ranking_change_threshold, new_keywords, weekly_report')
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+    }
+
+    if (!data) {
+      return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+    }
+
+    return {
+      rankingChanges: data.ranking_changes,
+      rankingChangeThreshold: data.ranking_change_threshold,
+      newKeywords: data.new_keywords,
+      weeklyReport: data.weekly_report
+    };
+  }
+
+  async savePreferences(preferences: NotificationPreferences): Promise<void> {
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: this.userId,
+        ranking_changes: preferences.rankingChanges,
+        ranking_change_threshold: preferences.rankingChangeThreshold,
+        new_keywords: preferences.newKeywords,
+        weekly_report: preferences.weeklyReport
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Failed to save notification preferences: ${error.message}`);
+    }
+  }
+
+  async getNotifications(limit = 30): Promise<AppNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, project_id, type, title, message, data, read_at, created_at')
+      .eq('user_id', this.userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`);
+    }
+
+    return (data || []).map(item => ({
+      id: item.id,
+      projectId: item.project_id,
+      type: item.type,
+      title: item.title,
+      message: item.message,
+      data: item.data || {},
+      readAt: item.read_at,
+      createdAt: item.created_at
+    }));
+  }
+
+  async markAsRead(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to mark notification as read: ${error.message}`);
+    }
+  }
+
+  async markAllAsRead(): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', this.userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    }
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to delete notification: ${error.message}`);
+    }
+  }
+}
+
+export const createNotificationService = (userId: string) => {
+  return new NotificationService(userId);
+};
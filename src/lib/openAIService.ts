@@ -1,10 +1,25 @@
-import { ReportType, Report, LLMSimulation, ReportError, AEOScore } from '@/types/aiReports';
+import {
+  ReportType,
+  Report,
+  LLMSimulation,
+  ReportError,
+  AEOScore,
+  CustomQueryDimension,
+  CustomQueryFilter,
+  CustomQueryMetric,
+  CustomQueryPlan,
+  CustomQuerySort,
+  CustomReportRow,
+  EmergingKeywordsReport,
+  RankingVolatilityReport,
+  TopLosersReport
+} from '@/types/aiReports';
 import { GSCDataPoint } from '@/lib/gscService';
 import { CacheManager } from './cacheManager';
+import { FUNNEL_STAGES, FunnelStage } from './keywordClassification';
+import { LLMCapabilities, LLMProvider, createLLMProvider, extractJSON } from './llmProvider';
 
 interface OpenAIConfig {
-  apiKey: string;
-  model: string;
   maxTokensPerPrompt: number;
   rateLimit: number;
   temperature: number;
@@ -17,6 +32,29 @@ interface ChunkingConfig {
   preserveContext: boolean;
 }
 
+const CUSTOM_QUERY_DIMENSIONS: CustomQueryDimension[] = ['query', 'page', 'device', 'country', 'date'];
+const CUSTOM_QUERY_METRICS: CustomQueryMetric[] = ['clicks', 'impressions', 'ctr', 'position'];
+const CUSTOM_QUERY_OPERATORS: CustomQueryFilter['operator'][] = ['equals', 'notEquals', 'contains', 'notContains', 'includingRegex', 'excludingRegex'];
+const CUSTOM_QUERY_MAX_ROWS = 500;
+// GSC keeps 16 months of data and lags by a couple of days
+const GSC_RETENTION_DAYS = 486;
+const GSC_DATA_DELAY_DAYS = 2;
+
+const VOLATILITY_METRICS_GUIDE = `Metrics (positions are daily averages, weighted by impressions):
+- stdDev: standard deviation of daily position
+- directionChanges: times the position reversed direction by at least half a position
+- maxSwing: best-to-worst daily position range
+- positionChange: last day minus first day (positive means the page dropped)
+- volatilityScore: stdDev scaled up by how often the direction changed
+- topQueries: the queries contributing most to the instability`;
+
+const TRAFFIC_LOSS_GUIDE = `Each page is compared with the previous period of the same length. CTR is a fraction (0.05 = 5%).
+- lossCause: ranking_loss (the page ranks lower or dropped out), demand_drop (fewer searches at a steady rank) or ctr_loss (fewer searchers clicking at a steady rank)
+- topQueries, devices, countries: where the lost clicks came from; share is the fraction of the page's click loss`;
+
+// Rows a report summary is written from; some reports summarise their processed rows rather than raw GSC data
+type SummaryRows = GSCDataPoint[] | RankingVolatilityReport['data'] | EmergingKeywordsReport['data'] | TopLosersReport['data'];
+
 interface ChunkResult {
   index: number;
   content: string;
@@ -31,21 +69,21 @@ export class OpenAIService {
   private isProcessingQueue = false;
   private requestCount = 0;
   private windowStart = Date.now();
+  private provider: LLMProvider;
+  private capabilities: Promise<LLMCapabilities> | null = null;
+
+  // Defaults to the ai-gateway; pass a StubLLMProvider to run reports offline
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
 
-  constructor() {
     // Initialize config
     this.config = {
-      apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
-      model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4-turbo',  // Updated default model
       maxTokensPerPrompt: parseInt(import.meta.env.VITE_OPENAI_MAX_TOKENS || '4000'),
       rateLimit: parseInt(import.meta.env.VITE_OPENAI_RATE_LIMIT || '60'),
       temperature: 0.7,
-      maxInputTokens: 4000 // Default value, will be updated below
+      maxInputTokens: 4000 // Conservative until the provider's context window is known
     };
 
-    // Update maxInputTokens based on model
-    this.config.maxInputTokens = this.getModelTokenLimit(this.config.model);
-
     // Initialize chunking config with optimized values for larger context
     this.chunkingConfig = {
       maxTokensPerChunk: Math.floor(this.config.maxInputTokens * 0.9), // Increased from 0.7 to 0.9
@@ -54,24 +92,32 @@ export class OpenAIService {
     };
 
     this.cache = new CacheManager();
+  }
 
-    if (!this.config.apiKey) {
-      throw new Error('OpenAI API key is required. Please set VITE_OPENAI_API_KEY environment variable.');
+  // Size prompts and chunks from the active provider's context window (fetched once)
+  private async getCapabilities(): Promise<LLMCapabilities> {
+    if (!this.capabilities) {
+      this.capabilities = this.provider.describe().catch(error => {
+        this.capabilities = null;
+        throw error;
+      });
     }
+
+    const capabilities = await this.capabilities;
+    const outputTokens = Math.min(this.config.maxTokensPerPrompt, capabilities.maxOutputTokens);
+    this.config.maxInputTokens = Math.max(1000, capabilities.contextWindow - outputTokens);
+    this.chunkingConfig.maxTokensPerChunk = Math.floor(this.config.maxInputTokens * 0.9);
+    return capabilities;
   }
 
-  private getModelTokenLimit(model: string): number {
-    switch (model) {
-      case 'gpt-4-turbo':
-      case 'gpt-4-0125-preview':
-        return 128000;  // 128K tokens for GPT-4 Turbo
-      case 'gpt-4':
-        return 8192;
-      case 'gpt-3.5-turbo':
-        return 4096;
-      default:
-        return 4096;
-    }
+  // Call after the workspace switches provider so the next request re-reads its limits
+  resetCapabilities() {
+    this.capabilities = null;
+  }
+
+  // Usage keys are issued by the gateway; pass one to every call that belongs to the operation
+  reserveUsage(maxCalls: number): Promise<string> {
+    return this.provider.reserveUsage(maxCalls);
   }
 
   private estimateTokens(text: string): number {
@@ -174,7 +220,8 @@ export class OpenAIService {
     chunks: string[],
     systemPrompt: string,
     reportType: ReportType,
-    useCache: boolean = true
+    useCache: boolean,
+    usageKey: string | undefined
   ): Promise<string> {
     console.log(`Processing ${chunks.length} chunks for ${reportType} report`);
     
@@ -185,7 +232,7 @@ export class OpenAIService {
       const chunkSystemPrompt = this.buildChunkSystemPrompt(systemPrompt, i + 1, chunks.length, reportType);
       
       try {
-        const result = await this.makeOpenAIRequestInternal(chunk, chunkSystemPrompt, useCache);
+        const result = await this.makeOpenAIRequestInternal(chunk, chunkSystemPrompt, useCache, usageKey);
         chunkResults.push({
           index: i,
           content: result,
@@ -193,6 +240,10 @@ export class OpenAIService {
         });
       } catch (error) {
         console.error(`Error processing chunk ${i + 1}:`, error);
+        // No point continuing once the plan's quota is used up
+        if (error instanceof Error && error.message === ReportError.SUBSCRIPTION_LIMIT_REACHED) {
+          throw error;
+        }
         // Continue with other chunks, handle partial results
         chunkResults.push({
           index: i,
@@ -227,6 +278,7 @@ export class OpenAIService {
       // Add report-specific chunking instructions
       switch (reportType) {
         case 'top_gainers':
+        case 'top_losers':
         case 'underperforming_pages':
         case 'bofu_pages':
           chunkPrompt += "Analyze the pages in this chunk and provide individual recommendations for each.";
@@ -275,6 +327,7 @@ export class OpenAIService {
     try {
       switch (reportType) {
         case 'top_gainers':
+        case 'top_losers':
         case 'underperforming_pages':
         case 'bofu_pages':
           return this.combinePageResults(results);
@@ -407,11 +460,15 @@ export class OpenAIService {
     this.isProcessingQueue = false;
   }
 
+  // usageKey groups the calls that make up one operation so the gateway charges it once
   private async makeOpenAIRequest(
     prompt: string,
     systemPrompt: string,
-    useCache: boolean = true
+    useCache: boolean = true,
+    usageKey?: string,
+    jsonMode: boolean = false
   ): Promise<string> {
+    await this.getCapabilities();
     const totalTokens = this.estimateTokens(prompt + systemPrompt);
     
     if (totalTokens > this.config.maxInputTokens) {
@@ -441,16 +498,17 @@ export class OpenAIService {
       // Determine report type from system prompt
       const reportType = this.detectReportType(systemPrompt, prompt);
       
-      return this.processChunkedRequest(chunks, systemPrompt, reportType, useCache);
+      return this.processChunkedRequest(chunks, systemPrompt, reportType, useCache, usageKey);
     }
 
-    return this.makeOpenAIRequestInternal(prompt, systemPrompt, useCache);
+    return this.makeOpenAIRequestInternal(prompt, systemPrompt, useCache, usageKey, jsonMode);
   }
 
   private detectReportType(systemPrompt: string, prompt: string): ReportType {
     const combined = (systemPrompt + ' ' + prompt).toLowerCase();
     
     if (combined.includes('top_gainers') || combined.includes('pages winning')) return 'top_gainers';
+    if (combined.includes('top_losers') || combined.includes('losing clicks')) return 'top_losers';
     if (combined.includes('underperforming') || combined.includes('low ctr')) return 'underperforming_pages';
     if (combined.includes('bofu') || combined.includes('bottom-of-funnel')) return 'bofu_pages';
     if (combined.includes('emerging') || combined.includes('new keywords')) return 'emerging_keywords';
@@ -463,9 +521,12 @@ export class OpenAIService {
   private async makeOpenAIRequestInternal(
     prompt: string,
     systemPrompt: string,
-    useCache: boolean = true
+    useCache: boolean,
+    usageKey: string | undefined,
+    jsonMode: boolean = false
   ): Promise<string> {
-    const cacheKey = `openai:${this.hashString(systemPrompt + prompt)}`;
+    const capabilities = await this.getCapabilities();
+    const cacheKey = `openai:${capabilities.provider}:${this.hashString(systemPrompt + prompt)}`;
     
     if (useCache) {
       const cached = await this.cache.get(cacheKey);
@@ -476,35 +537,15 @@ export class OpenAIService {
 
     return this.queueRequest(async () => {
       try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.apiKey}`
-          },
-          body: JSON.stringify({
-            model: this.config.model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: prompt }
-            ],
-            max_tokens: this.config.maxTokensPerPrompt,
-            temperature: this.config.temperature
-          })
+        const content = await this.provider.complete({
+          systemPrompt,
+          prompt,
+          maxTokens: this.config.maxTokensPerPrompt,
+          temperature: this.config.temperature,
+          jsonMode: jsonMode && capabilities.supportsJsonMode,
+          usageKey
         });
-
-        if (!response.ok) {
-          const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-          
-          if (response.status === 429) {
-            throw new Error(ReportError.RATE_LIMIT_EXCEEDED);
-          }
-          
-          throw new Error(`OpenAI API Error: ${error.error?.message || response.statusText}`);
-        }
-
-        const data = await response.json();
-        const result = data.choices[0].message.content;
+        const result = jsonMode && !capabilities.supportsJsonMode ? extractJSON(content) : content;
 
         if (useCache) {
           await this.cache.set(cacheKey, result); // Cache for default duration
@@ -512,7 +553,7 @@ export class OpenAIService {
 
         return result;
       } catch (error) {
-        console.error('OpenAI API request failed:', error);
+        console.error(`${capabilities.label} request failed:`, error);
         throw error;
       }
     });
@@ -530,8 +571,9 @@ export class OpenAIService {
 
   async generateReportSummary(
     reportType: ReportType,
-    gscData: GSCDataPoint[],
-    dateRange: { startDate: string; endDate: string }
+    gscData: SummaryRows,
+    dateRange: { startDate: string; endDate: string },
+    usageKey?: string
   ): Promise<string> {
     const systemPrompt = `You are an expert SEO analyst with deep knowledge of Google Search Console data analysis. 
     Provide clear, actionable insights in a professional, data-driven tone. 
@@ -540,20 +582,21 @@ export class OpenAIService {
     Keep responses under 700 tokens and make them accessible to non-SEO users.`;
 
     const prompt = this.getReportPrompt(reportType, gscData, dateRange);
-    return this.makeOpenAIRequest(prompt, systemPrompt);
+    return this.makeOpenAIRequest(prompt, systemPrompt, true, usageKey);
   }
 
   async analyzeBofuPage(
     url: string,
     gscData: GSCDataPoint[],
-    content?: string
+    content?: string,
+    usageKey?: string
   ): Promise<LLMSimulation> {
     const systemPrompt = `You are an expert in Answer Engine Optimization (AEO) and SEO, 
     specializing in analyzing how content performs in both traditional search and AI language models.
     Provide structured analysis in valid JSON format only.`;
 
     const prompt = this.getBofuAnalysisPrompt(url, gscData, content);
-    const response = await this.makeOpenAIRequest(prompt, systemPrompt, false);
+    const response = await this.makeOpenAIRequest(prompt, systemPrompt, false, usageKey, true);
     
     try {
       const parsed = JSON.parse(response);
@@ -593,9 +636,322 @@ export class OpenAIService {
     };
   }
 
+  /**
+   * Turn a free-form question into a Search Console query the app can run
+   * @param question What the user asked, e.g. "Which blog pages lost clicks on mobile last month?"
+   * @param siteUrl The GSC property the question is about
+   * @param usageKey Shared with the answer step so the custom report is charged once
+   * @returns A validated plan; anything the model got wrong falls back to a sensible default
+   */
+  async planCustomQuery(question: string, siteUrl: string, usageKey?: string): Promise<CustomQueryPlan> {
+    const systemPrompt = `You are an expert SEO analyst who translates questions about a website's search performance
+    into Google Search Console Search Analytics queries.
+    Provide the query plan in valid JSON format only.`;
+
+    const response = await this.makeOpenAIRequest(this.getCustomQueryPlanPrompt(question, siteUrl), systemPrompt, false, usageKey, true);
+
+    try {
+      return this.validateCustomQueryPlan(JSON.parse(response));
+    } catch (error) {
+      console.error('Failed to parse custom query plan:', error);
+      throw new Error(ReportError.API_ERROR);
+    }
+  }
+
+  /**
+   * Answer the user's question from the rows the planned query returned
+   * @returns A short narrative with the answer and recommended next steps
+   */
+  async answerCustomQuestion(
+    question: string,
+    plan: CustomQueryPlan,
+    rows: CustomReportRow[],
+    usageKey?: string
+  ): Promise<string> {
+    const systemPrompt = `You are an expert SEO analyst with deep knowledge of Google Search Console data analysis. 
+    Answer the user's question directly using only the data provided. Quote the numbers that support your answer.
+    Finish with 2-4 specific, actionable recommendations.
+    Keep responses under 500 tokens and make them accessible to non-SEO users.`;
+
+    const comparison = plan.comparisonDateRange
+      ? ` compared with ${plan.comparisonDateRange.startDate} to ${plan.comparisonDateRange.endDate} (see "previous")`
+      : '';
+
+    const prompt = `Question: ${question}
+
+Query: ${plan.title}
+Dimensions: ${plan.dimensions.join(', ')}
+Filters: ${plan.filters.length > 0 ? plan.filters.map(filter => `${filter.dimension} ${filter.operator} "${filter.expression}"`).join('; ') : 'none'}
+Sorted by ${plan.sortBy} (${plan.sortOrder})
+
+GSC Data from ${plan.dateRange.startDate} to ${plan.dateRange.endDate}${comparison}. CTR is a fraction (0.05 = 5%):
+${JSON.stringify(rows, null, 2)}`;
+
+    return this.makeOpenAIRequest(prompt, systemPrompt, true, usageKey);
+  }
+
+  /**
+   * Suggest a stabilization action for each volatile page from its measured ranking movement
+   * @returns Suggested action keyed by page URL; pages the model skipped are left out
+   */
+  async recommendVolatilityActions(
+    pages: RankingVolatilityReport['data'],
+    dateRange: { startDate: string; endDate: string },
+    usageKey?: string
+  ): Promise<Record<string, string>> {
+    if (pages.length === 0) return {};
+
+    const systemPrompt = `You are a senior technical SEO specialist diagnosing unstable Google rankings.
+    Base every recommendation on the metrics provided for that page.
+    Provide structured analysis in valid JSON format only.`;
+
+    const prompt = `For each page below, write one specific action (1-2 sentences) to stabilize its rankings.
+Data covers ${dateRange.startDate} to ${dateRange.endDate}.
+
+${VOLATILITY_METRICS_GUIDE}
+
+Pages:
+${JSON.stringify(pages.map(({ suggestedAction: _suggestedAction, ...page }) => page), null, 2)}
+
+Return JSON in this format:
+{
+  "pages": [
+    { "url": "string", "suggestedAction": "string" }
+  ]
+}
+
+Return only valid JSON, no additional text.`;
+
+    const response = await this.makeOpenAIRequest(prompt, systemPrompt, true, usageKey, true);
+
+    try {
+      const parsed = JSON.parse(response);
+      const actions: Record<string, string> = {};
+      (Array.isArray(parsed?.pages) ? parsed.pages : []).forEach((page: { url?: unknown; suggestedAction?: unknown }) => {
+        if (typeof page?.url === 'string' && typeof page.suggestedAction === 'string' && page.suggestedAction.trim()) {
+          actions[page.url] = page.suggestedAction.trim();
+        }
+      });
+      return actions;
+    } catch (error) {
+      console.error('Failed to parse volatility recommendations:', error);
+      throw new Error(ReportError.API_ERROR);
+    }
+  }
+
+  /**
+   * Suggest recovery steps for each page from where and why it lost clicks
+   * @returns Recovery actions keyed by page URL; pages the model skipped are left out
+   */
+  async recommendRecoveryActions(
+    pages: TopLosersReport['data'],
+    dateRange: { startDate: string; endDate: string },
+    usageKey?: string
+  ): Promise<Record<string, string[]>> {
+    if (pages.length === 0) return {};
+
+    const systemPrompt = `You are a senior SEO specialist diagnosing Google traffic declines.
+    Base every recommendation on the loss cause and the queries, devices and countries provided for that page.
+    Provide structured analysis in valid JSON format only.`;
+
+    const prompt = `For each page below, write 2-3 specific recovery actions (1 sentence each).
+Data covers ${dateRange.startDate} to ${dateRange.endDate}.
+
+${TRAFFIC_LOSS_GUIDE}
+
+Pages:
+${JSON.stringify(pages.map(({ recoveryActions: _recoveryActions, ...page }) => page), null, 2)}
+
+Return JSON in this format:
+{
+  "pages": [
+    { "url": "string", "recoveryActions": ["string"] }
+  ]
+}
+
+Return only valid JSON, no additional text.`;
+
+    const response = await this.makeOpenAIRequest(prompt, systemPrompt, true, usageKey, true);
+
+    try {
+      const parsed = JSON.parse(response);
+      const actions: Record<string, string[]> = {};
+      (Array.isArray(parsed?.pages) ? parsed.pages : []).forEach((page: { url?: unknown; recoveryActions?: unknown }) => {
+        if (typeof page?.url !== 'string' || !Array.isArray(page.recoveryActions)) return;
+        const pageActions = page.recoveryActions
+          .filter((action): action is string => typeof action === 'string' && action.trim() !== '')
+          .map(action => action.trim());
+        if (pageActions.length > 0) {
+          actions[page.url] = pageActions;
+        }
+      });
+      return actions;
+    } catch (error) {
+      console.error('Failed to parse recovery recommendations:', error);
+      throw new Error(ReportError.API_ERROR);
+    }
+  }
+
+  /**
+   * Predicts the funnel stage of search queries. Confidence is 0-1; queries the
+   * model skips or labels with an unknown stage are left out of the result.
+   */
+  async predictKeywordIntents(
+    queries: string[],
+    siteUrl: string,
+    usageKey?: string
+  ): Promise<Record<string, { intent: FunnelStage; confidence: number }>> {
+    if (queries.length === 0) return {};
+
+    const systemPrompt = `You are an SEO strategist who maps search queries to marketing funnel stages.
+    Provide structured analysis in valid JSON format only.`;
+
+    const prompt = `Classify each search query that brings visitors to ${siteUrl} by funnel stage:
+- tofu: top of funnel, learning about a problem or topic (how to, what is, guides, ideas)
+- mofu: middle of funnel, comparing solutions (best, vs, reviews, alternatives, features)
+- bofu: bottom of funnel, ready to act (pricing, buy, discount, demo, sign up, specific product or brand names)
+
+Give a confidence between 0 and 1 for each prediction.
+
+Queries:
+${JSON.stringify(queries)}
+
+Return JSON in this format:
+{
+  "predictions": [
+    { "query": "string", "intent": "tofu" | "mofu" | "bofu", "confidence": number }
+  ]
+}
+
+Return only valid JSON, no additional text.`;
+
+    const response = await this.makeOpenAIRequest(prompt, systemPrompt, true, usageKey, true);
+
+    try {
+      const parsed = JSON.parse(response);
+      const requested = new Set(queries);
+      const predictions: Record<string, { intent: FunnelStage; confidence: number }> = {};
+      (Array.isArray(parsed?.predictions) ? parsed.predictions : []).forEach((prediction: { query?: unknown; intent?: unknown; confidence?: unknown }) => {
+        if (typeof prediction?.query !== 'string' || !requested.has(prediction.query)) return;
+        if (!FUNNEL_STAGES.includes(prediction.intent as FunnelStage)) return;
+        const confidence = Number(prediction.confidence);
+        predictions[prediction.query] = {
+          intent: prediction.intent as FunnelStage,
+          confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0
+        };
+      });
+      return predictions;
+    } catch (error) {
+      console.error('Failed to parse keyword intent predictions:', error);
+      throw new Error(ReportError.API_ERROR);
+    }
+  }
+
+  private getCustomQueryPlanPrompt(question: string, siteUrl: string): string {
+    const today = new Date().toISOString().split('T')[0];
+
+    return `Plan a Search Console query that answers this question about ${siteUrl}:
+
+"${question}"
+
+Today is ${today}. The most recent complete day of data is ${GSC_DATA_DELAY_DAYS} days ago and data is kept for 16 months.
+When the question doesn't mention a period, use the last 28 days. When it asks about changes, growth, drops,
+gains or losses, set comparisonDateRange to the preceding period of the same length and sort by the change.
+
+Return JSON with these exact fields:
+{
+  "title": "Short report title",
+  "dimensions": ["query" | "page" | "device" | "country" | "date"],
+  "filters": [
+    {
+      "dimension": "query" | "page" | "device" | "country",
+      "operator": "equals" | "notEquals" | "contains" | "notContains" | "includingRegex" | "excludingRegex",
+      "expression": "string"
+    }
+  ],
+  "dateRange": { "startDate": "YYYY-MM-DD", "endDate": "YYYY-MM-DD" },
+  "comparisonDateRange": { "startDate": "YYYY-MM-DD", "endDate": "YYYY-MM-DD" } or null,
+  "sortBy": "clicks" | "impressions" | "ctr" | "position" | "clicksChange" | "impressionsChange" | "ctrChange" | "positionChange",
+  "sortOrder": "asc" | "desc",
+  "rowLimit": 1-${CUSTOM_QUERY_MAX_ROWS},
+  "chartMetric": "clicks" | "impressions" | "ctr" | "position"
+}
+
+Device values are MOBILE, DESKTOP or TABLET. Countries are lowercase ISO 3166-1 alpha-3 codes (e.g. "usa", "gbr").
+Page filters match full URLs. Regex filters use RE2 syntax.
+
+Return only valid JSON, no additional text.`;
+  }
+
+  private validateCustomQueryPlan(data: unknown): CustomQueryPlan {
+    type RawFields<T> = Partial<Record<keyof T, unknown>>;
+    const raw = (data && typeof data === 'object' ? data : {}) as RawFields<CustomQueryPlan>;
+
+    const latest = this.shiftDate(new Date().toISOString().split('T')[0], -GSC_DATA_DELAY_DAYS);
+    const earliest = this.shiftDate(latest, -GSC_RETENTION_DAYS);
+
+    const validRange = (value: unknown): { startDate: string; endDate: string } | null => {
+      const range = (value ?? {}) as RawFields<CustomQueryPlan['dateRange']>;
+      const isDate = (date: unknown): date is string => typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date);
+      if (!isDate(range.startDate) || !isDate(range.endDate)) return null;
+
+      const startDate = range.startDate < earliest ? earliest : range.startDate;
+      const endDate = range.endDate > latest ? latest : range.endDate;
+      return startDate <= endDate ? { startDate, endDate } : null;
+    };
+
+    const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+      options.includes(value as T);
+
+    const dimensions = Array.isArray(raw.dimensions)
+      ? CUSTOM_QUERY_DIMENSIONS.filter(dimension => (raw.dimensions as unknown[]).includes(dimension))
+      : [];
+
+    const filters: CustomQueryFilter[] = (Array.isArray(raw.filters) ? raw.filters as RawFields<CustomQueryFilter>[] : [])
+      .filter(filter =>
+        isOneOf(CUSTOM_QUERY_DIMENSIONS, filter?.dimension) && filter.dimension !== 'date' &&
+        isOneOf(CUSTOM_QUERY_OPERATORS, filter.operator) &&
+        typeof filter.expression === 'string' && filter.expression.trim() !== ''
+      )
+      .map(filter => ({
+        dimension: filter.dimension as CustomQueryFilter['dimension'],
+        operator: filter.operator as CustomQueryFilter['operator'],
+        expression: (filter.expression as string).trim()
+      }));
+
+    const dateRange = validRange(raw.dateRange) ?? { startDate: this.shiftDate(latest, -27), endDate: latest };
+    const comparisonDateRange = validRange(raw.comparisonDateRange);
+
+    const sortOptions: CustomQuerySort[] = comparisonDateRange
+      ? [...CUSTOM_QUERY_METRICS, 'clicksChange', 'impressionsChange', 'ctrChange', 'positionChange']
+      : CUSTOM_QUERY_METRICS;
+    const sortBy = isOneOf(sortOptions, raw.sortBy) ? raw.sortBy : 'clicks';
+
+    return {
+      title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim().slice(0, 120) : 'Custom Analysis',
+      dimensions: dimensions.length > 0 ? dimensions : ['page'],
+      filters,
+      dateRange,
+      comparisonDateRange,
+      sortBy,
+      // Lower positions are better, so "best first" means ascending
+      sortOrder: raw.sortOrder === 'asc' || raw.sortOrder === 'desc'
+        ? raw.sortOrder
+        : sortBy === 'position' ? 'asc' : 'desc',
+      rowLimit: Math.max(1, Math.min(CUSTOM_QUERY_MAX_ROWS, Math.floor(Number(raw.rowLimit)) || 50)),
+      chartMetric: isOneOf(CUSTOM_QUERY_METRICS, raw.chartMetric) ? raw.chartMetric : 'clicks'
+    };
+  }
+
+  private shiftDate(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
   private getReportPrompt(
     reportType: ReportType,
-    gscData: GSCDataPoint[],
+    gscData: SummaryRows,
     dateRange: { startDate: string; endDate: string }
   ): string {
     const dataStr = JSON.stringify(gscData, null, 2);
@@ -635,6 +991,9 @@ Return in JSON format only:
 GSC Data from ${dateRangeStr}:
 ${dataStr}`;
 
+      case 'top_losers':
+        return `Analyze the following pages losing clicks from ${dateRangeStr}:\n\n${TRAFFIC_LOSS_GUIDE}\n\n${dataStr}\n\nExplain where the traffic went and whether the decline is mostly ranking, demand or CTR driven. Prioritise the pages worth recovering first.`;
+
       case 'underperforming_pages':
         return `You are a senior SEO + AEO strategist.
 
@@ -672,13 +1031,13 @@ GSC Data from ${dateRangeStr}:
 ${dataStr}`;
 
       case 'emerging_keywords':
-        return `Analyze the following GSC data from ${dateRangeStr}:\n\n${dataStr}\n\nIdentify new keywords gaining traction. Provide insights on search intent and content optimization opportunities.`;
+        return `Analyze the following emerging keywords from ${dateRangeStr}. Each had little or no visibility in the previous period of the same length; firstSeen is the first day it earned impressions and growthRate is the change in daily impressions since then (0.5 = +50%):\n\n${dataStr}\n\nExplain which new keywords are gaining traction fastest and what they reveal about search intent. Provide content optimization opportunities.`;
 
       case 'bofu_pages':
         return `Analyze the following GSC data from ${dateRangeStr}:\n\n${dataStr}\n\nIdentify bottom-of-funnel pages and analyze their performance. Focus on conversion optimization opportunities.`;
 
       case 'ranking_volatility':
-        return `Analyze the following GSC data from ${dateRangeStr}:\n\n${dataStr}\n\nIdentify pages with unstable rankings. Provide insights on causes and stabilization strategies.`;
+        return `Analyze the following ranking volatility metrics from ${dateRangeStr}:\n\n${VOLATILITY_METRICS_GUIDE}\n\n${dataStr}\n\nExplain which pages have the most unstable rankings and what the pattern of movement suggests about the cause. Provide stabilization strategies.`;
 
       case 'quick_wins':
         return `Analyze the following GSC data from ${dateRangeStr}:\n\n${dataStr}\n\nIdentify quick optimization opportunities based on current rankings and potential impact.`;
@@ -745,14 +1104,16 @@ Return only valid JSON, no additional text.`;
    * @param prompt The user prompt for text generation
    * @param systemPrompt Optional system prompt to guide the generation
    * @param useCache Whether to use caching for this request
+   * @param usageKey Shared by calls belonging to one report so it is charged once
    * @returns Generated text response
    */
   async generateText(
     prompt: string, 
     systemPrompt: string = 'You are a helpful AI assistant. Provide accurate and useful responses.',
-    useCache: boolean = true
+    useCache: boolean = true,
+    usageKey?: string
   ): Promise<string> {
-    return this.makeOpenAIRequest(prompt, systemPrompt, useCache);
+    return this.makeOpenAIRequest(prompt, systemPrompt, useCache, usageKey);
   }
 }
 
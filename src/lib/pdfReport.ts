@@ -0,0 +1,164 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Chart, registerables } from 'chart.js';
+
+Chart.register(...registerables);
+
+export interface ReportChart {
+  title: string;
+  type: 'line' | 'bar';
+  labels: string[];
+  series: Array<{ label: string; values: number[] }>;
+}
+
+export interface PdfReportContent {
+  title: string;
+  details: Array<[string, string]>;
+  summary: string;
+  charts: ReportChart[];
+  table: { headers: string[]; rows: string[][] };
+}
+
+const BRAND_NAME = 'DataPulsify';
+const BRAND_COLOR: [number, number, number] = [41, 97, 217];
+const SERIES_COLORS = ['#2961D9', '#9CA3AF', '#10B981', '#F59E0B', '#8B5CF6'];
+
+const PAGE_MARGIN = 40;
+const HEADER_HEIGHT = 48;
+const CHART_WIDTH = 1200;
+const CHART_HEIGHT = 420;
+
+// Draws the chart on a detached canvas; animation and responsiveness are off so it renders synchronously
+function renderChart(chart: ReportChart): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+
+  const instance = new Chart(canvas, {
+    type: chart.type,
+    data: {
+      labels: chart.labels,
+      datasets: chart.series.map((series, index) => ({
+        label: series.label,
+        data: series.values,
+        borderColor: SERIES_COLORS[index % SERIES_COLORS.length],
+        backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length],
+        borderWidth: 2,
+        pointRadius: 0
+      }))
+    },
+    options: {
+      animation: false,
+      responsive: false,
+      devicePixelRatio: 1,
+      plugins: { legend: { display: chart.series.length > 1 } },
+      scales: { x: { ticks: { autoSkip: true, maxTicksLimit: 12 } } }
+    }
+  });
+
+  const image = canvas.toDataURL('image/png');
+  instance.destroy();
+  return image;
+}
+
+/**
+ * Lays out a report as a landscape A4 PDF: details and AI summary, one chart
+ * per section, then the report table. Every page carries the brand header and
+ * a page-numbered footer.
+ */
+export function buildReportPdf(content: PdfReportContent): Blob {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const contentTop = HEADER_HEIGHT + 24;
+  const contentBottom = pageHeight - PAGE_MARGIN;
+  let y = contentTop;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = contentTop;
+    }
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(17, 24, 39);
+  doc.text(content.title, PAGE_MARGIN, y + 8);
+  y += 30;
+
+  doc.setFontSize(10);
+  content.details.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, PAGE_MARGIN + 90, y);
+    y += 14;
+  });
+  y += 12;
+
+  const paragraphs = content.summary.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  if (paragraphs.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text('AI Summary', PAGE_MARGIN, y);
+    y += 18;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    paragraphs.forEach(paragraph => {
+      const lines: string[] = doc.splitTextToSize(paragraph, contentWidth);
+      lines.forEach(line => {
+        ensureSpace(13);
+        doc.text(line, PAGE_MARGIN, y);
+        y += 13;
+      });
+      y += 8;
+    });
+  }
+
+  const chartHeight = contentWidth * (CHART_HEIGHT / CHART_WIDTH);
+  content.charts.forEach(chart => {
+    ensureSpace(chartHeight + 30);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(chart.title, PAGE_MARGIN, y + 6);
+    y += 16;
+    doc.addImage(renderChart(chart), 'PNG', PAGE_MARGIN, y, contentWidth, chartHeight);
+    y += chartHeight + 20;
+  });
+
+  if (content.table.rows.length > 0) {
+    doc.addPage();
+    autoTable(doc, {
+      head: [content.table.headers],
+      body: content.table.rows,
+      startY: contentTop,
+      margin: { top: contentTop, left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN },
+      styles: { fontSize: 7, cellPadding: 3, overflow: 'linebreak' },
+      headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+      alternateRowStyles: { fillColor: [243, 244, 246] }
+    });
+  }
+
+  // Header and footer go on last, once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFillColor(...BRAND_COLOR);
+    doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(255, 255, 255);
+    doc.text(BRAND_NAME, PAGE_MARGIN, HEADER_HEIGHT / 2 + 5);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(content.title, PAGE_MARGIN, pageHeight - 20);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 20, { align: 'right' });
+  }
+
+  return doc.output('blob');
+}
@@ -1,5 +1,5 @@
 import { supabase } from './supabaseClient';
-import { openAIService } from './openAIService';
+import { OpenAIService, openAIService } from './openAIService';
 import { gscService } from './gscService';
 import { 
   ReportType, 
@@ -7,14 +7,24 @@ import {
   ReportUsage, 
   ReportError, 
   ReportTemplate,
+  ReportFilters,
   TopGainersReport,
+  TopLosersReport,
+  TrafficLossCause,
+  TrafficLossContributor,
   UnderperformingPagesReport,
   EmergingKeywordsReport,
   BofuPagesReport,
   RankingVolatilityReport,
-  QuickWinsReport
+  RankingVolatilityMetrics,
+  QuickWinsReport,
+  CustomReport,
+  CustomQueryPlan,
+  CustomReportMetrics,
+  CustomReportRow,
+  SheetsRefreshQuery
 } from '@/types/aiReports';
-import { GSCDataPoint } from './gscService';
+import { GSCBreakdownComparison, GSCDataPoint, GSCPeriodMetrics, GSCWeeklyTrendPoint } from './gscService';
 
 // Report templates configuration
 export const REPORT_TEMPLATES: Record<ReportType, ReportTemplate> = {
@@ -32,6 +42,20 @@ export const REPORT_TEMPLATES: Record<ReportType, ReportTemplate> = {
     hasAEO: false,
     minDataPoints: 10
   },
+  top_losers: {
+    type: 'top_losers',
+    title: 'Top Losers Report',
+    description: 'Find the pages losing the most clicks and what is driving the decline',
+    icon: 'TrendingDown',
+    features: [
+      'Biggest click losses',
+      'Query, device and country attribution',
+      'Ranking, demand or CTR loss diagnosis',
+      'AI recovery recommendations'
+    ],
+    hasAEO: false,
+    minDataPoints: 10
+  },
   underperforming_pages: {
     type: 'underperforming_pages',
     title: 'Underperforming Pages',
@@ -101,21 +125,101 @@ export const REPORT_TEMPLATES: Record<ReportType, ReportTemplate> = {
     ],
     hasAEO: false,
     minDataPoints: 10
+  },
+  custom: {
+    type: 'custom',
+    title: 'Custom Analysis',
+    description: 'Ask a question in plain English and get a report built from a matching Search Console query',
+    icon: 'Sparkles',
+    features: [
+      'AI-planned GSC queries',
+      'Filters, dimensions and date comparisons',
+      'Trend chart and data table',
+      'Narrative answer with next steps'
+    ],
+    hasAEO: false,
+    minDataPoints: 1
   }
 };
 
+// A page × query series needs this many days with impressions before its spread means anything
+const MIN_VOLATILITY_DAYS = 5;
+const MIN_VOLATILITY_IMPRESSIONS = 100;
+const VOLATILITY_MOVE_THRESHOLD = 0.5;
+
+// Emerging keywords: barely visible in the previous period, with real impressions now
+const NEGLIGIBLE_PRIOR_IMPRESSIONS = 10;
+const MIN_EMERGING_IMPRESSIONS = 20;
+
+// Top losers: a page that slipped this many positions is treated as a ranking loss
+const RANKING_LOSS_POSITIONS = 1;
+const TOP_LOSERS_LIMIT = 15;
+const LOSS_CONTRIBUTORS_PER_DIMENSION = 5;
+
+// Rows sent to the model when it writes the narrative for a custom report
+const CUSTOM_REPORT_PROMPT_ROWS = 100;
+
+// Model calls one report may make on its usage key: per-page analyses plus a possibly chunked summary
+const REPORT_AI_CALL_BUDGET = 30;
+const CUSTOM_REPORT_AI_CALL_BUDGET = 10;
+
+// Why a page lost clicks between two periods
+export const getLossCause = (current: GSCPeriodMetrics, previous: GSCPeriodMetrics): TrafficLossCause => {
+  // Gone from the results entirely, or slipped far enough that rankings explain the loss
+  if (current.impressions === 0 || current.position - previous.position >= RANKING_LOSS_POSITIONS) {
+    return 'ranking_loss';
+  }
+
+  // Otherwise split the change into clicks lost to fewer impressions at the old CTR
+  // and clicks lost to a lower CTR on the impressions that remain
+  const demandEffect = (current.impressions - previous.impressions) * previous.ctr;
+  const ctrEffect = current.impressions * (current.ctr - previous.ctr);
+  return demandEffect <= ctrEffect ? 'demand_drop' : 'ctr_loss';
+};
+
+// Impression-weighted spread, direction flips and range of one page × query position series
+export const getVolatilityMetrics = (days: GSCDataPoint[]): RankingVolatilityMetrics => {
+  const impressions = days.reduce((sum, day) => sum + day.impressions, 0);
+  const mean = days.reduce((sum, day) => sum + day.position * day.impressions, 0) / impressions;
+  const variance = days.reduce((sum, day) => sum + day.impressions * (day.position - mean) ** 2, 0) / impressions;
+
+  let directionChanges = 0;
+  let lastDirection = 0;
+  for (let i = 1; i < days.length; i++) {
+    const delta = days[i].position - days[i - 1].position;
+    // Sub-position wobble is averaging noise, not a real move
+    if (Math.abs(delta) < VOLATILITY_MOVE_THRESHOLD) continue;
+    const direction = Math.sign(delta);
+    if (lastDirection !== 0 && direction !== lastDirection) directionChanges++;
+    lastDirection = direction;
+  }
+
+  const positions = days.map(day => day.position);
+  const stdDev = Math.sqrt(variance);
+  return {
+    volatilityScore: stdDev * (1 + directionChanges / Math.max(1, days.length - 1)),
+    stdDev,
+    directionChanges,
+    maxSwing: Math.max(...positions) - Math.min(...positions),
+    positionChange: positions[positions.length - 1] - positions[0],
+    daysTracked: days.length
+  };
+};
+
 export class ReportService {
   private userId: string;
   private planType: string;
+  private aiService: OpenAIService;
   private lastRequestTime: number = 0;
   private readonly MIN_REQUEST_INTERVAL = 1000; // 1 second minimum between requests
 
-  constructor(userId: string, planType: string) {
+  constructor(userId: string, planType: string, aiService: OpenAIService = openAIService) {
     if (!userId || userId.trim() === '') {
       throw new Error('User ID is required for ReportService');
     }
     this.userId = userId;
     this.planType = planType;
+    this.aiService = aiService;
   }
 
   private async enforceRateLimit(): Promise<void> {
@@ -255,6 +359,9 @@ export class ReportService {
         throw new Error(ReportError.SUBSCRIPTION_LIMIT_REACHED);
       }
 
+      // Every AI call for this report shares one gateway-issued key, so the report is charged once
+      const usageKey = await this.aiService.reserveUsage(REPORT_AI_CALL_BUDGET);
+
       onProgress?.(10, 'Fetching GSC data...');
 
       // Fetch GSC data
@@ -267,24 +374,28 @@ export class ReportService {
       onProgress?.(60, 'Processing data...');
 
       // Process data based on report type
-      const processedData = await this.processReportData(reportType, gscData, dateRange);
+      const processedData = await this.processReportData(reportType, gscData, dateRange, gscProperty, usageKey);
 
       onProgress?.(80, 'Generating AI insights...');
 
+      // These reports are computed from large daily or multi-period pulls; summarise and keep the processed rows instead
+      const summarizesProcessedData = reportType === 'ranking_volatility' || reportType === 'emerging_keywords' || reportType === 'top_losers';
+      const summaryData = summarizesProcessedData ? processedData : gscData;
+
       // Generate AI summary
-      const aiSummary = await openAIService.generateReportSummary(reportType, gscData, dateRange);
+      const aiSummary = await this.aiService.generateReportSummary(reportType, summaryData, dateRange, usageKey);
 
       onProgress?.(90, 'Saving report...');
 
       // Create report record
-      const report = await this.createReportRecord(reportType, dateRange, gscData, aiSummary, processedData);
-
-      onProgress?.(95, 'Updating usage...');
-
-      // Update usage
-      await supabase.rpc('increment_report_usage', {
-        user_uuid: this.userId
-      });
+      const report = await this.createReportRecord(
+        reportType,
+        dateRange,
+        summarizesProcessedData ? [] : gscData,
+        aiSummary,
+        processedData,
+        gscProperty
+      );
 
       onProgress?.(100, 'Report generated successfully!');
 
@@ -295,6 +406,180 @@ export class ReportService {
     }
   }
 
+  async generateCustomReport(
+    question: string,
+    gscProperty: string,
+    onProgress?: (progress: number, message?: string) => void
+  ): Promise<CustomReport> {
+    try {
+      onProgress?.(0, 'Checking permissions...');
+
+      const canGenerate = await this.canGenerateReport();
+      if (!canGenerate) {
+        throw new Error(ReportError.SUBSCRIPTION_LIMIT_REACHED);
+      }
+
+      const usageKey = await this.aiService.reserveUsage(CUSTOM_REPORT_AI_CALL_BUDGET);
+
+      onProgress?.(10, 'Planning your query...');
+
+      const plan = await this.aiService.planCustomQuery(question, gscProperty, usageKey);
+
+      onProgress?.(25, 'Fetching GSC data...');
+
+      const dimensionFilterGroups = plan.filters.length > 0
+        ? [{ groupType: 'and', filters: plan.filters }]
+        : undefined;
+
+      const fetchRange = (range: { startDate: string; endDate: string }, dimensions: string[]) =>
+        gscService.fetchSearchAnalyticsData({
+          siteUrl: gscProperty,
+          startDate: range.startDate,
+          endDate: range.endDate,
+          dimensions,
+          dimensionFilterGroups,
+          rowLimit: 25000,
+          maxRows: 25000
+        });
+
+      const currentRows = await fetchRange(plan.dateRange, plan.dimensions);
+      const previousRows = plan.comparisonDateRange
+        ? await fetchRange(plan.comparisonDateRange, plan.dimensions)
+        : null;
+
+      if (currentRows.length === 0 && (!previousRows || previousRows.length === 0)) {
+        throw new Error(ReportError.INSUFFICIENT_DATA);
+      }
+
+      onProgress?.(50, 'Building trend chart...');
+
+      const currentTrend = await fetchRange(plan.dateRange, ['date']);
+      const previousTrend = plan.comparisonDateRange
+        ? await fetchRange(plan.comparisonDateRange, ['date'])
+        : null;
+
+      onProgress?.(60, 'Processing data...');
+
+      const allRows = this.mergeCustomRows(plan, currentRows, previousRows);
+      const rows = this.sortCustomRows(allRows, plan).slice(0, plan.rowLimit);
+
+      const sortedCurrentTrend = [...currentTrend].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+      const sortedPreviousTrend = previousTrend
+        ? [...previousTrend].sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+        : null;
+
+      const data: CustomReport['data'] = {
+        question,
+        plan,
+        rows,
+        totalRows: allRows.length,
+        isTruncated: Boolean(currentRows.isTruncated || previousRows?.isTruncated),
+        totals: {
+          ...this.sumCustomMetrics(currentTrend),
+          ...(previousTrend ? { previous: this.sumCustomMetrics(previousTrend) } : {})
+        },
+        chart: {
+          metric: plan.chartMetric,
+          // Periods are lined up day by day so the previous period overlays the current one
+          points: sortedCurrentTrend.map((point, index) => ({
+            label: point.date || '',
+            value: point[plan.chartMetric],
+            ...(sortedPreviousTrend?.[index] ? { previousValue: sortedPreviousTrend[index][plan.chartMetric] } : {})
+          }))
+        }
+      };
+
+      onProgress?.(80, 'Generating AI insights...');
+
+      const aiSummary = await this.aiService.answerCustomQuestion(
+        question,
+        plan,
+        rows.slice(0, CUSTOM_REPORT_PROMPT_ROWS),
+        usageKey
+      );
+
+      onProgress?.(90, 'Saving report...');
+
+      const report = await this.createReportRecord('custom', plan.dateRange, [], aiSummary, data, gscProperty);
+
+      onProgress?.(100, 'Report generated successfully!');
+
+      return report as CustomReport;
+    } catch (error) {
+      console.error('Error generating custom report:', error);
+      throw error;
+    }
+  }
+
+  // Rows only present in the comparison period are kept so "what dropped out" questions work
+  private mergeCustomRows(
+    plan: CustomQueryPlan,
+    currentRows: GSCDataPoint[],
+    previousRows: GSCDataPoint[] | null
+  ): CustomReportRow[] {
+    const keyOf = (row: GSCDataPoint) => plan.dimensions.map(dimension => row[dimension] ?? '').join('\u0000');
+    const keysOf = (row: GSCDataPoint): CustomReportRow['keys'] =>
+      Object.fromEntries(plan.dimensions.map(dimension => [dimension, row[dimension] ?? '']));
+    const emptyMetrics: CustomReportMetrics = { clicks: 0, impressions: 0, ctr: 0, position: 0 };
+
+    const rows = new Map<string, CustomReportRow>();
+    currentRows.forEach(row => {
+      rows.set(keyOf(row), {
+        keys: keysOf(row),
+        clicks: row.clicks,
+        impressions: row.impressions,
+        ctr: row.ctr,
+        position: row.position,
+        ...(previousRows ? { previous: emptyMetrics } : {})
+      });
+    });
+
+    previousRows?.forEach(row => {
+      const previous = { clicks: row.clicks, impressions: row.impressions, ctr: row.ctr, position: row.position };
+      const existing = rows.get(keyOf(row));
+      if (existing) {
+        existing.previous = previous;
+      } else {
+        rows.set(keyOf(row), { keys: keysOf(row), ...emptyMetrics, previous });
+      }
+    });
+
+    return Array.from(rows.values());
+  }
+
+  private sortCustomRows(rows: CustomReportRow[], plan: CustomQueryPlan): CustomReportRow[] {
+    const valueOf = (row: CustomReportRow): number => {
+      switch (plan.sortBy) {
+        case 'clicksChange':
+          return row.clicks - (row.previous?.clicks ?? 0);
+        case 'impressionsChange':
+          return row.impressions - (row.previous?.impressions ?? 0);
+        case 'ctrChange':
+          return row.ctr - (row.previous?.ctr ?? 0);
+        case 'positionChange':
+          return row.position - (row.previous?.position ?? 0);
+        default:
+          return row[plan.sortBy];
+      }
+    };
+
+    const direction = plan.sortOrder === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => (valueOf(a) - valueOf(b)) * direction);
+  }
+
+  private sumCustomMetrics(rows: GSCDataPoint[]): CustomReportMetrics {
+    const clicks = rows.reduce((sum, row) => sum + row.clicks, 0);
+    const impressions = rows.reduce((sum, row) => sum + row.impressions, 0);
+    const weightedPosition = rows.reduce((sum, row) => sum + row.position * row.impressions, 0);
+
+    return {
+      clicks,
+      impressions,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      position: impressions > 0 ? weightedPosition / impressions : 0
+    };
+  }
+
   private async fetchGSCDataForReport(
     reportType: ReportType,
     dateRange: { startDate: string; endDate: string },
@@ -315,13 +600,39 @@ export class ReportService {
     });
   }
 
+  /**
+   * The GSC query behind a report, for scheduled Google Sheets refreshes. The
+   * window keeps the report's length but rolls forward with each run.
+   */
+  getRefreshQuery(report: Report): SheetsRefreshQuery {
+    const getWindowDays = (range: { startDate: string; endDate: string }) =>
+      Math.max(1, Math.round((new Date(range.endDate).getTime() - new Date(range.startDate).getTime()) / 86400000) + 1);
+
+    if (report.reportType === 'custom') {
+      const { plan } = (report as CustomReport).data;
+      return {
+        dimensions: plan.dimensions,
+        dimensionFilterGroups: plan.filters.length > 0 ? [{ groupType: 'and', filters: plan.filters }] : undefined,
+        rowLimit: plan.rowLimit,
+        windowDays: getWindowDays(plan.dateRange)
+      };
+    }
+
+    return {
+      dimensions: this.getDimensionsForReportType(report.reportType),
+      rowLimit: this.getRowLimitForReportType(report.reportType),
+      windowDays: getWindowDays(report.dateRange)
+    };
+  }
+
   private getDimensionsForReportType(reportType: ReportType): string[] {
     switch (reportType) {
       case 'top_gainers':
       case 'underperforming_pages':
       case 'bofu_pages':
-      case 'ranking_volatility':
         return ['page'];
+      case 'ranking_volatility':
+        return ['date', 'page', 'query'];
       case 'emerging_keywords':
       case 'quick_wins':
         return ['query', 'page'];
@@ -337,7 +648,8 @@ export class ReportService {
       case 'quick_wins':
         return 500;
       case 'emerging_keywords':
-        return 1000;
+      case 'ranking_volatility':
+        return 25000;
       default:
         return 250;
     }
@@ -346,244 +658,81 @@ export class ReportService {
   private async processReportData(
     reportType: ReportType,
     gscData: GSCDataPoint[],
-    dateRange: { startDate: string; endDate: string }
+    dateRange: { startDate: string; endDate: string },
+    gscProperty: string,
+    usageKey: string
   ): Promise<any> {
     switch (reportType) {
       case 'top_gainers':
-        return this.processTopGainersData(gscData, dateRange);
+        return this.processTopGainersData(gscData, dateRange, gscProperty, usageKey);
+      case 'top_losers':
+        return this.processTopLosersData(dateRange, gscProperty, usageKey);
       case 'underperforming_pages':
-        return this.processUnderperformingPagesData(gscData);
+        return this.processUnderperformingPagesData(gscData, usageKey);
       case 'emerging_keywords':
-        return this.processEmergingKeywordsData(gscData);
+        return this.processEmergingKeywordsData(gscData, dateRange, gscProperty);
       case 'bofu_pages':
-        return this.processBofuPagesData(gscData, dateRange);
+        return this.processBofuPagesData(gscData, dateRange, gscProperty, usageKey);
       case 'ranking_volatility':
-        return this.processRankingVolatilityData(gscData, dateRange);
+        return this.processRankingVolatilityData(gscData, dateRange, usageKey);
       case 'quick_wins':
         return this.processQuickWinsData(gscData);
+      case 'custom':
+        throw new Error('Custom reports are generated with generateCustomReport');
       default:
         throw new Error(`Unsupported report type: ${reportType}`);
     }
   }
 
-  private async processTopGainersData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }) {
+  private async processTopGainersData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }, gscProperty: string, usageKey: string) {
     try {
-      console.log('Starting enhanced Top Gainers analysis...');
-      
-      // Step 1: Calculate dynamic date ranges (last 3 months vs previous 3 months)
-      const now = new Date();
-      const currentEnd = now;
-      const currentStart = new Date(now);
-      currentStart.setMonth(currentStart.getMonth() - 3);
-      
-      const previousEnd = new Date(currentStart);
-      previousEnd.setDate(previousEnd.getDate() - 1);
-      const previousStart = new Date(previousEnd);
-      previousStart.setMonth(previousStart.getMonth() - 3);
-      
-      const currentPeriod = {
-        startDate: currentStart.toISOString().split('T')[0],
-        endDate: currentEnd.toISOString().split('T')[0]
-      };
-      
-      const previousPeriod = {
-        startDate: previousStart.toISOString().split('T')[0],
-        endDate: previousEnd.toISOString().split('T')[0]
-      };
-
-      // Step 2: Fetch GSC data for both periods
-      const [currentData, previousData] = await Promise.all([
-        gscService.searchConsole({
-          startDate: currentPeriod.startDate,
-          endDate: currentPeriod.endDate,
-          dimensions: ['page'],
-          rowLimit: 25000
-        }),
-        gscService.searchConsole({
-          startDate: previousPeriod.startDate,
-          endDate: previousPeriod.endDate,
-          dimensions: ['page'],
-          rowLimit: 25000
-        })
+      const currentPeriod = { startDate: dateRange.startDate, endDate: dateRange.endDate };
+      const previousPeriod = this.getPreviousPeriod(dateRange);
+
+      // Page totals come from device rows, which aren't anonymised like query rows; the
+      // page × query comparison only picks each page's top query
+      const periods = { siteUrl: gscProperty, current: currentPeriod, previous: previousPeriod };
+      const [comparisons, byQuery] = await Promise.all([
+        gscService.fetchPeriodComparison({ ...periods, granularity: 'page_device' }),
+        gscService.fetchPeriodComparison({ ...periods, granularity: 'page_query' })
       ]);
-
-      // Step 3: Calculate deltas and identify top gainers
-      const pageMap = new Map();
-      
-      // Map current period data
-      currentData.forEach(item => {
-        pageMap.set(item.keys[0], {
-          current: {
-            clicks: item.clicks,
-            impressions: item.impressions,
-            ctr: item.ctr,
-            avgPosition: item.position
-          },
-          previous: {
-            clicks: 0,
-            impressions: 0,
-            ctr: 0,
-            avgPosition: 0
-          }
-        });
-      });
-
-      // Map previous period data
-      previousData.forEach(item => {
-        const pageUrl = item.keys[0];
-        const existing = pageMap.get(pageUrl);
-        if (existing) {
-          existing.previous = {
-            clicks: item.clicks,
-            impressions: item.impressions,
-            ctr: item.ctr,
-            avgPosition: item.position
-          };
-        }
-      });
-
-      // Calculate deltas and filter gainers
-      const topGainers = [];
-      pageMap.forEach((data, url) => {
-        const clicksGained = data.current.clicks - data.previous.clicks;
-        if (clicksGained > 0) { // Only positive gainers
-          const ctrImprovement = (data.current.ctr - data.previous.ctr) * 100; // Convert to percentage
-          const positionChange = data.previous.avgPosition - data.current.avgPosition;
-          
-          topGainers.push({
-            url,
-            pageType: this.categorizePageType(url),
-            currentMetrics: data.current,
-            previousMetrics: data.previous,
-            clicksGained,
-            ctrImprovement,
-            positionChange,
-            topQuery: 'Loading...', // Will be populated in step 4
-          });
-        }
-      });
-
-      // Sort by clicks gained (descending) and take top 15
-      topGainers.sort((a, b) => b.clicksGained - a.clicksGained);
+      const topQueryByPage = new Map(byQuery.map(page => [page.page, page.topQuery]));
+
+      // Only pages that gained clicks, biggest gains first
+      const topGainers = comparisons
+        .filter(page => page.current.clicks > page.previous.clicks)
+        .map(page => ({
+          url: page.page,
+          pageType: this.categorizePageType(page.page),
+          currentMetrics: { clicks: page.current.clicks, impressions: page.current.impressions, ctr: page.current.ctr, avgPosition: page.current.position },
+          previousMetrics: { clicks: page.previous.clicks, impressions: page.previous.impressions, ctr: page.previous.ctr, avgPosition: page.previous.position },
+          clicksGained: page.current.clicks - page.previous.clicks,
+          ctrImprovement: page.current.ctr - page.previous.ctr,
+          // A page with no impressions last period has no position to compare against
+          positionChange: page.previous.impressions > 0 ? page.previous.position - page.current.position : 0,
+          topQuery: topQueryByPage.get(page.page) || 'No specific query',
+          weeklyTrendData: [] as GSCWeeklyTrendPoint[]
+        }))
+        .sort((a, b) => b.clicksGained - a.clicksGained);
       const top15Gainers = topGainers.slice(0, 15);
 
-      // Step 4: Get top query for each gainer page (simplified for performance)
-      for (const page of top15Gainers.slice(0, 5)) { // Only top 5 for performance
-        try {
-          const pageQueryData = await gscService.searchConsole({
-            startDate: currentPeriod.startDate,
-            endDate: currentPeriod.endDate,
-            dimensions: ['query'],
-            dimensionFilterGroups: [{
-              filters: [{
-                dimension: 'page',
-                operator: 'equals',
-                expression: page.url
-              }]
-            }],
-            rowLimit: 10
-          });
-          
-          if (pageQueryData.length > 0) {
-            const topQuery = pageQueryData
-              .sort((a, b) => b.clicks - a.clicks)[0];
-            page.topQuery = topQuery.keys[0] || 'No specific query';
-          }
-        } catch (error) {
-          console.warn(`Failed to get top query for ${page.url}:`, error);
-          page.topQuery = 'Unable to fetch';
-        }
-      }
-
-      // Set remaining pages to have a default query
-      for (const page of top15Gainers.slice(5)) {
-        page.topQuery = 'Query data available in enhanced view';
-      }
-
-
-      // Step 4.5: Generate weekly performance trend data for top 5 pages
-      const trendStart = new Date(now);
-      trendStart.setMonth(trendStart.getMonth() - 6); // Last 6 months
-      
-      // Generate weekly trend data for top 5 pages
-      for (const page of top15Gainers.slice(0, 5)) {
-        try {
-          const weeklyData = await gscService.searchConsole({
-            startDate: trendStart.toISOString().split('T')[0],
-            endDate: now.toISOString().split('T')[0],
-            dimensions: ['date'],
-            dimensionFilterGroups: [{
-              filters: [{
-                dimension: 'page',
-                operator: 'equals',
-                expression: page.url
-              }]
-            }],
-            rowLimit: 180 // ~6 months of daily data
-          });
-          
-          // Group by week and calculate weekly metrics
-          const weeklyTrends = [];
-          const weekMap = new Map();
-          
-          weeklyData.forEach(item => {
-            const date = new Date(item.keys[0]);
-            const weekStart = new Date(date);
-            weekStart.setDate(date.getDate() - date.getDay()); // Start of week (Sunday)
-            const weekKey = weekStart.toISOString().split('T')[0];
-            
-            if (!weekMap.has(weekKey)) {
-              weekMap.set(weekKey, {
-                weekStart: weekStart,
-                clicks: 0,
-                impressions: 0,
-                ctr: 0,
-                avgPosition: 0,
-                days: 0
-              });
-            }
-            
-            const week = weekMap.get(weekKey);
-            week.clicks += item.clicks;
-            week.impressions += item.impressions;
-            week.days += 1;
-          });
-          
-          // Calculate averages and format for charts
-          weekMap.forEach((week, weekKey) => {
-            week.ctr = week.impressions > 0 ? (week.clicks / week.impressions) * 100 : 0;
-            week.avgPosition = week.days > 0 ? week.avgPosition / week.days : 0;
-            
-            weeklyTrends.push({
-              weekLabel: week.weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-              clicks: week.clicks,
-              ctr: parseFloat(week.ctr.toFixed(2)),
-              avgPosition: parseFloat(week.avgPosition.toFixed(1)),
-              date: week.weekStart.toISOString().split('T')[0]
-            });
-          });
-          
-          // Sort by date and limit to recent weeks
-          weeklyTrends.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-          page.weeklyTrendData = weeklyTrends.slice(-24); // Last 24 weeks (~6 months)
-          
-        } catch (error) {
-          console.warn(`Failed to get weekly trends for ${page.url}:`, error);
-          page.weeklyTrendData = [];
-        }
-      }
-
-      // Set empty trend data for remaining pages
-      for (const page of top15Gainers.slice(5)) {
-        page.weeklyTrendData = [];
-      }
+      // Weekly trend over both periods for the top five pages
+      const trendPages = top15Gainers.slice(0, 5);
+      const weeklyTrends = await gscService.getWeeklyPageTrends(
+        gscProperty,
+        { startDate: previousPeriod.startDate, endDate: currentPeriod.endDate },
+        trendPages.map(page => page.url)
+      );
+      trendPages.forEach(page => {
+        page.weeklyTrendData = weeklyTrends[page.url] || [];
+      });
 
-      // Step 5: Generate AI-powered success patterns
+      // Generate AI-powered success patterns
       const aiPatternsPrompt = `Based on the following SEO performance data for top gaining pages, infer possible reasons for why these pages gained traffic. Suggest patterns such as improved title alignment, stronger search intent match, added structured content, or increased topical authority.
 
 Top Gaining Pages:
 ${top15Gainers.slice(0, 8).map(page => 
-  `- ${page.url} (${page.pageType}): +${page.clicksGained} clicks, ${page.ctrImprovement > 0 ? '+' : ''}${page.ctrImprovement.toFixed(2)}% CTR, Position change: ${page.positionChange > 0 ? '+' : ''}${page.positionChange.toFixed(1)}, Top Query: "${page.topQuery}"`
+  `- ${page.url} (${page.pageType}): +${page.clicksGained} clicks, ${page.ctrImprovement > 0 ? '+' : ''}${(page.ctrImprovement * 100).toFixed(2)}% CTR, Position change: ${page.positionChange > 0 ? '+' : ''}${page.positionChange.toFixed(1)}, Top Query: "${page.topQuery}"`
 ).join('\n')}
 
 Provide 3-5 actionable insights in bullet points, followed by 3 next steps recommendations. Format: 
@@ -600,7 +749,7 @@ NEXT STEPS:
       let nextSteps = [];
       
       try {
-        const aiResponse = await openAIService.generateText(aiPatternsPrompt);
+        const aiResponse = await this.aiService.generateText(aiPatternsPrompt, undefined, true, usageKey);
         
         // Parse AI response into patterns and next steps
         const sections = aiResponse.split('NEXT STEPS:');
@@ -664,7 +813,7 @@ NEXT STEPS:
           } : null
         },
         // Compatible with existing dashboard display
-        summary_heading: `🚀 Enhanced Top Gainers Analysis: ${totalGainerPages} pages gained ${netClicksGained.toLocaleString()} total clicks with ${avgCtrImprovement.toFixed(1)}% average CTR improvement`,
+        summary_heading: `🚀 Enhanced Top Gainers Analysis: ${totalGainerPages} pages gained ${netClicksGained.toLocaleString()} total clicks with ${(avgCtrImprovement * 100).toFixed(1)}% average CTR improvement`,
         top_pages: top15Gainers.map(page => ({
           url: page.url,
           pageType: page.pageType,
@@ -677,6 +826,7 @@ NEXT STEPS:
           ctrImprovement: page.ctrImprovement,
           positionChange: page.positionChange,
           topQuery: page.topQuery,
+          weeklyTrendData: page.weeklyTrendData,
           // Required for existing dashboard
           seo_recommendation: `Focus on "${page.topQuery}" optimization to maintain +${page.clicksGained} click growth momentum.`,
           aeo_recommendation: `Add structured content around "${page.topQuery}" for better AI visibility and enhanced CTR.`
@@ -697,6 +847,100 @@ NEXT STEPS:
     }
   }
 
+  private async processTopLosersData(dateRange: { startDate: string; endDate: string }, gscProperty: string, usageKey: string) {
+    const periods = { siteUrl: gscProperty, current: dateRange, previous: this.getPreviousPeriod(dateRange) };
+
+    // Device rows aren't anonymised like query rows, so their page totals match the page-level numbers
+    const [byDevice, byQuery, byCountry] = await Promise.all([
+      gscService.fetchPeriodComparison({ ...periods, granularity: 'page_device' }),
+      gscService.fetchPeriodComparison({ ...periods, granularity: 'page_query' }),
+      gscService.fetchPeriodComparison({ ...periods, granularity: 'page_country' })
+    ]);
+    const queriesByPage = new Map(byQuery.map(page => [page.page, page.breakdown]));
+    const countriesByPage = new Map(byCountry.map(page => [page.page, page.breakdown]));
+
+    // Biggest click losses first
+    const losers: TopLosersReport['data'] = byDevice
+      .map(page => ({ page, clicksLost: page.previous.clicks - page.current.clicks }))
+      .filter(({ clicksLost }) => clicksLost > 0)
+      .sort((a, b) => b.clicksLost - a.clicksLost)
+      .slice(0, TOP_LOSERS_LIMIT)
+      .map(({ page, clicksLost }) => ({
+        url: page.page,
+        pageType: this.categorizePageType(page.page),
+        clicks: page.current.clicks,
+        previousClicks: page.previous.clicks,
+        clicksLost,
+        impressions: page.current.impressions,
+        previousImpressions: page.previous.impressions,
+        ctr: page.current.ctr,
+        previousCtr: page.previous.ctr,
+        position: this.round(page.current.position),
+        previousPosition: this.round(page.previous.position),
+        lossCause: getLossCause(page.current, page.previous),
+        topQueries: this.getLossContributors(queriesByPage.get(page.page), clicksLost),
+        devices: this.getLossContributors(page.breakdown, clicksLost),
+        countries: this.getLossContributors(countriesByPage.get(page.page), clicksLost),
+        recoveryActions: []
+      }));
+
+    let actions: Record<string, string[]> = {};
+    try {
+      actions = await this.aiService.recommendRecoveryActions(losers, dateRange, usageKey);
+    } catch (error) {
+      if (error instanceof Error && error.message === ReportError.SUBSCRIPTION_LIMIT_REACHED) {
+        throw error;
+      }
+      console.error('Error generating recovery recommendations:', error);
+    }
+
+    return losers.map(page => ({
+      ...page,
+      recoveryActions: actions[page.url]?.length ? actions[page.url] : this.getRecoveryActions(page)
+    }));
+  }
+
+  private getLossContributors(breakdown: GSCBreakdownComparison[] | undefined, clicksLost: number): TrafficLossContributor[] {
+    return (breakdown || [])
+      .map(item => ({
+        key: item.key,
+        clicks: item.current.clicks,
+        previousClicks: item.previous.clicks,
+        clicksLost: item.previous.clicks - item.current.clicks
+      }))
+      .filter(item => item.clicksLost > 0)
+      .sort((a, b) => b.clicksLost - a.clicksLost)
+      .slice(0, LOSS_CONTRIBUTORS_PER_DIMENSION)
+      .map(item => ({ ...item, share: this.round(item.clicksLost / clicksLost) }));
+  }
+
+  // Used when the AI recommendations aren't available
+  private getRecoveryActions(page: TopLosersReport['data'][number]): string[] {
+    const topQuery = page.topQueries[0]?.key;
+    switch (page.lossCause) {
+      case 'ranking_loss':
+        return [
+          topQuery
+            ? `Compare the page with the results now outranking it for "${topQuery}" and close the content gaps`
+            : 'Check the page is still indexed and compare it with the results now outranking it',
+          'Review recent content, internal link and technical changes to the page',
+          'Check for lost backlinks or a competing page on your own site'
+        ];
+      case 'demand_drop':
+        return [
+          'Confirm the drop is seasonal or market-wide before changing the page',
+          'Target related queries that are still growing to offset the lower demand',
+          'Refresh the content so it is ready when demand returns'
+        ];
+      case 'ctr_loss':
+        return [
+          'Rewrite the title and meta description to stand out in the current results',
+          'Check for new SERP features or ads pushing the result down the page',
+          'Add structured data to earn rich results'
+        ];
+    }
+  }
+
   private categorizePageType(url: string): string {
     const urlLower = url.toLowerCase();
     
@@ -748,8 +992,8 @@ NEXT STEPS:
     };
   }
 
-  private async processUnderperformingPagesData(gscData: GSCDataPoint[]) {
-    const aiResponse = await openAIService.generateReportSummary('underperforming_pages', gscData, { startDate: '', endDate: '' });
+  private async processUnderperformingPagesData(gscData: GSCDataPoint[], usageKey: string) {
+    const aiResponse = await this.aiService.generateReportSummary('underperforming_pages', gscData, { startDate: '', endDate: '' }, usageKey);
     
     try {
       const parsedResponse = JSON.parse(aiResponse);
@@ -786,40 +1030,167 @@ NEXT STEPS:
     }
   }
 
-  private async processEmergingKeywordsData(gscData: GSCDataPoint[]) {
-    return gscData
-      .filter(item => item.position <= 50 && item.impressions > 10)
-      .sort((a, b) => a.position - b.position)
-      .slice(0, 20)
-      .map(item => ({
-        keyword: item.query,
-        mappedUrl: item.page || '',
-        ctr: item.ctr,
-        position: item.position,
-        suggestedAction: this.getSuggestedAction(item)
-      }));
+  private async processEmergingKeywordsData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }, gscProperty: string) {
+    const previousPeriod = this.getPreviousPeriod(dateRange);
+
+    const [previousRows, dailyRows] = await Promise.all([
+      gscService.fetchSearchAnalyticsData({
+        siteUrl: gscProperty,
+        startDate: previousPeriod.startDate,
+        endDate: previousPeriod.endDate,
+        dimensions: ['query'],
+        rowLimit: 25000
+      }),
+      gscService.fetchSearchAnalyticsData({
+        siteUrl: gscProperty,
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate,
+        dimensions: ['date', 'query'],
+        rowLimit: 25000
+      })
+    ]);
+
+    const previousImpressions = new Map(previousRows.map(row => [row.query, row.impressions]));
+
+    const dailyImpressions = new Map<string, Map<string, number>>();
+    dailyRows.forEach(row => {
+      if (!row.date || row.impressions <= 0) return;
+      const days = dailyImpressions.get(row.query) ?? new Map<string, number>();
+      days.set(row.date, (days.get(row.date) ?? 0) + row.impressions);
+      dailyImpressions.set(row.query, days);
+    });
+
+    // Roll the query × page rows up to one row per query, mapped to its strongest page
+    const queries = new Map<string, { clicks: number; impressions: number; weightedPosition: number; page: string; pageImpressions: number }>();
+    gscData.forEach(row => {
+      const query = queries.get(row.query) ?? { clicks: 0, impressions: 0, weightedPosition: 0, page: '', pageImpressions: 0 };
+      query.clicks += row.clicks;
+      query.impressions += row.impressions;
+      query.weightedPosition += row.position * row.impressions;
+      if (row.impressions > query.pageImpressions) {
+        query.page = row.page || '';
+        query.pageImpressions = row.impressions;
+      }
+      queries.set(row.query, query);
+    });
+
+    const emerging: EmergingKeywordsReport['data'] = [];
+    queries.forEach((query, keyword) => {
+      const prior = previousImpressions.get(keyword) ?? 0;
+      const days = dailyImpressions.get(keyword);
+      if (!days || query.impressions < MIN_EMERGING_IMPRESSIONS || prior > NEGLIGIBLE_PRIOR_IMPRESSIONS) return;
+
+      const firstSeen = Array.from(days.keys()).sort()[0];
+      const growthRate = this.getEmergingGrowthRate(days, firstSeen, dateRange.endDate);
+      if (growthRate <= 0) return;
+
+      const position = query.impressions > 0 ? query.weightedPosition / query.impressions : 0;
+      const ctr = query.impressions > 0 ? query.clicks / query.impressions : 0;
+
+      emerging.push({
+        keyword,
+        mappedUrl: query.page,
+        clicks: query.clicks,
+        impressions: query.impressions,
+        previousImpressions: prior,
+        ctr,
+        position: this.round(position),
+        firstSeen,
+        growthRate: this.round(growthRate),
+        suggestedAction: this.getSuggestedAction({ query: keyword, clicks: query.clicks, impressions: query.impressions, ctr, position })
+      });
+    });
+
+    return emerging
+      .sort((a, b) => b.impressions - a.impressions)
+      .slice(0, 20);
   }
 
-  private async processBofuPagesData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }) {
+  // Compares average daily impressions in the first and second half of the days since the query appeared
+  private getEmergingGrowthRate(days: Map<string, number>, firstSeen: string, endDate: string): number {
+    const start = new Date(`${firstSeen}T00:00:00Z`).getTime();
+    const totalDays = Math.round((new Date(`${endDate}T00:00:00Z`).getTime() - start) / 86400000) + 1;
+    if (totalDays < 2) return 0;
+
+    const midpoint = Math.floor(totalDays / 2);
+    let firstHalf = 0;
+    let secondHalf = 0;
+    days.forEach((impressions, date) => {
+      const dayIndex = Math.round((new Date(`${date}T00:00:00Z`).getTime() - start) / 86400000);
+      if (dayIndex < midpoint) {
+        firstHalf += impressions;
+      } else {
+        secondHalf += impressions;
+      }
+    });
+
+    const firstRate = firstHalf / midpoint;
+    const secondRate = secondHalf / (totalDays - midpoint);
+    return firstRate > 0 ? (secondRate - firstRate) / firstRate : secondRate > 0 ? 1 : 0;
+  }
+
+  // The same number of days immediately before the range
+  private getPreviousPeriod(dateRange: { startDate: string; endDate: string }): { startDate: string; endDate: string } {
+    const start = new Date(`${dateRange.startDate}T00:00:00Z`);
+    const end = new Date(`${dateRange.endDate}T00:00:00Z`);
+    const previousEnd = new Date(start.getTime() - 86400000);
+    const previousStart = new Date(previousEnd.getTime() - (end.getTime() - start.getTime()));
+
+    return {
+      startDate: previousStart.toISOString().split('T')[0],
+      endDate: previousEnd.toISOString().split('T')[0]
+    };
+  }
+
+  private async processBofuPagesData(
+    gscData: GSCDataPoint[],
+    dateRange: { startDate: string; endDate: string },
+    gscProperty: string,
+    usageKey: string
+  ) {
+    const previousPeriod = this.getPreviousPeriod(dateRange);
+    const previousRows = await gscService.fetchSearchAnalyticsData({
+      siteUrl: gscProperty,
+      startDate: previousPeriod.startDate,
+      endDate: previousPeriod.endDate,
+      dimensions: ['page'],
+      rowLimit: 25000
+    });
+    const previousByPage = new Map(previousRows.map(row => [row.page, row]));
+
+    // Biggest click losses first, since those are the pages costing conversions
     const bofuPages = gscData
       .filter(item => this.isBofuPage(item))
+      .map(item => ({ item, previous: previousByPage.get(item.page) }))
+      .sort((a, b) => (a.item.clicks - (a.previous?.clicks ?? 0)) - (b.item.clicks - (b.previous?.clicks ?? 0)))
       .slice(0, 10);
 
     const processedData = [];
-    for (const item of bofuPages) {
+    for (const { item, previous } of bofuPages) {
       let llmAnalysis;
       try {
-        llmAnalysis = await openAIService.analyzeBofuPage(item.page || item.query, [item]);
+        llmAnalysis = await this.aiService.analyzeBofuPage(item.page || item.query, previous ? [item, previous] : [item], undefined, usageKey);
       } catch (error) {
         console.error('Error analyzing BoFu page:', error);
         llmAnalysis = this.getDefaultLLMAnalysis();
       }
 
+      const previousClicks = previous?.clicks ?? 0;
+      const previousCtr = previous?.ctr ?? 0;
+      // A page with no impressions last period has no position to compare against
+      const previousPosition = previous?.position ?? item.position;
+
       processedData.push({
         url: item.page || item.query,
-        clicksChange: item.clicks, // Would need historical comparison
-        ctrChange: item.ctr, // Would need historical comparison
-        rankChange: item.position, // Would need historical comparison
+        clicks: item.clicks,
+        previousClicks,
+        ctr: item.ctr,
+        previousCtr,
+        position: item.position,
+        previousPosition,
+        clicksChange: item.clicks - previousClicks,
+        ctrChange: this.round(item.ctr - previousCtr, 4),
+        rankChange: this.round(item.position - previousPosition),
         suggestedFixes: this.getSuggestedFixes(item),
         llmAnalysis
       });
@@ -828,19 +1199,101 @@ NEXT STEPS:
     return processedData;
   }
 
-  private async processRankingVolatilityData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }) {
-    // This would need historical position data to calculate volatility
-    // For now, return pages with positions that might be volatile
-    return gscData
-      .filter(item => item.position > 5 && item.position < 30)
-      .slice(0, 15)
-      .map(item => ({
-        url: item.page || item.query,
-        positionChange: 0, // Would calculate from historical data
-        ctr: item.ctr,
-        volatilityType: this.getVolatilityType(item),
-        suggestedAction: this.getVolatilityAction(item)
-      }));
+  private async processRankingVolatilityData(gscData: GSCDataPoint[], dateRange: { startDate: string; endDate: string }, usageKey: string) {
+    // Group the daily rows into one position series per page × query
+    const series = new Map<string, Map<string, GSCDataPoint[]>>();
+    gscData.forEach(row => {
+      if (!row.page || !row.date || row.impressions <= 0) return;
+      const queries = series.get(row.page) ?? new Map<string, GSCDataPoint[]>();
+      queries.set(row.query, [...(queries.get(row.query) ?? []), row]);
+      series.set(row.page, queries);
+    });
+
+    const pages: RankingVolatilityReport['data'] = [];
+    series.forEach((queries, url) => {
+      const queryMetrics = Array.from(queries.entries())
+        .map(([query, rows]) => {
+          const days = [...rows].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+          const impressions = days.reduce((sum, day) => sum + day.impressions, 0);
+          return {
+            query,
+            impressions,
+            position: days.reduce((sum, day) => sum + day.position * day.impressions, 0) / impressions,
+            ...getVolatilityMetrics(days)
+          };
+        })
+        .filter(query => query.daysTracked >= MIN_VOLATILITY_DAYS);
+
+      const impressions = queryMetrics.reduce((sum, query) => sum + query.impressions, 0);
+      if (impressions < MIN_VOLATILITY_IMPRESSIONS) return;
+
+      // Page-level numbers are impression-weighted, so a jumpy long-tail query can't dominate
+      const weighted = (value: (query: typeof queryMetrics[number]) => number) =>
+        queryMetrics.reduce((sum, query) => sum + value(query) * query.impressions, 0) / impressions;
+
+      const allRows = Array.from(queries.values()).flat();
+      const clicks = allRows.reduce((sum, row) => sum + row.clicks, 0);
+      const totalImpressions = allRows.reduce((sum, row) => sum + row.impressions, 0);
+      const stdDev = weighted(query => query.stdDev);
+      const directionChanges = weighted(query => query.directionChanges);
+
+      const metrics = {
+        // Spread, scaled up for pages that keep changing direction rather than moving once
+        volatilityScore: this.round(stdDev * (1 + directionChanges / Math.max(1, weighted(query => query.daysTracked) - 1))),
+        stdDev: this.round(stdDev),
+        directionChanges: this.round(directionChanges),
+        maxSwing: this.round(Math.max(...queryMetrics.map(query => query.maxSwing))),
+        positionChange: this.round(weighted(query => query.positionChange)),
+        daysTracked: Math.max(...queryMetrics.map(query => query.daysTracked))
+      };
+
+      pages.push({
+        url,
+        clicks,
+        impressions: totalImpressions,
+        ctr: totalImpressions > 0 ? clicks / totalImpressions : 0,
+        position: this.round(weighted(query => query.position)),
+        ...metrics,
+        topQueries: [...queryMetrics]
+          .sort((a, b) => b.stdDev * b.impressions - a.stdDev * a.impressions)
+          .slice(0, 3)
+          .map(query => ({
+            ...query,
+            position: this.round(query.position),
+            stdDev: this.round(query.stdDev),
+            maxSwing: this.round(query.maxSwing),
+            positionChange: this.round(query.positionChange),
+            volatilityScore: this.round(query.volatilityScore)
+          })),
+        volatilityType: this.getVolatilityType(metrics, weighted(query => query.position)),
+        suggestedAction: ''
+      });
+    });
+
+    // Most unstable first; log-scaled impressions keep low-traffic pages from topping the list on noise alone
+    const rankedPages = pages
+      .sort((a, b) => b.volatilityScore * Math.log10(b.impressions + 10) - a.volatilityScore * Math.log10(a.impressions + 10))
+      .slice(0, 15);
+
+    let actions: Record<string, string> = {};
+    try {
+      actions = await this.aiService.recommendVolatilityActions(rankedPages, dateRange, usageKey);
+    } catch (error) {
+      if (error instanceof Error && error.message === ReportError.SUBSCRIPTION_LIMIT_REACHED) {
+        throw error;
+      }
+      console.error('Error generating volatility recommendations:', error);
+    }
+
+    return rankedPages.map(page => ({
+      ...page,
+      suggestedAction: actions[page.url] || this.getVolatilityAction(page)
+    }));
+  }
+
+  private round(value: number, digits: number = 2): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
   }
 
   private async processQuickWinsData(gscData: GSCDataPoint[]) {
@@ -909,13 +1362,23 @@ NEXT STEPS:
     };
   }
 
-  private getVolatilityType(item: GSCDataPoint): string {
-    if (item.position <= 10) return 'Top 10 fluctuation';
-    if (item.position <= 20) return 'Page 2 volatility';
+  private getVolatilityType(metrics: RankingVolatilityMetrics, position: number): string {
+    if (metrics.directionChanges >= 3) return 'Oscillating rankings';
+    if (metrics.positionChange >= metrics.maxSwing * 0.6 && metrics.positionChange > 0) return 'Sustained decline';
+    if (-metrics.positionChange >= metrics.maxSwing * 0.6 && metrics.positionChange < 0) return 'Sustained climb';
+    if (position <= 10) return 'Top 10 fluctuation';
+    if (position <= 20) return 'Page 2 volatility';
     return 'General ranking instability';
   }
 
-  private getVolatilityAction(item: GSCDataPoint): string {
+  // Used when the AI recommendations aren't available
+  private getVolatilityAction(page: RankingVolatilityMetrics & { position: number }): string {
+    if (page.directionChanges >= 3) {
+      return 'Rankings keep flipping between URLs or SERP features; check for keyword cannibalisation and consolidate competing pages';
+    }
+    if (page.positionChange > 0) {
+      return `Lost ${page.positionChange.toFixed(1)} positions over the period; review recent content, internal link and technical changes`;
+    }
     return 'Monitor for technical issues and content freshness';
   }
 
@@ -938,13 +1401,15 @@ NEXT STEPS:
     dateRange: { startDate: string; endDate: string },
     gscData: GSCDataPoint[],
     aiSummary: string,
-    processedData: any
+    processedData: any,
+    siteUrl?: string
   ): Promise<Report> {
     const { data, error } = await supabase
       .from('reports')
       .insert({
         user_id: this.userId,
         report_type: reportType,
+        site_url: siteUrl || null,
         date_range: dateRange,
         gsc_data: gscData,
         ai_summary: aiSummary,
@@ -958,20 +1423,25 @@ NEXT STEPS:
       throw new Error(`Failed to create report: ${error.message}`);
     }
 
+    return this.mapReportRecord(data);
+  }
+
+  private mapReportRecord(item: Record<string, unknown>): Report {
     return {
-      id: data.id,
-      userId: data.user_id,
-      reportType: data.report_type,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-      dateRange: data.date_range,
-      gscData: data.gsc_data,
-      aiSummary: data.ai_summary,
-      exportCount: data.export_count,
-      lastRegeneratedAt: data.last_regenerated_at,
-      regenerationsLeft: data.regenerations_left,
-      status: data.status,
-      data: data.report_data
+      id: item.id,
+      userId: item.user_id,
+      reportType: item.report_type,
+      siteUrl: item.site_url || undefined,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+      dateRange: item.date_range,
+      gscData: item.gsc_data,
+      aiSummary: item.ai_summary,
+      exportCount: item.export_count,
+      lastRegeneratedAt: item.last_regenerated_at,
+      regenerationsLeft: item.regenerations_left,
+      status: item.status,
+      data: item.report_data
     } as Report;
   }
 
@@ -999,27 +1469,68 @@ NEXT STEPS:
         throw new Error(`Failed to fetch reports: ${error.message}`);
       }
 
-      return data.map(item => ({
-        id: item.id,
-        userId: item.user_id,
-        reportType: item.report_type,
-        createdAt: item.created_at,
-        updatedAt: item.updated_at,
-        dateRange: item.date_range,
-        gscData: item.gsc_data,
-        aiSummary: item.ai_summary,
-        exportCount: item.export_count,
-        lastRegeneratedAt: item.last_regenerated_at,
-        regenerationsLeft: item.regenerations_left,
-        status: item.status,
-        data: item.report_data
-      })) as Report[];
+      return data.map(item => this.mapReportRecord(item));
     } catch (error) {
       console.error('Error fetching reports:', error);
       return []; // Return empty array on error
     }
   }
 
+  // Filtered listing for the reports library; unlike getReports, errors are surfaced to the caller
+  async searchReports(filters: ReportFilters = {}): Promise<Report[]> {
+    let query = supabase
+      .from('reports')
+      .select('*')
+      .eq('user_id', this.userId);
+
+    if (filters.reportType) {
+      query = query.eq('report_type', filters.reportType);
+    }
+    if (filters.siteUrl) {
+      query = query.eq('site_url', filters.siteUrl);
+    }
+    if (filters.createdAfter) {
+      query = query.gte('created_at', filters.createdAfter);
+    }
+    if (filters.createdBefore) {
+      query = query.lte('created_at', filters.createdBefore);
+    }
+    if (filters.search?.trim()) {
+      query = query.textSearch('ai_summary', filters.search.trim(), { type: 'websearch', config: 'english' });
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch reports: ${error.message}`);
+    }
+
+    return (data || []).map(item => this.mapReportRecord(item));
+  }
+
+  // Copy a saved report into a new row; duplicates don't count towards the monthly report quota
+  async duplicateReport(reportId: string): Promise<Report> {
+    const { data: original, error: fetchError } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('id', reportId)
+      .eq('user_id', this.userId)
+      .single();
+
+    if (fetchError || !original) {
+      throw new Error(`Failed to load report to duplicate: ${fetchError?.message || 'Report not found'}`);
+    }
+
+    return this.createReportRecord(
+      original.report_type,
+      original.date_range,
+      original.gsc_data || [],
+      original.ai_summary,
+      original.report_data,
+      original.site_url || undefined
+    );
+  }
+
   async saveTopGainersReport(
     reportData: {
       summary: any;
@@ -1027,7 +1538,8 @@ NEXT STEPS:
       dateRanges: any;
       aiPatterns?: any;
     },
-    aiSummary?: string
+    aiSummary?: string,
+    siteUrl?: string
   ): Promise<void> {
     try {
       // Create report record
@@ -1046,14 +1558,10 @@ NEXT STEPS:
           dateRanges: reportData.dateRanges,
           aiPatterns: reportData.aiPatterns, // Include AI patterns in saved data
           generatedAt: new Date().toISOString()
-        }
+        },
+        siteUrl
       );
 
-      // Update usage count
-      await supabase.rpc('increment_report_usage', {
-        user_uuid: this.userId
-      });
-      
       console.log('Top Gainers report saved to Supabase successfully');
     } catch (error) {
       console.error('Error saving Top Gainers report:', error);
@@ -1074,6 +1582,7 @@ NEXT STEPS:
   }
 }
 
-export const createReportService = (userId: string, planType: string) => {
-  return new ReportService(userId, planType);
+// Pass new OpenAIService(new StubLLMProvider()) to generate reports without network access
+export const createReportService = (userId: string, planType: string, aiService?: OpenAIService) => {
+  return new ReportService(userId, planType, aiService);
 }; 
\ No newline at end of file
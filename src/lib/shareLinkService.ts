@@ -0,0 +1,77 @@
+import { supabase } from './supabaseClient';
+
+export interface ShareLink {
+  id: number;
+  token: string;
+  gscProperty: string;
+  components: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  isPasswordProtected: boolean;
+  isLive: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const getShareLinkStatus = (link: ShareLink): ShareLinkStatus => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+export class ShareLinkService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for ShareLinkService');
+    }
+    this.userId = userId;
+  }
+
+  async getShareLinks(): Promise<ShareLink[]> {
+    // password_hash is not granted to clients; is_password_protected is derived from it
+    const { data, error } = await supabase
+      .from('shared_reports')
+      .select('id, token, gsc_property, components, created_at, expires_at, revoked_at, is_password_protected, is_live, view_count, last_viewed_at')
+      .eq('user_id', this.userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch share links: ${error.message}`);
+    }
+
+    return (data || []).map(item => ({
+      id: item.id,
+      token: item.token,
+      gscProperty: item.gsc_property,
+      components: item.components || [],
+      createdAt: item.created_at,
+      expiresAt: item.expires_at,
+      revokedAt: item.revoked_at,
+      isPasswordProtected: item.is_password_protected,
+      isLive: item.is_live,
+      viewCount: item.view_count || 0,
+      lastViewedAt: item.last_viewed_at
+    }));
+  }
+
+  async revokeShareLink(id: number): Promise<void> {
+    const { error } = await supabase
+      .from('shared_reports')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to revoke share link: ${error.message}`);
+    }
+  }
+}
+
+export const createShareLinkService = (userId: string) => {
+  return new ShareLinkService(userId);
+};
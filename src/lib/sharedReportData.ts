@@ -0,0 +1,120 @@
+import { format, subWeeks, subMonths, startOfWeek, endOfWeek, startOfMonth, endOfMonth, eachWeekOfInterval, eachMonthOfInterval } from 'date-fns';
+import { GSCDataPoint, GSCService } from './gscService';
+
+// Sections stored alongside metrics/performanceTrend in shared_reports.gsc_data.
+// get-shared-report-config rebuilds the same shapes for live links, so keep both in sync.
+
+export interface SharedTableRow {
+  key: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface SharedPositionGrid {
+  periods: string[];
+  // null where the keyword had no impressions in that period
+  keywords: Array<{ query: string; positions: Array<number | null> }>;
+}
+
+export interface SharedRankTracker {
+  weekly: SharedPositionGrid;
+  monthly: SharedPositionGrid;
+}
+
+export interface SharedRankingDistribution {
+  overall: Array<{ name: string; value: number }>;
+  breakdown: Array<{ month: string; top3: number; top4_10: number }>;
+}
+
+export interface SharedKeywordAnalysis {
+  topQueries: SharedTableRow[];
+  topPages: SharedTableRow[];
+  rankingDistribution: SharedRankingDistribution;
+}
+
+export const SHARED_GRID_KEYWORD_LIMIT = 50;
+export const SHARED_TABLE_ROW_LIMIT = 25;
+export const SHARED_GRID_WEEKS = 8;
+export const SHARED_GRID_MONTHS = 12;
+
+export const toSharedTableRows = (rows: GSCDataPoint[], dimension: 'query' | 'page', limit = SHARED_TABLE_ROW_LIMIT): SharedTableRow[] => {
+  return rows
+    .filter(row => row[dimension])
+    .sort((a, b) => (b.clicks || 0) - (a.clicks || 0))
+    .slice(0, limit)
+    .map(row => ({
+      key: row[dimension] as string,
+      clicks: row.clicks,
+      impressions: row.impressions,
+      ctr: row.ctr,
+      position: row.position
+    }));
+};
+
+// Keeps the keywords with the most clicks across all periods, in RankTracker's period order
+export const buildPositionGrid = (
+  periods: Array<{ label: string; rows: GSCDataPoint[] }>,
+  limit = SHARED_GRID_KEYWORD_LIMIT
+): SharedPositionGrid => {
+  const clicksByQuery = new Map<string, number>();
+  periods.forEach(({ rows }) => {
+    rows.forEach(row => {
+      if (!row.query) return;
+      clicksByQuery.set(row.query, (clicksByQuery.get(row.query) || 0) + (row.clicks || 0));
+    });
+  });
+
+  const queries = Array.from(clicksByQuery.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([query]) => query);
+
+  const positionsByPeriod = periods.map(({ rows }) => new Map(rows.map(row => [row.query, row.position])));
+
+  return {
+    periods: periods.map(period => period.label),
+    keywords: queries.map(query => ({
+      query,
+      positions: positionsByPeriod.map(positions => positions.get(query) ?? null)
+    }))
+  };
+};
+
+// Same weekly (Mon–Sun) and monthly buckets and labels as the Rank Tracker grid
+export const fetchSharedRankTracker = async (
+  service: GSCService,
+  siteUrl: string,
+  endDate: Date = new Date()
+): Promise<SharedRankTracker> => {
+  const fetchPeriod = (start: Date, end: Date) => service.fetchSearchAnalyticsData({
+    siteUrl,
+    startDate: format(start, 'yyyy-MM-dd'),
+    endDate: format(end > endDate ? endDate : end, 'yyyy-MM-dd'),
+    dimensions: ['query'],
+    rowLimit: 25000
+  });
+
+  const weeks = eachWeekOfInterval(
+    { start: startOfWeek(subWeeks(endDate, SHARED_GRID_WEEKS - 1), { weekStartsOn: 1 }), end: endDate },
+    { weekStartsOn: 1 }
+  );
+  const months = eachMonthOfInterval({ start: startOfMonth(subMonths(endDate, SHARED_GRID_MONTHS - 1)), end: endDate });
+
+  const [weeklyRows, monthlyRows] = await Promise.all([
+    Promise.all(weeks.map(weekStart => fetchPeriod(weekStart, endOfWeek(weekStart, { weekStartsOn: 1 })))),
+    Promise.all(months.map(monthStart => fetchPeriod(monthStart, endOfMonth(monthStart))))
+  ]);
+
+  return {
+    weekly: buildPositionGrid(weeks.map((weekStart, index) => ({
+      label: `${format(weekStart, 'MMM d')} - ${format(endOfWeek(weekStart, { weekStartsOn: 1 }), 'MMM d')}`,
+      rows: weeklyRows[index]
+    }))),
+    monthly: buildPositionGrid(months.map((monthStart, index) => ({
+      label: format(monthStart, 'MMM yyyy'),
+      rows: monthlyRows[index]
+    })))
+  };
+};
@@ -0,0 +1,200 @@
+import { supabase } from './supabaseClient';
+import { Report, SheetsRefreshQuery, SheetsRefreshSchedule, SheetsWriteMode } from '@/types/aiReports';
+
+export interface SheetsExportBinding {
+  id: string;
+  reportId: string | null;
+  reportType: string;
+  siteUrl: string;
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  tabTitle: string;
+  query: SheetsRefreshQuery;
+  schedule: SheetsRefreshSchedule;
+  writeMode: SheetsWriteMode;
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastStatus: 'success' | 'error' | null;
+  lastError: string | null;
+  lastRowCount: number | null;
+  createdAt: string;
+}
+
+export interface SheetsExportBindingInput {
+  report: Report;
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  tabTitle: string;
+  query: SheetsRefreshQuery;
+  schedule: SheetsRefreshSchedule;
+  writeMode: SheetsWriteMode;
+}
+
+export interface SheetsRefreshResult {
+  status: 'success' | 'error';
+  rowCount?: number;
+  error?: string;
+}
+
+interface SheetsExportBindingRow {
+  id: string;
+  report_id: string | null;
+  report_type: string;
+  site_url: string;
+  spreadsheet_id: string;
+  spreadsheet_url: string;
+  tab_title: string;
+  query: SheetsRefreshQuery;
+  schedule: SheetsRefreshSchedule;
+  write_mode: SheetsWriteMode;
+  is_active: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_status: 'success' | 'error' | null;
+  last_error: string | null;
+  last_row_count: number | null;
+  created_at: string;
+}
+
+const toBinding = (row: SheetsExportBindingRow): SheetsExportBinding => ({
+  id: row.id,
+  reportId: row.report_id,
+  reportType: row.report_type,
+  siteUrl: row.site_url,
+  spreadsheetId: row.spreadsheet_id,
+  spreadsheetUrl: row.spreadsheet_url,
+  tabTitle: row.tab_title,
+  query: row.query,
+  schedule: row.schedule,
+  writeMode: row.write_mode,
+  isActive: row.is_active,
+  nextRunAt: row.next_run_at,
+  lastRunAt: row.last_run_at,
+  lastStatus: row.last_status,
+  lastError: row.last_error,
+  lastRowCount: row.last_row_count,
+  createdAt: row.created_at
+});
+
+const getNextRunAt = (schedule: SheetsRefreshSchedule, from: Date): Date => {
+  const next = new Date(from);
+  if (schedule === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+  if (schedule === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+  if (schedule === 'monthly') next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+};
+
+/**
+ * Spreadsheets kept up to date by the refresh-sheets-exports function, which
+ * re-runs each binding's GSC query when it falls due.
+ */
+export class SheetsBindingService {
+  private userId: string;
+
+  constructor(userId: string) {
+    if (!userId || userId.trim() === '') {
+      throw new Error('User ID is required for SheetsBindingService');
+    }
+    this.userId = userId;
+  }
+
+  async getBindings(): Promise<SheetsExportBinding[]> {
+    const { data, error } = await supabase
+      .from('sheets_export_bindings')
+      .select('*')
+      .eq('user_id', this.userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch scheduled exports: ${error.message}`);
+    }
+
+    return ((data || []) as SheetsExportBindingRow[]).map(toBinding);
+  }
+
+  // The export itself just ran, so the first refresh is one schedule period away
+  async createBinding(input: SheetsExportBindingInput): Promise<SheetsExportBinding> {
+    const { data, error } = await supabase
+      .from('sheets_export_bindings')
+      .insert({
+        user_id: this.userId,
+        report_id: input.report.id || null,
+        report_type: input.report.reportType,
+        site_url: input.report.siteUrl,
+        spreadsheet_id: input.spreadsheetId,
+        spreadsheet_url: input.spreadsheetUrl,
+        tab_title: input.tabTitle,
+        query: input.query,
+        schedule: input.schedule,
+        write_mode: input.writeMode,
+        next_run_at: getNextRunAt(input.schedule, new Date()).toISOString()
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to schedule spreadsheet refresh: ${error.message}`);
+    }
+
+    return toBinding(data as SheetsExportBindingRow);
+  }
+
+  async updateBinding(
+    id: string,
+    updates: Partial<Pick<SheetsExportBinding, 'schedule' | 'writeMode' | 'isActive'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('sheets_export_bindings')
+      .update({
+        ...(updates.schedule ? { schedule: updates.schedule } : {}),
+        ...(updates.writeMode ? { write_mode: updates.writeMode } : {}),
+        ...(updates.isActive !== undefined ? { is_active: updates.isActive } : {})
+      })
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to update scheduled export: ${error.message}`);
+    }
+  }
+
+  async deleteBinding(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('sheets_export_bindings')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`Failed to delete scheduled export: ${error.message}`);
+    }
+  }
+
+  async runNow(id: string): Promise<SheetsRefreshResult> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to refresh a spreadsheet.');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/refresh-sheets-exports`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ bindingId: id })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Spreadsheet refresh failed: ${response.status}`);
+    }
+
+    return result as SheetsRefreshResult;
+  }
+}
+
+export const createSheetsBindingService = (userId: string) => {
+  return new SheetsBindingService(userId);
+};
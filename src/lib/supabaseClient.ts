@@ -179,7 +179,7 @@ supabase.auth.onAuthStateChange((event, session) => {
   if (event === 'SIGNED_OUT') {
     console.log('User signed out, clearing local storage');
     localStorage.removeItem('user');
-    localStorage.removeItem('gsc_token');
+    localStorage.removeItem('gsc_connected');
     localStorage.removeItem('gsc_property');
     sessionStorage.clear();
     
@@ -0,0 +1,28 @@
+// PostgREST returns at most this many rows per request, silently dropping the rest
+export const SUPABASE_PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+// Requests consecutive ranges until a short page comes back. The query must have a stable
+// order (e.g. end with the primary key) or rows can repeat or go missing between pages.
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+
+    const page = data || [];
+    rows.push(...page);
+    if (page.length < SUPABASE_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
@@ -20,8 +20,7 @@ const AddonRedirect = () => {
           throw new Error('Missing required authentication parameters');
         }
 
-        // Store GSC data
-        localStorage.setItem('gsc_token', accessToken);
+        // The access token itself is not kept; GSC calls use tokens minted by the token vault
         localStorage.setItem('gsc_property', property);
 
         // Update user data in auth context
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { DashboardLayout } from '@/components/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -22,7 +22,7 @@ import {
   Maximize2
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { gscService, GSCDataPoint } from '@/lib/gscService';
+import { gscService, GSCDataPoint, GSCPageComparison } from '@/lib/gscService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { useDataExports } from '@/hooks/useDataExports';
@@ -150,17 +150,19 @@ const copyToClipboard = async (text: string) => {
 };
 
 export default function ClickGapIntelligence() {
-  const { user, getGSCToken, getGSCProperty } = useAuth();
+  const { user, hasGSCConnection, getGSCProperty } = useAuth();
   const { subscriptionType, isSubscriptionActive } = useSubscription();
   const { toast } = useToast();
   const { trackExport } = useDataExports();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [isPropertySwitching, setIsPropertySwitching] = useState(false);
   const [pageAnalyses, setPageAnalyses] = useState<PageAnalysis[]>([]);
   const [filteredAnalyses, setFilteredAnalyses] = useState<PageAnalysis[]>([]);
   const [selectedPage, setSelectedPage] = useState<PageAnalysis | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  // Other views deep-link into a page via ?search=
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('search') || '');
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [diagnosisFilter, setDiagnosisFilter] = useState('all');
   const [actionFilter, setActionFilter] = useState('all');
@@ -671,9 +673,8 @@ export default function ClickGapIntelligence() {
   }, []); // Empty dependency array to prevent multiple subscriptions
 
   // Derived values from auth
-  const isConnected = !!getGSCToken();
+  const isConnected = hasGSCConnection();
   const gscProperty = getGSCProperty();
-  const token = getGSCToken();
 
   // Add property change listener
   useEffect(() => {
@@ -727,7 +728,7 @@ export default function ClickGapIntelligence() {
   // Fetch and analyze data
   useEffect(() => {
     const fetchData = async () => {
-      if (!gscProperty || !isConnected || !token) {
+      if (!gscProperty || !isConnected) {
         setLoading(false);
         setIsPropertySwitching(false);
         return;
@@ -746,21 +747,19 @@ export default function ClickGapIntelligence() {
         // Fetch 6 months of data for historical charts
         const historicalStart = subMonths(now, 6);
         
-        // Get page-level data for both periods using the correct GSC service method
-        const [currentData, previousData, historicalData] = await Promise.all([
-          gscService.fetchSearchAnalyticsData({
+        // Page-level comparison of both periods, plus daily history for the detail charts
+        const [comparisons, historicalData] = await Promise.all([
+          gscService.fetchPeriodComparison({
             siteUrl: gscProperty,
-            startDate: format(last3MonthsStart, 'yyyy-MM-dd'),
-            endDate: format(last3MonthsEnd, 'yyyy-MM-dd'),
-            dimensions: ['page'],
-            rowLimit: 25000
-          }),
-          gscService.fetchSearchAnalyticsData({
-            siteUrl: gscProperty,
-            startDate: format(previous3MonthsStart, 'yyyy-MM-dd'),
-            endDate: format(previous3MonthsEnd, 'yyyy-MM-dd'),
-            dimensions: ['page'],
-            rowLimit: 25000
+            current: {
+              startDate: format(last3MonthsStart, 'yyyy-MM-dd'),
+              endDate: format(last3MonthsEnd, 'yyyy-MM-dd')
+            },
+            previous: {
+              startDate: format(previous3MonthsStart, 'yyyy-MM-dd'),
+              endDate: format(previous3MonthsEnd, 'yyyy-MM-dd')
+            },
+            granularity: 'page'
           }),
           gscService.fetchSearchAnalyticsData({
             siteUrl: gscProperty,
@@ -772,7 +771,7 @@ export default function ClickGapIntelligence() {
         ]);
 
         // Process and analyze data
-        const analyses = processPageData(currentData, previousData, historicalData);
+        const analyses = processPageData(comparisons, historicalData);
         setPageAnalyses(analyses);
         setIsPropertySwitching(false);
         
@@ -790,27 +789,17 @@ export default function ClickGapIntelligence() {
     };
 
     fetchData();
-  }, [gscProperty, isConnected, token]);
+  }, [gscProperty, isConnected]);
 
   // Process page data and calculate gaps
   const processPageData = (
-    currentData: GSCDataPoint[], 
-    previousData: GSCDataPoint[], 
+    comparisons: GSCPageComparison[],
     historicalData: GSCDataPoint[]
   ): PageAnalysis[] => {
-    // Group data by page
-    const currentPages = groupByPage(currentData);
-    const previousPages = groupByPage(previousData);
     const historicalPages = groupByPageWithHistory(historicalData);
 
-    const analyses: PageAnalysis[] = [];
-
-    // Process each page that has data in either period
-    const allPages = new Set([...Object.keys(currentPages), ...Object.keys(previousPages)]);
-
-    for (const page of allPages) {
-      const current = currentPages[page] || { clicks: 0, impressions: 0, ctr: 0, position: 0 };
-      const previous = previousPages[page] || { clicks: 0, impressions: 0, ctr: 0, position: 0 };
+    // Every page that has data in either period
+    return comparisons.map(({ page, current, previous }) => {
       const historical = historicalPages[page] || [];
 
       // Calculate gaps
@@ -822,7 +811,7 @@ export default function ClickGapIntelligence() {
       // Get diagnosis
       const { diagnosis, icon, action } = getDiagnosis(clickGap, impressionGap, ctrGap, positionGap);
 
-      analyses.push({
+      return {
         url: page,
         category: detectCategory(page),
         clickGap,
@@ -835,40 +824,8 @@ export default function ClickGapIntelligence() {
         currentMetrics: current,
         previousMetrics: previous,
         historicalData: historical
-      });
-    }
-
-    return analyses;
-  };
-
-  // Group GSC data by page
-  const groupByPage = (data: GSCDataPoint[]) => {
-    const grouped: Record<string, { clicks: number; impressions: number; ctr: number; position: number; count: number }> = {};
-
-    data.forEach(item => {
-      if (!item.page) return;
-
-      if (!grouped[item.page]) {
-        grouped[item.page] = { clicks: 0, impressions: 0, ctr: 0, position: 0, count: 0 };
-      }
-
-      grouped[item.page].clicks += item.clicks || 0;
-      grouped[item.page].impressions += item.impressions || 0;
-      grouped[item.page].ctr += item.ctr || 0;
-      grouped[item.page].position += item.position || 0;
-      grouped[item.page].count += 1;
-    });
-
-    // Calculate averages
-    Object.keys(grouped).forEach(page => {
-      const data = grouped[page];
-      if (data.count > 0) {
-        data.ctr = data.ctr / data.count;
-        data.position = data.position / data.count;
-      }
+      };
     });
-
-    return grouped;
   };
 
   // Group GSC data by page with historical data
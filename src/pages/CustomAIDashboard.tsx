@@ -26,6 +26,8 @@ import {
   ArrowRight,
   Download,
   FileText,
+  FileSpreadsheet,
+  FileDown,
   RefreshCw,
   Clock,
   CheckCircle
@@ -34,6 +36,8 @@ import { cn } from '@/lib/utils';
 import { RenewalOverlay } from '@/components/RenewalOverlay';
 import { useAuth } from '@/contexts/AuthContext';
 import { TopGainersContent } from "@/components/dashboard/TopGainersContent";
+import { CustomReportView } from '@/components/CustomReportView';
+import { SheetsExportModal } from '@/components/SheetsExportModal';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { createReportService } from '@/lib/reportService';
 import { createExportService } from '@/lib/exportService';
@@ -41,7 +45,9 @@ import {
   Report, 
   ReportType, 
   ReportUsage,
-  LLMSimulation 
+  ReportError,
+  LLMSimulation,
+  ExportOptions
 } from '@/types/aiReports';
 import { toast } from 'sonner';
 
@@ -55,6 +61,14 @@ const REPORT_CONFIGS = [
     category: 'Performance',
     estimatedTime: '2-3 min'
   },
+  {
+    id: 'top_losers' as ReportType,
+    title: 'Top Losers Report',
+    description: 'Pages with the biggest click loss, the queries behind it and how to recover',
+    icon: <TrendingDown className="h-5 w-5 text-rose-400" />,
+    category: 'Performance',
+    estimatedTime: '3-4 min'
+  },
   {
     id: 'underperforming_pages' as ReportType,
     title: 'Underperforming Pages',
@@ -97,6 +111,22 @@ const REPORT_CONFIGS = [
   }
 ];
 
+// Reports generated from "Write Your Own Prompt"; not offered in the selector grid
+const CUSTOM_REPORT_CONFIG = {
+  id: 'custom' as ReportType,
+  title: 'Custom Analysis',
+  description: 'Answer to a free-form question about your GSC data',
+  icon: <Sparkles className="h-5 w-5 text-purple-400" />,
+  category: 'Custom',
+  estimatedTime: '1-2 min'
+};
+
+const getReportConfig = (reportType: ReportType) =>
+  reportType === 'custom' ? CUSTOM_REPORT_CONFIG : REPORT_CONFIGS.find(r => r.id === reportType);
+
+const getReportTitle = (report: Report) =>
+  report.reportType === 'custom' ? report.data.plan.title : getReportConfig(report.reportType)?.title;
+
 export default function CustomAIDashboard() {
   const { user, getGSCProperty } = useAuth();
   const { subscriptionType } = useSubscription();
@@ -113,6 +143,8 @@ export default function CustomAIDashboard() {
   const [isLoadingUsage, setIsLoadingUsage] = useState(true);
   const [hasLoadedInitialStats, setHasLoadedInitialStats] = useState(false);
   const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set());
+  const [isSheetsModalOpen, setIsSheetsModalOpen] = useState(false);
+  const [isExportingSheets, setIsExportingSheets] = useState(false);
   
   // Service instances - memoized to prevent recreation on every render
   const reportService = useMemo(() => {
@@ -323,34 +355,98 @@ export default function CustomAIDashboard() {
       return;
     }
 
-    // For now, treat custom prompts as quick-wins reports
-    // In the future, this could be expanded to handle custom analysis
-    await handleUseReport('quick_wins');
-  };
+    if (!user?.id || !reportService) {
+      toast.error('Please log in to generate reports');
+      return;
+    }
 
-  const handleExportReport = async (format: 'csv' | 'sheets') => {
-    if (!currentReport || !user?.id || !exportService) return;
+    const planLimits = getPlanLimits(subscriptionType || 'free');
+    if (usageStats && usageStats.reportsThisMonth >= planLimits.monthlyReports) {
+      toast.error(`Monthly limit of ${planLimits.monthlyReports} reports reached`);
+      return;
+    }
+
+    setShowEnhancedReport(null);
+    setIsGenerating(true);
+    setGenerationProgress(0);
+    setActiveTab('report');
 
     try {
-      if (format === 'csv') {
-        const csvContent = await exportService.exportToCSV(currentReport);
-        // Create download
-        const blob = new Blob([csvContent], { type: 'text/csv' });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${currentReport.reportType}_report.csv`;
-        a.click();
-        window.URL.revokeObjectURL(url);
-        toast.success('Report exported to CSV');
+      const report = await reportService.generateCustomReport(
+        promptInput.trim(),
+        gscProperty,
+        (progress) => setGenerationProgress(Math.round(progress))
+      );
+
+      setCurrentReport(report);
+      setSelectedReport(report);
+      setPromptInput('');
+
+      // Refresh usage stats and history
+      await loadUsageStats();
+      await loadReportHistory();
+
+      toast.success('Report generated successfully!');
+    } catch (error) {
+      console.error('Error generating custom report:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === ReportError.SUBSCRIPTION_LIMIT_REACHED) {
+        toast.error(`Monthly limit of ${planLimits.monthlyReports} reports reached`);
+      } else if (message === ReportError.INSUFFICIENT_DATA) {
+        toast.error('No Search Console data matched your question. Try a broader prompt or date range.');
       } else {
-        const sheetUrl = await exportService.exportToGoogleSheets(currentReport);
-        window.open(sheetUrl, '_blank');
-        toast.success('Report exported to Google Sheets');
+        toast.error('Failed to generate report. Please try again.');
       }
+      setActiveTab('selector');
+    } finally {
+      setIsGenerating(false);
+      setGenerationProgress(0);
+    }
+  };
+
+  const handleExportReport = async (format: 'csv' | 'xlsx' | 'pdf' | 'sheets') => {
+    if (!currentReport || !user?.id || !exportService) return;
+
+    if (format === 'sheets') {
+      setIsSheetsModalOpen(true);
+      return;
+    }
+
+    const formatLabel = format.toUpperCase();
+    try {
+      const blob = format === 'csv'
+        ? new Blob([await exportService.exportToCSV(currentReport)], { type: 'text/csv' })
+        : format === 'xlsx'
+          ? await exportService.exportToXLSX(currentReport)
+          : await exportService.exportToPDF(currentReport);
+      // Create download
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = exportService.generateFileName(currentReport, format);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      toast.success(`Report exported to ${formatLabel}`);
     } catch (error) {
       console.error('Export error:', error);
-      toast.error(`Failed to export to ${format.toUpperCase()}`);
+      toast.error(error instanceof Error ? error.message : `Failed to export to ${formatLabel}`);
+    }
+  };
+
+  const handleSheetsExport = async (spreadsheetId?: string, refresh?: ExportOptions['refresh']) => {
+    if (!currentReport || !exportService) return;
+
+    try {
+      setIsExportingSheets(true);
+      const sheetUrl = await exportService.exportToGoogleSheets(currentReport, { format: 'google_sheets', spreadsheetId, refresh });
+      window.open(sheetUrl, '_blank');
+      setIsSheetsModalOpen(false);
+      toast.success(refresh ? `Report exported to Google Sheets and scheduled to refresh ${refresh.schedule}` : 'Report exported to Google Sheets');
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export to Google Sheets');
+    } finally {
+      setIsExportingSheets(false);
     }
   };
 
@@ -391,6 +487,10 @@ export default function CustomAIDashboard() {
 
     // Helper to get summary based on report type
     const getReportSummary = () => {
+      // CustomReportView shows the answer next to the query it came from
+      if (currentReport.reportType === 'custom') {
+        return '';
+      }
       if (currentReport.reportType === 'top_gainers') {
         // Handle enhanced format with custom summary or fallback to AI summary
         if (currentReport.data.type === 'top_gainers_enhanced') {
@@ -478,8 +578,8 @@ export default function CustomAIDashboard() {
             ) : (
               <>
                 <h3 className="text-xl font-semibold text-white flex items-center gap-2">
-                  {REPORT_CONFIGS.find(r => r.id === currentReport.reportType)?.icon}
-                  {REPORT_CONFIGS.find(r => r.id === currentReport.reportType)?.title}
+                  {getReportConfig(currentReport.reportType)?.icon}
+                  {getReportTitle(currentReport)}
                 </h3>
                 <p className="text-gray-400 text-sm mt-1">
                   Generated on {new Date(currentReport.createdAt).toLocaleDateString()}
@@ -497,6 +597,24 @@ export default function CustomAIDashboard() {
               <Download className="h-4 w-4 mr-2" />
               Export CSV
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExportReport('xlsx')}
+              className="bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600"
+            >
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export Excel
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExportReport('pdf')}
+              className="bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              Export PDF
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -564,7 +682,9 @@ export default function CustomAIDashboard() {
         ) : null}
 
         {/* Report Data - Enhanced format for supported reports */}
-        {isEnhancedReport() ? (
+        {currentReport.reportType === 'custom' ? (
+          <CustomReportView report={currentReport} />
+        ) : isEnhancedReport() ? (
           <div className="space-y-6">
             {/* Metrics Table */}
             <Card className="bg-gray-700 border-gray-600">
@@ -913,7 +1033,7 @@ export default function CustomAIDashboard() {
                       {row.position?.toFixed(1) || '-'}
                     </TableCell>
                     <TableCell className="text-gray-300 max-w-xs truncate">
-                      {row.recommendation || row.suggestedFix || '-'}
+                      {row.recommendation || row.suggestedFix || row.suggestedAction || row.recoveryActions?.[0] || '-'}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -1172,10 +1292,10 @@ export default function CustomAIDashboard() {
                           className="flex items-center justify-between p-4 bg-gray-700 rounded-lg border border-gray-600 hover:border-gray-500 transition-colors"
                         >
                           <div className="flex items-center gap-3">
-                            {REPORT_CONFIGS.find(r => r.id === report.reportType)?.icon}
+                            {getReportConfig(report.reportType)?.icon}
                             <div>
                               <h4 className="font-medium text-white">
-                                {REPORT_CONFIGS.find(r => r.id === report.reportType)?.title}
+                                {getReportTitle(report)}
                               </h4>
                               <p className="text-sm text-gray-400">
                                 Generated on {new Date(report.createdAt).toLocaleDateString()}
@@ -1220,6 +1340,13 @@ export default function CustomAIDashboard() {
           </Tabs>
         </div>
       </RenewalOverlay>
+
+      <SheetsExportModal
+        isOpen={isSheetsModalOpen}
+        isExporting={isExportingSheets}
+        onClose={() => setIsSheetsModalOpen(false)}
+        onExport={handleSheetsExport}
+      />
     </DashboardLayout>
   );
 } 
\ No newline at end of file
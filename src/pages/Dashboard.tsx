@@ -48,12 +48,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "../components/ui/dropdown-menu";
 import { Badge } from '../components/ui/badge';
 import { GSCTester } from '../components/GSCTester';
-import { ShareReportModal } from '../components/ShareReportModal';
+import { ShareReportModal, ShareLinkOptions } from '../components/ShareReportModal';
 import { useToast } from '../hooks/use-toast';
 import { supabase } from '../lib/supabaseClient';
 import { GSCService } from '../lib/gscService';
+import { classifyKeywordIntent, classifyKeywordType } from '../lib/keywordClassification';
+import { fetchSharedRankTracker, toSharedTableRows } from '../lib/sharedReportData';
 import { PROPERTY_CHANGE_EVENT } from '../components/PropertySelector';
 import { RenewalOverlay } from '../components/RenewalOverlay';
+import { CacheStatus } from '../components/dashboard/CacheStatus';
 import { useTabVisibility } from '../hooks/useTabVisibility';
 
 const PERFORMANCE_TREND_GRANULARITY_OPTIONS = [
@@ -159,7 +162,7 @@ const processGSCDataForKeywordRanking = (data: GSCDataPoint[], timeView: '6m' |
   const filteredData = categoryFilter && categoryFilter !== 'all' 
     ? data.filter(item => {
         if (!item.query) return true; // Keep non-query data
-        const intent = classifyKeywordCategory(item.query);
+        const intent = classifyKeywordIntent(item.query);
         return intent === categoryFilter;
       })
     : data;
@@ -221,91 +224,6 @@ const processGSCDataForKeywordRanking = (data: GSCDataPoint[], timeView: '6m' |
   return { overall, breakdown };
 };
 
-// Get branded keyword rules from localStorage
-const getBrandedKeywordRules = () => {
-  const rules = localStorage.getItem('branded_keyword_rules');
-  if (rules) {
-    return JSON.parse(rules);
-  }
-  return [];
-};
-
-// Get keyword category regex patterns from localStorage
-const getKeywordCategoryPatterns = () => {
-  const patterns = localStorage.getItem('keyword_category_patterns');
-  if (patterns) {
-    return JSON.parse(patterns);
-  }
-  return {
-    tofu: [],
-    mofu: [],
-    bofu: []
-  };
-};
-
-// Classify keyword as branded/non-branded
-const classifyKeywordType = (keyword: string) => {
-  const rules = getBrandedKeywordRules();
-  const lowerKeyword = keyword.toLowerCase();
-
-  for (const rule of rules) {
-    const value = rule.value.toLowerCase();
-    switch (rule.type) {
-      case 'contains':
-        if (lowerKeyword.includes(value)) return 'branded';
-        break;
-      case 'starts_with':
-        if (lowerKeyword.startsWith(value)) return 'branded';
-        break;
-      case 'exact_match':
-        if (lowerKeyword === value) return 'branded';
-        break;
-      case 'ends_with':
-        if (lowerKeyword.endsWith(value)) return 'branded';
-        break;
-    }
-  }
-  return 'non-branded';
-};
-
-// Classify keyword category
-const classifyKeywordCategory = (keyword: string) => {
-  const patterns = getKeywordCategoryPatterns();
-  const lowerKeyword = keyword.toLowerCase();
-
-  // Check ToFu patterns first
-  for (const pattern of patterns.tofu) {
-    try {
-      const regex = new RegExp(pattern, 'i');
-      if (regex.test(keyword)) return 'tofu';
-    } catch (e) {
-      // Invalid regex, skip
-    }
-  }
-
-  // Check MoFu patterns
-  for (const pattern of patterns.mofu) {
-    try {
-      const regex = new RegExp(pattern, 'i');
-      if (regex.test(keyword)) return 'mofu';
-    } catch (e) {
-      // Invalid regex, skip
-    }
-  }
-
-  // Check BoFu patterns
-  for (const pattern of patterns.bofu) {
-    try {
-      const regex = new RegExp(pattern, 'i');
-      if (regex.test(keyword)) return 'bofu';
-    } catch (e) {
-      // Invalid regex, skip
-    }
-  }
-
-  return 'unknown';
-};
-
 // Add this helper function before the Dashboard component
 const formatDomainForTitle = (gscProperty: string): string => {
   if (!gscProperty) return '';
@@ -421,7 +339,7 @@ const processGSCDataForPerformanceTrends = (
   const filteredRawData = categoryFilter && categoryFilter !== 'all' 
     ? rawData.filter(item => {
         if (!item.query) return true; // Keep non-query data
-        const intent = classifyKeywordCategory(item.query);
+        const intent = classifyKeywordIntent(item.query);
         return intent === categoryFilter;
       })
     : rawData;
@@ -652,7 +570,7 @@ const getComparisonDateRange = (currentRange: { startDate: string; endDate: stri
 };
 
 export default function Dashboard() {
-  const { user, getGSCToken, getGSCProperty } = useAuth();
+  const { user, hasGSCConnection, getGSCProperty } = useAuth();
   const { isSubscriptionActive } = useSubscription();
   const { toast } = useToast();
   const { trackExport } = useDataExports();
@@ -667,9 +585,8 @@ export default function Dashboard() {
   ]);
 
   // Derived values from auth
-  const isConnected = !!getGSCToken();
+  const isConnected = hasGSCConnection();
   const gscProperty = getGSCProperty();
-  const token = getGSCToken();
 
   // Add new state for selected URL filter
   const [selectedUrlFilter, setSelectedUrlFilter] = useState<string | null>(null);
@@ -809,7 +726,7 @@ export default function Dashboard() {
 
   // Define fetchAllDashboardData function outside useEffect for reuse
   const fetchAllDashboardData = async () => {
-    if (!gscProperty || !isConnected || !token) {
+    if (!gscProperty || !isConnected) {
       setLoading(false);
       setIsPropertySwitching(false);
       return;
@@ -826,11 +743,11 @@ export default function Dashboard() {
     try {
       // Fetch available countries first
       console.log('[Dashboard] Attempting to fetch available countries.');
-      console.log('[Dashboard] GSC Property:', gscProperty, 'Token available:', !!token);
+      console.log('[Dashboard] GSC Property:', gscProperty, 'Connected:', isConnected);
       console.log('[Dashboard] Date range for country fetch:', dateRange.startDate, 'to', dateRange.endDate);
 
-      if (!gscProperty || !token || !dateRange.startDate || !dateRange.endDate) {
-        console.warn('[Dashboard] Missing gscProperty, token, or valid dateRange for fetching countries. Setting default countries.');
+      if (!gscProperty || !isConnected || !dateRange.startDate || !dateRange.endDate) {
+        console.warn('[Dashboard] Missing gscProperty, GSC connection, or valid dateRange for fetching countries. Setting default countries.');
         setAvailableCountries([{ label: 'All Countries', value: 'all' }]);
       } else {
         const countries = await gscService.getAvailableCountries(gscProperty, dateRange.startDate, dateRange.endDate);
@@ -963,13 +880,28 @@ export default function Dashboard() {
         })
       ]);
 
+      // Warn when a property is large enough that some rows were left out
+      const isAnyDataTruncated = [
+        queryDataForCurrentPeriod,
+        queryDataForComparisonPeriod,
+        rankingData,
+        pageDataForCurrentPeriod,
+        pageDataForComparisonPeriod
+      ].some(result => result.isTruncated);
+      if (isAnyDataTruncated) {
+        toast({
+          title: 'Partial data loaded',
+          description: 'This property has more rows than the maximum we load at once, so totals may exclude some long-tail queries and pages.',
+        });
+      }
+
       const processAndFilterQueries = (data: GSCDataPoint[]) => {
         return data
           .filter(item => item.query)
           .map(item => ({
             ...item,
             type: classifyKeywordType(item.query || ''),
-            intent: classifyKeywordCategory(item.query || '')
+            intent: classifyKeywordIntent(item.query || '')
           }))
           .filter(item => {
             // Only apply category filter since keyword type is now handled by GSC service
@@ -1028,7 +960,7 @@ export default function Dashboard() {
           const filteredData = keywordCategoryFilter === 'all' 
             ? data 
             : data.filter(item => {
-                const intent = classifyKeywordCategory(item.query || '');
+                const intent = classifyKeywordIntent(item.query || '');
                 return intent === keywordCategoryFilter;
               });
 
@@ -1106,7 +1038,6 @@ export default function Dashboard() {
   }, [
     gscProperty,
     isConnected,
-    token,
     dateRange.startDate,
     dateRange.endDate,
     comparisonRange.startDate,
@@ -1150,7 +1081,7 @@ export default function Dashboard() {
     document.body.removeChild(link);
   };
 
-  const handleGenerateShareLink = async (selectedComponents: string[]) => {
+  const handleGenerateShareLink = async (selectedComponents: string[], options: ShareLinkOptions = {}) => {
     if (!gscProperty) {
       toast({
         title: "Error: GSC Property Missing",
@@ -1233,7 +1164,17 @@ export default function Dashboard() {
           ctrChange: calculateChange(currentMetrics.ctr, comparisonMetrics.ctr),
           positionChange: calculateChange(comparisonMetrics.position, currentMetrics.position)
         },
-        performanceTrend: processedTrendData
+        performanceTrend: processedTrendData,
+        rankTracker: selectedComponents.includes('rankTracker')
+          ? await fetchSharedRankTracker(gscService, gscProperty)
+          : undefined,
+        keywordAnalysis: selectedComponents.includes('keywordAnalysis')
+          ? {
+              topQueries: toSharedTableRows(topQueries, 'query'),
+              topPages: toSharedTableRows(topPages, 'page'),
+              rankingDistribution: { overall: overallRankingData, breakdown: positionBreakdownData }
+            }
+          : undefined
       };
 
       const currentFilters = {
@@ -1265,7 +1206,12 @@ export default function Dashboard() {
           gscProperty,
           selectedComponents,
           filters: currentFilters,
-          gscData
+          gscData,
+          expiresAt: options.expiresInDays
+            ? addDays(new Date(), options.expiresInDays).toISOString()
+            : undefined,
+          password: options.password,
+          isLive: options.isLive
         }),
       });
 
@@ -1297,7 +1243,7 @@ export default function Dashboard() {
 
   // Update URL analysis handler
   const handleUrlAnalysis = async () => {
-    if (!gscProperty || !isConnected || !token || !urlAnalysisInput.trim()) return;
+    if (!gscProperty || !isConnected || !urlAnalysisInput.trim()) return;
     
     setIsUrlAnalysisLoading(true);
     setUrlAnalysisError(null);
@@ -1373,7 +1319,7 @@ export default function Dashboard() {
     );
   }
 
-  if (loading && !token) { // Initial load check or if token disappears
+  if (loading && !isConnected) { // Initial load check or if the connection disappears
     return (
       <DashboardLayout title="Search Performance Dashboard" fullScreen={true}>
         <div className="flex items-center justify-center h-screen">
@@ -1408,6 +1354,10 @@ export default function Dashboard() {
             </Card>
           )}
 
+          <div className="flex justify-end -mt-2 mb-2">
+            <CacheStatus />
+          </div>
+
           {/* Filters Row */}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 mb-6">
             <Select
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { GoogleAuthService } from '@/lib/googleAuthService';
 
 export const GSCCallback: React.FC = () => {
   const [status, setStatus] = useState<string>('Processing GSC authentication...');
@@ -42,103 +43,10 @@ export const GSCCallback: React.FC = () => {
 
         setStatus('Exchanging authorization code for access token...');
 
-        // Get Google OAuth credentials from environment
-        const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-        const clientSecret = import.meta.env.VITE_GOOGLE_CLIENT_SECRET;
-        const redirectUri = import.meta.env.VITE_GSC_REDIRECT_URI || (
-          import.meta.env.DEV 
-            ? `http://localhost:8081/auth/gsc/callback`
-            : 'https://app.datapulsify.com/auth/gsc/callback'
-        );
-
-        if (!clientId || !clientSecret) {
-          throw new Error('Google OAuth credentials not configured');
-        }
-
-        // Log full configuration for debugging
-        console.log('🔧 GSC OAuth Configuration:', {
-          clientId: clientId ? `${clientId.substring(0, 10)}...` : 'missing',
-          redirectUri,
-          scope,
-          isDev: import.meta.env.DEV,
-          currentUrl: window.location.href
-        });
-
-        // Exchange code for tokens
-        const tokenRequestBody = {
-          code,
-          client_id: clientId,
-          client_secret: clientSecret,
-          redirect_uri: redirectUri,
-          grant_type: 'authorization_code',
-        };
-
-        console.log('🔄 Token exchange request:', {
-          url: 'https://oauth2.googleapis.com/token',
-          method: 'POST',
-          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-          body: {
-            ...tokenRequestBody,
-            client_secret: '[REDACTED]',
-            code: code ? `${code.substring(0, 10)}...` : 'missing'
-          }
-        });
-
-        const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Accept': 'application/json'
-          },
-          body: new URLSearchParams(tokenRequestBody),
-        });
-
-        // Log response status and headers
-        console.log('🔄 Token exchange response:', {
-          status: tokenResponse.status,
-          statusText: tokenResponse.statusText,
-          headers: Object.fromEntries(tokenResponse.headers.entries())
-        });
-
-        if (!tokenResponse.ok) {
-          const errorData = await tokenResponse.json().catch(() => ({}));
-          console.error('❌ Token exchange failed:', {
-            status: tokenResponse.status,
-            statusText: tokenResponse.statusText,
-            errorData,
-            requestBody: {
-              ...tokenRequestBody,
-              client_secret: '[REDACTED]',
-              code: code ? `${code.substring(0, 10)}...` : 'missing'
-            }
-          });
-          
-          let errorMessage = 'Failed to exchange authorization code for access token';
-          if (errorData.error_description) {
-            errorMessage += `: ${errorData.error_description}`;
-          } else if (errorData.error) {
-            errorMessage += `: ${errorData.error}`;
-          }
-          
-          throw new Error(errorMessage);
-        }
-
-        const tokens = await tokenResponse.json();
-        console.log('✅ Token exchange successful:', {
-          hasAccessToken: !!tokens.access_token,
-          hasRefreshToken: !!tokens.refresh_token,
-          tokenLength: tokens.access_token?.length || 0,
-          expiresIn: tokens.expires_in
-        });
-
-        if (!tokens.access_token) {
-          throw new Error('No access token received from Google');
-        }
-
-        // Store tokens in localStorage
-        localStorage.setItem('gsc_token', tokens.access_token);
-        if (tokens.refresh_token) {
-          localStorage.setItem('gsc_refresh_token', tokens.refresh_token);
+        // The token vault exchanges the code server-side and keeps the refresh token
+        const result = await new GoogleAuthService().handleCallback(code, state || '');
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to exchange authorization code for access token');
         }
 
         // Clear any auth state
@@ -151,22 +59,6 @@ export const GSCCallback: React.FC = () => {
           sessionStorage.removeItem(key);
         });
 
-        // Verify the token works by making a test API call
-        console.log('🔍 Verifying token with test API call...');
-        const testResponse = await fetch('https://www.googleapis.com/webmasters/v3/sites', {
-          headers: {
-            'Authorization': `Bearer ${tokens.access_token}`,
-          },
-        });
-
-        if (!testResponse.ok) {
-          console.error('❌ Token verification failed:', {
-            status: testResponse.status,
-            statusText: testResponse.statusText
-          });
-          throw new Error('Token verification failed - the token was received but does not work with GSC API');
-        }
-
         console.log('✅ GSC authentication completed successfully!');
         setStatus('GSC connected successfully! Redirecting to settings...');
 
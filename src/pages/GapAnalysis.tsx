@@ -0,0 +1,593 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useProject } from '@/contexts/ProjectContext';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, Download, Loader2, Target, TrendingUp } from 'lucide-react';
+import { format, subDays, subMonths } from 'date-fns';
+import { gscService, GSCDataPoint } from '@/lib/gscService';
+import { createExportService } from '@/lib/exportService';
+import {
+  CannibalizedQuery,
+  TopicGap,
+  UnrankedQuery,
+  findCannibalization,
+  findTopicGaps,
+  findUnrankedQueries
+} from '@/lib/gapAnalysisService';
+import { useToast } from '@/hooks/use-toast';
+
+type GapTab = 'unranked' | 'cannibalization' | 'topics';
+type SortOrder = 'asc' | 'desc';
+
+interface SortState {
+  key: string;
+  order: SortOrder;
+}
+
+// Date range options
+const DATE_RANGE_OPTIONS = [
+  { label: 'Last 28 days', value: '28d' },
+  { label: 'Last 3 months', value: '3m' },
+  { label: 'Last 6 months', value: '6m' }
+];
+
+const getDateRange = (range: string) => {
+  // GSC data lags by a few days, so end the window before today
+  const endDate = subDays(new Date(), 3);
+  let startDate: Date;
+  switch (range) {
+    case '3m':
+      startDate = subMonths(endDate, 3);
+      break;
+    case '6m':
+      startDate = subMonths(endDate, 6);
+      break;
+    default:
+      startDate = subDays(endDate, 27);
+  }
+  return {
+    startDate: format(startDate, 'yyyy-MM-dd'),
+    endDate: format(endDate, 'yyyy-MM-dd')
+  };
+};
+
+const sortRows = <T,>(rows: T[], sort: SortState, getValue: (row: T, key: string) => string | number): T[] => {
+  return [...rows].sort((a, b) => {
+    const aVal = getValue(a, sort.key);
+    const bVal = getValue(b, sort.key);
+    if (typeof aVal === 'string' && typeof bVal === 'string') {
+      return sort.order === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+    }
+    return sort.order === 'asc' ? (aVal as number) - (bVal as number) : (bVal as number) - (aVal as number);
+  });
+};
+
+const rankTrackerLink = (query: string) => `/rank-tracker?search=${encodeURIComponent(query)}`;
+const clickGapLink = (page: string) => `/click-gap-intelligence?search=${encodeURIComponent(page)}`;
+
+interface SortableHeadProps {
+  label: string;
+  sortKey: string;
+  sort: SortState;
+  onSort: (key: string) => void;
+  className?: string;
+}
+
+function SortableHead({ label, sortKey, sort, onSort, className }: SortableHeadProps) {
+  const Icon = sort.key !== sortKey ? ArrowUpDown : sort.order === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <button
+        onClick={() => onSort(sortKey)}
+        className="inline-flex items-center gap-1 text-gray-400 hover:text-white"
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+export default function GapAnalysis() {
+  const { user, getGSCProperty } = useAuth();
+  const { subscriptionType } = useSubscription();
+  const { projects, currentProject } = useProject();
+  const { toast } = useToast();
+  const gscProperty = currentProject?.gsc_property || getGSCProperty();
+
+  const [activeTab, setActiveTab] = useState<GapTab>('unranked');
+  const [dateRange, setDateRange] = useState('28d');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [queryPageData, setQueryPageData] = useState<GSCDataPoint[]>([]);
+  const [compareProjectId, setCompareProjectId] = useState<string>('');
+  const [compareData, setCompareData] = useState<GSCDataPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingCompare, setLoadingCompare] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sorts, setSorts] = useState<Record<GapTab, SortState>>({
+    unranked: { key: 'impressions', order: 'desc' },
+    cannibalization: { key: 'impressions', order: 'desc' },
+    topics: { key: 'impressions', order: 'desc' }
+  });
+
+  const exportService = useMemo(() => {
+    return user?.id ? createExportService(user.id, subscriptionType || 'free') : null;
+  }, [user?.id, subscriptionType]);
+
+  const compareProjects = useMemo(
+    () => projects.filter(project => project.gsc_property !== gscProperty),
+    [projects, gscProperty]
+  );
+  const compareProject = useMemo(
+    () => compareProjects.find(project => project.id === compareProjectId) || null,
+    [compareProjects, compareProjectId]
+  );
+
+  // Load the query x page breakdown for the current property
+  useEffect(() => {
+    if (!gscProperty) {
+      setError('Please select a Google Search Console property in Settings');
+      setLoading(false);
+      return;
+    }
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await gscService.fetchSearchAnalyticsData({
+          siteUrl: gscProperty,
+          ...getDateRange(dateRange),
+          dimensions: ['query', 'page'],
+          rowLimit: 25000
+        });
+        setQueryPageData(data);
+        if (data.isTruncated) {
+          toast({
+            title: 'Partial data loaded',
+            description: 'This property has more rows than could be loaded; results cover the largest queries only.',
+          });
+        }
+      } catch (err) {
+        console.error('Error loading gap analysis data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load Search Console data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [gscProperty, dateRange, toast]);
+
+  // Load the comparison project's queries for topic gaps
+  useEffect(() => {
+    if (!compareProject) {
+      setCompareData([]);
+      return;
+    }
+
+    const loadCompareData = async () => {
+      try {
+        setLoadingCompare(true);
+        const data = await gscService.fetchSearchAnalyticsData({
+          siteUrl: compareProject.gsc_property,
+          ...getDateRange(dateRange),
+          dimensions: ['query'],
+          rowLimit: 25000
+        });
+        setCompareData(data);
+      } catch (err) {
+        console.error('Error loading comparison project data:', err);
+        toast({
+          title: 'Error',
+          description: `Failed to load data for ${compareProject.name}`,
+          variant: 'destructive',
+        });
+        setCompareData([]);
+      } finally {
+        setLoadingCompare(false);
+      }
+    };
+
+    loadCompareData();
+  }, [compareProject, dateRange, toast]);
+
+  const unranked = useMemo(() => findUnrankedQueries(queryPageData), [queryPageData]);
+  const cannibalized = useMemo(() => findCannibalization(queryPageData), [queryPageData]);
+  const topicGaps = useMemo(
+    () => (compareProject ? findTopicGaps(queryPageData, compareData) : []),
+    [compareProject, queryPageData, compareData]
+  );
+
+  const matchesSearch = useCallback(
+    (value: string) => !searchTerm || value.toLowerCase().includes(searchTerm.toLowerCase()),
+    [searchTerm]
+  );
+
+  const sortedUnranked = useMemo(() => sortRows(
+    unranked.filter(row => matchesSearch(row.query) || matchesSearch(row.bestPage)),
+    sorts.unranked,
+    (row: UnrankedQuery, key) => row[key as keyof UnrankedQuery]
+  ), [unranked, sorts.unranked, matchesSearch]);
+
+  const sortedCannibalized = useMemo(() => sortRows(
+    cannibalized.filter(row => matchesSearch(row.query) || row.pages.some(page => matchesSearch(page.page))),
+    sorts.cannibalization,
+    (row: CannibalizedQuery, key) => (key === 'pageCount' ? row.pages.length : row[key as 'query' | 'clicks' | 'impressions'])
+  ), [cannibalized, sorts.cannibalization, matchesSearch]);
+
+  const sortedTopicGaps = useMemo(() => sortRows(
+    topicGaps.filter(row => matchesSearch(row.topic) || row.keywords.some(matchesSearch)),
+    sorts.topics,
+    (row: TopicGap, key) => (key === 'keywordCount' ? row.keywords.length : row[key as 'topic' | 'clicks' | 'impressions' | 'position'])
+  ), [topicGaps, sorts.topics, matchesSearch]);
+
+  const handleSort = (tab: GapTab) => (key: string) => {
+    setSorts(prev => ({
+      ...prev,
+      [tab]: {
+        key,
+        order: prev[tab].key === key && prev[tab].order === 'desc' ? 'asc' : 'desc'
+      }
+    }));
+  };
+
+  const getExportTable = (): { headers: string[]; rows: string[][] } => {
+    switch (activeTab) {
+      case 'cannibalization':
+        return {
+          headers: ['Query', 'Clicks', 'Impressions', 'Competing Pages', 'Page', 'Page Position', 'Impression Share'],
+          rows: sortedCannibalized.flatMap(row => row.pages.map(page => [
+            row.query,
+            row.clicks.toString(),
+            row.impressions.toString(),
+            row.pages.length.toString(),
+            page.page,
+            page.position.toFixed(1),
+            (page.impressionShare * 100).toFixed(1) + '%'
+          ]))
+        };
+      case 'topics':
+        return {
+          headers: ['Topic', 'Keywords', 'Clicks', 'Impressions', 'Avg Position', 'Missing From'],
+          rows: sortedTopicGaps.map(row => [
+            row.topic,
+            row.keywords.join('; '),
+            row.clicks.toString(),
+            row.impressions.toString(),
+            row.position.toFixed(1),
+            compareProject?.name || ''
+          ])
+        };
+      default:
+        return {
+          headers: ['Query', 'Best Page', 'Best Position', 'Clicks', 'Impressions', 'Ranking Pages'],
+          rows: sortedUnranked.map(row => [
+            row.query,
+            row.bestPage,
+            row.bestPosition.toFixed(1),
+            row.clicks.toString(),
+            row.impressions.toString(),
+            row.pageCount.toString()
+          ])
+        };
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportService) return;
+
+    try {
+      setIsExporting(true);
+      const { headers, rows } = getExportTable();
+      const csvContent = await exportService.exportRowsToCSV(headers, rows);
+      exportService.downloadCSV(csvContent, `gap_analysis_${activeTab}_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+      toast({
+        title: 'Export complete',
+        description: `Exported ${rows.length} rows to CSV`,
+      });
+    } catch (err) {
+      console.error('Export error:', err);
+      toast({
+        title: 'Export failed',
+        description: err instanceof Error ? err.message : 'Failed to export gap analysis',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const activeRowCount = activeTab === 'unranked'
+    ? sortedUnranked.length
+    : activeTab === 'cannibalization' ? sortedCannibalized.length : sortedTopicGaps.length;
+
+  return (
+    <DashboardLayout title="Gap Analysis" fullScreen={true}>
+      <div className="w-full p-6 space-y-6">
+        {/* Error Alert */}
+        {error && (
+          <Card className="border-red-700 bg-red-900/20">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-red-400">
+                <AlertCircle className="h-5 w-5" />
+                <p>{error}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card className="bg-gray-800/50 border-gray-700">
+            <CardHeader className="pb-2">
+              <CardDescription className="text-gray-400">Queries outside the top 20</CardDescription>
+              <CardTitle className="text-2xl text-white">{loading ? '-' : unranked.length.toLocaleString()}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="bg-gray-800/50 border-gray-700">
+            <CardHeader className="pb-2">
+              <CardDescription className="text-gray-400">Cannibalized queries</CardDescription>
+              <CardTitle className="text-2xl text-white">{loading ? '-' : cannibalized.length.toLocaleString()}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="bg-gray-800/50 border-gray-700">
+            <CardHeader className="pb-2">
+              <CardDescription className="text-gray-400">
+                {compareProject ? `Topics missing from ${compareProject.name}` : 'Topic gaps'}
+              </CardDescription>
+              <CardTitle className="text-2xl text-white">{compareProject && !loadingCompare ? topicGaps.length.toLocaleString() : '-'}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={dateRange} onValueChange={setDateRange}>
+            <SelectTrigger className="w-48 bg-gray-800 border-gray-700 text-gray-300">
+              <SelectValue placeholder="Select date range" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              {DATE_RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="hover:bg-gray-700">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            placeholder="Search queries, pages or topics..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-72 bg-gray-800 border-gray-700 text-gray-300"
+          />
+
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={isExporting || loading || activeRowCount === 0}
+            className="ml-auto bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+          >
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export CSV
+          </Button>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={value => setActiveTab(value as GapTab)}>
+          <TabsList className="bg-gray-800 border border-gray-700">
+            <TabsTrigger value="unranked">No Top 20 Page</TabsTrigger>
+            <TabsTrigger value="cannibalization">Cannibalization</TabsTrigger>
+            <TabsTrigger value="topics">Cross-Project Topics</TabsTrigger>
+          </TabsList>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-24 text-gray-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-3" /> Loading Search Console data...
+            </div>
+          ) : (
+            <>
+              <TabsContent value="unranked">
+                <Card className="bg-gray-800/50 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">Queries without a top 20 page</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      Queries this property earns impressions for, where its best page still ranks below position 20
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-gray-700 hover:bg-transparent">
+                          <SortableHead label="Query" sortKey="query" sort={sorts.unranked} onSort={handleSort('unranked')} />
+                          <SortableHead label="Best Page" sortKey="bestPage" sort={sorts.unranked} onSort={handleSort('unranked')} />
+                          <SortableHead label="Best Pos." sortKey="bestPosition" sort={sorts.unranked} onSort={handleSort('unranked')} className="text-right" />
+                          <SortableHead label="Clicks" sortKey="clicks" sort={sorts.unranked} onSort={handleSort('unranked')} className="text-right" />
+                          <SortableHead label="Impressions" sortKey="impressions" sort={sorts.unranked} onSort={handleSort('unranked')} className="text-right" />
+                          <SortableHead label="Pages" sortKey="pageCount" sort={sorts.unranked} onSort={handleSort('unranked')} className="text-right" />
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedUnranked.length === 0 ? (
+                          <TableRow className="border-gray-700">
+                            <TableCell colSpan={7} className="text-center text-gray-400 py-8">No queries found</TableCell>
+                          </TableRow>
+                        ) : sortedUnranked.map(row => (
+                          <TableRow key={row.query} className="border-gray-700 hover:bg-gray-700/50">
+                            <TableCell className="text-gray-200 font-medium">{row.query}</TableCell>
+                            <TableCell className="text-gray-400 max-w-xs truncate" title={row.bestPage}>{row.bestPage}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.bestPosition.toFixed(1)}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.clicks.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.impressions.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.pageCount}</TableCell>
+                            <TableCell className="text-right">
+                              <Link to={rankTrackerLink(row.query)} className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300 text-sm">
+                                <TrendingUp className="h-4 w-4" /> Rank Tracker
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="cannibalization">
+                <Card className="bg-gray-800/50 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">Keyword cannibalization</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      Queries where two or more pages of this property each take at least 10% of the impressions
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-gray-700 hover:bg-transparent">
+                          <SortableHead label="Query" sortKey="query" sort={sorts.cannibalization} onSort={handleSort('cannibalization')} />
+                          <TableHead className="text-gray-400">Competing Pages</TableHead>
+                          <SortableHead label="Clicks" sortKey="clicks" sort={sorts.cannibalization} onSort={handleSort('cannibalization')} className="text-right" />
+                          <SortableHead label="Impressions" sortKey="impressions" sort={sorts.cannibalization} onSort={handleSort('cannibalization')} className="text-right" />
+                          <SortableHead label="Pages" sortKey="pageCount" sort={sorts.cannibalization} onSort={handleSort('cannibalization')} className="text-right" />
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedCannibalized.length === 0 ? (
+                          <TableRow className="border-gray-700">
+                            <TableCell colSpan={6} className="text-center text-gray-400 py-8">No cannibalized queries found</TableCell>
+                          </TableRow>
+                        ) : sortedCannibalized.map(row => (
+                          <TableRow key={row.query} className="border-gray-700 hover:bg-gray-700/50 align-top">
+                            <TableCell className="text-gray-200 font-medium">{row.query}</TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {row.pages.map(page => (
+                                  <div key={page.page} className="flex items-center gap-2 text-sm">
+                                    <Link
+                                      to={clickGapLink(page.page)}
+                                      className="text-blue-400 hover:text-blue-300 max-w-xs truncate"
+                                      title={`Open ${page.page} in Click Gap Intelligence`}
+                                    >
+                                      {page.page}
+                                    </Link>
+                                    <Badge variant="outline" className="border-gray-600 text-gray-300">
+                                      #{page.position.toFixed(1)} · {(page.impressionShare * 100).toFixed(0)}%
+                                    </Badge>
+                                  </div>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right text-gray-300">{row.clicks.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.impressions.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{row.pages.length}</TableCell>
+                            <TableCell className="text-right">
+                              <Link to={rankTrackerLink(row.query)} className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300 text-sm">
+                                <TrendingUp className="h-4 w-4" /> Rank Tracker
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="topics">
+                <Card className="bg-gray-800/50 border-gray-700">
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-white">Cross-project topic gaps</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Topics this property ranks for that no query of the compared project covers
+                        </CardDescription>
+                      </div>
+                      <Select value={compareProjectId} onValueChange={setCompareProjectId}>
+                        <SelectTrigger className="w-64 bg-gray-800 border-gray-700 text-gray-300">
+                          <SelectValue placeholder="Compare with project..." />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 border-gray-700 text-white">
+                          {compareProjects.map(project => (
+                            <SelectItem key={project.id} value={project.id} className="hover:bg-gray-700">
+                              {project.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {compareProjects.length === 0 ? (
+                      <div className="p-6 text-center text-gray-400">
+                        Add another project with a different Search Console property to compare topics.
+                      </div>
+                    ) : !compareProject ? (
+                      <div className="p-6 text-center text-gray-400">Select a project to compare against.</div>
+                    ) : loadingCompare ? (
+                      <div className="flex items-center justify-center py-12 text-gray-400">
+                        <Loader2 className="h-5 w-5 animate-spin mr-3" /> Loading {compareProject.name}...
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-gray-700 hover:bg-transparent">
+                            <SortableHead label="Topic" sortKey="topic" sort={sorts.topics} onSort={handleSort('topics')} />
+                            <TableHead className="text-gray-400">Keywords</TableHead>
+                            <SortableHead label="Count" sortKey="keywordCount" sort={sorts.topics} onSort={handleSort('topics')} className="text-right" />
+                            <SortableHead label="Clicks" sortKey="clicks" sort={sorts.topics} onSort={handleSort('topics')} className="text-right" />
+                            <SortableHead label="Impressions" sortKey="impressions" sort={sorts.topics} onSort={handleSort('topics')} className="text-right" />
+                            <SortableHead label="Avg Pos." sortKey="position" sort={sorts.topics} onSort={handleSort('topics')} className="text-right" />
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sortedTopicGaps.length === 0 ? (
+                            <TableRow className="border-gray-700">
+                              <TableCell colSpan={7} className="text-center text-gray-400 py-8">
+                                No topic gaps found against {compareProject.name}
+                              </TableCell>
+                            </TableRow>
+                          ) : sortedTopicGaps.map(row => (
+                            <TableRow key={row.topic} className="border-gray-700 hover:bg-gray-700/50">
+                              <TableCell className="text-gray-200 font-medium">{row.topic}</TableCell>
+                              <TableCell className="text-gray-400 max-w-md truncate" title={row.keywords.join(', ')}>
+                                {row.keywords.slice(0, 3).join(', ')}{row.keywords.length > 3 ? '…' : ''}
+                              </TableCell>
+                              <TableCell className="text-right text-gray-300">{row.keywords.length}</TableCell>
+                              <TableCell className="text-right text-gray-300">{row.clicks.toLocaleString()}</TableCell>
+                              <TableCell className="text-right text-gray-300">{row.impressions.toLocaleString()}</TableCell>
+                              <TableCell className="text-right text-gray-300">{row.position.toFixed(1)}</TableCell>
+                              <TableCell className="text-right">
+                                <Link to={rankTrackerLink(row.topic)} className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300 text-sm">
+                                  <Target className="h-4 w-4" /> Rank Tracker
+                                </Link>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+}
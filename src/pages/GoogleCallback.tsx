@@ -114,64 +114,10 @@ export const GoogleCallback: React.FC = () => {
           setStatus('Connecting to Google Search Console...');
           
           try {
-            // Process GSC OAuth directly here
-            const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-            const clientSecret = import.meta.env.VITE_GOOGLE_CLIENT_SECRET;
-            const redirectUri = 'https://app.datapulsify.com/auth/gsc/callback';
-
-            if (!clientId || !clientSecret) {
-              throw new Error('Google OAuth credentials not configured');
-            }
-
-            console.log('🔄 Exchanging GSC code for token...', {
-              clientId: clientId.substring(0, 20) + '...',
-              redirectUri,
-              hasCode: !!code
-            });
-
-            // Exchange code for tokens
-            const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-              },
-              body: new URLSearchParams({
-                code,
-                client_id: clientId,
-                client_secret: clientSecret,
-                redirect_uri: redirectUri,
-                grant_type: 'authorization_code',
-              }),
-            });
-
-            if (!tokenResponse.ok) {
-              const errorData = await tokenResponse.json().catch(() => ({}));
-              console.error('❌ GSC token exchange failed:', errorData);
-              
-              let errorMessage = 'Failed to exchange authorization code for access token';
-              if (errorData.error_description) {
-                errorMessage += `: ${errorData.error_description}`;
-              } else if (errorData.error) {
-                errorMessage += `: ${errorData.error}`;
-              }
-              
-              throw new Error(errorMessage);
-            }
-
-            const tokens = await tokenResponse.json();
-            console.log('✅ GSC token exchange successful:', {
-              hasAccessToken: !!tokens.access_token,
-              hasRefreshToken: !!tokens.refresh_token
-            });
-
-            if (!tokens.access_token) {
-              throw new Error('No access token received from Google');
-            }
-
-            // Store GSC tokens
-            localStorage.setItem('gsc_token', tokens.access_token);
-            if (tokens.refresh_token) {
-              localStorage.setItem('gsc_refresh_token', tokens.refresh_token);
+            // The token vault exchanges the code server-side and keeps the refresh token
+            const result = await new GoogleAuthService().handleCallback(code, state || '');
+            if (!result.success) {
+              throw new Error(result.error || 'Failed to exchange authorization code for access token');
             }
 
             // Clear GSC auth state
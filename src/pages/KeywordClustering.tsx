@@ -0,0 +1,584 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { format, subDays, subMonths } from 'date-fns';
+import { AlertCircle, Loader2, Merge, Plus, Save, Scissors, Sparkles, Trash2, X } from 'lucide-react';
+import { gscService, GSCDataPoint } from '@/lib/gscService';
+import {
+  KeywordCluster,
+  clusterKeywords,
+  createKeywordClusteringService,
+  getClusterMetrics,
+  getClusterTrend,
+  suggestClusterName
+} from '@/lib/keywordClusteringService';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+// Date range options
+const DATE_RANGE_OPTIONS = [
+  { label: 'Last 28 days', value: '28d' },
+  { label: 'Last 3 months', value: '3m' },
+  { label: 'Last 6 months', value: '6m' }
+];
+
+const getDateRange = (range: string) => {
+  // GSC data lags by a few days, so end the window before today
+  const endDate = subDays(new Date(), 3);
+  let startDate: Date;
+  switch (range) {
+    case '3m':
+      startDate = subMonths(endDate, 3);
+      break;
+    case '6m':
+      startDate = subMonths(endDate, 6);
+      break;
+    default:
+      startDate = subDays(endDate, 27);
+  }
+  return {
+    startDate: format(startDate, 'yyyy-MM-dd'),
+    endDate: format(endDate, 'yyyy-MM-dd')
+  };
+};
+
+export default function KeywordClustering() {
+  const { user, getGSCProperty } = useAuth();
+  const { toast } = useToast();
+  const gscProperty = getGSCProperty();
+
+  const [dateRange, setDateRange] = useState('28d');
+  const [queryData, setQueryData] = useState<GSCDataPoint[]>([]);
+  const [dailyData, setDailyData] = useState<GSCDataPoint[]>([]);
+  const [clusters, setClusters] = useState<KeywordCluster[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [mergeSelection, setMergeSelection] = useState<Set<number>>(new Set());
+  const [keywordSelection, setKeywordSelection] = useState<Set<string>>(new Set());
+  const [newKeyword, setNewKeyword] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clusteringService = useMemo(
+    () => (user?.id ? createKeywordClusteringService(user.id) : null),
+    [user?.id]
+  );
+
+  // Load saved clusters once per property
+  useEffect(() => {
+    if (!clusteringService || !gscProperty) return;
+
+    clusteringService.getClusters(gscProperty)
+      .then(saved => {
+        setClusters(saved);
+        setSelectedIndex(saved.length > 0 ? 0 : null);
+        setIsDirty(false);
+      })
+      .catch(err => {
+        console.error('Error loading keyword clusters:', err);
+        setError('Failed to load saved clusters');
+      });
+  }, [clusteringService, gscProperty]);
+
+  // Load query totals and the daily breakdown used for cluster trends
+  useEffect(() => {
+    if (!gscProperty) {
+      setError('Please select a Google Search Console property in Settings');
+      setLoading(false);
+      return;
+    }
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const range = getDateRange(dateRange);
+
+        const [queries, daily] = await Promise.all([
+          gscService.fetchSearchAnalyticsData({
+            siteUrl: gscProperty,
+            ...range,
+            dimensions: ['query'],
+            rowLimit: 25000
+          }),
+          gscService.fetchSearchAnalyticsData({
+            siteUrl: gscProperty,
+            ...range,
+            dimensions: ['date', 'query'],
+            rowLimit: 25000
+          })
+        ]);
+
+        setQueryData(queries);
+        setDailyData(daily);
+      } catch (err) {
+        console.error('Error loading keyword data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load keyword data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [gscProperty, dateRange]);
+
+  const clusterMetrics = useMemo(
+    () => clusters.map(cluster => getClusterMetrics(cluster, queryData)),
+    [clusters, queryData]
+  );
+
+  const selectedCluster = selectedIndex !== null ? clusters[selectedIndex] : null;
+
+  const selectedTrend = useMemo(
+    () => (selectedCluster ? getClusterTrend(selectedCluster, dailyData) : []),
+    [selectedCluster, dailyData]
+  );
+
+  const clusteredKeywords = useMemo(
+    () => new Set(clusters.flatMap(cluster => cluster.keywords)),
+    [clusters]
+  );
+
+  const keywordSuggestions = useMemo(() => {
+    if (!newKeyword.trim()) return [];
+    const term = newKeyword.toLowerCase();
+    return queryData
+      .filter(item => item.query.toLowerCase().includes(term) && !selectedCluster?.keywords.includes(item.query))
+      .sort((a, b) => b.impressions - a.impressions)
+      .slice(0, 8);
+  }, [newKeyword, queryData, selectedCluster]);
+
+  const updateClusters = (next: KeywordCluster[], nextSelectedIndex: number | null = selectedIndex) => {
+    setClusters(next);
+    setSelectedIndex(next.length === 0 ? null : nextSelectedIndex);
+    setMergeSelection(new Set());
+    setKeywordSelection(new Set());
+    setIsDirty(true);
+  };
+
+  const handleAutoCluster = () => {
+    const generated = clusterKeywords(queryData)
+      .sort((a, b) => b.keywords.length - a.keywords.length);
+    updateClusters(generated, generated.length > 0 ? 0 : null);
+    toast({
+      title: 'Clusters generated',
+      description: `Grouped ${generated.reduce((sum, cluster) => sum + cluster.keywords.length, 0)} queries into ${generated.length} clusters. Save to keep them.`,
+    });
+  };
+
+  const handleRename = (name: string) => {
+    if (selectedIndex === null) return;
+    updateClusters(clusters.map((cluster, index) => (index === selectedIndex ? { ...cluster, name } : cluster)));
+  };
+
+  const handleMerge = () => {
+    if (mergeSelection.size < 2) return;
+    const indexes = Array.from(mergeSelection).sort((a, b) => a - b);
+    const keywords = Array.from(new Set(indexes.flatMap(index => clusters[index].keywords)));
+    const target = clusters[indexes[0]];
+    const merged: KeywordCluster = { id: target.id, name: suggestClusterName(keywords), keywords };
+
+    const next = clusters
+      .map((cluster, index) => (index === indexes[0] ? merged : cluster))
+      .filter((_, index) => !indexes.slice(1).includes(index));
+    updateClusters(next, indexes[0]);
+  };
+
+  const handleSplit = () => {
+    if (!selectedCluster || keywordSelection.size === 0 || keywordSelection.size === selectedCluster.keywords.length) return;
+    const splitKeywords = selectedCluster.keywords.filter(keyword => keywordSelection.has(keyword));
+    const remaining = selectedCluster.keywords.filter(keyword => !keywordSelection.has(keyword));
+
+    const next = clusters.map((cluster, index) => (index === selectedIndex ? { ...cluster, keywords: remaining } : cluster));
+    next.push({ name: suggestClusterName(splitKeywords), keywords: splitKeywords });
+    updateClusters(next, next.length - 1);
+  };
+
+  const handleDeleteCluster = (clusterIndex: number) => {
+    const next = clusters.filter((_, index) => index !== clusterIndex);
+    updateClusters(next, next.length > 0 ? Math.min(clusterIndex, next.length - 1) : null);
+  };
+
+  const handleRemoveKeyword = (keyword: string) => {
+    if (selectedIndex === null) return;
+    updateClusters(clusters.map((cluster, index) => (
+      index === selectedIndex ? { ...cluster, keywords: cluster.keywords.filter(k => k !== keyword) } : cluster
+    )));
+  };
+
+  // A keyword belongs to a single cluster, so adding it moves it out of any other one
+  const handleAddKeyword = (keyword: string) => {
+    const trimmed = keyword.trim();
+    if (selectedIndex === null || !trimmed) return;
+    updateClusters(clusters.map((cluster, index) => {
+      if (index === selectedIndex) {
+        return cluster.keywords.includes(trimmed) ? cluster : { ...cluster, keywords: [...cluster.keywords, trimmed] };
+      }
+      return { ...cluster, keywords: cluster.keywords.filter(k => k !== trimmed) };
+    }));
+    setNewKeyword('');
+  };
+
+  const handleCreateCluster = () => {
+    const next = [...clusters, { name: 'New cluster', keywords: [] }];
+    updateClusters(next, next.length - 1);
+  };
+
+  const handleSave = async () => {
+    if (!clusteringService || !gscProperty) return;
+    try {
+      setIsSaving(true);
+      // Empty clusters are dropped rather than stored
+      const saved = await clusteringService.saveClusters(
+        gscProperty,
+        clusters.filter(cluster => cluster.keywords.length > 0)
+      );
+      setClusters(saved);
+      setSelectedIndex(saved.length > 0 ? Math.min(selectedIndex ?? 0, saved.length - 1) : null);
+      setIsDirty(false);
+      toast({
+        title: 'Clusters saved',
+        description: `${saved.length} clusters saved for ${gscProperty}`,
+      });
+    } catch (err) {
+      console.error('Error saving keyword clusters:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to save clusters',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleMergeSelection = (index: number) => {
+    const next = new Set(mergeSelection);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setMergeSelection(next);
+  };
+
+  const toggleKeywordSelection = (keyword: string) => {
+    const next = new Set(keywordSelection);
+    if (next.has(keyword)) {
+      next.delete(keyword);
+    } else {
+      next.add(keyword);
+    }
+    setKeywordSelection(next);
+  };
+
+  const visibleClusterIndexes = clusters
+    .map((cluster, index) => ({ cluster, index }))
+    .filter(({ cluster }) => !searchTerm || cluster.name.toLowerCase().includes(searchTerm.toLowerCase())
+      || cluster.keywords.some(keyword => keyword.toLowerCase().includes(searchTerm.toLowerCase())))
+    .map(({ index }) => index);
+
+  const keywordMetrics = useMemo(() => {
+    const byQuery = new Map<string, GSCDataPoint>();
+    queryData.forEach(item => byQuery.set(item.query, item));
+    return byQuery;
+  }, [queryData]);
+
+  return (
+    <DashboardLayout title="Keyword Clustering" fullScreen={true}>
+      <div className="w-full p-6 space-y-6">
+        {/* Error Alert */}
+        {error && (
+          <Card className="border-red-700 bg-red-900/20">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-red-400">
+                <AlertCircle className="h-5 w-5" />
+                <p>{error}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={dateRange} onValueChange={setDateRange}>
+            <SelectTrigger className="w-48 bg-gray-800 border-gray-700 text-gray-300">
+              <SelectValue placeholder="Select date range" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              {DATE_RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="hover:bg-gray-700">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            placeholder="Search clusters or keywords..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-64 bg-gray-800 border-gray-700 text-gray-300"
+          />
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button
+              variant="outline"
+              onClick={handleAutoCluster}
+              disabled={loading || queryData.length === 0}
+              className="bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+            >
+              <Sparkles className="h-4 w-4 mr-2" /> Auto-cluster
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleMerge}
+              disabled={mergeSelection.size < 2}
+              className="bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+            >
+              <Merge className="h-4 w-4 mr-2" /> Merge ({mergeSelection.size})
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleCreateCluster}
+              className="bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+            >
+              <Plus className="h-4 w-4 mr-2" /> New cluster
+            </Button>
+            <Button onClick={handleSave} disabled={!isDirty || isSaving} className="bg-blue-600 hover:bg-blue-700 text-white">
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save clusters
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin mr-3" /> Loading keyword data...
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+            {/* Cluster list */}
+            <Card className="xl:col-span-2 bg-gray-800/50 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white">Clusters</CardTitle>
+                <CardDescription className="text-gray-400">
+                  {clusters.length} clusters covering {clusteredKeywords.size} of {queryData.length} queries
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {clusters.length === 0 ? (
+                  <div className="p-6 text-center text-gray-400">
+                    No clusters yet. Use Auto-cluster to group this property's queries.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-gray-700 hover:bg-transparent">
+                        <TableHead className="w-8" />
+                        <TableHead className="text-gray-400">Cluster</TableHead>
+                        <TableHead className="text-gray-400 text-right">Keywords</TableHead>
+                        <TableHead className="text-gray-400 text-right">Clicks</TableHead>
+                        <TableHead className="text-gray-400 text-right">Impr.</TableHead>
+                        <TableHead className="text-gray-400 text-right">CTR</TableHead>
+                        <TableHead className="text-gray-400 text-right">Pos.</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleClusterIndexes.map(index => {
+                        const cluster = clusters[index];
+                        const metrics = clusterMetrics[index];
+                        return (
+                          <TableRow
+                            key={cluster.id || `cluster-${index}`}
+                            onClick={() => { setSelectedIndex(index); setKeywordSelection(new Set()); }}
+                            className={cn(
+                              'border-gray-700 cursor-pointer',
+                              index === selectedIndex ? 'bg-blue-900/30 hover:bg-blue-900/40' : 'hover:bg-gray-700/50'
+                            )}
+                          >
+                            <TableCell onClick={e => e.stopPropagation()}>
+                              <Checkbox
+                                checked={mergeSelection.has(index)}
+                                onCheckedChange={() => toggleMergeSelection(index)}
+                              />
+                            </TableCell>
+                            <TableCell className="text-gray-200 font-medium">{cluster.name}</TableCell>
+                            <TableCell className="text-right text-gray-300">{cluster.keywords.length}</TableCell>
+                            <TableCell className="text-right text-gray-300">{metrics.clicks.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{metrics.impressions.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-gray-300">{(metrics.ctr * 100).toFixed(1)}%</TableCell>
+                            <TableCell className="text-right text-gray-300">{metrics.position.toFixed(1)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Cluster detail */}
+            <div className="xl:col-span-3 space-y-6">
+              {selectedCluster && selectedIndex !== null ? (
+                <>
+                  <Card className="bg-gray-800/50 border-gray-700">
+                    <CardHeader className="space-y-4">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={selectedCluster.name}
+                          onChange={e => handleRename(e.target.value)}
+                          className="bg-gray-900 border-gray-700 text-white text-lg font-semibold"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => handleDeleteCluster(selectedIndex)}
+                          className="bg-gray-800 border-gray-700 text-red-400 hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                          { label: 'Clicks', value: clusterMetrics[selectedIndex].clicks.toLocaleString() },
+                          { label: 'Impressions', value: clusterMetrics[selectedIndex].impressions.toLocaleString() },
+                          { label: 'CTR', value: `${(clusterMetrics[selectedIndex].ctr * 100).toFixed(2)}%` },
+                          { label: 'Avg. Position', value: clusterMetrics[selectedIndex].position.toFixed(1) }
+                        ].map(metric => (
+                          <div key={metric.label} className="rounded-lg bg-gray-900/60 p-3">
+                            <p className="text-xs text-gray-400">{metric.label}</p>
+                            <p className="text-xl font-semibold text-white">{metric.value}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-64">
+                        {selectedTrend.length > 0 ? (
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={selectedTrend}>
+                              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                              <XAxis dataKey="date" stroke="#9CA3AF" tick={{ fontSize: 12 }} />
+                              <YAxis yAxisId="clicks" stroke="#60A5FA" tick={{ fontSize: 12 }} />
+                              <YAxis yAxisId="impressions" orientation="right" stroke="#A78BFA" tick={{ fontSize: 12 }} />
+                              <Tooltip contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151' }} />
+                              <Legend />
+                              <Line yAxisId="clicks" type="monotone" dataKey="clicks" name="Clicks" stroke="#60A5FA" dot={false} />
+                              <Line yAxisId="impressions" type="monotone" dataKey="impressions" name="Impressions" stroke="#A78BFA" dot={false} />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        ) : (
+                          <div className="h-full flex items-center justify-center text-gray-400">
+                            No daily data for this cluster in the selected range
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="bg-gray-800/50 border-gray-700">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-white">Keywords ({selectedCluster.keywords.length})</CardTitle>
+                        <Button
+                          variant="outline"
+                          onClick={handleSplit}
+                          disabled={keywordSelection.size === 0 || keywordSelection.size === selectedCluster.keywords.length}
+                          className="bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+                        >
+                          <Scissors className="h-4 w-4 mr-2" /> Split selected ({keywordSelection.size})
+                        </Button>
+                      </div>
+                      <div className="relative">
+                        <Input
+                          placeholder="Add a keyword to this cluster..."
+                          value={newKeyword}
+                          onChange={e => setNewKeyword(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') handleAddKeyword(newKeyword); }}
+                          className="bg-gray-900 border-gray-700 text-gray-300"
+                        />
+                        {keywordSuggestions.length > 0 && (
+                          <div className="absolute z-10 mt-1 w-full rounded-md border border-gray-700 bg-gray-800 shadow-lg">
+                            {keywordSuggestions.map(item => (
+                              <button
+                                key={item.query}
+                                onClick={() => handleAddKeyword(item.query)}
+                                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-700"
+                              >
+                                <span>{item.query}</span>
+                                {clusteredKeywords.has(item.query) && (
+                                  <Badge variant="outline" className="border-yellow-700 text-yellow-400">moves from another cluster</Badge>
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-gray-700 hover:bg-transparent">
+                            <TableHead className="w-8" />
+                            <TableHead className="text-gray-400">Keyword</TableHead>
+                            <TableHead className="text-gray-400 text-right">Clicks</TableHead>
+                            <TableHead className="text-gray-400 text-right">Impr.</TableHead>
+                            <TableHead className="text-gray-400 text-right">Pos.</TableHead>
+                            <TableHead className="w-8" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {selectedCluster.keywords.map(keyword => {
+                            const metrics = keywordMetrics.get(keyword);
+                            return (
+                              <TableRow key={keyword} className="border-gray-700 hover:bg-gray-700/50">
+                                <TableCell>
+                                  <Checkbox
+                                    checked={keywordSelection.has(keyword)}
+                                    onCheckedChange={() => toggleKeywordSelection(keyword)}
+                                  />
+                                </TableCell>
+                                <TableCell className="text-gray-200">{keyword}</TableCell>
+                                <TableCell className="text-right text-gray-300">{metrics ? metrics.clicks.toLocaleString() : '-'}</TableCell>
+                                <TableCell className="text-right text-gray-300">{metrics ? metrics.impressions.toLocaleString() : '-'}</TableCell>
+                                <TableCell className="text-right text-gray-300">{metrics ? metrics.position.toFixed(1) : '-'}</TableCell>
+                                <TableCell>
+                                  <button
+                                    onClick={() => handleRemoveKeyword(keyword)}
+                                    className="text-gray-500 hover:text-red-400"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </button>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </>
+              ) : (
+                <Card className="bg-gray-800/50 border-gray-700">
+                  <CardContent className="py-16 text-center text-gray-400">
+                    Select a cluster to see its keywords and performance over time
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { useDataExports } from '@/hooks/useDataExports';
@@ -13,6 +14,7 @@ import { Line } from 'react-chartjs-2';
 import { AlertCircle, CalendarIcon, Search, ArrowUp, ArrowDown, Minus, Download, Filter, ChevronLeft, ChevronRight, X, Plus, Loader2, Copy, Maximize2 } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { gscService, GSCDataPoint, GSCSearchAnalyticsParams } from '@/lib/gscService';
+import { classifyKeywordIntent, classifyKeywordType } from '@/lib/keywordClassification';
 import { useToast } from '@/hooks/use-toast';
 import { cn, getCountryName } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
@@ -116,7 +118,7 @@ const copyToClipboard = async (text: string) => {
 };
 
 export default function RankTracker() {
-  const { user, getGSCToken, getGSCProperty } = useAuth();
+  const { user, hasGSCConnection, getGSCProperty } = useAuth();
   const { subscriptionType, canTrackMoreKeywords, keywordLimit } = useSubscription();
   const { toast } = useToast();
   const { trackExport } = useDataExports();
@@ -132,9 +134,11 @@ export default function RankTracker() {
     trackMultipleKeywords,
     refreshTrackedKeywords
   } = useTrackedKeywords();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  // Other views deep-link into a keyword via ?search=
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('search') || '');
   const [dateRange, setDateRange] = useState('30d');
   const [keywords, setKeywords] = useState<KeywordData[]>([]);
   const [selectedKeyword, setSelectedKeyword] = useState<RankTrackerKeyword | null>(null);
@@ -166,91 +170,6 @@ export default function RankTracker() {
   const [expandedKeywords, setExpandedKeywords] = useState<Set<string>>(new Set());
 
   
-  // Get branded keyword rules from localStorage
-  const getBrandedKeywordRules = () => {
-    const rules = localStorage.getItem('branded_keyword_rules');
-    if (rules) {
-      return JSON.parse(rules);
-    }
-    return [];
-  };
-
-  // Get keyword category regex patterns from localStorage
-  const getKeywordCategoryPatterns = () => {
-    const patterns = localStorage.getItem('keyword_category_patterns');
-    if (patterns) {
-      return JSON.parse(patterns);
-    }
-    return {
-      tofu: [],
-      mofu: [],
-      bofu: []
-    };
-  };
-
-  // Classify keyword as branded/non-branded
-  const classifyKeywordType = (keyword: string) => {
-    const rules = getBrandedKeywordRules();
-    const lowerKeyword = keyword.toLowerCase();
-
-    for (const rule of rules) {
-      const value = rule.value.toLowerCase();
-      switch (rule.type) {
-        case 'contains':
-          if (lowerKeyword.includes(value)) return 'branded';
-          break;
-        case 'starts_with':
-          if (lowerKeyword.startsWith(value)) return 'branded';
-          break;
-        case 'exact_match':
-          if (lowerKeyword === value) return 'branded';
-          break;
-        case 'ends_with':
-          if (lowerKeyword.endsWith(value)) return 'branded';
-          break;
-      }
-    }
-    return 'non-branded';
-  };
-
-  // Classify keyword intent
-  const classifyKeywordIntent = (keyword: string) => {
-    const patterns = getKeywordCategoryPatterns();
-    const lowerKeyword = keyword.toLowerCase();
-
-    // Check ToFu patterns first
-    for (const pattern of patterns.tofu) {
-      try {
-        const regex = new RegExp(pattern, 'i');
-        if (regex.test(keyword)) return 'tofu';
-      } catch (e) {
-        // Invalid regex, skip
-      }
-    }
-
-    // Check MoFu patterns
-    for (const pattern of patterns.mofu) {
-      try {
-        const regex = new RegExp(pattern, 'i');
-        if (regex.test(keyword)) return 'mofu';
-      } catch (e) {
-        // Invalid regex, skip
-      }
-    }
-
-    // Check BoFu patterns
-    for (const pattern of patterns.bofu) {
-      try {
-        const regex = new RegExp(pattern, 'i');
-        if (regex.test(keyword)) return 'bofu';
-      } catch (e) {
-        // Invalid regex, skip
-      }
-    }
-
-    return 'unknown';
-  };
-
   // Get date range based on selected option
   const getDateRange = (option: string) => {
     const endDate = new Date();
@@ -287,7 +206,7 @@ export default function RankTracker() {
 
   // Fetch keyword data from GSC
   const fetchKeywordData = async () => {
-    if (!getGSCProperty() || !getGSCToken()) {
+    if (!getGSCProperty() || !hasGSCConnection()) {
       setError('Google Search Console not connected');
       setLoading(false);
       return;
@@ -301,7 +220,6 @@ export default function RankTracker() {
         ? getDateRange('12m') 
         : getDateRange(dateRange);
       const gscProperty = getGSCProperty()!;
-      const token = getGSCToken()!;
 
       // Fetch available countries first
       try {
@@ -481,8 +399,8 @@ export default function RankTracker() {
   const handleAddKeyword = async () => {
     if (!newKeyword.trim()) return;
 
-    const keywordType = classifyKeywordType(newKeyword) as 'branded' | 'non-branded';
-    const keywordIntent = classifyKeywordIntent(newKeyword) as 'tofu' | 'mofu' | 'bofu' | 'unknown';
+    const keywordType = classifyKeywordType(newKeyword);
+    const keywordIntent = classifyKeywordIntent(newKeyword);
     
     const success = await trackKeyword(newKeyword.trim(), keywordType, keywordIntent);
     
@@ -0,0 +1,535 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useProject } from '@/contexts/ProjectContext';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertCircle, Columns2, Copy, Eye, Loader2, Search, Trash2 } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { createReportService, REPORT_TEMPLATES } from '@/lib/reportService';
+import { Report, ReportType } from '@/types/aiReports';
+import { useToast } from '@/hooks/use-toast';
+
+const CREATED_RANGE_OPTIONS = [
+  { label: 'Any time', value: 'all' },
+  { label: 'Last 7 days', value: '7' },
+  { label: 'Last 30 days', value: '30' },
+  { label: 'Last 90 days', value: '90' }
+];
+
+interface ReportItem {
+  key: string;
+  clicks?: number;
+  impressions?: number;
+  ctr?: number;
+  position?: number;
+}
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+// Saved report payloads differ per type; pull out the per-page/per-keyword rows they share
+const getReportItems = (report: Report): ReportItem[] => {
+  const data = report.data as unknown;
+  const payload = data as { top_pages?: unknown[]; pages?: unknown[] } | null;
+  const rows = (Array.isArray(data) ? data : (payload?.top_pages || payload?.pages || [])) as Array<Record<string, unknown>>;
+
+  return rows
+    .map(row => ({
+      key: String(row.keyword || row.url || row.page || ''),
+      clicks: toNumber(row.clicks) ?? toNumber(row.currentClicks),
+      impressions: toNumber(row.impressions) ?? toNumber(row.currentImpressions),
+      ctr: toNumber(row.ctr) ?? toNumber(row.currentCtr),
+      position: toNumber(row.position) ?? toNumber(row.currentPosition)
+    }))
+    .filter(item => item.key);
+};
+
+const formatMetric = (value: number | undefined, digits = 0) => (
+  typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: digits }) : '-'
+);
+
+const formatDelta = (current: number | undefined, previous: number | undefined, digits = 0, invert = false) => {
+  if (typeof current !== 'number' || typeof previous !== 'number') return null;
+  const delta = current - previous;
+  if (delta === 0) return <span className="text-gray-500">0</span>;
+  // For position a lower number is better
+  const isImprovement = invert ? delta < 0 : delta > 0;
+  return (
+    <span className={isImprovement ? 'text-green-400' : 'text-red-400'}>
+      {delta > 0 ? '+' : ''}{delta.toFixed(digits)}
+    </span>
+  );
+};
+
+export default function Reports() {
+  const { user } = useAuth();
+  const { subscriptionType } = useSubscription();
+  const { projects } = useProject();
+  const { toast } = useToast();
+
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [propertyFilter, setPropertyFilter] = useState<string>('all');
+  const [createdRange, setCreatedRange] = useState('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [viewReport, setViewReport] = useState<Report | null>(null);
+  const [compareReports, setCompareReports] = useState<[Report, Report] | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+
+  const reportService = useMemo(() => {
+    return user?.id ? createReportService(user.id, subscriptionType || 'free') : null;
+  }, [user?.id, subscriptionType]);
+
+  // Debounce the summary search so each keystroke doesn't hit the database
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchTerm(searchInput), 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadReports = useCallback(async () => {
+    if (!reportService) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const results = await reportService.searchReports({
+        reportType: typeFilter === 'all' ? undefined : typeFilter as ReportType,
+        siteUrl: propertyFilter === 'all' ? undefined : propertyFilter,
+        createdAfter: createdRange === 'all' ? undefined : subDays(new Date(), parseInt(createdRange)).toISOString(),
+        search: searchTerm
+      });
+      setReports(results);
+      setSelectedIds(prev => new Set(Array.from(prev).filter(id => results.some(report => report.id === id))));
+    } catch (err) {
+      console.error('Error loading reports:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [reportService, typeFilter, propertyFilter, createdRange, searchTerm]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const propertyOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    projects.forEach(project => options.set(project.gsc_property, project.name));
+    reports.forEach(report => {
+      if (report.siteUrl && !options.has(report.siteUrl)) {
+        options.set(report.siteUrl, report.siteUrl);
+      }
+    });
+    return Array.from(options.entries()).map(([value, label]) => ({ value, label }));
+  }, [projects, reports]);
+
+  const getPropertyLabel = (siteUrl?: string) => {
+    if (!siteUrl) return 'Unknown property';
+    return projects.find(project => project.gsc_property === siteUrl)?.name || siteUrl;
+  };
+
+  const selectedReports = reports.filter(report => selectedIds.has(report.id));
+  const canCompare = selectedReports.length === 2 && selectedReports[0].reportType === selectedReports[1].reportType;
+
+  const toggleSelected = (reportId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(reportId)) {
+      next.delete(reportId);
+    } else {
+      next.add(reportId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.size === reports.length ? new Set() : new Set(reports.map(report => report.id)));
+  };
+
+  const handleCompare = () => {
+    if (!canCompare) return;
+    // Older run on the left
+    const [a, b] = [...selectedReports].sort((x, y) => x.createdAt.localeCompare(y.createdAt));
+    setCompareReports([a, b]);
+  };
+
+  const handleDuplicate = async (report: Report) => {
+    if (!reportService) return;
+
+    try {
+      setDuplicatingId(report.id);
+      const copy = await reportService.duplicateReport(report.id);
+      setReports(prev => [copy, ...prev]);
+      toast({
+        title: 'Report duplicated',
+        description: `A copy of ${REPORT_TEMPLATES[report.reportType]?.title || report.reportType} was added to your library`,
+      });
+    } catch (err) {
+      console.error('Error duplicating report:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to duplicate report',
+        variant: 'destructive',
+      });
+    } finally {
+      setDuplicatingId(null);
+    }
+  };
+
+  const confirmBulkDelete = async () => {
+    if (!reportService || selectedIds.size === 0) return;
+
+    try {
+      setIsDeleting(true);
+      const ids = Array.from(selectedIds);
+      const results = await Promise.allSettled(ids.map(id => reportService.deleteReport(id)));
+      const deletedIds = ids.filter((_, index) => results[index].status === 'fulfilled');
+      const failedCount = ids.length - deletedIds.length;
+
+      setReports(prev => prev.filter(report => !deletedIds.includes(report.id)));
+      setSelectedIds(new Set(ids.filter(id => !deletedIds.includes(id))));
+
+      if (failedCount > 0) {
+        toast({
+          title: 'Some reports were not deleted',
+          description: `Deleted ${deletedIds.length} of ${ids.length} reports`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Reports deleted',
+          description: `Deleted ${deletedIds.length} reports`,
+        });
+      }
+    } finally {
+      setIsDeleting(false);
+      setDeleteDialogOpen(false);
+    }
+  };
+
+  const comparisonRows = useMemo(() => {
+    if (!compareReports) return [];
+    const [before, after] = compareReports.map(report => new Map(getReportItems(report).map(item => [item.key, item])));
+    const keys = Array.from(new Set([...before.keys(), ...after.keys()]));
+
+    return keys
+      .map(key => ({ key, before: before.get(key), after: after.get(key) }))
+      .sort((a, b) => Math.max(b.after?.impressions || 0, b.before?.impressions || 0)
+        - Math.max(a.after?.impressions || 0, a.before?.impressions || 0));
+  }, [compareReports]);
+
+  return (
+    <DashboardLayout title="Reports" fullScreen={true}>
+      <div className="w-full p-6 space-y-6">
+        {/* Error Alert */}
+        {error && (
+          <Card className="border-red-700 bg-red-900/20">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-red-400">
+                <AlertCircle className="h-5 w-5" />
+                <p>{error}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+            <Input
+              placeholder="Search AI summaries..."
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+              className="w-72 pl-9 bg-gray-800 border-gray-700 text-gray-300"
+            />
+          </div>
+
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-56 bg-gray-800 border-gray-700 text-gray-300">
+              <SelectValue placeholder="Report type" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              <SelectItem value="all" className="hover:bg-gray-700">All report types</SelectItem>
+              {Object.values(REPORT_TEMPLATES).map(template => (
+                <SelectItem key={template.type} value={template.type} className="hover:bg-gray-700">
+                  {template.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+            <SelectTrigger className="w-56 bg-gray-800 border-gray-700 text-gray-300">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              <SelectItem value="all" className="hover:bg-gray-700">All projects</SelectItem>
+              {propertyOptions.map(option => (
+                <SelectItem key={option.value} value={option.value} className="hover:bg-gray-700">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={createdRange} onValueChange={setCreatedRange}>
+            <SelectTrigger className="w-40 bg-gray-800 border-gray-700 text-gray-300">
+              <SelectValue placeholder="Created" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              {CREATED_RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="hover:bg-gray-700">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button
+              variant="outline"
+              onClick={handleCompare}
+              disabled={!canCompare}
+              title={canCompare ? undefined : 'Select two reports of the same type to compare'}
+              className="bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 hover:text-blue-300"
+            >
+              <Columns2 className="h-4 w-4 mr-2" /> Compare
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(true)}
+              disabled={selectedIds.size === 0}
+              className="bg-gray-800 border-gray-700 text-red-400 hover:bg-red-900/20"
+            >
+              <Trash2 className="h-4 w-4 mr-2" /> Delete ({selectedIds.size})
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">Saved Reports</CardTitle>
+            <CardDescription className="text-gray-400">
+              {loading ? 'Loading reports...' : `${reports.length} reports`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-16 text-gray-400">
+                <Loader2 className="h-6 w-6 animate-spin mr-3" /> Loading reports...
+              </div>
+            ) : reports.length === 0 ? (
+              <div className="py-16 text-center text-gray-400">No reports match these filters</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-700 hover:bg-transparent">
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={selectedIds.size === reports.length}
+                        onCheckedChange={toggleSelectAll}
+                      />
+                    </TableHead>
+                    <TableHead className="text-gray-400">Report</TableHead>
+                    <TableHead className="text-gray-400">Project</TableHead>
+                    <TableHead className="text-gray-400">Data Range</TableHead>
+                    <TableHead className="text-gray-400">Created</TableHead>
+                    <TableHead className="text-gray-400">Summary</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map(report => (
+                    <TableRow key={report.id} className="border-gray-700 hover:bg-gray-700/50">
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(report.id)}
+                          onCheckedChange={() => toggleSelected(report.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="border-blue-700 text-blue-300 whitespace-nowrap">
+                          {REPORT_TEMPLATES[report.reportType]?.title || report.reportType}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-gray-300">{getPropertyLabel(report.siteUrl)}</TableCell>
+                      <TableCell className="text-gray-400 whitespace-nowrap">
+                        {report.dateRange ? `${report.dateRange.startDate} – ${report.dateRange.endDate}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-gray-400 whitespace-nowrap">
+                        {format(new Date(report.createdAt), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="text-gray-400 max-w-md truncate" title={report.aiSummary}>
+                        {report.aiSummary}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setViewReport(report)} className="text-gray-400 hover:text-white">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDuplicate(report)}
+                            disabled={duplicatingId === report.id}
+                            className="text-gray-400 hover:text-white"
+                          >
+                            {duplicatingId === report.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Copy className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Report detail */}
+      <Dialog open={!!viewReport} onOpenChange={open => { if (!open) setViewReport(null); }}>
+        <DialogContent className="max-w-3xl bg-gray-800 border-gray-700 text-white">
+          {viewReport && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{REPORT_TEMPLATES[viewReport.reportType]?.title || viewReport.reportType}</DialogTitle>
+                <DialogDescription className="text-gray-400">
+                  {getPropertyLabel(viewReport.siteUrl)} · {viewReport.dateRange?.startDate} – {viewReport.dateRange?.endDate}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[60vh] overflow-y-auto space-y-4">
+                <p className="text-gray-300 whitespace-pre-wrap">{viewReport.aiSummary}</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-700 hover:bg-transparent">
+                      <TableHead className="text-gray-400">Page / Keyword</TableHead>
+                      <TableHead className="text-gray-400 text-right">Clicks</TableHead>
+                      <TableHead className="text-gray-400 text-right">Impressions</TableHead>
+                      <TableHead className="text-gray-400 text-right">Position</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {getReportItems(viewReport).map(item => (
+                      <TableRow key={item.key} className="border-gray-700">
+                        <TableCell className="text-gray-300 max-w-sm truncate" title={item.key}>{item.key}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(item.clicks)}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(item.impressions)}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(item.position, 1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Side-by-side comparison */}
+      <Dialog open={!!compareReports} onOpenChange={open => { if (!open) setCompareReports(null); }}>
+        <DialogContent className="max-w-6xl bg-gray-800 border-gray-700 text-white">
+          {compareReports && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Compare {REPORT_TEMPLATES[compareReports[0].reportType]?.title || compareReports[0].reportType}</DialogTitle>
+                <DialogDescription className="text-gray-400">
+                  Earlier run on the left, later run on the right
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[70vh] overflow-y-auto space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {compareReports.map(report => (
+                    <div key={report.id} className="rounded-lg bg-gray-900/60 p-4 space-y-2">
+                      <p className="text-sm text-gray-400">
+                        {getPropertyLabel(report.siteUrl)} · {report.dateRange?.startDate} – {report.dateRange?.endDate}
+                      </p>
+                      <p className="text-xs text-gray-500">Created {format(new Date(report.createdAt), 'MMM d, yyyy HH:mm')}</p>
+                      <p className="text-gray-300 text-sm whitespace-pre-wrap">{report.aiSummary}</p>
+                    </div>
+                  ))}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-700 hover:bg-transparent">
+                      <TableHead className="text-gray-400">Page / Keyword</TableHead>
+                      <TableHead className="text-gray-400 text-right">Clicks (A)</TableHead>
+                      <TableHead className="text-gray-400 text-right">Clicks (B)</TableHead>
+                      <TableHead className="text-gray-400 text-right">Δ Clicks</TableHead>
+                      <TableHead className="text-gray-400 text-right">Position (A)</TableHead>
+                      <TableHead className="text-gray-400 text-right">Position (B)</TableHead>
+                      <TableHead className="text-gray-400 text-right">Δ Position</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparisonRows.map(row => (
+                      <TableRow key={row.key} className="border-gray-700">
+                        <TableCell className="text-gray-300 max-w-sm truncate" title={row.key}>
+                          {row.key}
+                          {!row.before && <Badge className="ml-2 bg-green-900/40 text-green-400">new</Badge>}
+                          {!row.after && <Badge className="ml-2 bg-gray-700 text-gray-400">dropped</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(row.before?.clicks)}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(row.after?.clicks)}</TableCell>
+                        <TableCell className="text-right">{formatDelta(row.after?.clicks, row.before?.clicks)}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(row.before?.position, 1)}</TableCell>
+                        <TableCell className="text-right text-gray-300">{formatMetric(row.after?.position, 1)}</TableCell>
+                        <TableCell className="text-right">{formatDelta(row.after?.position, row.before?.position, 1, true)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent className="bg-gray-800 border-gray-700">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">Delete Reports</AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-400">
+              Are you sure you want to delete {selectedIds.size} selected reports? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="text-gray-300 border-gray-600 hover:bg-gray-700">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmBulkDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -11,29 +11,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
-import { AlertCircle, Check, Copy, Globe, RefreshCw, Save, ShieldCheck, User, Activity, Crown, FileText, Settings as SettingsIcon, Calendar, Key, Plus, Trash2, Tag, CheckCircle, Star, Zap, Infinity, Bell as AlertTriangle, X, Search, ChevronDown } from 'lucide-react';
+import { AlertCircle, Check, Copy, Globe, RefreshCw, Save, ShieldCheck, User, Activity, Crown, FileText, Settings as SettingsIcon, Calendar, Key, Tag, CheckCircle, Star, Zap, Infinity, Bell as AlertTriangle, X, Search, ChevronDown, Link2, FileSpreadsheet, Database } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { gscService } from '@/lib/gscService';
 import { useToast } from '@/hooks/use-toast';
-import { GoogleAuthService } from '@/lib/googleAuthService';
+import { GoogleAuthService, hasGSCConnection } from '@/lib/googleAuthService';
 import { supabase } from '@/lib/supabaseClient';
 import { lemonSqueezyService } from '@/lib/lemonSqueezyService';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useTabVisibility } from '@/hooks/useTabVisibility';
-
-interface BrandedKeywordRule {
-  id: string;
-  type: 'contains' | 'starts_with' | 'ends_with' | 'exact_match';
-  value: string;
-}
-
-interface KeywordCategoryPatterns {
-  tofu: string[];
-  mofu: string[];
-  bofu: string[];
-}
+import { SharedLinksSettings } from '@/components/SharedLinksSettings';
+import { NotificationSettings } from '@/components/NotificationSettings';
+import { AIProviderSettings } from '@/components/AIProviderSettings';
+import { KeywordRulesSettings } from '@/components/KeywordRulesSettings';
+import { KeywordIntentReview } from '@/components/KeywordIntentReview';
+import { SheetsRefreshSettings } from '@/components/SheetsRefreshSettings';
+import { GSCExportSettings } from '@/components/GSCExportSettings';
 
 interface UserInstallation {
   id: string;
@@ -130,14 +124,6 @@ export default function Settings() {
   // Use the data exports hook
   const { stats: exportStats } = useDataExports();
 
-  // Notification settings
-  const [notifications, setNotifications] = useState({
-    emailNotifications: true,
-    weeklyReports: false,
-    rankingAlerts: true,
-    systemUpdates: true
-  });
-
   // Account settings state
   const [accountSettings, setAccountSettings] = useState({
     name: '',
@@ -145,31 +131,15 @@ export default function Settings() {
     marketingEmails: true
   });
 
-  // Branded keyword rules state
-  const [brandedRules, setBrandedRules] = useState<BrandedKeywordRule[]>([]);
-  const [newRule, setNewRule] = useState<Partial<BrandedKeywordRule>>({
-    type: 'contains',
-    value: ''
-  });
-
-  // Keyword category patterns state
-  const [categoryPatterns, setCategoryPatterns] = useState<KeywordCategoryPatterns>({
-    tofu: [],
-    mofu: [],
-    bofu: []
-  });
-  const [newPatterns, setNewPatterns] = useState({
-    tofu: '',
-    mofu: '',
-    bofu: ''
-  });
-
   // Get the current tab from the URL or default to subscription
   const getCurrentTab = () => {
     const path = location.pathname;
     if (path.includes('googlesearchconsole')) return 'gsc';
     if (path.includes('accountsettings')) return 'account';
     if (path.includes('notifications')) return 'notifications';
+    if (path.includes('sharedlinks')) return 'shared-links';
+    if (path.includes('scheduledexports')) return 'scheduled-exports';
+    if (path.includes('rawdata')) return 'raw-data';
     if (path.includes('keywordstype')) return 'keywords-type';
     if (path.includes('keywordscategory')) return 'keywords-category';
     return 'subscription'; // Default tab
@@ -190,6 +160,15 @@ export default function Settings() {
       case 'notifications':
         navigate('/settings/notifications');
         break;
+      case 'shared-links':
+        navigate('/settings/sharedlinks');
+        break;
+      case 'scheduled-exports':
+        navigate('/settings/scheduledexports');
+        break;
+      case 'raw-data':
+        navigate('/settings/rawdata');
+        break;
       case 'keywords-type':
         navigate('/settings/keywordstype');
         break;
@@ -281,8 +260,7 @@ export default function Settings() {
       
       // Show success toast and fetch properties
       setTimeout(async () => {
-        const token = localStorage.getItem('gsc_token');
-        if (token) {
+        if (hasGSCConnection()) {
           toast({
             title: "Google Search Console Connected",
             description: "Your account has been successfully connected. Loading your properties...",
@@ -325,12 +303,6 @@ export default function Settings() {
       }, 1000);
     }
     
-    // Load other settings from localStorage
-    const savedNotifications = localStorage.getItem('notification_settings');
-    if (savedNotifications) {
-      setNotifications(JSON.parse(savedNotifications));
-    }
-    
     // Load GSC properties and settings
     const fetchSettings = async () => {
       try {
@@ -371,18 +343,6 @@ export default function Settings() {
           setLastSyncDate(lastSync);
         }
 
-        // Load branded keyword rules
-        const savedRules = localStorage.getItem('branded_keyword_rules');
-        if (savedRules) {
-          setBrandedRules(JSON.parse(savedRules));
-        }
-
-        // Load keyword category patterns
-        const savedPatterns = localStorage.getItem('keyword_category_patterns');
-        if (savedPatterns) {
-          setCategoryPatterns(JSON.parse(savedPatterns));
-        }
-
       } catch (error) {
         console.error('Error fetching GSC properties:', error);
         toast({
@@ -570,14 +530,6 @@ export default function Settings() {
     }
   };
 
-  const handleSaveNotifications = () => {
-    localStorage.setItem('notification_settings', JSON.stringify(notifications));
-    toast({
-      title: 'Success',
-      description: 'Notification settings saved successfully.',
-    });
-  };
-
   // Save account settings
   const handleSaveAccountSettings = async () => {
     console.log('🔄 handleSaveAccountSettings called');
@@ -769,7 +721,7 @@ export default function Settings() {
       const startDate = format(subDays(new Date(), 30), 'yyyy-MM-dd');
 
       // Sync GSC data
-      await gscService.syncGSCData(startDate, endDate);
+      await gscService.syncGSCData(startDate, endDate, selectedProperty);
 
       // Update last sync date
       const now = new Date().toISOString();
@@ -817,103 +769,6 @@ export default function Settings() {
 
                 const isConnected = isGSCConnected;
 
-  // Branded keyword rules functions
-  const addBrandedRule = () => {
-    if (!newRule.value || !newRule.type) {
-      toast({
-        title: 'Error',
-        description: 'Please provide both rule type and value',
-        variant: 'destructive'
-      });
-      return;
-    }
-
-    const rule: BrandedKeywordRule = {
-      id: Date.now().toString(),
-      type: newRule.type as BrandedKeywordRule['type'],
-      value: newRule.value
-    };
-
-    const updatedRules = [...brandedRules, rule];
-    setBrandedRules(updatedRules);
-    localStorage.setItem('branded_keyword_rules', JSON.stringify(updatedRules));
-
-    setNewRule({ type: 'contains', value: '' });
-
-    toast({
-      title: 'Success',
-      description: 'Branded keyword rule added successfully',
-      variant: 'default'
-    });
-  };
-
-  const removeBrandedRule = (id: string) => {
-    const updatedRules = brandedRules.filter(rule => rule.id !== id);
-    setBrandedRules(updatedRules);
-    localStorage.setItem('branded_keyword_rules', JSON.stringify(updatedRules));
-
-    toast({
-      title: 'Success',
-      description: 'Branded keyword rule removed',
-      variant: 'default'
-    });
-  };
-
-  // Keyword category pattern functions
-  const saveCategoryPatterns = () => {
-    try {
-      const patterns = {
-        tofu: newPatterns.tofu.split('\n').filter(p => p.trim() !== ''),
-        mofu: newPatterns.mofu.split('\n').filter(p => p.trim() !== ''),
-        bofu: newPatterns.bofu.split('\n').filter(p => p.trim() !== '')
-      };
-
-      // Validate regex patterns
-      for (const category of ['tofu', 'mofu', 'bofu'] as const) {
-        for (const pattern of patterns[category]) {
-          try {
-            new RegExp(pattern);
-          } catch (e) {
-            toast({
-              title: 'Invalid Regex',
-              description: `Invalid regex pattern in ${category.toUpperCase()}: ${pattern}`,
-              variant: 'destructive'
-            });
-            return;
-          }
-        }
-      }
-
-      setCategoryPatterns(patterns);
-      localStorage.setItem('keyword_category_patterns', JSON.stringify(patterns));
-
-      toast({
-        title: 'Success',
-        description: 'Keyword category patterns saved successfully',
-        variant: 'default'
-      });
-    } catch (error: unknown) {
-      toast({
-        title: 'Error',
-        description: 'Failed to save category patterns',
-        variant: 'destructive'
-      });
-    }
-  };
-
-  const loadPatternsToEditor = () => {
-    setNewPatterns({
-      tofu: categoryPatterns.tofu.join('\n'),
-      mofu: categoryPatterns.mofu.join('\n'),
-      bofu: categoryPatterns.bofu.join('\n')
-    });
-  };
-
-  // Load patterns to editor when component mounts or patterns change
-  useEffect(() => {
-    loadPatternsToEditor();
-  }, [categoryPatterns]);
-
   // Usage statistics (derived from real-time data)
   const getUsageStats = () => {
     const apiCalls = userInstallation?.usage_count || 0;
@@ -1089,6 +944,27 @@ export default function Settings() {
                   <AlertTriangle className="w-4 h-4" />
                   Notifications
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="shared-links" 
+                  className="data-[state=active]:bg-blue-900/30 data-[state=active]:text-blue-400 text-gray-300 flex items-center gap-2"
+                >
+                  <Link2 className="w-4 h-4" />
+                  Shared Links
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="scheduled-exports" 
+                  className="data-[state=active]:bg-blue-900/30 data-[state=active]:text-blue-400 text-gray-300 flex items-center gap-2"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  Scheduled Exports
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="raw-data" 
+                  className="data-[state=active]:bg-blue-900/30 data-[state=active]:text-blue-400 text-gray-300 flex items-center gap-2"
+                >
+                  <Database className="w-4 h-4" />
+                  Raw Data
+                </TabsTrigger>
                 <TabsTrigger 
                   value="keywords-type" 
                   className="data-[state=active]:bg-blue-900/30 data-[state=active]:text-blue-400 text-gray-300 flex items-center gap-2"
@@ -1662,399 +1538,39 @@ export default function Settings() {
                   </Button>
                 </CardFooter>
               </Card>
+
+              <AIProviderSettings />
             </TabsContent>
 
             {/* Notifications Tab */}
             <TabsContent value="notifications" className="space-y-4">
-              <Card className="bg-gray-800 border-gray-700 relative">
-                {/* Coming Soon Overlay */}
-                <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm rounded-lg flex items-center justify-center z-10">
-                  <div className="text-center p-8">
-                    <div className="w-16 h-16 mx-auto mb-4 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-                      <AlertTriangle className="w-8 h-8 text-white" />
-                    </div>
-                    <h3 className="text-2xl font-bold text-white mb-2">Coming Soon</h3>
-                    <p className="text-gray-400 text-lg">
-                      Notification settings are currently under development
-                    </p>
-                    <p className="text-gray-500 text-sm mt-2">
-                      This feature will be available in a future update
-                    </p>
-                  </div>
-                </div>
-
-                <CardHeader>
-                  <CardTitle className="text-white">Notification Settings</CardTitle>
-                  <CardDescription className="text-gray-400">
-                    Configure how and when you receive notifications
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center justify-between py-2">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="rank-changes" className="text-gray-300">Ranking Changes</Label>
-                      <p className="text-sm text-gray-400">
-                        Get notified when your keywords change positions
-                      </p>
-                    </div>
-                    <Switch id="rank-changes" defaultChecked disabled />
-                  </div>
-                  <div className="flex items-center justify-between py-2">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="new-keywords" className="text-gray-300">New Keywords</Label>
-                      <p className="text-sm text-gray-400">
-                        Get notified when new keywords are found
-                      </p>
-                    </div>
-                    <Switch id="new-keywords" defaultChecked disabled />
-                  </div>
-                  <div className="flex items-center justify-between py-2">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="weekly-report" className="text-gray-300">Weekly Report</Label>
-                      <p className="text-sm text-gray-400">
-                        Receive a weekly summary of your performance
-                      </p>
-                    </div>
-                    <Switch id="weekly-report" defaultChecked disabled />
-                  </div>
-                </CardContent>
-                <CardFooter>
-                  <Button className="ml-auto bg-blue-600 hover:bg-blue-700" disabled>Save Preferences</Button>
-                </CardFooter>
-              </Card>
+              <NotificationSettings />
             </TabsContent>
 
-            {/* Keywords Type Tab */}
-            <TabsContent value="keywords-type" className="space-y-4">
-              <Card className="bg-gray-800 border-gray-700">
-                <CardHeader>
-                  <CardTitle className="text-white flex items-center gap-2">
-                    <Tag className="h-5 w-5" />
-                    Branded Keywords Classification
-                  </CardTitle>
-                  <CardDescription className="text-gray-400">
-                    Define rules to automatically classify keywords as branded or non-branded. Keywords are evaluated in order and the first matching rule applies.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {/* Add New Rule Section */}
-                  <div className="space-y-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700">
-                    <h3 className="text-lg font-medium text-white">Add New Rule</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="rule-type" className="text-gray-300">Rule Type</Label>
-                        <Select
-                          value={newRule.type}
-                          onValueChange={(value) => setNewRule(prev => ({ ...prev, type: value as BrandedKeywordRule['type'] }))}
-                        >
-                          <SelectTrigger id="rule-type" className="bg-gray-700 border-gray-600 text-white focus:ring-blue-500 focus:border-blue-500">
-                            <SelectValue placeholder="Select rule type" />
-                          </SelectTrigger>
-                          <SelectContent className="bg-gray-700 border-gray-600 text-white">
-                            <SelectItem value="contains" className="text-white focus:bg-gray-600 focus:text-white">Contains</SelectItem>
-                            <SelectItem value="starts_with" className="text-white focus:bg-gray-600 focus:text-white">Starts with</SelectItem>
-                            <SelectItem value="ends_with" className="text-white focus:bg-gray-600 focus:text-white">Ends with</SelectItem>
-                            <SelectItem value="exact_match" className="text-white focus:bg-gray-600 focus:text-white">Exact match</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="rule-value" className="text-gray-300">Value</Label>
-                        <Input
-                          id="rule-value"
-                          value={newRule.value || ''}
-                          onChange={(e) => setNewRule(prev => ({ ...prev, value: e.target.value }))}
-                          placeholder="Enter keyword or phrase"
-                          className="bg-gray-700 border-gray-600 text-white focus:ring-blue-500 focus:border-blue-500"
-                        />
-                      </div>
+            {/* Shared Links Tab */}
+            <TabsContent value="shared-links" className="space-y-4">
+              <SharedLinksSettings />
+            </TabsContent>
 
-                      <div className="flex items-end">
-                        <Button
-                          onClick={addBrandedRule}
-                          className="w-full bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
-                        >
-                          <Plus className="h-4 w-4" />
-                          Add Rule
-                        </Button>
-                      </div>
-                    </div>
+            {/* Scheduled Exports Tab */}
+            <TabsContent value="scheduled-exports" className="space-y-4">
+              <SheetsRefreshSettings />
+            </TabsContent>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 p-3 bg-gray-800 rounded border border-gray-600">
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-300 mb-2">Rule Types Explained:</h4>
-                        <ul className="text-xs text-gray-400 space-y-1">
-                          <li><strong>Contains:</strong> Keyword contains the specified text</li>
-                          <li><strong>Starts with:</strong> Keyword begins with the specified text</li>
-                          <li><strong>Ends with:</strong> Keyword ends with the specified text</li>
-                          <li><strong>Exact match:</strong> Keyword matches exactly</li>
-                        </ul>
-                      </div>
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-300 mb-2">Examples:</h4>
-                        <ul className="text-xs text-gray-400 space-y-1">
-                          <li><strong>Contains "datapulsify":</strong> "datapulsify dashboard", "best datapulsify"</li>
-                          <li><strong>Starts with "your brand":</strong> "your brand features"</li>
-                          <li><strong>Ends with "login":</strong> "datapulsify login"</li>
-                          <li><strong>Exact "brand name":</strong> only "brand name"</li>
-                        </ul>
-                      </div>
-                    </div>
-                  </div>
+            {/* Raw Data Export Tab */}
+            <TabsContent value="raw-data" className="space-y-4">
+              <GSCExportSettings />
+            </TabsContent>
 
-                  {/* Current Rules */}
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-medium text-white flex items-center justify-between">
-                      Current Rules
-                      <Badge variant="outline" className="text-gray-300 border-gray-600">
-                        {brandedRules.length} rules
-                      </Badge>
-                    </h3>
-
-                    {brandedRules.length === 0 ? (
-                      <div className="p-6 text-center bg-gray-900/50 rounded-lg border border-gray-700">
-                        <Tag className="h-12 w-12 mx-auto mb-3 text-gray-500" />
-                        <p className="text-gray-400">No branded keyword rules defined yet.</p>
-                        <p className="text-sm text-gray-500 mt-1">Add rules above to automatically classify keywords as branded.</p>
-                      </div>
-                    ) : (
-                      <div className="space-y-2">
-                        {brandedRules.map((rule, index) => (
-                          <div key={rule.id} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg border border-gray-700">
-                            <div className="flex items-center gap-3">
-                              <Badge variant="outline" className="text-xs bg-blue-900/30 text-blue-400 border-blue-700">
-                                #{index + 1}
-                              </Badge>
-                              <div className="text-sm">
-                                <span className="text-gray-300">If keyword </span>
-                                <Badge variant="secondary" className="mx-1 bg-purple-900/30 text-purple-400 border-purple-700">
-                                  {rule.type.replace('_', ' ')}
-                                </Badge>
-                                <span className="text-gray-300">" "</span>
-                                <span className="text-white font-medium">{rule.value}</span>
-                                <span className="text-gray-300">" → </span>
-                                <span className="text-blue-400 font-medium">Branded</span>
-                              </div>
-                            </div>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => removeBrandedRule(rule.id)}
-                              className="text-red-400 hover:text-red-300 hover:bg-red-950/30 border-red-700"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
+            {/* Keywords Type Tab */}
+            <TabsContent value="keywords-type" className="space-y-4">
+              <KeywordRulesSettings scope="branded" />
             </TabsContent>
 
             {/* Keywords Category Tab */}
             <TabsContent value="keywords-category" className="space-y-4">
-              <Card className="bg-gray-800 border-gray-700">
-                <CardHeader>
-                  <CardTitle className="text-white flex items-center gap-2">
-                    <Activity className="h-5 w-5" />
-                    Keyword Funnel Classification
-                  </CardTitle>
-                  <CardDescription className="text-gray-400">
-                    Define regex patterns to automatically classify keywords by funnel stage: ToFu (Top of Funnel), MoFu (Middle of Funnel), and BoFu (Bottom of Funnel). Each pattern should be on a new line.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {/* Pattern Editors */}
-                  <div className="grid gap-6">
-                    {/* ToFu Patterns */}
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label htmlFor="tofu-patterns" className="text-lg font-medium text-green-400 flex items-center gap-2">
-                          <Badge variant="outline" className="bg-green-900/30 text-green-400 border-green-700">ToFu</Badge>
-                          Top of Funnel Patterns
-                        </Label>
-                        <Badge variant="outline" className="text-gray-300 border-gray-600">
-                          {categoryPatterns.tofu.length} patterns
-                        </Badge>
-                      </div>
-                      <Textarea
-                        id="tofu-patterns"
-                        value={newPatterns.tofu}
-                        onChange={(e) => setNewPatterns(prev => ({ ...prev, tofu: e.target.value }))}
-                        placeholder="Enter regex patterns, one per line&#10;Examples:&#10;^what.*is&#10;.*tutorial.*&#10;how.*to.*&#10;.*guide.*"
-                        className="bg-gray-700 border-gray-600 text-white focus:ring-green-500 focus:border-green-500 min-h-[120px] font-mono text-sm"
-                      />
-                      <p className="text-xs text-gray-400">
-                        ToFu keywords indicate awareness stage - users learning about problems/solutions.
-                      </p>
-                    </div>
-
-                    {/* MoFu Patterns */}
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label htmlFor="mofu-patterns" className="text-lg font-medium text-yellow-400 flex items-center gap-2">
-                          <Badge variant="outline" className="bg-yellow-900/30 text-yellow-400 border-yellow-700">MoFu</Badge>
-                          Middle of Funnel Patterns
-                        </Label>
-                        <Badge variant="outline" className="text-gray-300 border-gray-600">
-                          {categoryPatterns.mofu.length} patterns
-                        </Badge>
-                      </div>
-                      <Textarea
-                        id="mofu-patterns"
-                        value={newPatterns.mofu}
-                        onChange={(e) => setNewPatterns(prev => ({ ...prev, mofu: e.target.value }))}
-                        placeholder="Enter regex patterns, one per line&#10;Examples:&#10;.*comparison.*&#10;.*vs.*&#10;.*review.*&#10;.*features.*"
-                        className="bg-gray-700 border-gray-600 text-white focus:ring-yellow-500 focus:border-yellow-500 min-h-[120px] font-mono text-sm"
-                      />
-                      <p className="text-xs text-gray-400">
-                        MoFu keywords indicate consideration stage - users evaluating options.
-                      </p>
-                    </div>
-
-                    {/* BoFu Patterns */}
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label htmlFor="bofu-patterns" className="text-lg font-medium text-red-400 flex items-center gap-2">
-                          <Badge variant="outline" className="bg-red-900/30 text-red-400 border-red-700">BoFu</Badge>
-                          Bottom of Funnel Patterns
-                        </Label>
-                        <Badge variant="outline" className="text-gray-300 border-gray-600">
-                          {categoryPatterns.bofu.length} patterns
-                        </Badge>
-                      </div>
-                      <Textarea
-                        id="bofu-patterns"
-                        value={newPatterns.bofu}
-                        onChange={(e) => setNewPatterns(prev => ({ ...prev, bofu: e.target.value }))}
-                        placeholder="Enter regex patterns, one per line&#10;Examples:&#10;.*buy.*&#10;.*price.*&#10;.*pricing.*&#10;.*purchase.*&#10;.*order.*"
-                        className="bg-gray-700 border-gray-600 text-white focus:ring-red-500 focus:border-red-500 min-h-[120px] font-mono text-sm"
-                      />
-                      <p className="text-xs text-gray-400">
-                        BoFu keywords indicate decision stage - users ready to purchase/convert.
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Pattern Examples and Tips */}
-                  <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
-                    <h4 className="text-sm font-medium text-gray-300 mb-3">Regex Pattern Examples:</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
-                      <div>
-                        <h5 className="font-medium text-green-400 mb-2">ToFu Examples:</h5>
-                        <ul className="text-gray-400 space-y-1 font-mono">
-                          <li>^what.*is</li>
-                          <li>.*tutorial.*</li>
-                          <li>how.*to.*</li>
-                          <li>.*guide.*</li>
-                          <li>.*tips.*</li>
-                        </ul>
-                      </div>
-                      <div>
-                        <h5 className="font-medium text-yellow-400 mb-2">MoFu Examples:</h5>
-                        <ul className="text-gray-400 space-y-1 font-mono">
-                          <li>.*comparison.*</li>
-                          <li>.*vs.*</li>
-                          <li>.*review.*</li>
-                          <li>.*features.*</li>
-                          <li>.*alternative.*</li>
-                        </ul>
-                      </div>
-                      <div>
-                        <h5 className="font-medium text-red-400 mb-2">BoFu Examples:</h5>
-                        <ul className="text-gray-400 space-y-1 font-mono">
-                          <li>.*buy.*</li>
-                          <li>.*price.*</li>
-                          <li>.*pricing.*</li>
-                          <li>.*purchase.*</li>
-                          <li>.*discount.*</li>
-                        </ul>
-                      </div>
-                    </div>
-                    <div className="mt-4 p-3 bg-blue-900/20 border border-blue-700 rounded text-xs">
-                      <p className="text-blue-300">
-                        <strong>Tip:</strong> Use <code>.*</code> to match any characters, <code>^</code> for start of string, <code>$</code> for end of string.
-                        Keywords are matched case-insensitively. Test your patterns carefully!
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Action Buttons */}
-                  <div className="flex gap-3">
-                    <Button
-                      onClick={saveCategoryPatterns}
-                      className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
-                    >
-                      <Save className="h-4 w-4" />
-                      Save Patterns
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={loadPatternsToEditor}
-                      className="bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white"
-                    >
-                      <RefreshCw className="h-4 w-4" />
-                      Reset to Saved
-                    </Button>
-                  </div>
-
-                  {/* Current Patterns Summary */}
-                  {(categoryPatterns.tofu.length > 0 || categoryPatterns.mofu.length > 0 || categoryPatterns.bofu.length > 0) && (
-                    <div className="space-y-3">
-                      <h3 className="text-lg font-medium text-white">Active Patterns Summary</h3>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                        <div className="p-3 bg-green-900/20 border border-green-700 rounded">
-                          <h4 className="text-green-400 font-medium mb-2 flex items-center gap-2">
-                            <Badge variant="outline" className="bg-green-900/30 text-green-400 border-green-700 text-xs">ToFu</Badge>
-                            {categoryPatterns.tofu.length} patterns
-                          </h4>
-                          {categoryPatterns.tofu.slice(0, 3).map((pattern, index) => (
-                            <code key={index} className="block text-xs text-green-300 font-mono mb-1 truncate">
-                              {pattern}
-                            </code>
-                          ))}
-                          {categoryPatterns.tofu.length > 3 && (
-                            <p className="text-xs text-green-400">+{categoryPatterns.tofu.length - 3} more...</p>
-                          )}
-                        </div>
-
-                        <div className="p-3 bg-yellow-900/20 border border-yellow-700 rounded">
-                          <h4 className="text-yellow-400 font-medium mb-2 flex items-center gap-2">
-                            <Badge variant="outline" className="bg-yellow-900/30 text-yellow-400 border-yellow-700 text-xs">MoFu</Badge>
-                            {categoryPatterns.mofu.length} patterns
-                          </h4>
-                          {categoryPatterns.mofu.slice(0, 3).map((pattern, index) => (
-                            <code key={index} className="block text-xs text-yellow-300 font-mono mb-1 truncate">
-                              {pattern}
-                            </code>
-                          ))}
-                          {categoryPatterns.mofu.length > 3 && (
-                            <p className="text-xs text-yellow-400">+{categoryPatterns.mofu.length - 3} more...</p>
-                          )}
-                        </div>
-
-                        <div className="p-3 bg-red-900/20 border border-red-700 rounded">
-                          <h4 className="text-red-400 font-medium mb-2 flex items-center gap-2">
-                            <Badge variant="outline" className="bg-red-900/30 text-red-400 border-red-700 text-xs">BoFu</Badge>
-                            {categoryPatterns.bofu.length} patterns
-                          </h4>
-                          {categoryPatterns.bofu.slice(0, 3).map((pattern, index) => (
-                            <code key={index} className="block text-xs text-red-300 font-mono mb-1 truncate">
-                              {pattern}
-                            </code>
-                          ))}
-                          {categoryPatterns.bofu.length > 3 && (
-                            <p className="text-xs text-red-400">+{categoryPatterns.bofu.length - 3} more...</p>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+              <KeywordRulesSettings scope="funnel" />
+              <KeywordIntentReview />
             </TabsContent>
           </Tabs>
         </div>
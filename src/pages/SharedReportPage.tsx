@@ -1,12 +1,13 @@
-import { useEffect, useState } from 'react';
+import { FormEvent, useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { ReadOnlyDashboardMetrics } from '@/components/ReadOnlyDashboardMetrics';
 import { ReadOnlyPerformanceTrend } from '@/components/ReadOnlyPerformanceTrend';
+import { ReadOnlyRankTracker } from '@/components/ReadOnlyRankTracker';
+import { ReadOnlyRankingDistribution } from '@/components/ReadOnlyRankingDistribution';
+import { ReadOnlyTopTable } from '@/components/ReadOnlyTopTable';
 import { formatGSCPropertyUrl } from '@/lib/utils';
-// Import your actual dashboard components or simplified read-only versions
-// e.g., import { ReadOnlyDashboardMetrics } from '@/components/ReadOnlyDashboardMetrics';
-// e.g., import { ReadOnlyRankTrackerView } from '@/components/ReadOnlyRankTrackerView';
+import { SharedKeywordAnalysis, SharedRankTracker } from '@/lib/sharedReportData';
 
 interface SharedReportFilters {
   dateRange: { startDate: string; endDate: string };
@@ -28,6 +29,7 @@ interface SharedReportConfig {
   components: string[];
   filters: SharedReportFilters;
   created_at: string;
+  isLive?: boolean;
   gscData: {
     metrics: {
       totalClicks: number;
@@ -46,14 +48,29 @@ interface SharedReportConfig {
       ctr: number[];
       position: number[];
     };
+    // Live links only: 'stored_rows' when some totals had to be summed over the owner's stored rows
+    totalsSource?: 'property' | 'stored_rows';
+    // Only present when the section was selected; links created before these existed lack them
+    rankTracker?: SharedRankTracker;
+    keywordAnalysis?: SharedKeywordAnalysis;
   };
 }
 
+const MissingSectionNotice = () => (
+  <div className="p-6 border border-gray-700 rounded-lg bg-gray-800/50 text-center">
+    <p className="text-gray-400">This section has no data. Ask the report owner to generate a new share link.</p>
+  </div>
+);
+
 const SharedReportPage = () => {
   const { token } = useParams<{ token: string }>();
   const [reportConfig, setReportConfig] = useState<SharedReportConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [password, setPassword] = useState<string | null>(null);
 
   useEffect(() => {
     if (!token) {
@@ -78,13 +95,25 @@ const SharedReportPage = () => {
             'Content-Type': 'application/json',
             'Accept': 'application/json',
             'apikey': anonKey,
-            'Authorization': `Bearer ${anonKey}`
+            'Authorization': `Bearer ${anonKey}`,
+            ...(password ? { 'X-Share-Password': password } : {})
           },
         });
 
         if (!response.ok) {
-          if (response.status === 404) {
+          if (response.status === 401) {
+            const errorData = await response.json().catch(() => null);
+            if (errorData?.passwordRequired) {
+              setPasswordRequired(true);
+              setPasswordError(password ? errorData.error || 'Incorrect password.' : null);
+              return;
+            }
+            throw new Error(errorData?.error || 'You are not allowed to view this shared report.');
+          } else if (response.status === 404) {
             throw new Error('This shared report link has expired or is no longer available.');
+          } else if (response.status === 410) {
+            const errorData = await response.json().catch(() => null);
+            throw new Error(errorData?.error || 'This shared report link is no longer available.');
           } else {
             const errorData = await response.json().catch(() => null);
             throw new Error(errorData?.error || 'Failed to load the shared report. Please try again later.');
@@ -110,6 +139,7 @@ const SharedReportPage = () => {
           throw new Error('The shared report has incomplete GSC data.');
         }
 
+        setPasswordRequired(false);
         setReportConfig({
           ...data,
           gscProperty: data.gscProperty
@@ -125,7 +155,13 @@ const SharedReportPage = () => {
     };
 
     fetchReportConfig();
-  }, [token]);
+  }, [token, password]);
+
+  const handlePasswordSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!passwordInput) return;
+    setPassword(passwordInput);
+  };
 
   if (loading) {
     return (
@@ -138,6 +174,29 @@ const SharedReportPage = () => {
     );
   }
 
+  if (passwordRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-[#0f1115] to-gray-900 flex items-center justify-center text-white">
+        <form onSubmit={handlePasswordSubmit} className="p-8 bg-gray-800/50 border border-gray-700 rounded-lg w-full max-w-sm space-y-4">
+          <h1 className="text-2xl font-bold">Password Required</h1>
+          <p className="text-gray-400 text-sm">This shared report is password protected. Enter the password you were given to view it.</p>
+          <input
+            type="password"
+            value={passwordInput}
+            onChange={e => setPasswordInput(e.target.value)}
+            autoFocus
+            className="w-full px-3 py-2 rounded-md bg-gray-900 border border-gray-700 text-white focus:outline-none focus:border-blue-500"
+            placeholder="Password"
+          />
+          {passwordError && <p className="text-sm text-red-400">{passwordError}</p>}
+          <button type="submit" className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium">
+            View Report
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-[#0f1115] to-gray-900 flex items-center justify-center text-white">
@@ -169,7 +228,13 @@ const SharedReportPage = () => {
         <header className="mb-8 text-center">
           <h1 className="text-4xl font-bold mb-2">Shared Report</h1>
           <p className="text-lg text-gray-400">Viewing data for: <span className="font-semibold text-blue-400">{formattedGscProperty}</span></p>
-          <p className="text-xs text-gray-500 mt-1">Generated: {new Date(reportConfig.created_at).toLocaleString()}</p>
+          {reportConfig.isLive ? (
+            <p className="text-xs text-gray-500 mt-1">
+              Live data: {reportConfig.filters.dateRange.startDate} – {reportConfig.filters.dateRange.endDate}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500 mt-1">Generated: {new Date(reportConfig.created_at).toLocaleString()}</p>
+          )}
         </header>
 
         <div className="space-y-8">
@@ -188,6 +253,12 @@ const SharedReportPage = () => {
                     gscProperty={formattedGscProperty}
                     metrics={reportConfig.gscData.metrics}
                   />
+                  {reportConfig.gscData.totalsSource === 'stored_rows' && (
+                    <p className="text-xs text-gray-500">
+                      Totals are summed over the stored query and page rows, so impressions may be over-counted
+                      and clicks from anonymized queries are not included.
+                    </p>
+                  )}
                   {reportConfig.gscData.performanceTrend && (
                     <ReadOnlyPerformanceTrend
                       gscProperty={formattedGscProperty}
@@ -205,34 +276,30 @@ const SharedReportPage = () => {
           )}
 
           {reportConfig.components.includes('rankTracker') && (
-            <section className="p-6 border border-gray-700 rounded-lg bg-gray-800/50 shadow-xl">
-              <h2 className="text-2xl font-semibold mb-4 text-green-400 border-b border-gray-700 pb-2">Rank Tracker (Read-Only)</h2>
-              {/* 
-                Example: <ReadOnlyRankTrackerView filters={reportConfig.filters} gscProperty={reportConfig.gscProperty} /> 
-              */}
-              <p className="text-gray-300">Displaying rank tracking data based on the shared filters.</p>
-               <div className="mt-3 p-4 bg-gray-900/70 rounded text-sm border border-gray-600">
-                <h4 className="font-semibold text-gray-400 mb-1">Shared Filters Also Apply Here:</h4>
-                <p className="text-gray-500 text-xs">(Rank Tracker specific views would use these filters)</p>
-              </div>
-              <p className="mt-4 text-sm text-gray-500 italic">
-                (Placeholder: Full Rank Tracker component/data rendering would go here.)
-              </p>
+            <section className="space-y-6">
+              <h2 className="text-2xl font-semibold text-green-400 border-b border-gray-700 pb-2">Rank Tracker</h2>
+              {reportConfig.gscData.rankTracker ? (
+                <ReadOnlyRankTracker data={reportConfig.gscData.rankTracker} />
+              ) : (
+                <MissingSectionNotice />
+              )}
             </section>
           )}
 
-          {/* You can add more sections here for other components based on `reportConfig.components` */}
-          {/* For example, if you add 'keywordAnalysis' to your ShareReportModal:
           {reportConfig.components.includes('keywordAnalysis') && (
-            <section className="p-6 border border-gray-700 rounded-lg bg-gray-800/50 shadow-xl">
-              <h2 className="text-2xl font-semibold mb-4 text-purple-400 border-b border-gray-700 pb-2">Keyword Analysis (Read-Only)</h2>
-              <p className="text-gray-300">Displaying keyword analysis data.</p>
-              <p className="mt-4 text-sm text-gray-500 italic">
-                (Placeholder: Full Keyword Analysis component/data rendering.)
-              </p>
+            <section className="space-y-6">
+              <h2 className="text-2xl font-semibold text-purple-400 border-b border-gray-700 pb-2">Keyword Analysis</h2>
+              {reportConfig.gscData.keywordAnalysis ? (
+                <>
+                  <ReadOnlyRankingDistribution data={reportConfig.gscData.keywordAnalysis.rankingDistribution} />
+                  <ReadOnlyTopTable title="Top Queries" keyLabel="Keyword" rows={reportConfig.gscData.keywordAnalysis.topQueries} />
+                  <ReadOnlyTopTable title="Top Pages" keyLabel="Page URL" rows={reportConfig.gscData.keywordAnalysis.topPages} />
+                </>
+              ) : (
+                <MissingSectionNotice />
+              )}
             </section>
           )}
-          */}
         </div>
 
         <footer className="mt-12 pt-6 border-t border-gray-700 text-center">
@@ -8,7 +8,7 @@ export default function TestGSC() {
 
   const checkToken = async () => {
     setStatus('Checking token...');
-    const token = localStorage.getItem('gsc_token');
+    const token = await googleAuthService.validateAndRefreshToken();
     if (!token) {
       setStatus('No token found. Please connect to GSC first.');
       return;
@@ -18,7 +18,7 @@ export default function TestGSC() {
 
   const validateToken = async () => {
     setStatus('Validating token...');
-    const token = localStorage.getItem('gsc_token');
+    const token = await googleAuthService.validateAndRefreshToken();
     if (!token) {
       setStatus('No token found');
       return;
@@ -2,11 +2,13 @@ import { GSCDataPoint } from '@/lib/gscService';
 
 export type ReportType = 
   | 'top_gainers'
+  | 'top_losers'
   | 'underperforming_pages'
   | 'emerging_keywords'
   | 'bofu_pages'
   | 'ranking_volatility'
-  | 'quick_wins';
+  | 'quick_wins'
+  | 'custom';
 
 export interface AEOScore {
   overall: number;
@@ -39,6 +41,7 @@ export interface BaseReport {
   id: string;
   userId: string;
   reportType: ReportType;
+  siteUrl?: string;
   createdAt: string;
   updatedAt: string;
   dateRange: {
@@ -69,6 +72,41 @@ export interface TopGainersReport extends BaseReport {
   };
 }
 
+// Whether a page lost clicks because it ranked lower, because fewer people searched, or because fewer searchers clicked
+export type TrafficLossCause = 'ranking_loss' | 'demand_drop' | 'ctr_loss';
+
+// One query, device or country that accounts for part of a page's click loss
+export interface TrafficLossContributor {
+  key: string;
+  clicks: number;
+  previousClicks: number;
+  clicksLost: number;
+  // Fraction of the page's total click loss
+  share: number;
+}
+
+export interface TopLosersReport extends BaseReport {
+  reportType: 'top_losers';
+  data: Array<{
+    url: string;
+    pageType: string;
+    clicks: number;
+    previousClicks: number;
+    clicksLost: number;
+    impressions: number;
+    previousImpressions: number;
+    ctr: number;
+    previousCtr: number;
+    position: number;
+    previousPosition: number;
+    lossCause: TrafficLossCause;
+    topQueries: TrafficLossContributor[];
+    devices: TrafficLossContributor[];
+    countries: TrafficLossContributor[];
+    recoveryActions: string[];
+  }>;
+}
+
 export interface UnderperformingPagesReport extends BaseReport {
   reportType: 'underperforming_pages';
   data: {
@@ -89,8 +127,15 @@ export interface EmergingKeywordsReport extends BaseReport {
   data: Array<{
     keyword: string;
     mappedUrl: string;
+    clicks: number;
+    impressions: number;
+    previousImpressions: number;
     ctr: number;
     position: number;
+    // First day in the period with impressions (YYYY-MM-DD)
+    firstSeen: string;
+    // Change in daily impressions from the first to the second half of the time since firstSeen (0.5 = +50%)
+    growthRate: number;
     suggestedAction: string;
   }>;
 }
@@ -99,20 +144,40 @@ export interface BofuPagesReport extends BaseReport {
   reportType: 'bofu_pages';
   data: Array<{
     url: string;
+    clicks: number;
+    previousClicks: number;
+    ctr: number;
+    previousCtr: number;
+    position: number;
+    previousPosition: number;
     clicksChange: number;
     ctrChange: number;
+    // Positive means the page dropped
     rankChange: number;
     suggestedFixes: string[];
     llmAnalysis: LLMSimulation;
   }>;
 }
 
+// Day-to-day ranking movement, computed from daily positions weighted by impressions
+export interface RankingVolatilityMetrics {
+  volatilityScore: number;
+  stdDev: number;
+  directionChanges: number;
+  maxSwing: number;
+  positionChange: number;
+  daysTracked: number;
+}
+
 export interface RankingVolatilityReport extends BaseReport {
   reportType: 'ranking_volatility';
-  data: Array<{
+  data: Array<RankingVolatilityMetrics & {
     url: string;
-    positionChange: number;
+    clicks: number;
+    impressions: number;
     ctr: number;
+    position: number;
+    topQueries: Array<RankingVolatilityMetrics & { query: string; impressions: number; position: number }>;
     volatilityType: string;
     suggestedAction: string;
   }>;
@@ -130,13 +195,80 @@ export interface QuickWinsReport extends BaseReport {
   }>;
 }
 
+export type CustomQueryDimension = 'query' | 'page' | 'device' | 'country' | 'date';
+export type CustomQueryMetric = 'clicks' | 'impressions' | 'ctr' | 'position';
+export type CustomQuerySort = CustomQueryMetric | 'clicksChange' | 'impressionsChange' | 'ctrChange' | 'positionChange';
+
+export interface CustomQueryFilter {
+  dimension: Exclude<CustomQueryDimension, 'date'>;
+  operator: 'equals' | 'notEquals' | 'contains' | 'notContains' | 'includingRegex' | 'excludingRegex';
+  expression: string;
+}
+
+// Structured GSC query the model plans from a free-form question
+export interface CustomQueryPlan {
+  title: string;
+  dimensions: CustomQueryDimension[];
+  filters: CustomQueryFilter[];
+  dateRange: { startDate: string; endDate: string };
+  comparisonDateRange: { startDate: string; endDate: string } | null;
+  sortBy: CustomQuerySort;
+  sortOrder: 'asc' | 'desc';
+  rowLimit: number;
+  chartMetric: CustomQueryMetric;
+}
+
+export interface CustomReportMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface CustomReportRow extends CustomReportMetrics {
+  keys: Partial<Record<CustomQueryDimension, string>>;
+  previous?: CustomReportMetrics;
+}
+
+export interface CustomReportChartPoint {
+  label: string;
+  value: number;
+  previousValue?: number;
+}
+
+export interface CustomReport extends BaseReport {
+  reportType: 'custom';
+  data: {
+    question: string;
+    plan: CustomQueryPlan;
+    rows: CustomReportRow[];
+    totalRows: number;
+    isTruncated: boolean;
+    totals: CustomReportMetrics & { previous?: CustomReportMetrics };
+    chart: {
+      metric: CustomQueryMetric;
+      points: CustomReportChartPoint[];
+    };
+  };
+}
+
 export type Report = 
   | TopGainersReport 
+  | TopLosersReport
   | UnderperformingPagesReport 
   | EmergingKeywordsReport 
   | BofuPagesReport 
   | RankingVolatilityReport 
-  | QuickWinsReport;
+  | QuickWinsReport
+  | CustomReport;
+
+export interface ReportFilters {
+  reportType?: ReportType;
+  siteUrl?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  search?: string;
+}
 
 export interface ReportUsage {
   userId: string;
@@ -153,7 +285,8 @@ export enum ReportError {
   API_ERROR = 'API_ERROR',
   INVALID_DATA = 'INVALID_DATA',
   GENERATION_IN_PROGRESS = 'GENERATION_IN_PROGRESS',
-  INSUFFICIENT_DATA = 'INSUFFICIENT_DATA'
+  INSUFFICIENT_DATA = 'INSUFFICIENT_DATA',
+  USAGE_KEY_EXHAUSTED = 'USAGE_KEY_EXHAUSTED'
 }
 
 export interface ReportTemplate {
@@ -167,8 +300,26 @@ export interface ReportTemplate {
 }
 
 export interface ExportOptions {
-  format: 'csv' | 'google_sheets';
+  format: 'csv' | 'xlsx' | 'pdf' | 'google_sheets';
   includeCharts?: boolean;
   includeAEO?: boolean;
   fileName?: string;
+  // Google Sheets only: append to this spreadsheet instead of creating a new one
+  spreadsheetId?: string;
+  // Google Sheets only: keep the GSC Data tab updated on a schedule after the export
+  refresh?: {
+    schedule: SheetsRefreshSchedule;
+    writeMode: SheetsWriteMode;
+  };
+}
+
+export type SheetsRefreshSchedule = 'daily' | 'weekly' | 'monthly';
+export type SheetsWriteMode = 'overwrite' | 'append';
+
+// GSC query a scheduled refresh re-runs over a rolling window ending at the latest complete day
+export interface SheetsRefreshQuery {
+  dimensions: string[];
+  dimensionFilterGroups?: Array<{ groupType: 'and'; filters: CustomQueryFilter[] }>;
+  rowLimit: number;
+  windowDays: number;
 } 
\ No newline at end of file
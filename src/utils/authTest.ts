@@ -10,12 +10,12 @@ export const testAuth = async () => {
     
     // Test 2: Check local storage
     const storedUser = localStorage.getItem('user');
-    const gscToken = localStorage.getItem('gsc_token');
+    const gscConnected = localStorage.getItem('gsc_connected') === 'true';
     const gscProperty = localStorage.getItem('gsc_property');
     
     console.log('Local storage status:');
     console.log('- User data:', storedUser ? 'exists' : 'missing');
-    console.log('- GSC token:', gscToken ? 'exists' : 'missing');
+    console.log('- GSC connection:', gscConnected ? 'exists' : 'missing');
     console.log('- GSC property:', gscProperty || 'missing');
     
     // Test 3: Environment check
@@ -49,7 +49,7 @@ export const testAuth = async () => {
     return {
       hasSession: !!session,
       hasUser: !!storedUser,
-      hasGscToken: !!gscToken,
+      hasGscConnection: gscConnected,
       configComplete: !!(supabaseUrl && supabaseKey && googleClientId),
       environment: { isDev, hostname, port }
     };
@@ -60,7 +60,7 @@ export const testAuth = async () => {
       error: error instanceof Error ? error.message : 'Unknown error',
       hasSession: false,
       hasUser: false,
-      hasGscToken: false,
+      hasGscConnection: false,
       configComplete: false
     };
   } finally {
@@ -73,7 +73,7 @@ export const clearAllAuth = () => {
   
   // Clear localStorage
   localStorage.removeItem('user');
-  localStorage.removeItem('gsc_token');
+  localStorage.removeItem('gsc_connected');
   localStorage.removeItem('gsc_property');
   localStorage.removeItem('gsc_oauth_state');
   localStorage.removeItem('gsc_oauth_timestamp');
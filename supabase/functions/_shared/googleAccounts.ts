@@ -0,0 +1,164 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { decryptToken, encryptToken } from './tokenCrypto.ts';
+
+// Resolves a user's Google account and mints access tokens from the refresh tokens held in google_accounts.
+// Shared by the token vault and the server-side jobs that call Google APIs on the user's behalf.
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+// Hand out a cached access token only while it still has this long to live
+const ACCESS_TOKEN_MIN_TTL_MS = 2 * 60 * 1000;
+
+export interface GoogleTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export interface GoogleAccountRow {
+  id: string;
+  user_id: string;
+  google_email: string | null;
+  encrypted_refresh_token: string;
+  encrypted_access_token: string | null;
+  access_token_expires_at: string | null;
+  status: 'active' | 'reconnect_required';
+}
+
+export class VaultError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+export async function requestGoogleTokens(params: Record<string, string>): Promise<GoogleTokenResponse> {
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: new URLSearchParams({
+      client_id: Deno.env.get('GOOGLE_CLIENT_ID') ?? '',
+      client_secret: Deno.env.get('GOOGLE_CLIENT_SECRET') ?? '',
+      ...params
+    })
+  });
+
+  const tokens: GoogleTokenResponse = await response.json().catch(() => ({}));
+  if (!response.ok || !tokens.access_token) {
+    throw new VaultError(
+      tokens.error_description || tokens.error || 'Google token request failed',
+      // invalid_grant means the refresh token was revoked or expired; the user has to reconnect
+      tokens.error === 'invalid_grant' ? 409 : 502,
+      { googleError: tokens.error }
+    );
+  }
+  return tokens;
+}
+
+export function expiresAtFrom(tokens: GoogleTokenResponse): string {
+  return new Date(Date.now() + (tokens.expires_in ?? 3600) * 1000).toISOString();
+}
+
+// The project's bound account if it has one, otherwise the user's most recently used account
+async function resolveAccount(supabase: SupabaseClient, userId: string, siteUrl?: string) {
+  let projectId: string | null = null;
+
+  if (siteUrl) {
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, google_account_id')
+      .eq('user_id', userId)
+      .eq('gsc_property', siteUrl)
+      .maybeSingle();
+
+    if (project?.google_account_id) {
+      const { data: account } = await supabase
+        .from('google_accounts')
+        .select('*')
+        .eq('id', project.google_account_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (account) return { account: account as GoogleAccountRow, unboundProjectId: null };
+    }
+    projectId = project?.id ?? null;
+  }
+
+  const { data: accounts, error } = await supabase
+    .from('google_accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new VaultError(`Failed to load Google accounts: ${error.message}`, 500);
+  }
+
+  const candidates = (accounts || []) as GoogleAccountRow[];
+  const account = candidates.find(item => item.status === 'active') ?? candidates[0];
+  if (!account) {
+    throw new VaultError('Google Search Console is not connected.', 404, { notConnected: true });
+  }
+
+  return { account, unboundProjectId: projectId };
+}
+
+export async function mintAccessToken(supabase: SupabaseClient, userId: string, siteUrl?: string) {
+  const { account, unboundProjectId } = await resolveAccount(supabase, userId, siteUrl);
+  const reconnectDetails = { reconnectRequired: true, accountId: account.id, googleEmail: account.google_email };
+
+  if (account.status === 'reconnect_required') {
+    throw new VaultError('Google access was revoked. Please reconnect Google Search Console.', 409, reconnectDetails);
+  }
+
+  // Properties created before account binding take the account that first serves them
+  if (unboundProjectId) {
+    await supabase.from('projects').update({ google_account_id: account.id }).eq('id', unboundProjectId);
+  }
+
+  if (
+    account.encrypted_access_token &&
+    account.access_token_expires_at &&
+    new Date(account.access_token_expires_at).getTime() - Date.now() > ACCESS_TOKEN_MIN_TTL_MS
+  ) {
+    return {
+      accessToken: await decryptToken(account.encrypted_access_token),
+      expiresAt: account.access_token_expires_at,
+      accountId: account.id,
+      googleEmail: account.google_email
+    };
+  }
+
+  let tokens: GoogleTokenResponse;
+  try {
+    tokens = await requestGoogleTokens({
+      grant_type: 'refresh_token',
+      refresh_token: await decryptToken(account.encrypted_refresh_token)
+    });
+  } catch (refreshError) {
+    if (refreshError instanceof VaultError && refreshError.status === 409) {
+      await supabase
+        .from('google_accounts')
+        .update({ status: 'reconnect_required', last_error: refreshError.message, encrypted_access_token: null })
+        .eq('id', account.id);
+      throw new VaultError('Google access was revoked. Please reconnect Google Search Console.', 409, reconnectDetails);
+    }
+    throw refreshError;
+  }
+
+  const expiresAt = expiresAtFrom(tokens);
+  await supabase
+    .from('google_accounts')
+    .update({
+      encrypted_access_token: await encryptToken(tokens.access_token!),
+      access_token_expires_at: expiresAt,
+      // Google may rotate the refresh token
+      ...(tokens.refresh_token ? { encrypted_refresh_token: await encryptToken(tokens.refresh_token) } : {}),
+      last_refreshed_at: new Date().toISOString(),
+      last_error: null
+    })
+    .eq('id', account.id);
+
+  return { accessToken: tokens.access_token, expiresAt, accountId: account.id, googleEmail: account.google_email };
+}
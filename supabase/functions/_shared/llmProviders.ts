@@ -0,0 +1,258 @@
+// Chat completion backends the ai-gateway can route to. Credentials come from function secrets;
+// a provider is only offered when its secrets are set.
+
+export type ProviderId = 'openai' | 'anthropic' | 'azure_openai' | 'openai_compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  jsonMode: boolean;
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: CompletionUsage;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  model: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJsonMode: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 4000;
+
+// Context windows for the OpenAI models we've used; anything else needs <PREFIX>_CONTEXT_WINDOW
+const OPENAI_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-0125-preview': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385
+};
+
+function env(name: string): string {
+  return Deno.env.get(name) ?? '';
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(env(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function toProviderError(provider: string, status: number, message?: string): ProviderError {
+  if (status === 429 || status === 529) {
+    return new ProviderError(`${provider} rate limit exceeded. Please try again shortly.`, 429);
+  }
+  return new ProviderError(`${provider} error: ${message || `HTTP ${status}`}`, 502);
+}
+
+interface OpenAIStyleOptions {
+  id: ProviderId;
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJsonMode: boolean;
+  // Azure takes the model from the deployment in the URL
+  sendModel: boolean;
+}
+
+// OpenAI, Azure OpenAI and self-hosted servers all speak the chat completions format
+function createOpenAIStyleProvider(options: OpenAIStyleOptions): LLMProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    model: options.model,
+    contextWindow: options.contextWindow,
+    maxOutputTokens: options.maxOutputTokens,
+    supportsJsonMode: options.supportsJsonMode,
+    async complete(request) {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify({
+          ...(options.sendModel ? { model: options.model } : {}),
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.jsonMode && options.supportsJsonMode ? { response_format: { type: 'json_object' } } : {})
+        })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw toProviderError(options.label, response.status, data?.error?.message || response.statusText);
+      }
+
+      return {
+        content: data?.choices?.[0]?.message?.content ?? '',
+        usage: {
+          prompt_tokens: data?.usage?.prompt_tokens ?? 0,
+          completion_tokens: data?.usage?.completion_tokens ?? 0,
+          total_tokens: data?.usage?.total_tokens ?? 0
+        }
+      };
+    }
+  };
+}
+
+function createAnthropicProvider(): LLMProvider {
+  const model = env('ANTHROPIC_MODEL') || 'claude-3-5-sonnet-latest';
+
+  return {
+    id: 'anthropic',
+    label: 'Anthropic',
+    model,
+    contextWindow: envInt('ANTHROPIC_CONTEXT_WINDOW', 200000),
+    maxOutputTokens: envInt('ANTHROPIC_MAX_TOKENS', DEFAULT_MAX_OUTPUT_TOKENS),
+    // No response_format equivalent; callers fall back to extracting JSON from the text
+    supportsJsonMode: false,
+    async complete(request) {
+      const system = request.messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n\n');
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': env('ANTHROPIC_API_KEY'),
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify({
+          model,
+          ...(system ? { system } : {}),
+          messages: request.messages.filter(message => message.role !== 'system'),
+          max_tokens: request.maxTokens,
+          temperature: Math.min(request.temperature, 1)
+        })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw toProviderError('Anthropic', response.status, data?.error?.message || response.statusText);
+      }
+
+      const blocks: { type: string; text?: string }[] = Array.isArray(data?.content) ? data.content : [];
+      const promptTokens = data?.usage?.input_tokens ?? 0;
+      const completionTokens = data?.usage?.output_tokens ?? 0;
+
+      return {
+        content: blocks.filter(block => block.type === 'text').map(block => block.text ?? '').join(''),
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens
+        }
+      };
+    }
+  };
+}
+
+export function isProviderConfigured(id: ProviderId): boolean {
+  switch (id) {
+    case 'openai':
+      return !!env('OPENAI_API_KEY');
+    case 'anthropic':
+      return !!env('ANTHROPIC_API_KEY');
+    case 'azure_openai':
+      return !!(env('AZURE_OPENAI_API_KEY') && env('AZURE_OPENAI_ENDPOINT') && env('AZURE_OPENAI_DEPLOYMENT'));
+    case 'openai_compatible':
+      return !!env('OPENAI_COMPATIBLE_BASE_URL');
+    default:
+      return false;
+  }
+}
+
+export function createProvider(id: ProviderId): LLMProvider {
+  switch (id) {
+    case 'openai': {
+      const model = env('OPENAI_MODEL') || 'gpt-4-turbo';
+      return createOpenAIStyleProvider({
+        id,
+        label: 'OpenAI',
+        url: 'https://api.openai.com/v1/chat/completions',
+        headers: { 'Authorization': `Bearer ${env('OPENAI_API_KEY')}` },
+        model,
+        contextWindow: envInt('OPENAI_CONTEXT_WINDOW', OPENAI_CONTEXT_WINDOWS[model] ?? 8192),
+        maxOutputTokens: envInt('OPENAI_MAX_TOKENS', DEFAULT_MAX_OUTPUT_TOKENS),
+        supportsJsonMode: true,
+        sendModel: true
+      });
+    }
+    case 'azure_openai': {
+      const model = env('AZURE_OPENAI_MODEL') || env('AZURE_OPENAI_DEPLOYMENT');
+      const endpoint = env('AZURE_OPENAI_ENDPOINT').replace(/\/+$/, '');
+      const apiVersion = env('AZURE_OPENAI_API_VERSION') || '2024-06-01';
+      return createOpenAIStyleProvider({
+        id,
+        label: 'Azure OpenAI',
+        url: `${endpoint}/openai/deployments/${encodeURIComponent(env('AZURE_OPENAI_DEPLOYMENT'))}/chat/completions?api-version=${apiVersion}`,
+        headers: { 'api-key': env('AZURE_OPENAI_API_KEY') },
+        model,
+        contextWindow: envInt('AZURE_OPENAI_CONTEXT_WINDOW', OPENAI_CONTEXT_WINDOWS[model] ?? 8192),
+        maxOutputTokens: envInt('AZURE_OPENAI_MAX_TOKENS', DEFAULT_MAX_OUTPUT_TOKENS),
+        supportsJsonMode: true,
+        sendModel: false
+      });
+    }
+    case 'openai_compatible': {
+      const apiKey = env('OPENAI_COMPATIBLE_API_KEY');
+      return createOpenAIStyleProvider({
+        id,
+        label: env('OPENAI_COMPATIBLE_LABEL') || 'Self-hosted model',
+        url: `${env('OPENAI_COMPATIBLE_BASE_URL').replace(/\/+$/, '')}/chat/completions`,
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        model: env('OPENAI_COMPATIBLE_MODEL') || 'default',
+        contextWindow: envInt('OPENAI_COMPATIBLE_CONTEXT_WINDOW', 8192),
+        maxOutputTokens: envInt('OPENAI_COMPATIBLE_MAX_TOKENS', 2000),
+        supportsJsonMode: env('OPENAI_COMPATIBLE_JSON_MODE') === 'true',
+        sendModel: true
+      });
+    }
+    case 'anthropic':
+      return createAnthropicProvider();
+  }
+}
+
+export const PROVIDER_IDS: ProviderId[] = ['openai', 'anthropic', 'azure_openai', 'openai_compatible'];
+
+export function getAvailableProviders(): LLMProvider[] {
+  return PROVIDER_IDS.filter(isProviderConfigured).map(createProvider);
+}
+
+// The workspace's choice when it's configured here, otherwise AI_DEFAULT_PROVIDER, otherwise the first configured one
+export function resolveProvider(preferred?: string | null): LLMProvider | null {
+  const candidates = [preferred, env('AI_DEFAULT_PROVIDER'), ...PROVIDER_IDS];
+  const id = candidates.find((candidate): candidate is ProviderId =>
+    !!candidate && PROVIDER_IDS.includes(candidate as ProviderId) && isProviderConfigured(candidate as ProviderId)
+  );
+  return id ? createProvider(id) : null;
+}
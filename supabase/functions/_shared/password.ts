@@ -0,0 +1,49 @@
+// PBKDF2 password hashing for share links, stored as "pbkdf2$<iterations>$<salt>$<hash>"
+const ITERATIONS = 100000;
+const KEY_LENGTH_BITS = 256;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_LENGTH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `pbkdf2$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) return false;
+
+  const actual = await derive(password, fromBase64(salt), parseInt(iterations, 10));
+  const expectedBytes = fromBase64(expected);
+  if (actual.length !== expectedBytes.length) return false;
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expectedBytes[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,46 @@
+// AES-256-GCM encryption for OAuth tokens at rest, stored as "v1$<iv>$<ciphertext>".
+// GOOGLE_TOKEN_ENCRYPTION_KEY is a base64-encoded 32-byte key.
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const rawKey = Deno.env.get('GOOGLE_TOKEN_ENCRYPTION_KEY');
+    if (!rawKey) {
+      throw new Error('GOOGLE_TOKEN_ENCRYPTION_KEY is not configured');
+    }
+    cachedKey = crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  return cachedKey;
+}
+
+export async function encryptToken(token: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(token)
+  );
+  return `v1$${toBase64(iv)}$${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptToken(stored: string): Promise<string> {
+  const [version, iv, ciphertext] = stored.split('$');
+  if (version !== 'v1' || !iv || !ciphertext) {
+    throw new Error('Unsupported token format');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getKey(),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
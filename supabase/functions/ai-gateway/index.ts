@@ -0,0 +1,217 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatMessage, CompletionUsage, ProviderError, getAvailableProviders, resolveProvider } from '../_shared/llmProviders.ts';
+
+console.log('AI Gateway Edge Function initializing.');
+
+// Proxies chat completions for signed-in users. Provider keys stay here, every logical
+// operation (identified by a usage key this gateway issued) is charged once against the user's
+// report quota, and each upstream call is logged to ai_requests with its token usage.
+// Actions (POST body "action"):
+//   describe – the workspace's provider, its context window and JSON-mode support (not charged)
+//   reserve  – issue a usage key good for up to maxCalls completions within the hour (charged on first use)
+//   complete – run a chat completion (default); without a usageKey the call gets a single-use key
+
+// Prompts may fill the provider's context window less the requested output, at the ~4 characters
+// per token OpenAIService also estimates with, so anything it sends unchunked is accepted
+const CHARS_PER_TOKEN = 4;
+const MIN_PROMPT_TOKENS = 1000;
+
+interface GatewayRequest {
+  action?: 'describe' | 'reserve' | 'complete';
+  messages?: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  usageKey?: string;
+  maxCalls?: number;
+  jsonMode?: boolean;
+}
+
+const responseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'application/json'
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+function isValidMessage(message: ChatMessage): boolean {
+  return ['system', 'user', 'assistant'].includes(message?.role) && typeof message?.content === 'string';
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user }, error: userError } = jwt
+    ? await supabase.auth.getUser(jwt)
+    : { data: { user: null }, error: null };
+
+  if (userError || !user) {
+    return jsonResponse({ error: 'You must be signed in to use AI features.' }, 401);
+  }
+
+  const body: GatewayRequest = await req.json().catch(() => ({}));
+
+  const { data: providerSettings } = await supabase
+    .from('ai_provider_settings')
+    .select('provider')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const provider = resolveProvider(providerSettings?.provider);
+  if (!provider) {
+    console.error('No AI provider is configured');
+    return jsonResponse({ error: 'AI service is not configured.' }, 500);
+  }
+
+  if (body.action === 'describe') {
+    return jsonResponse({
+      provider: provider.id,
+      label: provider.label,
+      model: provider.model,
+      contextWindow: provider.contextWindow,
+      maxOutputTokens: provider.maxOutputTokens,
+      supportsJsonMode: provider.supportsJsonMode,
+      availableProviders: getAvailableProviders().map(({ id, label, model }) => ({ id, label, model }))
+    });
+  }
+
+  const issueUsageKey = (maxCalls: number) =>
+    supabase.rpc('issue_ai_usage_key', { p_user_id: user.id, p_max_calls: maxCalls });
+
+  if (body.action === 'reserve') {
+    const maxCalls = Number.isFinite(body.maxCalls) ? Math.floor(body.maxCalls as number) : 1;
+    const { data: usageKey, error: issueError } = await issueUsageKey(maxCalls);
+
+    if (issueError) {
+      console.error('Error issuing AI usage key:', issueError);
+      return jsonResponse({ error: 'Failed to reserve AI usage.' }, 500);
+    }
+
+    return jsonResponse({ usageKey });
+  }
+
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  if (messages.length === 0 || !messages.every(isValidMessage)) {
+    return jsonResponse({ error: 'messages must be a non-empty list of { role, content }.' }, 400);
+  }
+
+  const maxTokens = Math.min(Math.max(1, Math.floor(body.maxTokens ?? provider.maxOutputTokens)), provider.maxOutputTokens);
+  const temperature = Math.min(Math.max(0, body.temperature ?? 0.7), 2);
+  const maxPromptChars = Math.max(MIN_PROMPT_TOKENS, provider.contextWindow - maxTokens) * CHARS_PER_TOKEN;
+  if (messages.reduce((total, message) => total + message.content.length, 0) > maxPromptChars) {
+    return jsonResponse({ error: 'Prompt is too large for the model\'s context window.' }, 413);
+  }
+
+  let usageKey = typeof body.usageKey === 'string' ? body.usageKey.slice(0, 100) : '';
+  if (!usageKey) {
+    const { data: issuedKey, error: issueError } = await issueUsageKey(1);
+    if (issueError) {
+      console.error('Error issuing AI usage key:', issueError);
+      return jsonResponse({ error: 'Failed to check your report quota.' }, 500);
+    }
+    usageKey = issuedKey;
+  }
+
+  // Charge the operation against the user's plan before spending anything upstream
+  const { data: installation } = await supabase
+    .from('user_installations')
+    .select('subscription_type')
+    .eq('email', user.email)
+    .maybeSingle();
+
+  const { data: claim, error: claimError } = await supabase.rpc('claim_ai_usage', {
+    p_user_id: user.id,
+    p_usage_key: usageKey,
+    p_plan_type: installation?.subscription_type || 'free'
+  });
+
+  if (claimError) {
+    console.error('Error claiming AI usage:', claimError);
+    return jsonResponse({ error: 'Failed to check your report quota.' }, 500);
+  }
+
+  if (claim === 'limit_reached') {
+    return jsonResponse({ error: 'Report limit reached for your plan.', code: 'SUBSCRIPTION_LIMIT_REACHED' }, 402);
+  }
+
+  // Only keys this gateway issued to the user, unexpired and with calls left, are accepted
+  if (claim === 'invalid') {
+    return jsonResponse({ error: 'This AI operation has expired or used all of its calls.', code: 'INVALID_USAGE_KEY' }, 403);
+  }
+
+  const startedAt = Date.now();
+  const logRequest = (status: 'success' | 'error', usage: Partial<CompletionUsage> = {}, error: string | null = null) =>
+    supabase.from('ai_requests').insert({
+      user_id: user.id,
+      usage_key: usageKey,
+      provider: provider.id,
+      model: provider.model,
+      status,
+      prompt_tokens: usage.prompt_tokens ?? 0,
+      completion_tokens: usage.completion_tokens ?? 0,
+      total_tokens: usage.total_tokens ?? 0,
+      duration_ms: Date.now() - startedAt,
+      error
+    }).then(({ error: logError }) => {
+      if (logError) console.error('Failed to log AI request:', logError);
+    });
+
+  // A failed call doesn't use up the key's budget, and a failed first call doesn't cost the user a report
+  const failRequest = async (message: string, status: number, code?: string) => {
+    await logRequest('error', {}, message);
+    const { error: releaseError } = await supabase.rpc('release_ai_usage', {
+      p_user_id: user.id,
+      p_usage_key: usageKey,
+      p_refund: claim === 'claimed'
+    });
+    if (releaseError) console.error('Failed to release AI usage:', releaseError);
+    return jsonResponse({ error: message, ...(code ? { code } : {}) }, status);
+  };
+
+  try {
+    const result = await provider.complete({
+      messages,
+      maxTokens,
+      temperature,
+      jsonMode: body.jsonMode === true
+    });
+    await logRequest('success', result.usage);
+
+    return jsonResponse({
+      content: result.content,
+      provider: provider.id,
+      model: provider.model,
+      usage: result.usage,
+      usageKey
+    });
+  } catch (e) {
+    if (e instanceof ProviderError) {
+      console.error(`${provider.label} request failed:`, e.message);
+      return await failRequest(e.message, e.status, e.status === 429 ? 'RATE_LIMIT_EXCEEDED' : 'API_ERROR');
+    }
+    console.error('Error in ai-gateway:', e);
+    return await failRequest('An unexpected error occurred.', 500, 'API_ERROR');
+  }
+});
+
+console.log('AI Gateway Edge Function setup complete. Waiting for requests...');
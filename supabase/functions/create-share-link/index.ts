@@ -1,6 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { v4 as uuidv4 } from 'https://esm.sh/uuid@9';
 import { corsHeaders } from '../_shared/cors.ts'; // We'll create this shared CORS file next
+import { hashPassword } from '../_shared/password.ts';
 
 console.log('Create Share Link Edge Function initializing.');
 
@@ -54,14 +55,37 @@ Deno.serve(async (req) => {
 
   try {
     console.log('Received request for create-share-link');
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    console.log('Supabase admin client initialized.');
+
+    // Links belong to the signed-in user so they can be listed and revoked later
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: userError } = jwt
+      ? await supabaseAdmin.auth.getUser(jwt)
+      : { data: { user: null }, error: null };
+
+    if (userError || !user) {
+      console.error('Unauthenticated create-share-link request:', userError);
+      return new Response(
+        JSON.stringify({ error: 'You must be signed in to create a share link.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const { // Ensure these match what the frontend will send
       gscProperty,
       selectedComponents,
       filters,
-      gscData // Add GSC data to the request
+      gscData, // Add GSC data to the request
+      expiresAt, // Optional ISO timestamp after which the link stops working
+      password, // Optional plain-text password, only ever stored hashed
+      isLive // Re-query stored data on each view instead of showing the gscData snapshot
     } = await req.json();
 
-    console.log('Request payload:', { gscProperty, selectedComponents, filters, gscData });
+    console.log('Request payload:', { gscProperty, selectedComponents, filters, gscData, expiresAt, isLive, hasPassword: !!password });
 
     if (!gscProperty || !selectedComponents || !filters || !gscData) {
       console.error('Missing required fields in request.');
@@ -86,24 +110,30 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (expiresAt && (isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+      console.error('Invalid expiry for share link:', expiresAt);
+      return new Response(
+        JSON.stringify({ error: 'Expiry must be a valid date in the future.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const token = uuidv4(); // Generate a unique token
     console.log(`Generated token: ${token}`);
 
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-    console.log('Supabase admin client initialized.');
-
     // Log the data being inserted
     const insertData = {
       token: token,
+      user_id: user.id,
       gsc_property: formattedGscProperty,
       components: selectedComponents,
       filters: filters,
-      gsc_data: gscData // Store GSC data in the database
+      gsc_data: gscData, // Store GSC data in the database
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+      password_hash: password ? await hashPassword(password) : null,
+      is_live: !!isLive
     };
-    console.log('Data being inserted:', insertData);
+    console.log('Data being inserted:', { ...insertData, password_hash: insertData.password_hash ? '[redacted]' : null });
 
     const { data, error } = await supabaseAdmin
       .from('shared_reports')
@@ -137,7 +167,7 @@ Deno.serve(async (req) => {
     console.log(`Constructed share URL: ${shareUrl}`);
 
     return new Response(
-      JSON.stringify({ shareUrl: shareUrl, token: data.token }),
+      JSON.stringify({ shareUrl: shareUrl, token: data.token, expiresAt: insertData.expires_at }),
       { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
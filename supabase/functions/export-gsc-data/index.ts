@@ -0,0 +1,342 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import postgres from 'https://deno.land/x/postgresjs@v3.4.5/mod.js';
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'npm:hyparquet-writer@0.16.10';
+import { corsHeaders } from '../_shared/cors.ts';
+
+console.log('Export GSC Data Edge Function initializing.');
+
+// Bulk export of a project's stored GSC rows (gsc_data), grouped by any set of dimensions.
+// POST { projectId, startDate, endDate, dimensions, format } checks the plan's monthly export quota, records
+// the export in data_exports, queues a gsc_exports job and returns its id;
+// the job then runs in the background, streaming rows from Postgres into the file and reporting progress
+// on the job row. CSV and NDJSON are gzipped; Parquet is written a row group per batch and compressed
+// internally. Jobs cut off by the runtime are failed by fail_stale_gsc_exports().
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const DIMENSIONS = ['date', 'query', 'page', 'device', 'country'] as const;
+type Dimension = typeof DIMENSIONS[number];
+type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+const BUCKET = 'gsc-exports';
+const BATCH_SIZE = 10000;
+// The compressed output is held in memory until upload
+const MAX_EXPORT_ROWS = 1000000;
+const EXPORT_TYPE = 'gsc_raw_data';
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv.gz', contentType: 'application/gzip' },
+  ndjson: { extension: 'ndjson.gz', contentType: 'application/gzip' },
+  parquet: { extension: 'parquet', contentType: 'application/vnd.apache.parquet' }
+};
+
+interface ExportJob {
+  id: string;
+  // The data_exports row charged for this job, given back if the job fails
+  usageId: string;
+  userId: string;
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  dimensions: Dimension[];
+  format: ExportFormat;
+}
+
+interface ExportRow {
+  [dimension: string]: unknown;
+  clicks: string;
+  impressions: string;
+  ctr: number;
+  position: number;
+}
+
+const responseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'application/json'
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+// Monthly export allowance, matching useDataExports: monthly pro is unlimited, every other plan gets 5
+function getExportLimit(subscriptionType: string | null | undefined): number {
+  return subscriptionType === 'monthly_pro' ? Infinity : 5;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Collects output as it is produced so only the compressed bytes stay in memory
+function createGzipSink() {
+  const compressor = new CompressionStream('gzip');
+  const writer = compressor.writable.getWriter();
+  const output = new Response(compressor.readable).arrayBuffer();
+  const encoder = new TextEncoder();
+
+  return {
+    write: (text: string) => writer.write(encoder.encode(text)),
+    finish: async () => {
+      await writer.close();
+      return new Uint8Array(await output);
+    }
+  };
+}
+
+// Writes each batch as its own row group so only the encoded file, not the rows, stays in memory
+function createParquetSink(dimensions: Dimension[]) {
+  const columnTypes = [
+    ...dimensions.map(name => ({ name, type: 'STRING' as const, toValue: (value: unknown) => value as string })),
+    { name: 'clicks', type: 'INT64' as const, toValue: (value: unknown) => BigInt(value as string) },
+    { name: 'impressions', type: 'INT64' as const, toValue: (value: unknown) => BigInt(value as string) },
+    { name: 'ctr', type: 'DOUBLE' as const, toValue: (value: unknown) => value as number },
+    { name: 'position', type: 'DOUBLE' as const, toValue: (value: unknown) => value as number }
+  ];
+  const output = new ByteWriter();
+  const writer = new ParquetWriter({
+    writer: output,
+    schema: schemaFromColumnData({ columnData: columnTypes.map(({ name, type }) => ({ name, type, data: [] })) })
+  });
+
+  return {
+    write: (rows: unknown[][]) => writer.write({
+      columnData: columnTypes.map(({ name, toValue }, index) => ({ name, data: rows.map(row => toValue(row[index])) })),
+      rowGroupSize: BATCH_SIZE
+    }),
+    finish: () => {
+      writer.finish();
+      return new Uint8Array(output.getBuffer());
+    }
+  };
+}
+
+async function runExport(supabase: SupabaseClient, job: ExportJob) {
+  const sql = postgres(Deno.env.get('SUPABASE_DB_URL') ?? '', { prepare: false });
+  const updateJob = (values: Record<string, unknown>) =>
+    supabase.from('gsc_exports').update(values).eq('id', job.id);
+
+  try {
+    // Rows are matched on the project's property: rows stored before gsc_data.project_id existed have it unset
+    const filter = sql`
+      FROM gsc_data
+      WHERE user_id = ${job.userId}
+        AND rtrim(site_url, '/') = rtrim(${job.siteUrl}, '/')
+        AND date BETWEEN ${job.startDate} AND ${job.endDate}
+    `;
+
+    const [{ total }] = await sql`
+      SELECT count(*)::int AS total FROM (SELECT 1 ${filter} GROUP BY ${sql(job.dimensions)}) groups
+    `;
+
+    if (total > MAX_EXPORT_ROWS) {
+      throw new Error(
+        `This export would contain ${total.toLocaleString()} rows; the limit is ${MAX_EXPORT_ROWS.toLocaleString()}. ` +
+        'Choose a shorter date range or fewer dimensions.'
+      );
+    }
+
+    await updateJob({ status: 'running', total_rows: total, started_at: new Date().toISOString() });
+
+    const columns = [...job.dimensions, 'clicks', 'impressions', 'ctr', 'position'];
+    const gzip = job.format === 'parquet' ? null : createGzipSink();
+    const parquet = job.format === 'parquet' ? createParquetSink(job.dimensions) : null;
+    let rowCount = 0;
+
+    if (job.format === 'csv') {
+      await gzip!.write(columns.join(',') + '\n');
+    }
+
+    // Position is impression-weighted, matching how Search Console aggregates it
+    await sql`
+      SELECT
+        ${sql(job.dimensions)},
+        sum(clicks)::bigint AS clicks,
+        sum(impressions)::bigint AS impressions,
+        CASE WHEN sum(impressions) > 0 THEN sum(clicks)::float / sum(impressions) ELSE 0 END AS ctr,
+        CASE WHEN sum(impressions) > 0 THEN sum("position" * impressions) / sum(impressions) ELSE avg("position") END AS "position"
+      ${filter}
+      GROUP BY ${sql(job.dimensions)}
+      ORDER BY ${sql(job.dimensions)}
+    `.cursor(BATCH_SIZE, async (rows: ExportRow[]) => {
+      // Dates come back as Date objects; export them as plain days
+      const values = rows.map(row => columns.map(column => (
+        column === 'date' && row.date instanceof Date ? (row.date as Date).toISOString().slice(0, 10) : row[column]
+      )));
+
+      if (job.format === 'csv') {
+        await gzip!.write(values.map(row => row.map(csvCell).join(',')).join('\n') + '\n');
+      } else if (job.format === 'ndjson') {
+        await gzip!.write(values.map(row => JSON.stringify({
+          ...Object.fromEntries(job.dimensions.map((dimension, index) => [dimension, row[index]])),
+          clicks: Number(row[job.dimensions.length]),
+          impressions: Number(row[job.dimensions.length + 1]),
+          ctr: row[job.dimensions.length + 2],
+          position: row[job.dimensions.length + 3]
+        })).join('\n') + '\n');
+      } else {
+        await parquet!.write(values);
+      }
+
+      rowCount += rows.length;
+      // Hold back 100% until the file is uploaded
+      await updateJob({ progress: Math.min(99, Math.round((rowCount / Math.max(total, 1)) * 100)), row_count: rowCount });
+    });
+
+    const file = gzip ? await gzip.finish() : parquet!.finish();
+
+    const { extension, contentType } = FILE_TYPES[job.format];
+    const filePath = `${job.userId}/${job.id}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(filePath, file, { contentType, upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to store the export file: ${uploadError.message}`);
+    }
+
+    await updateJob({
+      status: 'completed',
+      progress: 100,
+      row_count: rowCount,
+      file_path: filePath,
+      file_size: file.byteLength,
+      completed_at: new Date().toISOString()
+    });
+  } catch (e) {
+    console.error(`GSC export ${job.id} failed:`, e);
+    await updateJob({ status: 'error', error: e instanceof Error ? e.message : 'Export failed' });
+    // A failed export doesn't count against the monthly quota
+    await supabase.from('data_exports').delete().eq('id', job.usageId);
+  } finally {
+    await sql.end();
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    );
+
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: userError } = jwt
+      ? await supabase.auth.getUser(jwt)
+      : { data: { user: null }, error: null };
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'You must be signed in to export data.' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dimensions: unknown[] = Array.isArray(body.dimensions) ? body.dimensions : [];
+
+    if (!body.projectId) {
+      return jsonResponse({ error: 'projectId is required.' }, 400);
+    }
+    if (!isDate(body.startDate) || !isDate(body.endDate) || body.startDate > body.endDate) {
+      return jsonResponse({ error: 'A valid date range is required.' }, 400);
+    }
+    if (dimensions.length === 0 || !dimensions.every(dimension => DIMENSIONS.includes(dimension as Dimension))) {
+      return jsonResponse({ error: `dimensions must be one or more of: ${DIMENSIONS.join(', ')}.` }, 400);
+    }
+    if (typeof body.format !== 'string' || !Object.hasOwn(FILE_TYPES, body.format)) {
+      return jsonResponse({ error: 'format must be csv, ndjson or parquet.' }, 400);
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, gsc_property')
+      .eq('id', body.projectId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!project) {
+      return jsonResponse({ error: 'Project not found.' }, 404);
+    }
+
+    const { data: installation } = await supabase
+      .from('user_installations')
+      .select('subscription_type')
+      .eq('email', user.email)
+      .maybeSingle();
+
+    // The count and the insert happen in one locked call, so concurrent exports can't overrun the plan
+    const exportLimit = getExportLimit(installation?.subscription_type);
+    const { data: usageId, error: usageError } = await supabase.rpc('claim_data_export', {
+      p_user_email: user.email,
+      p_export_type: EXPORT_TYPE,
+      p_limit: Number.isFinite(exportLimit) ? exportLimit : null
+    });
+
+    if (usageError) {
+      throw new Error(`Failed to record export: ${usageError.message}`);
+    }
+
+    if (!usageId) {
+      return jsonResponse({
+        error: `You can only perform ${exportLimit} exports per month with your current plan.`,
+        code: 'EXPORT_LIMIT_REACHED'
+      }, 402);
+    }
+
+    // Columns keep the canonical order whatever order they were picked in
+    const orderedDimensions = DIMENSIONS.filter(dimension => dimensions.includes(dimension));
+
+    const { data: exportRow, error: insertError } = await supabase
+      .from('gsc_exports')
+      .insert({
+        user_id: user.id,
+        project_id: project.id,
+        start_date: body.startDate,
+        end_date: body.endDate,
+        dimensions: orderedDimensions,
+        format: body.format
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      await supabase.from('data_exports').delete().eq('id', usageId);
+      throw new Error(`Failed to create export: ${insertError.message}`);
+    }
+
+    EdgeRuntime.waitUntil(runExport(supabase, {
+      id: exportRow.id,
+      usageId,
+      userId: user.id,
+      siteUrl: project.gsc_property,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      dimensions: orderedDimensions,
+      format: body.format
+    }));
+
+    return jsonResponse({ exportId: exportRow.id }, 202);
+  } catch (e) {
+    console.error('Error in export-gsc-data:', e);
+    return jsonResponse({ error: 'An unexpected error occurred.' }, 500);
+  }
+});
+
+console.log('Export GSC Data Edge Function setup complete. Waiting for requests...');
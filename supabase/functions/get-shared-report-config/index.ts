@@ -1,5 +1,6 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import { verifyPassword } from '../_shared/password.ts';
 
 console.log('Get Shared Report Config Edge Function initializing.');
 
@@ -24,6 +25,316 @@ function formatGSCPropertyUrl(gscProperty: string): string {
   return `https://${cleanProperty}`;
 }
 
+interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+interface SharedReportFilters {
+  dateRange: DateRange;
+  selectedRange?: string;
+  countryFilter?: string;
+  deviceFilter?: string;
+  selectedUrlFilter?: string | null;
+}
+
+interface DailyTotal {
+  date: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  // 'property' days come from the stored property totals, 'stored_rows' days are sums over gsc_data
+  source: 'property' | 'stored_rows';
+}
+
+interface DimensionTotal {
+  period_start: string | null;
+  key: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+interface LiveQueryParams {
+  p_user_id: string;
+  p_site_url: string;
+  p_device: string | null;
+  p_country: string | null;
+  p_page: string | null;
+}
+
+// Keep in sync with src/lib/sharedReportData.ts
+const GRID_KEYWORD_LIMIT = 50;
+const TABLE_ROW_LIMIT = 25;
+const GRID_WEEKS = 8;
+const GRID_MONTHS = 12;
+const DISTRIBUTION_MONTHS = 6;
+const DISTRIBUTION_KEYWORD_LIMIT = 5000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+function formatDayLabel(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function formatMonthLabel(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday, like the Rank Tracker and Postgres date_trunc('week')
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function startOfMonth(date: Date, monthsBack = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1));
+}
+
+// Mirrors the Dashboard's date presets so a "28d" link always ends today
+function getLiveDateRange(filters: SharedReportFilters): DateRange {
+  const preset = filters?.selectedRange;
+  if (!preset || preset === 'custom') {
+    return filters.dateRange;
+  }
+
+  const endDate = new Date();
+  const presetDays: Record<string, number> = {
+    '7d': 7, '28d': 28, '30d': 30, '60d': 60, '90d': 90, '180d': 180, '365d': 365
+  };
+
+  let startDate: Date;
+  if (preset === '16m') {
+    startDate = new Date(endDate);
+    startDate.setUTCMonth(startDate.getUTCMonth() - 16);
+  } else {
+    startDate = addDays(endDate, -((presetDays[preset] || 28) - 1));
+  }
+
+  return { startDate: formatDate(startDate), endDate: formatDate(endDate) };
+}
+
+// The period of equal length immediately before the given range
+function getComparisonRange(range: DateRange): DateRange {
+  const start = new Date(`${range.startDate}T00:00:00Z`);
+  const end = new Date(`${range.endDate}T00:00:00Z`);
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000);
+  const comparisonEnd = addDays(start, -1);
+  return { startDate: formatDate(addDays(comparisonEnd, -days)), endDate: formatDate(comparisonEnd) };
+}
+
+function calculateChange(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return ((current - previous) / previous) * 100;
+}
+
+function summarize(rows: DailyTotal[]) {
+  const clicks = rows.reduce((sum, row) => sum + Number(row.clicks), 0);
+  const impressions = rows.reduce((sum, row) => sum + Number(row.impressions), 0);
+  const weightedPosition = rows.reduce((sum, row) => sum + Number(row.position) * Number(row.impressions), 0);
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    position: impressions > 0 ? weightedPosition / impressions : 0
+  };
+}
+
+// Rebuild the dashboard payload from the owner's stored gsc_data, respecting the shared filters.
+// Keyword type and category filters depend on the owner's client-side rules and are not applied.
+async function buildLiveGscData(
+  supabase: SupabaseClient,
+  userId: string,
+  gscProperty: string,
+  filters: SharedReportFilters,
+  components: string[]
+) {
+  const dateRange = getLiveDateRange(filters);
+  const comparisonRange = getComparisonRange(dateRange);
+
+  const selectedUrl: string | null = filters?.selectedUrlFilter || null;
+  const pageFilter = selectedUrl
+    ? (selectedUrl.startsWith('http') ? selectedUrl : `https://${gscProperty.replace(/^sc-domain:/, '').replace(/^https?:\/\//, '')}${selectedUrl.startsWith('/') ? selectedUrl : '/' + selectedUrl}`)
+    : null;
+
+  const params: LiveQueryParams = {
+    p_user_id: userId,
+    p_site_url: gscProperty,
+    p_device: filters?.deviceFilter && filters.deviceFilter !== 'all' ? filters.deviceFilter : null,
+    p_country: filters?.countryFilter && filters.countryFilter !== 'all' ? filters.countryFilter : null,
+    p_page: pageFilter
+  };
+
+  const [current, comparison, rankTracker, keywordAnalysis] = await Promise.all([
+    supabase.rpc('get_gsc_daily_totals', { ...params, p_start_date: dateRange.startDate, p_end_date: dateRange.endDate }),
+    supabase.rpc('get_gsc_daily_totals', { ...params, p_start_date: comparisonRange.startDate, p_end_date: comparisonRange.endDate }),
+    components.includes('rankTracker') ? buildLiveRankTracker(supabase, params) : undefined,
+    components.includes('keywordAnalysis') ? buildLiveKeywordAnalysis(supabase, params, dateRange) : undefined
+  ]);
+
+  if (current.error) throw current.error;
+  if (comparison.error) throw comparison.error;
+
+  const currentRows: DailyTotal[] = current.data || [];
+  const currentMetrics = summarize(currentRows);
+  const comparisonRows: DailyTotal[] = comparison.data || [];
+  const comparisonMetrics = summarize(comparisonRows);
+  const totalsSource = [...currentRows, ...comparisonRows].some(row => row.source === 'stored_rows')
+    ? 'stored_rows'
+    : 'property';
+
+  return {
+    dateRange,
+    comparisonRange,
+    gscData: {
+      metrics: {
+        totalClicks: currentMetrics.clicks,
+        totalImpressions: currentMetrics.impressions,
+        avgCtr: currentMetrics.ctr,
+        avgPosition: currentMetrics.position,
+        clicksChange: calculateChange(currentMetrics.clicks, comparisonMetrics.clicks),
+        impressionsChange: calculateChange(currentMetrics.impressions, comparisonMetrics.impressions),
+        ctrChange: calculateChange(currentMetrics.ctr, comparisonMetrics.ctr),
+        positionChange: calculateChange(comparisonMetrics.position, currentMetrics.position)
+      },
+      performanceTrend: {
+        labels: currentRows.map(row => new Date(`${row.date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })),
+        clicks: currentRows.map(row => Number(row.clicks)),
+        impressions: currentRows.map(row => Number(row.impressions)),
+        ctr: currentRows.map(row => Number(row.ctr) * 100),
+        position: currentRows.map(row => Number(row.position))
+      },
+      totalsSource,
+      rankTracker,
+      keywordAnalysis
+    }
+  };
+}
+
+async function fetchDimensionTotals(
+  supabase: SupabaseClient,
+  params: LiveQueryParams,
+  range: DateRange,
+  dimension: 'query' | 'page',
+  period: 'week' | 'month' | null,
+  limit: number
+): Promise<DimensionTotal[]> {
+  const { data, error } = await supabase.rpc('get_gsc_dimension_totals', {
+    ...params,
+    p_start_date: range.startDate,
+    p_end_date: range.endDate,
+    p_dimension: dimension,
+    p_period: period,
+    p_limit: limit
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+function toTableRows(rows: DimensionTotal[]) {
+  return rows.map(row => ({
+    key: row.key,
+    clicks: Number(row.clicks),
+    impressions: Number(row.impressions),
+    ctr: Number(row.ctr),
+    position: Number(row.position)
+  }));
+}
+
+// Same shape as buildPositionGrid in the client; keys arrive already limited to the top keywords by clicks
+function toPositionGrid(rows: DimensionTotal[], periodStarts: Date[], labelFor: (start: Date) => string) {
+  const periodKeys = periodStarts.map(formatDate);
+  const clicksByQuery = new Map<string, number>();
+  const positions = new Map<string, number>();
+  rows.forEach(row => {
+    clicksByQuery.set(row.key, (clicksByQuery.get(row.key) || 0) + Number(row.clicks));
+    positions.set(`${row.period_start}|${row.key}`, Number(row.position));
+  });
+
+  const queries = Array.from(clicksByQuery.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([query]) => query);
+
+  return {
+    periods: periodStarts.map(labelFor),
+    keywords: queries.map(query => ({
+      query,
+      positions: periodKeys.map(period => positions.get(`${period}|${query}`) ?? null)
+    }))
+  };
+}
+
+async function buildLiveRankTracker(supabase: SupabaseClient, params: LiveQueryParams) {
+  const today = new Date();
+  const weekStarts = Array.from({ length: GRID_WEEKS }, (_, i) => addDays(startOfWeek(today), -7 * (GRID_WEEKS - 1 - i)));
+  const monthStarts = Array.from({ length: GRID_MONTHS }, (_, i) => startOfMonth(today, GRID_MONTHS - 1 - i));
+  const end = formatDate(today);
+
+  const [weekly, monthly] = await Promise.all([
+    fetchDimensionTotals(supabase, params, { startDate: formatDate(weekStarts[0]), endDate: end }, 'query', 'week', GRID_KEYWORD_LIMIT),
+    fetchDimensionTotals(supabase, params, { startDate: formatDate(monthStarts[0]), endDate: end }, 'query', 'month', GRID_KEYWORD_LIMIT)
+  ]);
+
+  return {
+    weekly: toPositionGrid(weekly, weekStarts, start => `${formatDayLabel(start)} - ${formatDayLabel(addDays(start, 6))}`),
+    monthly: toPositionGrid(monthly, monthStarts, formatMonthLabel)
+  };
+}
+
+async function buildLiveKeywordAnalysis(supabase: SupabaseClient, params: LiveQueryParams, dateRange: DateRange) {
+  const today = new Date();
+  const monthStarts = Array.from({ length: DISTRIBUTION_MONTHS }, (_, i) => startOfMonth(today, DISTRIBUTION_MONTHS - 1 - i));
+
+  const [topQueries, topPages, monthlyQueries] = await Promise.all([
+    fetchDimensionTotals(supabase, params, dateRange, 'query', null, TABLE_ROW_LIMIT),
+    fetchDimensionTotals(supabase, params, dateRange, 'page', null, TABLE_ROW_LIMIT),
+    fetchDimensionTotals(
+      supabase,
+      params,
+      { startDate: formatDate(monthStarts[0]), endDate: formatDate(today) },
+      'query',
+      'month',
+      DISTRIBUTION_KEYWORD_LIMIT
+    )
+  ]);
+
+  const positionsByMonth = monthStarts.map(start => {
+    const key = formatDate(start);
+    return monthlyQueries.filter(row => row.period_start === key).map(row => Number(row.position));
+  });
+  const latest = positionsByMonth[positionsByMonth.length - 1] || [];
+  const countBetween = (positions: number[], min: number, max: number) =>
+    positions.filter(position => position >= min && position < max).length;
+
+  return {
+    topQueries: toTableRows(topQueries),
+    topPages: toTableRows(topPages),
+    rankingDistribution: {
+      overall: [
+        { name: 'Top 3', value: countBetween(latest, 0, 3.5) },
+        { name: 'Position 4-10', value: countBetween(latest, 3.5, 10.5) },
+        { name: 'Position 11-20', value: countBetween(latest, 10.5, 20.5) },
+        { name: 'Position 21-50', value: countBetween(latest, 20.5, 50.5) },
+        { name: 'Position 50+', value: countBetween(latest, 50.5, Infinity) }
+      ],
+      breakdown: monthStarts.map((start, index) => ({
+        month: formatMonthLabel(start),
+        top3: countBetween(positionsByMonth[index], 0, 3.5),
+        top4_10: countBetween(positionsByMonth[index], 3.5, 10.5)
+      }))
+    }
+  };
+}
+
 Deno.serve(async (req) => {
   // Always add CORS headers to all responses
   const responseHeaders = {
@@ -51,10 +362,10 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Create a public Supabase client using the anon key
+    // shared_reports is no longer publicly readable; expiry, revocation and passwords are checked here
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '', // Use anon key instead of service role key
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
       {
         auth: {
           autoRefreshToken: false,
@@ -63,10 +374,9 @@ Deno.serve(async (req) => {
       }
     );
 
-    // Enable RLS bypass for this specific query
     const { data, error } = await supabase
       .from('shared_reports')
-      .select('gsc_property, components, filters, created_at, gsc_data')
+      .select('user_id, gsc_property, components, filters, created_at, gsc_data, expires_at, revoked_at, password_hash, is_live')
       .eq('token', token)
       .single();
 
@@ -86,19 +396,71 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log('Raw data from database:', data);
+    if (data.revoked_at) {
+      console.log(`Shared report ${token} was revoked at ${data.revoked_at}`);
+      return new Response(
+        JSON.stringify({ error: 'This shared report link has been revoked.' }),
+        { status: 410, headers: responseHeaders }
+      );
+    }
+
+    if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) {
+      console.log(`Shared report ${token} expired at ${data.expires_at}`);
+      return new Response(
+        JSON.stringify({ error: 'This shared report link has expired.' }),
+        { status: 410, headers: responseHeaders }
+      );
+    }
+
+    if (data.password_hash) {
+      const password = req.headers.get('x-share-password');
+      if (!password) {
+        return new Response(
+          JSON.stringify({ error: 'This shared report is password protected.', passwordRequired: true }),
+          { status: 401, headers: responseHeaders }
+        );
+      }
+      if (!await verifyPassword(password, data.password_hash)) {
+        console.log(`Incorrect password for shared report ${token}`);
+        return new Response(
+          JSON.stringify({ error: 'Incorrect password.', passwordRequired: true }),
+          { status: 401, headers: responseHeaders }
+        );
+      }
+    }
+
+    // A failed view count shouldn't block the report
+    const { error: viewError } = await supabase.rpc('record_shared_report_view', { share_token: token });
+    if (viewError) {
+      console.error('Failed to record shared report view:', viewError);
+    }
+
     console.log('GSC data from database:', data.gsc_data);
 
     // Format the GSC property URL
     const formattedGscProperty = formatGSCPropertyUrl(data.gsc_property);
 
+    // Live links are rebuilt from stored data; fall back to the snapshot if that fails
+    let gscData = data.gsc_data;
+    let filters = data.filters;
+    if (data.is_live && data.user_id) {
+      try {
+        const live = await buildLiveGscData(supabase, data.user_id, formattedGscProperty, data.filters, data.components || []);
+        gscData = live.gscData;
+        filters = { ...data.filters, dateRange: live.dateRange, comparisonRange: live.comparisonRange };
+      } catch (liveError) {
+        console.error('Failed to build live shared report data, using snapshot:', liveError);
+      }
+    }
+
     // Transform the data to match the frontend interface
     const transformedData = {
       gscProperty: formattedGscProperty,
       components: data.components,
-      filters: data.filters,
+      filters,
       created_at: data.created_at,
-      gscData: data.gsc_data
+      gscData,
+      isLive: !!data.is_live
     };
 
     console.log('Transformed data being sent to frontend:', transformedData);
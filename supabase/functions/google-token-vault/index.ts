@@ -0,0 +1,199 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { decryptToken, encryptToken } from '../_shared/tokenCrypto.ts';
+import {
+  GoogleTokenResponse,
+  VaultError,
+  expiresAtFrom,
+  mintAccessToken,
+  requestGoogleTokens
+} from '../_shared/googleAccounts.ts';
+
+console.log('Google Token Vault Edge Function initializing.');
+
+// Holds each user's Google refresh tokens server-side and hands out short-lived access tokens.
+// Actions (POST body "action"):
+//   exchange   { code, redirectUri }  – finish the OAuth flow and store the refresh token
+//   import     { refreshToken }       – move a refresh token a browser still holds into the vault
+//   token      { siteUrl? }           – mint an access token for the account that owns the property
+//   disconnect { accountId? }         – revoke and forget one account, or all of them
+
+const GOOGLE_TOKENINFO_URL = 'https://www.googleapis.com/oauth2/v3/tokeninfo';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+
+interface GoogleTokenInfo {
+  sub?: string;
+  email?: string;
+  scope?: string;
+}
+
+const responseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'application/json'
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+async function getTokenInfo(accessToken: string): Promise<GoogleTokenInfo> {
+  const response = await fetch(`${GOOGLE_TOKENINFO_URL}?access_token=${encodeURIComponent(accessToken)}`);
+  if (!response.ok) {
+    throw new VaultError('Could not identify the Google account for this token', 502);
+  }
+  return await response.json();
+}
+
+// Store a refresh token for the Google account it belongs to, keeping the row id stable across reconnects
+async function saveAccount(supabase: SupabaseClient, userId: string, tokens: GoogleTokenResponse, refreshToken: string | null) {
+  const info = await getTokenInfo(tokens.access_token!);
+  if (!info.sub) {
+    throw new VaultError('Google did not return an account id', 502);
+  }
+
+  const { data: existing } = await supabase
+    .from('google_accounts')
+    .select('encrypted_refresh_token')
+    .eq('user_id', userId)
+    .eq('google_sub', info.sub)
+    .maybeSingle();
+
+  // Google only returns a refresh token on the first consent; keep the stored one otherwise
+  const encryptedRefreshToken = refreshToken
+    ? await encryptToken(refreshToken)
+    : existing?.encrypted_refresh_token;
+
+  if (!encryptedRefreshToken) {
+    throw new VaultError('Google did not return a refresh token. Remove the app from your Google account permissions and connect again.', 400);
+  }
+
+  const expiresAt = expiresAtFrom(tokens);
+  const { data, error } = await supabase
+    .from('google_accounts')
+    .upsert({
+      user_id: userId,
+      google_sub: info.sub,
+      google_email: info.email ?? null,
+      scopes: (tokens.scope || info.scope || '').split(' ').filter(Boolean),
+      encrypted_refresh_token: encryptedRefreshToken,
+      encrypted_access_token: await encryptToken(tokens.access_token!),
+      access_token_expires_at: expiresAt,
+      status: 'active',
+      last_error: null,
+      last_refreshed_at: new Date().toISOString()
+    }, { onConflict: 'user_id,google_sub' })
+    .select('id, google_email')
+    .single();
+
+  if (error) {
+    throw new VaultError(`Failed to store Google account: ${error.message}`, 500);
+  }
+
+  return { accessToken: tokens.access_token, expiresAt, accountId: data.id, googleEmail: data.google_email };
+}
+
+async function disconnectAccounts(supabase: SupabaseClient, userId: string, accountId?: string) {
+  let query = supabase
+    .from('google_accounts')
+    .select('id, encrypted_refresh_token')
+    .eq('user_id', userId);
+  if (accountId) {
+    query = query.eq('id', accountId);
+  }
+
+  const { data: accounts, error } = await query;
+  if (error) {
+    throw new VaultError(`Failed to load Google accounts: ${error.message}`, 500);
+  }
+
+  for (const account of accounts || []) {
+    // Revoking is best effort; the token is forgotten either way
+    try {
+      const refreshToken = await decryptToken(account.encrypted_refresh_token);
+      await fetch(`${GOOGLE_REVOKE_URL}?token=${encodeURIComponent(refreshToken)}`, { method: 'POST' });
+    } catch (revokeError) {
+      console.error(`Failed to revoke Google token for account ${account.id}:`, revokeError);
+    }
+
+    await supabase.from('google_accounts').delete().eq('id', account.id);
+  }
+
+  return { disconnected: (accounts || []).length };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    );
+
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: userError } = jwt
+      ? await supabase.auth.getUser(jwt)
+      : { data: { user: null }, error: null };
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'You must be signed in to access Google Search Console.' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'exchange': {
+        if (!body.code || !body.redirectUri) {
+          return jsonResponse({ error: 'code and redirectUri are required.' }, 400);
+        }
+        const tokens = await requestGoogleTokens({
+          grant_type: 'authorization_code',
+          code: body.code,
+          redirect_uri: body.redirectUri
+        });
+        return jsonResponse(await saveAccount(supabase, user.id, tokens, tokens.refresh_token ?? null));
+      }
+
+      case 'import': {
+        if (!body.refreshToken) {
+          return jsonResponse({ error: 'refreshToken is required.' }, 400);
+        }
+        const tokens = await requestGoogleTokens({
+          grant_type: 'refresh_token',
+          refresh_token: body.refreshToken
+        });
+        return jsonResponse(await saveAccount(supabase, user.id, tokens, tokens.refresh_token ?? body.refreshToken));
+      }
+
+      case 'token':
+        return jsonResponse(await mintAccessToken(supabase, user.id, body.siteUrl || undefined));
+
+      case 'disconnect':
+        return jsonResponse(await disconnectAccounts(supabase, user.id, body.accountId || undefined));
+
+      default:
+        return jsonResponse({ error: 'Unknown action.' }, 400);
+    }
+  } catch (e) {
+    if (e instanceof VaultError) {
+      console.error('Google token vault error:', e.message, e.details);
+      return jsonResponse({ error: e.message, ...e.details }, e.status);
+    }
+    console.error('Error in google-token-vault:', e);
+    return jsonResponse({ error: 'An unexpected error occurred.' }, 500);
+  }
+});
+
+console.log('Google Token Vault Edge Function setup complete. Waiting for requests...');
@@ -0,0 +1,353 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { VaultError, mintAccessToken } from '../_shared/googleAccounts.ts';
+
+console.log('Refresh Sheets Exports Edge Function initializing.');
+
+// Re-runs the Search Console query behind each scheduled Google Sheets export and rewrites its tab.
+// Called two ways:
+//   pg_cron, with the X-Cron-Secret header  – refreshes every active binding that is due
+//   a signed-in user, with { bindingId }      – refreshes that binding now ("Run now" in Settings)
+
+const SHEETS_API_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+const GSC_API_URL = 'https://www.googleapis.com/webmasters/v3/sites';
+
+// Search Console data settles about two days after the fact
+const GSC_DATA_LAG_DAYS = 2;
+const GSC_PAGE_SIZE = 25000;
+// Bindings are user-writable, so their query is clamped before use: Search Console keeps
+// 16 months of data, and one refresh reads at most four pages of rows
+const MAX_WINDOW_DAYS = 480;
+const DEFAULT_WINDOW_DAYS = 28;
+const MAX_ROW_LIMIT = GSC_PAGE_SIZE * 4;
+// Keep one cron invocation well inside the function's time limit
+const MAX_BINDINGS_PER_RUN = 25;
+
+// Same dimension order as the GSC Data tab written by the manual export
+const DIMENSION_HEADERS: Record<string, string> = {
+  query: 'Query',
+  page: 'Page',
+  device: 'Device',
+  country: 'Country',
+  date: 'Date'
+};
+
+interface RefreshQuery {
+  dimensions: string[];
+  dimensionFilterGroups?: Array<Record<string, unknown>>;
+  rowLimit: number;
+  windowDays: number;
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const number = value === null || value === undefined ? NaN : Math.floor(Number(value));
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+function sanitizeQuery(query: Partial<RefreshQuery> | null): RefreshQuery {
+  const dimensions = Array.isArray(query?.dimensions)
+    ? query.dimensions.filter(dimension => typeof dimension === 'string' && Object.hasOwn(DIMENSION_HEADERS, dimension))
+    : [];
+
+  return {
+    dimensions: dimensions.length > 0 ? dimensions : ['query'],
+    dimensionFilterGroups: Array.isArray(query?.dimensionFilterGroups) ? query.dimensionFilterGroups : undefined,
+    rowLimit: clampInteger(query?.rowLimit, 1, MAX_ROW_LIMIT, GSC_PAGE_SIZE),
+    windowDays: clampInteger(query?.windowDays, 1, MAX_WINDOW_DAYS, DEFAULT_WINDOW_DAYS)
+  };
+}
+
+interface SheetsExportBinding {
+  id: string;
+  user_id: string;
+  site_url: string;
+  spreadsheet_id: string;
+  tab_title: string;
+  query: RefreshQuery;
+  schedule: 'daily' | 'weekly' | 'monthly';
+  write_mode: 'overwrite' | 'append';
+}
+
+interface GSCRow {
+  keys?: string[];
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+const responseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'application/json'
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function getNextRunAt(schedule: SheetsExportBinding['schedule'], from: Date): string {
+  const next = new Date(from);
+  if (schedule === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+  if (schedule === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+  if (schedule === 'monthly') next.setUTCMonth(next.getUTCMonth() + 1);
+  return next.toISOString();
+}
+
+async function googleRequest<T>(accessToken: string, url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const reason = errorData.error?.details?.[0]?.reason;
+    if (response.status === 403 && reason === 'ACCESS_TOKEN_SCOPE_INSUFFICIENT') {
+      throw new Error('Google Sheets access has not been granted. Reconnect your Google account.');
+    }
+    if (response.status === 404 && url.startsWith(SHEETS_API_URL)) {
+      throw new Error('Spreadsheet not found. It may have been deleted or is no longer shared with your Google account.');
+    }
+    throw new Error(errorData.error?.message || `Google API request failed with status ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+async function fetchGSCRows(accessToken: string, siteUrl: string, query: RefreshQuery, dateRange: { startDate: string; endDate: string }) {
+  // sc-domain properties are passed through unencoded, as the browser client does
+  const site = siteUrl.startsWith('sc-domain:') ? siteUrl : encodeURIComponent(siteUrl);
+  const rows: GSCRow[] = [];
+
+  while (rows.length < query.rowLimit) {
+    const result = await googleRequest<{ rows?: GSCRow[] }>(accessToken, `${GSC_API_URL}/${site}/searchAnalytics/query`, {
+      method: 'POST',
+      body: JSON.stringify({
+        ...dateRange,
+        dimensions: query.dimensions,
+        dimensionFilterGroups: query.dimensionFilterGroups,
+        rowLimit: Math.min(GSC_PAGE_SIZE, query.rowLimit - rows.length),
+        startRow: rows.length
+      })
+    });
+
+    const page = result.rows || [];
+    rows.push(...page);
+    if (page.length < GSC_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function refreshBinding(supabase: SupabaseClient, binding: SheetsExportBinding): Promise<number> {
+  const { accessToken } = await mintAccessToken(supabase, binding.user_id, binding.site_url);
+  const query = sanitizeQuery(binding.query);
+
+  const endDate = new Date();
+  endDate.setUTCDate(endDate.getUTCDate() - GSC_DATA_LAG_DAYS);
+  const startDate = new Date(endDate);
+  startDate.setUTCDate(startDate.getUTCDate() - (query.windowDays - 1));
+  const dateRange = { startDate: toDateString(startDate), endDate: toDateString(endDate) };
+
+  const gscRows = await fetchGSCRows(accessToken!, binding.site_url, query, dateRange);
+  const dimensions = Object.keys(DIMENSION_HEADERS).filter(dimension => query.dimensions.includes(dimension));
+  const period = `${dateRange.startDate} to ${dateRange.endDate}`;
+
+  const headers = [...dimensions.map(dimension => DIMENSION_HEADERS[dimension]), 'Clicks', 'Impressions', 'CTR', 'Position', 'Period'];
+  const values = gscRows.map(row => [
+    ...dimensions.map(dimension => row.keys?.[query.dimensions.indexOf(dimension)] ?? ''),
+    row.clicks,
+    row.impressions,
+    row.ctr,
+    row.position,
+    period
+  ]);
+
+  const spreadsheetUrl = `${SHEETS_API_URL}/${binding.spreadsheet_id}`;
+  const spreadsheet = await googleRequest<{ sheets: Array<{ properties: { sheetId: number; title: string } }> }>(
+    accessToken!,
+    `${spreadsheetUrl}?fields=sheets.properties(sheetId,title)`
+  );
+
+  // The tab may have been renamed or deleted since the export; recreate it under the bound title
+  let sheetId = spreadsheet.sheets.find(sheet => sheet.properties.title === binding.tab_title)?.properties.sheetId;
+  if (sheetId === undefined) {
+    const created = await googleRequest<{ replies: Array<{ addSheet: { properties: { sheetId: number } } }> }>(
+      accessToken!,
+      `${spreadsheetUrl}:batchUpdate`,
+      { method: 'POST', body: JSON.stringify({ requests: [{ addSheet: { properties: { title: binding.tab_title } } }] }) }
+    );
+    sheetId = created.replies[0].addSheet.properties.sheetId;
+  }
+
+  const range = (cells: string) => encodeURIComponent(`'${binding.tab_title.replace(/'/g, "''")}'!${cells}`);
+
+  if (binding.write_mode === 'overwrite') {
+    await googleRequest(accessToken!, `${spreadsheetUrl}/values/${range('A:ZZ')}:clear`, { method: 'POST' });
+    await googleRequest(accessToken!, `${spreadsheetUrl}/values/${range('A1')}?valueInputOption=RAW`, {
+      method: 'PUT',
+      body: JSON.stringify({ values: [headers, ...values] })
+    });
+  } else {
+    // Appended runs are told apart by the Period column, so the header only needs keeping current
+    await googleRequest(accessToken!, `${spreadsheetUrl}/values/${range('A1')}?valueInputOption=RAW`, {
+      method: 'PUT',
+      body: JSON.stringify({ values: [headers] })
+    });
+    if (values.length > 0) {
+      await googleRequest(accessToken!, `${spreadsheetUrl}/values/${range('A1')}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, {
+        method: 'POST',
+        body: JSON.stringify({ values })
+      });
+    }
+  }
+
+  const metricsStart = dimensions.length;
+  const numberFormats = [
+    { type: 'NUMBER', pattern: '#,##0' },
+    { type: 'NUMBER', pattern: '#,##0' },
+    { type: 'PERCENT', pattern: '0.00%' },
+    { type: 'NUMBER', pattern: '0.0' }
+  ];
+  await googleRequest(accessToken!, `${spreadsheetUrl}:batchUpdate`, {
+    method: 'POST',
+    body: JSON.stringify({
+      requests: [
+        ...numberFormats.map((numberFormat, index) => ({
+          repeatCell: {
+            range: { sheetId, startRowIndex: 1, startColumnIndex: metricsStart + index, endColumnIndex: metricsStart + index + 1 },
+            cell: { userEnteredFormat: { numberFormat } },
+            fields: 'userEnteredFormat.numberFormat'
+          }
+        })),
+        {
+          updateSheetProperties: {
+            properties: { sheetId, gridProperties: { frozenRowCount: 1 } },
+            fields: 'gridProperties.frozenRowCount'
+          }
+        }
+      ]
+    })
+  });
+
+  return values.length;
+}
+
+async function runBindings(supabase: SupabaseClient, bindings: SheetsExportBinding[]) {
+  const results: Array<{ id: string; status: 'success' | 'error'; rowCount?: number; error?: string }> = [];
+
+  // One binding at a time keeps Google API quota use predictable; a failure only affects its own binding
+  for (const binding of bindings) {
+    const runAt = new Date();
+    try {
+      const rowCount = await refreshBinding(supabase, binding);
+      await supabase
+        .from('sheets_export_bindings')
+        .update({
+          last_run_at: runAt.toISOString(),
+          last_status: 'success',
+          last_error: null,
+          last_row_count: rowCount,
+          next_run_at: getNextRunAt(binding.schedule, runAt)
+        })
+        .eq('id', binding.id);
+      results.push({ id: binding.id, status: 'success', rowCount });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      console.error(`Failed to refresh sheets export binding ${binding.id}:`, message, e instanceof VaultError ? e.details : '');
+      await supabase
+        .from('sheets_export_bindings')
+        .update({
+          last_run_at: runAt.toISOString(),
+          last_status: 'error',
+          last_error: message,
+          next_run_at: getNextRunAt(binding.schedule, runAt)
+        })
+        .eq('id', binding.id);
+      results.push({ id: binding.id, status: 'error', error: message });
+    }
+  }
+
+  return results;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    );
+
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (cronSecret && req.headers.get('X-Cron-Secret') === cronSecret) {
+      const { data, error } = await supabase
+        .from('sheets_export_bindings')
+        .select('*')
+        .eq('is_active', true)
+        .lte('next_run_at', new Date().toISOString())
+        .order('next_run_at', { ascending: true })
+        .limit(MAX_BINDINGS_PER_RUN);
+
+      if (error) {
+        throw new Error(`Failed to load due bindings: ${error.message}`);
+      }
+
+      const results = await runBindings(supabase, (data || []) as SheetsExportBinding[]);
+      return jsonResponse({ refreshed: results.length, results });
+    }
+
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: userError } = jwt
+      ? await supabase.auth.getUser(jwt)
+      : { data: { user: null }, error: null };
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'You must be signed in to refresh a spreadsheet.' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (!body.bindingId) {
+      return jsonResponse({ error: 'bindingId is required.' }, 400);
+    }
+
+    const { data: binding } = await supabase
+      .from('sheets_export_bindings')
+      .select('*')
+      .eq('id', body.bindingId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!binding) {
+      return jsonResponse({ error: 'Scheduled export not found.' }, 404);
+    }
+
+    const [result] = await runBindings(supabase, [binding as SheetsExportBinding]);
+    return jsonResponse(result);
+  } catch (e) {
+    console.error('Error in refresh-sheets-exports:', e);
+    return jsonResponse({ error: 'An unexpected error occurred.' }, 500);
+  }
+});
+
+console.log('Refresh Sheets Exports Edge Function setup complete. Waiting for requests...');
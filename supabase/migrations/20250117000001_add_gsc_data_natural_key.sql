@@ -0,0 +1,27 @@
+-- Link synced GSC rows to their project and deduplicate them on a natural key
+ALTER TABLE gsc_data
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE;
+
+-- Remove duplicate rows left behind by earlier syncs before adding the constraint
+DELETE FROM gsc_data a
+USING gsc_data b
+WHERE a.ctid < b.ctid
+    AND a.user_id = b.user_id
+    AND a.site_url = b.site_url
+    AND a.date = b.date
+    AND a.query = b.query
+    AND a.page IS NOT DISTINCT FROM b.page
+    AND a.device IS NOT DISTINCT FROM b.device
+    AND a.country IS NOT DISTINCT FROM b.country;
+
+-- One row per day x query x page x device x country for each user's property
+ALTER TABLE gsc_data
+DROP CONSTRAINT IF EXISTS gsc_data_natural_key;
+
+ALTER TABLE gsc_data
+ADD CONSTRAINT gsc_data_natural_key
+UNIQUE NULLS NOT DISTINCT (user_id, site_url, date, query, page, device, country);
+
+-- Create indexes for project-scoped history lookups
+CREATE INDEX IF NOT EXISTS idx_gsc_data_project_id ON gsc_data(project_id);
+CREATE INDEX IF NOT EXISTS idx_gsc_data_project_date ON gsc_data(project_id, date);
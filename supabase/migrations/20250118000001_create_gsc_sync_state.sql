@@ -0,0 +1,55 @@
+-- Create gsc_sync_state table holding the per-day sync watermark for each project
+CREATE TABLE IF NOT EXISTS gsc_sync_state (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    dimension_set TEXT NOT NULL,
+    last_synced_date DATE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(project_id, dimension_set)
+);
+
+-- Enable RLS
+ALTER TABLE gsc_sync_state ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own sync state" ON gsc_sync_state
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sync state" ON gsc_sync_state
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sync state" ON gsc_sync_state
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sync state" ON gsc_sync_state
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_gsc_sync_state_updated_at
+    BEFORE UPDATE ON gsc_sync_state
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON gsc_sync_state TO authenticated;
+
+-- Allow projects to report partial progress
+ALTER TABLE projects
+DROP CONSTRAINT IF EXISTS projects_sync_status_check;
+
+ALTER TABLE projects
+ADD CONSTRAINT projects_sync_status_check
+CHECK (sync_status IN ('pending', 'syncing', 'partial', 'completed', 'error'));
+
+-- Last day whose data has been fully ingested for the project
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS synced_through DATE;
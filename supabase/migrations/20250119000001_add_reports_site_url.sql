@@ -0,0 +1,12 @@
+-- Record which Search Console property each saved report was generated for
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS site_url TEXT;
+
+-- Create indexes for the reports library filters
+CREATE INDEX IF NOT EXISTS idx_reports_user_created_at ON reports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_user_type ON reports(user_id, report_type);
+CREATE INDEX IF NOT EXISTS idx_reports_user_site_url ON reports(user_id, site_url);
+
+-- Full-text search over AI summaries; matches the to_tsvector('english', ...) used by textSearch
+CREATE INDEX IF NOT EXISTS idx_reports_ai_summary_fts
+    ON reports USING GIN (to_tsvector('english', ai_summary));
@@ -0,0 +1,48 @@
+-- Track who created each share link and let them expire, revoke or password-protect it
+ALTER TABLE shared_reports
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS password_hash TEXT,
+ADD COLUMN IF NOT EXISTS is_password_protected BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Shared reports are now only read through the get-shared-report-config edge function,
+-- which checks expiry, revocation and passwords with the service role
+DROP POLICY IF EXISTS "Allow public read access to shared_reports" ON shared_reports;
+REVOKE ALL ON shared_reports FROM anon, authenticated;
+
+-- Create policies
+CREATE POLICY "Users can view their own shared reports" ON shared_reports
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shared reports" ON shared_reports
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Grant permissions; the password hash itself is never readable from the client
+GRANT SELECT (id, token, user_id, gsc_property, components, filters, created_at, expires_at, revoked_at,
+    is_password_protected, view_count, last_viewed_at) ON shared_reports TO authenticated;
+GRANT UPDATE (revoked_at) ON shared_reports TO authenticated;
+
+-- Create index for listing a user's links
+CREATE INDEX IF NOT EXISTS idx_shared_reports_user_id ON shared_reports(user_id, created_at DESC);
+
+-- Count a view atomically
+CREATE OR REPLACE FUNCTION record_shared_report_view(share_token UUID)
+RETURNS void AS $$
+BEGIN
+    UPDATE shared_reports
+    SET view_count = view_count + 1,
+        last_viewed_at = NOW()
+    WHERE token = share_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_shared_report_view(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_shared_report_view(UUID) TO service_role;
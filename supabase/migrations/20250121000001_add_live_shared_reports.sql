@@ -0,0 +1,53 @@
+-- Live share links re-query stored gsc_data on every view instead of showing the gsc_data snapshot
+ALTER TABLE shared_reports
+ADD COLUMN IF NOT EXISTS is_live BOOLEAN NOT NULL DEFAULT false;
+
+GRANT SELECT (is_live) ON shared_reports TO authenticated;
+
+-- Function to get daily totals for a property with optional device, country and page filters
+CREATE OR REPLACE FUNCTION get_gsc_daily_totals(
+    p_user_id UUID,
+    p_site_url TEXT,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_device TEXT DEFAULT NULL,
+    p_country TEXT DEFAULT NULL,
+    p_page TEXT DEFAULT NULL
+) RETURNS TABLE (
+    date DATE,
+    clicks BIGINT,
+    impressions BIGINT,
+    ctr FLOAT,
+    "position" FLOAT
+) LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        gsc_data.date,
+        COALESCE(SUM(gsc_data.clicks), 0) AS clicks,
+        COALESCE(SUM(gsc_data.impressions), 0) AS impressions,
+        CASE WHEN SUM(gsc_data.impressions) > 0 THEN SUM(gsc_data.clicks)::FLOAT / SUM(gsc_data.impressions) ELSE 0 END AS ctr,
+        CASE WHEN SUM(gsc_data.impressions) > 0
+            THEN SUM(gsc_data."position" * gsc_data.impressions)::FLOAT / SUM(gsc_data.impressions)
+            ELSE 0
+        END AS "position"
+    FROM gsc_data
+    WHERE
+        gsc_data.user_id = p_user_id
+        -- Share links store the property without a trailing slash
+        AND rtrim(gsc_data.site_url, '/') = rtrim(p_site_url, '/')
+        AND gsc_data.date BETWEEN p_start_date AND p_end_date
+        AND (p_device IS NULL OR lower(gsc_data.device) = lower(p_device))
+        AND (p_country IS NULL OR lower(gsc_data.country) = lower(p_country))
+        AND (p_page IS NULL OR gsc_data.page = p_page)
+    GROUP BY gsc_data.date
+    ORDER BY gsc_data.date;
+END;
+$$;
+
+-- Only edge functions running with the service role may read another user's totals
+REVOKE EXECUTE ON FUNCTION get_gsc_daily_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_gsc_daily_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, TEXT) TO service_role;
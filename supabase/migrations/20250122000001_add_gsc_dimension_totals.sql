@@ -0,0 +1,79 @@
+-- Function to get query or page totals for live share links, optionally bucketed by week or month.
+-- Only the p_limit keys with the most clicks over the whole range are returned.
+CREATE OR REPLACE FUNCTION get_gsc_dimension_totals(
+    p_user_id UUID,
+    p_site_url TEXT,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_dimension TEXT,
+    p_period TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 25,
+    p_device TEXT DEFAULT NULL,
+    p_country TEXT DEFAULT NULL,
+    p_page TEXT DEFAULT NULL
+) RETURNS TABLE (
+    period_start DATE,
+    key TEXT,
+    clicks BIGINT,
+    impressions BIGINT,
+    ctr FLOAT,
+    "position" FLOAT
+) LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_dimension NOT IN ('query', 'page') THEN
+        RAISE EXCEPTION 'Unsupported dimension: %', p_dimension;
+    END IF;
+
+    IF p_period IS NOT NULL AND p_period NOT IN ('week', 'month') THEN
+        RAISE EXCEPTION 'Unsupported period: %', p_period;
+    END IF;
+
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT
+            CASE WHEN p_dimension = 'page' THEN gsc_data.page ELSE gsc_data.query END AS dimension_key,
+            -- ISO weeks start on Monday, matching the Rank Tracker's weekly buckets
+            CASE WHEN p_period IS NULL THEN NULL ELSE date_trunc(p_period, gsc_data.date)::DATE END AS bucket,
+            gsc_data.clicks,
+            gsc_data.impressions,
+            gsc_data."position"
+        FROM gsc_data
+        WHERE
+            gsc_data.user_id = p_user_id
+            AND rtrim(gsc_data.site_url, '/') = rtrim(p_site_url, '/')
+            AND gsc_data.date BETWEEN p_start_date AND p_end_date
+            AND (p_device IS NULL OR lower(gsc_data.device) = lower(p_device))
+            AND (p_country IS NULL OR lower(gsc_data.country) = lower(p_country))
+            AND (p_page IS NULL OR gsc_data.page = p_page)
+    ),
+    top_keys AS (
+        SELECT filtered.dimension_key
+        FROM filtered
+        WHERE filtered.dimension_key IS NOT NULL AND filtered.dimension_key <> ''
+        GROUP BY filtered.dimension_key
+        ORDER BY SUM(filtered.clicks) DESC, SUM(filtered.impressions) DESC
+        LIMIT p_limit
+    )
+    SELECT
+        filtered.bucket AS period_start,
+        filtered.dimension_key AS key,
+        COALESCE(SUM(filtered.clicks), 0) AS clicks,
+        COALESCE(SUM(filtered.impressions), 0) AS impressions,
+        CASE WHEN SUM(filtered.impressions) > 0 THEN SUM(filtered.clicks)::FLOAT / SUM(filtered.impressions) ELSE 0 END AS ctr,
+        CASE WHEN SUM(filtered.impressions) > 0
+            THEN SUM(filtered."position" * filtered.impressions)::FLOAT / SUM(filtered.impressions)
+            ELSE 0
+        END AS "position"
+    FROM filtered
+    JOIN top_keys ON top_keys.dimension_key = filtered.dimension_key
+    GROUP BY filtered.bucket, filtered.dimension_key
+    ORDER BY filtered.bucket, SUM(filtered.clicks) DESC;
+END;
+$$;
+
+-- Only edge functions running with the service role may read another user's totals
+REVOKE EXECUTE ON FUNCTION get_gsc_dimension_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_gsc_dimension_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, INTEGER, TEXT, TEXT, TEXT) TO service_role;
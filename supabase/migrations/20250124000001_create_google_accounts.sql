@@ -0,0 +1,46 @@
+-- Google accounts connected for Search Console access. Refresh tokens are encrypted by the
+-- google-token-vault edge function and never leave it; clients only see short-lived access tokens.
+CREATE TABLE IF NOT EXISTS google_accounts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    google_sub TEXT NOT NULL,
+    google_email TEXT,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    encrypted_refresh_token TEXT NOT NULL,
+    encrypted_access_token TEXT,
+    access_token_expires_at TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reconnect_required')),
+    last_error TEXT,
+    last_refreshed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, google_sub)
+);
+
+-- Enable RLS
+ALTER TABLE google_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Users can see which accounts they have connected; all writes go through the edge function
+CREATE POLICY "Users can view their own google accounts" ON google_accounts
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_google_accounts_updated_at
+    BEFORE UPDATE ON google_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create index for listing a user's accounts
+CREATE INDEX IF NOT EXISTS idx_google_accounts_user_id ON google_accounts(user_id, updated_at DESC);
+
+-- Grant permissions; token columns are never readable from the client
+REVOKE ALL ON google_accounts FROM anon, authenticated;
+GRANT SELECT (id, user_id, google_sub, google_email, scopes, status, last_error, last_refreshed_at, created_at, updated_at)
+    ON google_accounts TO authenticated;
+
+-- Which connected Google account owns each project's property
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS google_account_id UUID REFERENCES google_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_google_account_id ON projects(google_account_id);
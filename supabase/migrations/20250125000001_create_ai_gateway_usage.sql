@@ -0,0 +1,103 @@
+-- Every request the ai-gateway edge function sends to the model provider, with its token usage
+CREATE TABLE IF NOT EXISTS ai_requests (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    usage_key TEXT NOT NULL,
+    model TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    duration_ms INTEGER,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per logical AI operation (a report, a custom analysis) that was charged against the plan.
+-- All model calls sharing a usage key are covered by a single report credit.
+CREATE TABLE IF NOT EXISTS ai_usage_claims (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    usage_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, usage_key)
+);
+
+-- Enable RLS
+ALTER TABLE ai_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_usage_claims ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own usage; only the gateway writes
+CREATE POLICY "Users can view their own ai requests" ON ai_requests
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own ai usage claims" ON ai_usage_claims
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_ai_requests_user_created ON ai_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_requests_usage_key ON ai_requests(user_id, usage_key);
+
+-- Charge a report credit for a usage key unless it was already charged.
+-- Returns 'claimed', 'existing' or 'limit_reached'.
+CREATE OR REPLACE FUNCTION claim_ai_usage(p_user_id UUID, p_usage_key TEXT, p_plan_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialise claims per user so concurrent requests can't both slip under the limit
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+    IF EXISTS (
+        SELECT 1 FROM ai_usage_claims
+        WHERE user_id = p_user_id AND usage_key = p_usage_key
+    ) THEN
+        RETURN 'existing';
+    END IF;
+
+    IF NOT can_generate_report(p_user_id, COALESCE(p_plan_type, 'free')) THEN
+        RETURN 'limit_reached';
+    END IF;
+
+    PERFORM increment_report_usage(p_user_id);
+
+    INSERT INTO ai_usage_claims (user_id, usage_key)
+    VALUES (p_user_id, p_usage_key);
+
+    RETURN 'claimed';
+END;
+$$;
+
+-- Give a credit back when the first request of a freshly claimed key failed upstream
+CREATE OR REPLACE FUNCTION release_ai_usage(p_user_id UUID, p_usage_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+    DELETE FROM ai_usage_claims
+    WHERE user_id = p_user_id AND usage_key = p_usage_key;
+
+    IF FOUND THEN
+        UPDATE report_usage
+        SET reports_this_month = GREATEST(reports_this_month - 1, 0)
+        WHERE user_id = p_user_id;
+    END IF;
+END;
+$$;
+
+-- Grant permissions; claims are only made by the gateway
+GRANT SELECT ON ai_requests TO authenticated;
+GRANT SELECT ON ai_usage_claims TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION claim_ai_usage(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_ai_usage(UUID, TEXT, TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_ai_usage(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION release_ai_usage(UUID, TEXT) TO service_role;
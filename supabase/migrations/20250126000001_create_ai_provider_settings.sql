@@ -0,0 +1,37 @@
+-- Which LLM provider the ai-gateway uses for a workspace; a missing row means the gateway default
+CREATE TABLE IF NOT EXISTS ai_provider_settings (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'azure_openai', 'openai_compatible')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Enable RLS
+ALTER TABLE ai_provider_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own ai provider settings" ON ai_provider_settings
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own ai provider settings" ON ai_provider_settings
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own ai provider settings" ON ai_provider_settings
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_ai_provider_settings_updated_at
+    BEFORE UPDATE ON ai_provider_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE ON ai_provider_settings TO authenticated;
+
+-- Record which provider served each gateway request
+ALTER TABLE ai_requests
+ADD COLUMN IF NOT EXISTS provider TEXT;
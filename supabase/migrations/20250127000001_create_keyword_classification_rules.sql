@@ -0,0 +1,45 @@
+-- Branded and funnel-stage keyword rules, shared by every screen of a project
+CREATE TABLE IF NOT EXISTS keyword_classification_rules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    classification TEXT NOT NULL CHECK (classification IN ('branded', 'tofu', 'mofu', 'bofu')),
+    match_type TEXT NOT NULL CHECK (match_type IN ('contains', 'starts_with', 'ends_with', 'exact_match', 'regex')),
+    value TEXT NOT NULL CHECK (length(trim(value)) > 0),
+    is_exclusion BOOLEAN NOT NULL DEFAULT false,
+    priority INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_keyword_classification_rules_project_id ON keyword_classification_rules(project_id);
+
+-- Enable RLS
+ALTER TABLE keyword_classification_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own keyword rules" ON keyword_classification_rules
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own keyword rules" ON keyword_classification_rules
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own keyword rules" ON keyword_classification_rules
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own keyword rules" ON keyword_classification_rules
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_keyword_classification_rules_updated_at
+    BEFORE UPDATE ON keyword_classification_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON keyword_classification_rules TO authenticated;
@@ -0,0 +1,44 @@
+-- AI-predicted funnel stage for queries no classification rule matches; doubles as the prediction cache
+CREATE TABLE IF NOT EXISTS keyword_intent_predictions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    query TEXT NOT NULL,
+    predicted_intent TEXT NOT NULL CHECK (predicted_intent IN ('tofu', 'mofu', 'bofu')),
+    confidence NUMERIC(4, 3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+    accepted_intent TEXT CHECK (accepted_intent IN ('tofu', 'mofu', 'bofu')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'overridden')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(project_id, query)
+);
+
+-- Enable RLS
+ALTER TABLE keyword_intent_predictions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own intent predictions" ON keyword_intent_predictions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own intent predictions" ON keyword_intent_predictions
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own intent predictions" ON keyword_intent_predictions
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own intent predictions" ON keyword_intent_predictions
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_keyword_intent_predictions_updated_at
+    BEFORE UPDATE ON keyword_intent_predictions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON keyword_intent_predictions TO authenticated;
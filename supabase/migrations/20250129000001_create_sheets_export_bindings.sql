@@ -0,0 +1,76 @@
+-- Exported spreadsheets the refresh-sheets-exports function keeps up to date on a schedule
+CREATE TABLE IF NOT EXISTS sheets_export_bindings (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+    report_type TEXT NOT NULL,
+    site_url TEXT NOT NULL,
+    spreadsheet_id TEXT NOT NULL,
+    spreadsheet_url TEXT NOT NULL,
+    tab_title TEXT NOT NULL,
+    -- GSC query re-run on every refresh: { dimensions, dimensionFilterGroups?, rowLimit, windowDays }
+    query JSONB NOT NULL,
+    schedule TEXT NOT NULL CHECK (schedule IN ('daily', 'weekly', 'monthly')),
+    write_mode TEXT NOT NULL DEFAULT 'overwrite' CHECK (write_mode IN ('overwrite', 'append')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_status TEXT CHECK (last_status IN ('success', 'error')),
+    last_error TEXT,
+    last_row_count INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheets_export_bindings_user ON sheets_export_bindings(user_id);
+CREATE INDEX IF NOT EXISTS idx_sheets_export_bindings_due ON sheets_export_bindings(next_run_at) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE sheets_export_bindings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own sheets export bindings" ON sheets_export_bindings
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sheets export bindings" ON sheets_export_bindings
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sheets export bindings" ON sheets_export_bindings
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sheets export bindings" ON sheets_export_bindings
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_sheets_export_bindings_updated_at
+    BEFORE UPDATE ON sheets_export_bindings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON sheets_export_bindings TO authenticated;
+
+-- Run due refreshes hourly. The function URL and the shared secret it checks (CRON_SECRET)
+-- are read from Vault secrets named 'project_url' and 'sheets_refresh_cron_secret'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'refresh-sheets-exports',
+    '0 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/refresh-sheets-exports',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'sheets_refresh_cron_secret')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,60 @@
+-- Bulk exports of a project's stored GSC rows, produced in the background by the export-gsc-data function
+CREATE TABLE IF NOT EXISTS gsc_exports (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    dimensions TEXT[] NOT NULL CHECK (
+        cardinality(dimensions) > 0
+        AND dimensions <@ ARRAY['date', 'query', 'page', 'device', 'country']
+    ),
+    format TEXT NOT NULL CHECK (format IN ('csv', 'ndjson', 'parquet')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'error')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    total_rows INTEGER,
+    row_count INTEGER,
+    file_path TEXT,
+    file_size BIGINT,
+    error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gsc_exports_user_project ON gsc_exports(user_id, project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE gsc_exports ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by the edge function; users can follow and remove their own
+CREATE POLICY "Users can view their own gsc exports" ON gsc_exports
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own gsc exports" ON gsc_exports
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_gsc_exports_updated_at
+    BEFORE UPDATE ON gsc_exports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT SELECT, DELETE ON gsc_exports TO authenticated;
+
+-- Private bucket for the export files, stored as <user_id>/<export_id>.<extension>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('gsc-exports', 'gsc-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own gsc export files" ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'gsc-exports' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own gsc export files" ON storage.objects
+    FOR DELETE
+    USING (bucket_id = 'gsc-exports' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,101 @@
+-- Usage keys are issued by the ai-gateway and cover a bounded number of model calls within their lifetime.
+-- The report credit is charged by the first call made with the key.
+ALTER TABLE ai_usage_claims
+    ADD COLUMN IF NOT EXISTS max_calls INTEGER NOT NULL DEFAULT 1 CHECK (max_calls > 0),
+    ADD COLUMN IF NOT EXISTS call_count INTEGER NOT NULL DEFAULT 0 CHECK (call_count >= 0),
+    ADD COLUMN IF NOT EXISTS charged BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP + INTERVAL '1 hour';
+
+-- Keys claimed before the gateway issued them were chosen by the client; retire them
+UPDATE ai_usage_claims
+SET charged = true, expires_at = created_at;
+
+-- Issue a key to a user for up to p_max_calls model calls over the next hour
+CREATE OR REPLACE FUNCTION issue_ai_usage_key(p_user_id UUID, p_max_calls INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_usage_key TEXT := uuid_generate_v4()::text;
+BEGIN
+    INSERT INTO ai_usage_claims (user_id, usage_key, max_calls)
+    VALUES (p_user_id, v_usage_key, LEAST(GREATEST(COALESCE(p_max_calls, 1), 1), 50));
+
+    RETURN v_usage_key;
+END;
+$$;
+
+-- Count one call against an issued key, charging a report credit on its first call.
+-- Returns 'claimed', 'existing', 'limit_reached' or 'invalid' (unknown, expired or used up).
+CREATE OR REPLACE FUNCTION claim_ai_usage(p_user_id UUID, p_usage_key TEXT, p_plan_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_claim ai_usage_claims%ROWTYPE;
+BEGIN
+    -- Serialise claims per user so concurrent requests can't both slip under the limit
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+    SELECT * INTO v_claim
+    FROM ai_usage_claims
+    WHERE user_id = p_user_id AND usage_key = p_usage_key
+    FOR UPDATE;
+
+    IF NOT FOUND
+        OR v_claim.expires_at <= CURRENT_TIMESTAMP
+        OR v_claim.call_count >= v_claim.max_calls THEN
+        RETURN 'invalid';
+    END IF;
+
+    IF NOT v_claim.charged THEN
+        IF NOT can_generate_report(p_user_id, COALESCE(p_plan_type, 'free')) THEN
+            RETURN 'limit_reached';
+        END IF;
+
+        PERFORM increment_report_usage(p_user_id);
+    END IF;
+
+    UPDATE ai_usage_claims
+    SET call_count = call_count + 1, charged = true
+    WHERE user_id = p_user_id AND usage_key = p_usage_key;
+
+    RETURN CASE WHEN v_claim.charged THEN 'existing' ELSE 'claimed' END;
+END;
+$$;
+
+-- Give back a call that failed upstream, and the credit too when that call was the one that charged it
+DROP FUNCTION IF EXISTS release_ai_usage(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION release_ai_usage(p_user_id UUID, p_usage_key TEXT, p_refund BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+    UPDATE ai_usage_claims
+    SET call_count = GREATEST(call_count - 1, 0),
+        charged = charged AND NOT p_refund
+    WHERE user_id = p_user_id AND usage_key = p_usage_key AND charged;
+
+    IF FOUND AND p_refund THEN
+        UPDATE report_usage
+        SET reports_this_month = GREATEST(reports_this_month - 1, 0)
+        WHERE user_id = p_user_id;
+    END IF;
+END;
+$$;
+
+-- Keys are only issued and claimed by the gateway
+REVOKE EXECUTE ON FUNCTION issue_ai_usage_key(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION issue_ai_usage_key(UUID, INTEGER) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_ai_usage(UUID, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION release_ai_usage(UUID, TEXT, BOOLEAN) TO service_role;
@@ -0,0 +1,39 @@
+-- An export whose edge function was cut off never reaches its error handler. Running jobs report
+-- progress after every batch, so a job that has gone quiet, or has outlived any edge function,
+-- is marked failed instead of being polled forever.
+ALTER TABLE gsc_exports
+    ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION fail_stale_gsc_exports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_failed INTEGER;
+BEGIN
+    UPDATE gsc_exports
+    SET status = 'error',
+        error = 'The export stopped responding. Try a shorter date range or fewer dimensions.'
+    WHERE status IN ('queued', 'running')
+      AND (
+          updated_at < CURRENT_TIMESTAMP - INTERVAL '5 minutes'
+          OR started_at < CURRENT_TIMESTAMP - INTERVAL '15 minutes'
+      );
+
+    GET DIAGNOSTICS v_failed = ROW_COUNT;
+    RETURN v_failed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fail_stale_gsc_exports() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION fail_stale_gsc_exports() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'fail-stale-gsc-exports',
+    '*/5 * * * *',
+    $$ SELECT fail_stale_gsc_exports(); $$
+);
@@ -0,0 +1,141 @@
+-- Create gsc_daily_totals table holding the property-level date x device series. Summing gsc_data
+-- rows over-counts impressions (each page of a result counts) and misses anonymized queries, so
+-- live share links read their totals from here.
+CREATE TABLE IF NOT EXISTS gsc_daily_totals (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    site_url TEXT NOT NULL,
+    date DATE NOT NULL,
+    device TEXT NOT NULL,
+    clicks INTEGER DEFAULT 0,
+    impressions INTEGER DEFAULT 0,
+    ctr FLOAT DEFAULT 0,
+    position FLOAT DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, site_url, date, device)
+);
+
+-- Enable RLS
+ALTER TABLE gsc_daily_totals ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own daily totals" ON gsc_daily_totals
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own daily totals" ON gsc_daily_totals
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own daily totals" ON gsc_daily_totals
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own daily totals" ON gsc_daily_totals
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create trigger to update updated_at column
+CREATE TRIGGER update_gsc_daily_totals_updated_at
+    BEFORE UPDATE ON gsc_daily_totals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_gsc_daily_totals_site_date ON gsc_daily_totals(user_id, site_url, date);
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON gsc_daily_totals TO authenticated;
+
+-- Daily totals now say where they came from: 'property' days are read from gsc_daily_totals,
+-- 'stored_rows' days are summed over gsc_data. Page and country filters have no property-level
+-- series, and days synced before gsc_daily_totals existed have none either.
+DROP FUNCTION IF EXISTS get_gsc_daily_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_gsc_daily_totals(
+    p_user_id UUID,
+    p_site_url TEXT,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_device TEXT DEFAULT NULL,
+    p_country TEXT DEFAULT NULL,
+    p_page TEXT DEFAULT NULL
+) RETURNS TABLE (
+    date DATE,
+    clicks BIGINT,
+    impressions BIGINT,
+    ctr FLOAT,
+    "position" FLOAT,
+    source TEXT
+) LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH covered_dates AS (
+        SELECT DISTINCT gsc_daily_totals.date
+        FROM gsc_daily_totals
+        WHERE
+            p_country IS NULL
+            AND p_page IS NULL
+            AND gsc_daily_totals.user_id = p_user_id
+            AND rtrim(gsc_daily_totals.site_url, '/') = rtrim(p_site_url, '/')
+            AND gsc_daily_totals.date BETWEEN p_start_date AND p_end_date
+    ),
+    property_totals AS (
+        SELECT
+            gsc_daily_totals.date,
+            gsc_daily_totals.clicks,
+            gsc_daily_totals.impressions,
+            gsc_daily_totals."position"
+        FROM gsc_daily_totals
+        JOIN covered_dates ON covered_dates.date = gsc_daily_totals.date
+        WHERE
+            gsc_daily_totals.user_id = p_user_id
+            AND rtrim(gsc_daily_totals.site_url, '/') = rtrim(p_site_url, '/')
+            AND (p_device IS NULL OR lower(gsc_daily_totals.device) = lower(p_device))
+    ),
+    stored_rows AS (
+        SELECT
+            gsc_data.date,
+            gsc_data.clicks,
+            gsc_data.impressions,
+            gsc_data."position"
+        FROM gsc_data
+        WHERE
+            gsc_data.user_id = p_user_id
+            -- Share links store the property without a trailing slash
+            AND rtrim(gsc_data.site_url, '/') = rtrim(p_site_url, '/')
+            AND gsc_data.date BETWEEN p_start_date AND p_end_date
+            AND gsc_data.date NOT IN (SELECT covered_dates.date FROM covered_dates)
+            AND (p_device IS NULL OR lower(gsc_data.device) = lower(p_device))
+            AND (p_country IS NULL OR lower(gsc_data.country) = lower(p_country))
+            AND (p_page IS NULL OR gsc_data.page = p_page)
+    ),
+    daily AS (
+        SELECT property_totals.*, 'property'::TEXT AS source FROM property_totals
+        UNION ALL
+        SELECT stored_rows.*, 'stored_rows'::TEXT AS source FROM stored_rows
+    )
+    SELECT
+        daily.date,
+        COALESCE(SUM(daily.clicks), 0) AS clicks,
+        COALESCE(SUM(daily.impressions), 0) AS impressions,
+        CASE WHEN SUM(daily.impressions) > 0 THEN SUM(daily.clicks)::FLOAT / SUM(daily.impressions) ELSE 0 END AS ctr,
+        CASE WHEN SUM(daily.impressions) > 0
+            THEN SUM(daily."position" * daily.impressions)::FLOAT / SUM(daily.impressions)
+            ELSE 0
+        END AS "position",
+        daily.source
+    FROM daily
+    GROUP BY daily.date, daily.source
+    ORDER BY daily.date;
+END;
+$$;
+
+-- Only edge functions running with the service role may read another user's totals
+REVOKE EXECUTE ON FUNCTION get_gsc_daily_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_gsc_daily_totals(UUID, TEXT, DATE, DATE, TEXT, TEXT, TEXT) TO service_role;
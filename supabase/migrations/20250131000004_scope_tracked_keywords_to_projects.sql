@@ -0,0 +1,228 @@
+-- Tracked keywords are bound to the project whose data keeps them current. Before this, every
+-- project sync overwrote the same row, so a query shared by two projects flipped position (and
+-- raised a ranking notification) on each sync.
+ALTER TABLE tracked_keywords
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tracked_keywords_project_id ON tracked_keywords(project_id);
+
+-- Users with a single project have nothing to choose between
+UPDATE tracked_keywords tk
+SET project_id = only_project.id
+FROM (
+    SELECT ui.email, MIN(p.id::TEXT)::UUID AS id
+    FROM projects p
+    JOIN user_installations ui ON ui.user_id = p.user_id
+    GROUP BY ui.email
+    HAVING COUNT(*) = 1
+) only_project
+WHERE tk.user_email = only_project.email
+    AND tk.project_id IS NULL;
+
+-- Ranking notifications now name the project the position came from
+CREATE OR REPLACE FUNCTION notify_tracked_keyword_position_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+    prefs notification_preferences%ROWTYPE;
+    position_change FLOAT;
+BEGIN
+    SELECT user_id INTO owner_id
+    FROM user_installations
+    WHERE email = NEW.user_email;
+
+    IF owner_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO prefs FROM notification_preferences WHERE user_id = owner_id;
+
+    -- Defaults apply until the user saves their preferences
+    IF FOUND AND NOT prefs.ranking_changes THEN
+        RETURN NEW;
+    END IF;
+
+    -- Positive change means the keyword moved up
+    position_change := OLD.current_position - NEW.current_position;
+
+    IF abs(position_change) >= COALESCE(prefs.ranking_change_threshold, 3) THEN
+        INSERT INTO notifications (user_id, project_id, type, title, message, data)
+        VALUES (
+            owner_id,
+            NEW.project_id,
+            'ranking_change',
+            format('"%s" moved %s %s positions', NEW.keyword, CASE WHEN position_change > 0 THEN 'up' ELSE 'down' END, round(abs(position_change)::NUMERIC, 1)),
+            format('Position changed from %s to %s.', round(OLD.current_position::NUMERIC, 1), round(NEW.current_position::NUMERIC, 1)),
+            jsonb_build_object(
+                'keyword', NEW.keyword,
+                'previous_position', OLD.current_position,
+                'current_position', NEW.current_position
+            )
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A project claiming an unbound keyword is not a position change
+DROP TRIGGER IF EXISTS trigger_notify_tracked_keyword_position_change ON tracked_keywords;
+
+CREATE TRIGGER trigger_notify_tracked_keyword_position_change
+AFTER UPDATE OF current_position ON tracked_keywords
+FOR EACH ROW
+WHEN (
+    OLD.current_position IS NOT NULL
+    AND NEW.current_position IS NOT NULL
+    AND OLD.current_position IS DISTINCT FROM NEW.current_position
+    AND OLD.project_id IS NOT DISTINCT FROM NEW.project_id
+)
+EXECUTE FUNCTION notify_tracked_keyword_position_change();
+
+-- Same as before, except that only keywords bound to the synced project are refreshed. A keyword
+-- not yet bound to any project is claimed by the first project whose data contains it.
+CREATE OR REPLACE FUNCTION generate_project_notifications(
+    p_project_id UUID,
+    p_since DATE DEFAULT NULL
+) RETURNS INTEGER LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    project_row projects%ROWTYPE;
+    prefs notification_preferences%ROWTYPE;
+    has_prefs BOOLEAN;
+    owner_email TEXT;
+    latest_date DATE;
+    new_query_count INTEGER := 0;
+    new_queries JSONB;
+    current_clicks BIGINT;
+    previous_clicks BIGINT;
+    current_impressions BIGINT;
+    previous_impressions BIGINT;
+BEGIN
+    SELECT * INTO project_row
+    FROM projects
+    WHERE id = p_project_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project not found';
+    END IF;
+
+    SELECT * INTO prefs FROM notification_preferences WHERE user_id = project_row.user_id;
+    has_prefs := FOUND;
+
+    SELECT MAX(date) INTO latest_date FROM gsc_data WHERE project_id = p_project_id;
+    IF latest_date IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT email INTO owner_email FROM user_installations WHERE user_id = project_row.user_id;
+    IF owner_email IS NOT NULL THEN
+        UPDATE tracked_keywords tk
+        SET project_id = p_project_id,
+            previous_position = tk.current_position,
+            current_position = totals."position",
+            clicks = totals.clicks,
+            impressions = totals.impressions,
+            ctr = totals.ctr,
+            last_updated = NOW()
+        FROM (
+            SELECT
+                gsc_data.query,
+                SUM(gsc_data.clicks) AS clicks,
+                SUM(gsc_data.impressions) AS impressions,
+                CASE WHEN SUM(gsc_data.impressions) > 0 THEN SUM(gsc_data.clicks)::FLOAT / SUM(gsc_data.impressions) ELSE 0 END AS ctr,
+                SUM(gsc_data."position" * gsc_data.impressions)::FLOAT / NULLIF(SUM(gsc_data.impressions), 0) AS "position"
+            FROM gsc_data
+            WHERE gsc_data.project_id = p_project_id
+                AND gsc_data.date > latest_date - 7
+            GROUP BY gsc_data.query
+        ) totals
+        WHERE tk.user_email = owner_email
+            AND tk.is_active = true
+            AND (tk.project_id = p_project_id OR tk.project_id IS NULL)
+            AND lower(tk.keyword) = lower(totals.query)
+            AND totals."position" IS NOT NULL;
+    END IF;
+
+    -- Skip the initial backfill, where every query is new
+    IF p_since IS NOT NULL
+        AND (NOT has_prefs OR prefs.new_keywords)
+        AND EXISTS (SELECT 1 FROM gsc_data WHERE project_id = p_project_id AND date < p_since)
+    THEN
+        WITH first_seen AS (
+            SELECT n.query, SUM(n.impressions) AS impressions
+            FROM gsc_data n
+            WHERE n.project_id = p_project_id
+                AND n.date >= p_since
+                AND NOT EXISTS (
+                    SELECT 1 FROM gsc_data o
+                    WHERE o.project_id = p_project_id
+                        AND o.query = n.query
+                        AND o.date < p_since
+                )
+            GROUP BY n.query
+        )
+        SELECT
+            COUNT(*),
+            COALESCE(
+                (SELECT jsonb_agg(top.query) FROM (SELECT query FROM first_seen ORDER BY impressions DESC LIMIT 20) top),
+                '[]'::jsonb
+            )
+        INTO new_query_count, new_queries
+        FROM first_seen;
+
+        IF new_query_count > 0 THEN
+            INSERT INTO notifications (user_id, project_id, type, title, message, data)
+            VALUES (
+                project_row.user_id,
+                p_project_id,
+                'new_keywords',
+                format('%s new %s in %s', new_query_count, CASE WHEN new_query_count = 1 THEN 'query' ELSE 'queries' END, project_row.name),
+                format('Queries that appeared for the first time since %s.', p_since),
+                jsonb_build_object('count', new_query_count, 'queries', new_queries, 'since', p_since)
+            );
+        END IF;
+    END IF;
+
+    IF has_prefs AND prefs.weekly_report AND NOT EXISTS (
+        SELECT 1 FROM notifications
+        WHERE user_id = project_row.user_id
+            AND project_id = p_project_id
+            AND type = 'weekly_report'
+            AND created_at > NOW() - INTERVAL '7 days'
+    ) THEN
+        SELECT
+            COALESCE(SUM(clicks) FILTER (WHERE date > latest_date - 7), 0),
+            COALESCE(SUM(clicks) FILTER (WHERE date <= latest_date - 7), 0),
+            COALESCE(SUM(impressions) FILTER (WHERE date > latest_date - 7), 0),
+            COALESCE(SUM(impressions) FILTER (WHERE date <= latest_date - 7), 0)
+        INTO current_clicks, previous_clicks, current_impressions, previous_impressions
+        FROM gsc_data
+        WHERE project_id = p_project_id
+            AND date > latest_date - 14;
+
+        INSERT INTO notifications (user_id, project_id, type, title, message, data)
+        VALUES (
+            project_row.user_id,
+            p_project_id,
+            'weekly_report',
+            format('Weekly summary for %s', project_row.name),
+            format('%s clicks and %s impressions in the 7 days to %s (previous week: %s clicks, %s impressions).',
+                current_clicks, current_impressions, latest_date, previous_clicks, previous_impressions),
+            jsonb_build_object(
+                'end_date', latest_date,
+                'clicks', current_clicks,
+                'previous_clicks', previous_clicks,
+                'impressions', current_impressions,
+                'previous_impressions', previous_impressions
+            )
+        );
+    END IF;
+
+    RETURN new_query_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_project_notifications(UUID, DATE) TO authenticated;
@@ -0,0 +1,24 @@
+-- Predictions are unique per project and query, so a row written under someone else's project
+-- would shadow the owner's prediction for that query. Rows must belong to a project the user owns.
+DELETE FROM keyword_intent_predictions kip
+WHERE NOT EXISTS (
+    SELECT 1 FROM projects p WHERE p.id = kip.project_id AND p.user_id = kip.user_id
+);
+
+DROP POLICY IF EXISTS "Users can create their own intent predictions" ON keyword_intent_predictions;
+DROP POLICY IF EXISTS "Users can update their own intent predictions" ON keyword_intent_predictions;
+
+CREATE POLICY "Users can create their own intent predictions" ON keyword_intent_predictions
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update their own intent predictions" ON keyword_intent_predictions
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
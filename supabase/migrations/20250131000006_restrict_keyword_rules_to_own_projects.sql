@@ -0,0 +1,23 @@
+-- Keyword rules must belong to a project the user owns, not just carry the user's id
+DELETE FROM keyword_classification_rules kcr
+WHERE NOT EXISTS (
+    SELECT 1 FROM projects p WHERE p.id = kcr.project_id AND p.user_id = kcr.user_id
+);
+
+DROP POLICY IF EXISTS "Users can create their own keyword rules" ON keyword_classification_rules;
+DROP POLICY IF EXISTS "Users can update their own keyword rules" ON keyword_classification_rules;
+
+CREATE POLICY "Users can create their own keyword rules" ON keyword_classification_rules
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update their own keyword rules" ON keyword_classification_rules
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
@@ -0,0 +1,36 @@
+-- Record an export against the user's monthly allowance in one step. Returns the new
+-- data_exports id, or NULL when the allowance is used up; a NULL p_limit means unlimited.
+CREATE OR REPLACE FUNCTION claim_data_export(p_user_email TEXT, p_export_type TEXT, p_limit INTEGER)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_used INTEGER;
+    v_export_id UUID;
+BEGIN
+    -- Serialise claims per user so concurrent exports can't both slip under the limit
+    PERFORM pg_advisory_xact_lock(hashtext('data_exports:' || p_user_email));
+
+    IF p_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_used
+        FROM data_exports
+        WHERE user_email = p_user_email
+            AND created_at >= date_trunc('month', CURRENT_TIMESTAMP AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+        IF v_used >= p_limit THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO data_exports (user_email, export_type)
+    VALUES (p_user_email, p_export_type)
+    RETURNING id INTO v_export_id;
+
+    RETURN v_export_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_data_export(TEXT, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_data_export(TEXT, TEXT, INTEGER) TO service_role;